@@ -1,4 +1,4 @@
-import { useCallback } from "react";
+import { useCallback, useState } from "react";
 import { AppStateProvider } from "./contexts/AppStateContext";
 import { useAppState } from "./contexts/AppStateContext";
 import { AppPhaseConstants, DEFAULT_SEAT_ROWS, DEFAULT_SEAT_COLS } from "./constants";
@@ -6,49 +6,94 @@ import Layout from "./components/Layout/Layout";
 import OutputPanel from "./components/Output/OutputPanel";
 
 import StudentInput from "./components/Student/StudentInput"; // フェーズ 1
+import RosterMergeDialog from "./components/Student/RosterMergeDialog";
 import SeatConfig from "./components/Config/SeatConfig";
 import FixedSeatConfig from "./components/Config/FixedSeatConfig";
+import ConstraintConfig from "./components/Config/ConstraintConfig";
 import RouletteDisplay from "./components/Roulette/RouletteDisplay";
 import SeatingChart from "./components/Chart/SeatingChart";
 
 // MUI Typography をインポート（デフォルトケースの表示用）
 import { Typography, Box } from "@mui/material";
-import type { SeatMapData } from "./types/Seat";
 import type { Student } from "./types/Student";
-import type { FixedSeatAssignment } from "./types/Seat";
+import type { StudentAttributeSchema } from "./types/Attribute";
+import { reconcileRoster, diffRoster, applyRosterDiff, pruneRemovedStudents } from "./utils/roster";
+import type { RosterDiff, RosterState } from "./utils/roster";
+import { createGridSeatMap } from "./utils/seatLayout";
 
 function AppContent() {
   const { 
     students, setStudents,
     seatMap, setSeatMap,
+    seatGroups, setSeatGroups,
+    roomFeatures, setRoomFeatures,
     appPhase, setAppPhase,
     fixedSeatAssignments, setFixedSeatAssignments,
+    seatZoneAssignments, setSeatZoneAssignments,
+    seatingConstraints, setSeatingConstraints,
+    setRouletteState,
+    attributeSchema, setAttributeSchema,
+    editHistory,
   } = useAppState();
 
-  // 生徒情報読み込み完了ハンドラ
-  const handleStudentsLoaded = useCallback((loadedStudents: Student[]) => {
-    setStudents(loadedStudents); // Context の生徒状態を更新
+  // 再読み込み時に差分の確認待ちになっている名簿
+  const [pendingRoster, setPendingRoster] = useState<{ students: Student[]; attributeSchema: StudentAttributeSchema; diff: RosterDiff } | null>(null);
+
+  // 名簿の変更結果を Context に反映する
+  const commitRoster = useCallback((roster: RosterState, attributeSchema: StudentAttributeSchema) => {
+    setStudents(roster.students); // Context の生徒状態を更新
+    setAttributeSchema(attributeSchema);
+    setFixedSeatAssignments(roster.fixedSeatAssignments);
+    // 名簿にいなくなった生徒は、座席の範囲と席替えの条件からも取り除く
+    const pruned = pruneRemovedStudents(roster.students, seatZoneAssignments, seatingConstraints);
+    setSeatZoneAssignments(pruned.seatZoneAssignments);
+    setSeatingConstraints(pruned.seatingConstraints);
+    const loadedIds = new Set(roster.students.map(s => s.id));
+    setRouletteState(prev => ({
+      ...prev,
+      currentAssigningStudent: null,
+      winningHistory: prev.winningHistory.filter(h => loadedIds.has(h.studentId)),
+    }));
 
     // 生徒情報が読み込まれたら、デフォルトの座席マップを生成してセット
     // 既存の座席マップがない場合のみ生成
     if (!seatMap || seatMap.length === 0) {
-      const initialSeatMap: SeatMapData[] = [];
-      for (let r = 0; r < DEFAULT_SEAT_ROWS; r++) {
-        for (let c = 0; c < DEFAULT_SEAT_COLS; c++) {
-          initialSeatMap.push({
-            seatId: `R${r + 1}C${c + 1}`,
-            assignedStudentId: null,
-            isUsable: true, // デフォルトは全て使用可能
-            row: r + 1, // 行番号を1から始める
-            col: c + 1, // 列番号を1から始める
-          });
-        }
-      }
-      setSeatMap(initialSeatMap); // Context の座席マップ状態を更新
+      setSeatMap(createGridSeatMap(DEFAULT_SEAT_ROWS, DEFAULT_SEAT_COLS)); // Context の座席マップ状態を更新
+    } else {
+      setSeatMap(roster.seatMap);
     }
 
     setAppPhase(AppPhaseConstants.config); // アプリフェーズを次の設定フェーズへ進める
-  }, [setStudents, setSeatMap, setAppPhase, seatMap]);
+    // 名簿の取り込みは元に戻す対象にせず、取り込んだ状態から記録し直す
+    editHistory.clear();
+  }, [editHistory, setStudents, setSeatMap, setAppPhase, setFixedSeatAssignments, setSeatZoneAssignments, setSeatingConstraints, setRouletteState, setAttributeSchema, seatMap, seatZoneAssignments, seatingConstraints]);
+
+  // 名簿を置き換える。生徒IDは名簿の内容から決定的に作られるため、同じ生徒の座席・固定座席・割り当て履歴は引き継ぐ
+  const replaceRoster = useCallback((loadedStudents: Student[], attributeSchema: StudentAttributeSchema) => {
+    commitRoster(reconcileRoster(loadedStudents, seatMap, fixedSeatAssignments), attributeSchema);
+  }, [commitRoster, seatMap, fixedSeatAssignments]);
+
+  // 生徒情報読み込み完了ハンドラ
+  const handleStudentsLoaded = useCallback((loadedStudents: Student[], attributeSchema: StudentAttributeSchema) => {
+    if (students.length === 0) {
+      replaceRoster(loadedStudents, attributeSchema);
+      return;
+    }
+    // 既に名簿がある場合は、差分を確認してから反映する
+    setPendingRoster({ students: loadedStudents, attributeSchema, diff: diffRoster(students, loadedStudents) });
+  }, [students, replaceRoster]);
+
+  const handleRosterMerge = useCallback(() => {
+    if (!pendingRoster) return;
+    commitRoster(applyRosterDiff(pendingRoster.diff, { students, seatMap, fixedSeatAssignments }), pendingRoster.attributeSchema);
+    setPendingRoster(null);
+  }, [pendingRoster, commitRoster, students, seatMap, fixedSeatAssignments]);
+
+  const handleRosterReplace = useCallback(() => {
+    if (!pendingRoster) return;
+    replaceRoster(pendingRoster.students, pendingRoster.attributeSchema);
+    setPendingRoster(null);
+  }, [pendingRoster, replaceRoster]);
   
   const renderPhaseContent = () => {
     switch (appPhase) {
@@ -58,10 +103,15 @@ function AppContent() {
                 />;
       case AppPhaseConstants.config:
         return  <SeatConfig 
-                  currentSeatMap={seatMap}
                   students={students}
-                  onConfigFinished={(updateSeatMap) => {
-                    setSeatMap(updateSeatMap);
+                  onConfigFinished={(updateSeatMap, updateSeatGroups, updateRoomFeatures) => {
+                    // 削除した座席に座っていた生徒は未割り当てに戻し、その座席の固定座席も解除する
+                    const reconciled = reconcileRoster(students, updateSeatMap, fixedSeatAssignments);
+                    setStudents(reconciled.students);
+                    setSeatMap(reconciled.seatMap);
+                    setSeatGroups(updateSeatGroups);
+                    setRoomFeatures(updateRoomFeatures);
+                    setFixedSeatAssignments(reconciled.fixedSeatAssignments);
                     setAppPhase(AppPhaseConstants.fixedSeat); // 座席設定後は関係性設定フェーズへ進む
                   }}
                   onCancel={() => {
@@ -72,11 +122,21 @@ function AppContent() {
         return  <FixedSeatConfig 
                   students={students}
                   seatMap={seatMap}
-                  currentFixedSeatAssignments={fixedSeatAssignments}
-                  onConfigFinished={(updateFixedSeatAssignments: FixedSeatAssignment[]) => {
-                    setFixedSeatAssignments(updateFixedSeatAssignments);
-                    setAppPhase(AppPhaseConstants.roulette); 
+                  seatGroups={seatGroups}
+                  roomFeatures={roomFeatures}
+                  onConfigFinished={() => setAppPhase(AppPhaseConstants.constraints)}
+                  onCancel={() => {
+                    // キャンセル時の処理 (必要に応じて実装)
                   }}
+                />;
+      case AppPhaseConstants.constraints:
+        return  <ConstraintConfig
+                  students={students}
+                  seatMap={seatMap}
+                  fixedSeatAssignments={fixedSeatAssignments}
+                  seatZoneAssignments={seatZoneAssignments}
+                  attributeSchema={attributeSchema}
+                  onConfigFinished={() => setAppPhase(AppPhaseConstants.roulette)}
                   onCancel={() => {
                     // キャンセル時の処理 (必要に応じて実装)
                   }}
@@ -96,6 +156,14 @@ function AppContent() {
   return (
     <Layout>
       {renderPhaseContent()}
+      <RosterMergeDialog
+        open={pendingRoster !== null}
+        diff={pendingRoster?.diff ?? null}
+        attributeSchema={pendingRoster?.attributeSchema ?? []}
+        onMerge={handleRosterMerge}
+        onReplace={handleRosterReplace}
+        onCancel={() => setPendingRoster(null)}
+      />
     </Layout>
   );
 }
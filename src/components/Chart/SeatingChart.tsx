@@ -1,11 +1,16 @@
 import React, { useCallback, useMemo, useEffect } from 'react';
-import { Box, Typography, Button, Paper } from '@mui/material';
+import { Box, Typography, Button, Paper, Alert, AlertTitle } from '@mui/material';
 import { DragDropContext } from '@hello-pangea/dnd';
 import type { DropResult } from '@hello-pangea/dnd'; // hello-pangea/dnd の DropResult をインポート
 import SeatMapChart from '../Seat/SeatMapChart';
+import ChartOrientationToggle from '../Seat/ChartOrientationToggle';
+import UndoRedoButtons from '../Layout/UndoRedoButtons';
 import { useAppState } from '../../contexts/AppStateContext'; // AppStateContext から必要なものをインポート
 import type { Student } from '../../types/Student'; // Student 型をインポート
 import type { SeatMapData } from '../../types/Seat'; // SeatMapData をインポート
+import { getSeatingTargets, indexStudentsById } from '../../utils/roster';
+import { describeSeatingConstraint, findSeatingConstraintViolations } from '../../utils/seatingConstraints';
+import { describeAttributeRule, evaluateAttributeRules } from '../../utils/attributeRules';
 
 interface SeatingChartProps {
   // AppStateContext から必要な状態を取得するため、特定のPropsは不要
@@ -21,11 +26,23 @@ const SeatingChart: React.FC<SeatingChartProps> = () => {
     setSeatMap,
     appPhase,
     setAppPhase,
+    attributeSchema,
+    studentPhotos,
+    photoDisplay,
+    seatGroups,
+    roomFeatures,
+    chartOrientation,
+    setChartOrientation,
+    seatingConstraints,
+    attributeRules,
   } = useAppState();
 
-  // まだ席が決まっていない生徒
+  // 写真の表示が有効な場合だけ座席に写真を渡す
+  const projectorPhotos = photoDisplay.showOnProjector ? studentPhotos : undefined;
+
+  // まだ席が決まっていない生徒（席替えから除外された生徒は含めない）
   const unassignedStudents = useMemo(
-    () => students.filter((s) => !s.assignedSeatId),
+    () => getSeatingTargets(students).filter((s) => !s.assignedSeatId),
     [students]
   );
 
@@ -40,6 +57,26 @@ const SeatingChart: React.FC<SeatingChartProps> = () => {
     }
   }, [appPhase, unassignedStudents.length, setAppPhase]); // 依存配列にunassignedStudents.lengthを追加
 
+  // 手動の入れ替えで席替えの条件を満たさなくなった生徒と、その座席
+  const constraintViolations = useMemo(
+    () => findSeatingConstraintViolations(seatingConstraints, students, seatMap),
+    [seatingConstraints, students, seatMap]
+  );
+  const violationSeatIds = useMemo(() => {
+    const studentIds = new Set(constraintViolations.flatMap(violation => violation.studentIds));
+    return new Set(seatMap.filter(seat => seat.assignedStudentId && studentIds.has(seat.assignedStudentId)).map(seat => seat.seatId));
+  }, [constraintViolations, seatMap]);
+  const violationMessages = useMemo(() => {
+    const studentById = indexStudentsById(students);
+    return Array.from(new Set(constraintViolations.map(violation => describeSeatingConstraint(violation.constraint, studentById))));
+  }, [constraintViolations, students]);
+
+  // 属性の並べ方にどれだけ合っているか（手動で入れ替えると変わる）
+  const attributeRuleScores = useMemo(
+    () => evaluateAttributeRules(attributeRules, attributeSchema, students, seatMap),
+    [attributeRules, attributeSchema, students, seatMap]
+  );
+
   // ドラッグ＆ドロップの終了時のハンドラ（座席調整フェーズ用）
   const handleMoveStudent = useCallback((result: DropResult) => {
     // appPhase が 'chart' (座席調整フェーズ) でない場合は何もしない
@@ -111,6 +148,11 @@ const SeatingChart: React.FC<SeatingChartProps> = () => {
          '座席表'}
       </Typography>
 
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <ChartOrientationToggle value={chartOrientation} onChange={setChartOrientation} />
+        {appPhase === 'chart' && <UndoRedoButtons />}
+      </Box>
+
       {/* まだ席が決まっていない生徒がいる場合の注意メッセージ */}
       {appPhase !== 'roulette' && unassignedStudents.length > 0 && (
           <Paper elevation={3} sx={{ p: 2, bgcolor: 'error.light', color: 'white', minWidth: 200, textAlign: 'center' }}>
@@ -132,16 +174,49 @@ const SeatingChart: React.FC<SeatingChartProps> = () => {
           </Paper>
         )}
 
+      {/* 手動の入れ替えで席替えの条件を満たさなくなった場合の注意メッセージ */}
+      {violationMessages.length > 0 && (
+        <Alert severity="warning">
+          <AlertTitle>席替えの条件を満たしていない生徒がいます（該当する座席を強調しています）</AlertTitle>
+          {violationMessages.map(message => (
+            <Typography key={message} variant="body2">{message}</Typography>
+          ))}
+        </Alert>
+      )}
+
+      {/* 属性の並べ方にどれだけ合っているかのまとめ */}
+      {attributeRuleScores.length > 0 && (
+        <Alert severity="info">
+          <AlertTitle>属性の並べ方</AlertTitle>
+          {attributeRuleScores.map(score => (
+            <Typography key={score.rule.id} variant="body2">
+              {describeAttributeRule(score.rule, attributeSchema)}
+              {score.total === 0
+                ? '（判定できる生徒がいません）'
+                : ` ${score.met} / ${score.total}（${Math.round(score.met / score.total * 100)}%）`}
+            </Typography>
+          ))}
+          <Typography variant="caption" color="text.secondary">
+            隣の席の並べ方は並べ方に合っている隣の組の数、均等にする並べ方は均等になっている班・行の数です。
+          </Typography>
+        </Alert>
+      )}
+
       {/* D&Dコンテキストは、D&Dが有効なフェーズまたは最終表示フェーズでラップする */}
       {isDragAndDropActive || appPhase === 'finished' ? (
         <DragDropContext onDragEnd={handleMoveStudent}>
           <SeatMapChart
             seatMap={seatMap}
             students={students}
-            highlightedSeatIds={new Set()} // 調整/最終フェーズではハイライト不要
+            highlightedSeatIds={violationSeatIds} // 条件を満たしていない生徒の座席を強調する
             onClickSeat={undefined} // 調整/最終フェーズではクリックによる割り当ては行わない
             displayMode="final" // 最終表示モード
             isDragAndDropEnabled={isDragAndDropActive} // D&Dを有効にするかどうかを appPhase で制御
+            attributeSchema={attributeSchema}
+            studentPhotos={projectorPhotos}
+            seatGroups={seatGroups}
+            roomFeatures={roomFeatures}
+            orientation={chartOrientation}
           />
         </DragDropContext>
       ) : (
@@ -154,6 +229,11 @@ const SeatingChart: React.FC<SeatingChartProps> = () => {
           onClickSeat={undefined} // このフェーズではクリックによる割り当ては行わない
           displayMode="assign" // 表示モードは'assign'または'config'に適宜変更してください
           isDragAndDropEnabled={false} // D&Dを無効にする
+          attributeSchema={attributeSchema}
+          studentPhotos={projectorPhotos}
+          seatGroups={seatGroups}
+          roomFeatures={roomFeatures}
+          orientation={chartOrientation}
         />
       )}
 
@@ -0,0 +1,426 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Button,
+  List,
+  ListItem,
+  ListItemText,
+  IconButton,
+  Alert,
+  AlertTitle,
+  Divider,
+  Autocomplete,
+  TextField,
+  MenuItem,
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import ClearAllIcon from '@mui/icons-material/ClearAll';
+import AddIcon from '@mui/icons-material/Add';
+
+import type { Student } from '../../types/Student';
+import type { FixedSeatAssignment, SeatMapData, SeatZoneAssignment } from '../../types/Seat';
+import type {
+  AttributeRuleKind,
+  KeepApartRule,
+  KeepTogetherRule,
+  SeatingConstraintKind,
+} from '../../types/Constraint';
+import type { StudentAttributeSchema } from '../../types/Attribute';
+
+import UndoRedoButtons from '../Layout/UndoRedoButtons';
+import { useAppState } from '../../contexts/AppStateContext';
+import { getSeatingTargets, indexStudentsById } from '../../utils/roster';
+import {
+  createKeepApartConstraint,
+  createKeepTogetherConstraint,
+  describeSeatingConstraint,
+  getSeatingConstraintRuleDescription,
+} from '../../utils/seatingConstraints';
+import { createAttributeRule, describeAttributeRule } from '../../utils/attributeRules';
+import { assignRemainingSeats } from '../../utils/assignmentEngine';
+import {
+  ATTRIBUTE_RULE_KINDS,
+  KEEP_APART_DEFAULT_DISTANCE,
+  KEEP_APART_MAX_DISTANCE,
+  KEEP_APART_RULES,
+  KEEP_TOGETHER_RULES,
+  SEATING_CONSTRAINT_KINDS,
+  SEATING_CONSTRAINT_MAX_STUDENTS,
+} from '../../constants';
+
+interface ConstraintConfigProps {
+  students: Student[];
+  seatMap: SeatMapData[];
+  fixedSeatAssignments: FixedSeatAssignment[];
+  seatZoneAssignments: SeatZoneAssignment[];
+  attributeSchema: StudentAttributeSchema;
+  onConfigFinished: () => void;
+  onCancel: () => void;
+}
+
+const ConstraintConfig: React.FC<ConstraintConfigProps> = ({
+  students,
+  seatMap,
+  fixedSeatAssignments,
+  seatZoneAssignments,
+  attributeSchema,
+  onConfigFinished,
+  onCancel,
+}) => {
+  // 条件・並べ方は Context を直接編集し、追加・削除・全クリアを共通の履歴で元に戻せるようにする
+  const { seatingConstraints, setSeatingConstraints, attributeRules, setAttributeRules } = useAppState();
+  const [selectedStudents, setSelectedStudents] = useState<Student[]>([]);
+  const [kind, setKind] = useState<SeatingConstraintKind>('keepApart');
+  const [rule, setRule] = useState<KeepApartRule>('notAdjacent');
+  const [togetherRule, setTogetherRule] = useState<KeepTogetherRule>('adjacent');
+  const [distance, setDistance] = useState(KEEP_APART_DEFAULT_DISTANCE);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [ruleAttributeId, setRuleAttributeId] = useState(attributeSchema[0]?.id ?? '');
+  const [ruleKind, setRuleKind] = useState<AttributeRuleKind>('checkerboard');
+
+  // 席替えから除外された生徒は条件に加えられない
+  const sortedStudents = useMemo(() => {
+    return getSeatingTargets(students).sort((a, b) => Number(a.number) - Number(b.number));
+  }, [students]);
+
+  const studentById = useMemo(() => indexStudentsById(students), [students]);
+
+  // 隣の席にする条件は2人の組だけ
+  const maxStudents = kind === 'keepTogether' && togetherRule === 'adjacent' ? 2 : SEATING_CONSTRAINT_MAX_STUDENTS;
+
+  // まだ誰も座っていない教室に、固定座席・座席の範囲と条件を満たして全員を座らせられるかを確かめる
+  const unsatisfiableMessages = useMemo(() => {
+    if (seatingConstraints.length === 0) return [];
+    const { issues } = assignRemainingSeats({
+      students: students.map(s => ({ ...s, isAssigned: false, assignedSeatId: null })),
+      seatMap: seatMap.map(seat => ({ ...seat, assignedStudentId: null })),
+      fixedSeatAssignments,
+      seatZoneAssignments,
+      seatingConstraints: seatingConstraints,
+      // 並べ方は必ず満たすものではないため、全員を座らせられるかには関係しない
+      attributeRules: [],
+    });
+    return issues
+      .filter(issue => issue.kind === 'constraintUnsatisfiable' || issue.kind === 'constraintSearchLimit')
+      .map(issue => issue.message);
+  }, [students, seatMap, fixedSeatAssignments, seatZoneAssignments, seatingConstraints]);
+
+  const handleAddConstraint = useCallback(() => {
+    if (selectedStudents.length < 2) {
+      setErrorMessage('生徒を2人以上選択してください。');
+      return;
+    }
+    if (selectedStudents.length > maxStudents) {
+      setErrorMessage(`「${KEEP_TOGETHER_RULES.adjacent.label}」は2人の組だけ設定できます。`);
+      return;
+    }
+    if (kind === 'keepApart' && rule === 'minDistance' && !(distance >= 2 && distance <= KEEP_APART_MAX_DISTANCE)) {
+      setErrorMessage(`離す席数は 2〜${KEEP_APART_MAX_DISTANCE} の範囲で入力してください。`);
+      return;
+    }
+    const studentIds = selectedStudents.map(s => s.id);
+    setSeatingConstraints(prev => [
+      ...prev,
+      kind === 'keepApart'
+        ? createKeepApartConstraint(prev, studentIds, rule, distance)
+        : createKeepTogetherConstraint(prev, studentIds, togetherRule),
+    ]);
+    setSelectedStudents([]);
+    setErrorMessage(null);
+  }, [selectedStudents, maxStudents, kind, rule, distance, togetherRule, setSeatingConstraints]);
+
+  const handleDeleteConstraint = useCallback((id: string) => {
+    setSeatingConstraints(prev => prev.filter(constraint => constraint.id !== id));
+  }, [setSeatingConstraints]);
+
+  const handleClearAllConstraints = useCallback(() => {
+    if (window.confirm('全ての条件を削除してもよろしいですか？')) {
+      setSeatingConstraints([]);
+    }
+  }, [setSeatingConstraints]);
+
+  const handleAddAttributeRule = useCallback(() => {
+    if (!attributeSchema.some(def => def.id === ruleAttributeId)) {
+      setErrorMessage('並べ方に使う属性を選択してください。');
+      return;
+    }
+    if (attributeRules.some(existing => existing.attributeId === ruleAttributeId && existing.kind === ruleKind)) {
+      setErrorMessage('同じ並べ方がすでに設定されています。');
+      return;
+    }
+    setAttributeRules(prev => [...prev, createAttributeRule(prev, ruleAttributeId, ruleKind)]);
+    setErrorMessage(null);
+  }, [attributeSchema, attributeRules, ruleAttributeId, ruleKind, setAttributeRules]);
+
+  const handleDeleteAttributeRule = useCallback((id: string) => {
+    setAttributeRules(prev => prev.filter(attributeRule => attributeRule.id !== id));
+  }, [setAttributeRules]);
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Typography variant="h4" component="h1" gutterBottom>
+        席替えの条件
+      </Typography>
+      <Typography variant="body1" color="text.secondary" sx={{ mb: 3 }}>
+        近くに座らせない生徒の組・近くに座らせる生徒の組を設定します。ルーレット・一括割り当ては、条件を満たす座席の中から選び、近くに座らせる組は一緒に発表します。
+        生徒の属性（性別・部活動など）を使った並べ方も設定でき、条件を満たす座席の中からできるだけ並べ方に合う座席を選びます。
+      </Typography>
+      <Divider sx={{ mb: 3 }} />
+
+      {errorMessage && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setErrorMessage(null)}>
+          <AlertTitle>エラー</AlertTitle>
+          {errorMessage}
+        </Alert>
+      )}
+
+      {unsatisfiableMessages.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 3 }}>
+          <AlertTitle>現在の座席レイアウト・固定座席では条件を満たせません</AlertTitle>
+          {unsatisfiableMessages.map(message => (
+            <Typography key={message} variant="body2">{message}</Typography>
+          ))}
+        </Alert>
+      )}
+
+      {/* 条件の追加 */}
+      <Paper elevation={2} sx={{ p: 2, mb: 3 }}>
+        <Typography variant="subtitle1" sx={{ fontWeight: 'bold', mb: 2 }}>
+          条件の追加
+        </Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+          <TextField
+            select
+            size="small"
+            label="条件の種類"
+            value={kind}
+            onChange={(e) => {
+              setErrorMessage(null);
+              setKind(e.target.value as SeatingConstraintKind);
+            }}
+            sx={{ minWidth: 180 }}
+          >
+            {(Object.keys(SEATING_CONSTRAINT_KINDS) as SeatingConstraintKind[]).map(key => (
+              <MenuItem key={key} value={key}>{SEATING_CONSTRAINT_KINDS[key].label}</MenuItem>
+            ))}
+          </TextField>
+          <Autocomplete<Student, true>
+            multiple
+            options={sortedStudents}
+            getOptionLabel={(s: Student) => `${s.number}番 ${s.name}`}
+            value={selectedStudents}
+            onChange={(_: React.SyntheticEvent, value: Student[]) => {
+              setErrorMessage(null);
+              setSelectedStudents(value);
+            }}
+            getOptionDisabled={(s: Student) =>
+              selectedStudents.length >= maxStudents && !selectedStudents.some(selected => selected.id === s.id)
+            }
+            isOptionEqualToValue={(option: Student, value: Student) => option.id === value.id}
+            size="small"
+            sx={{ minWidth: 280, flexGrow: 1 }}
+            noOptionsText="生徒がいません"
+            renderInput={(params) => (
+              <TextField {...params} label={maxStudents === 2 ? '生徒を選択（2人）' : `生徒を選択（2〜${maxStudents}人）`} />
+            )}
+          />
+          {kind === 'keepApart' ? (
+            <TextField
+              select
+              size="small"
+              label="離し方"
+              value={rule}
+              onChange={(e) => setRule(e.target.value as KeepApartRule)}
+              sx={{ minWidth: 160 }}
+            >
+              {(Object.keys(KEEP_APART_RULES) as KeepApartRule[]).map(key => (
+                <MenuItem key={key} value={key}>{KEEP_APART_RULES[key].label}</MenuItem>
+              ))}
+            </TextField>
+          ) : (
+            <TextField
+              select
+              size="small"
+              label="座らせ方"
+              value={togetherRule}
+              onChange={(e) => {
+                setErrorMessage(null);
+                setTogetherRule(e.target.value as KeepTogetherRule);
+              }}
+              sx={{ minWidth: 160 }}
+            >
+              {(Object.keys(KEEP_TOGETHER_RULES) as KeepTogetherRule[]).map(key => (
+                <MenuItem key={key} value={key}>{KEEP_TOGETHER_RULES[key].label}</MenuItem>
+              ))}
+            </TextField>
+          )}
+          {kind === 'keepApart' && rule === 'minDistance' && (
+            <TextField
+              type="number"
+              size="small"
+              label="席数"
+              value={distance}
+              onChange={(e) => setDistance(Number(e.target.value))}
+              slotProps={{ htmlInput: { min: 2, max: KEEP_APART_MAX_DISTANCE } }}
+              sx={{ width: 96 }}
+            />
+          )}
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={handleAddConstraint}
+            disabled={selectedStudents.length < 2 || selectedStudents.length > maxStudents}
+          >
+            追加
+          </Button>
+        </Box>
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+          {SEATING_CONSTRAINT_KINDS[kind].description}。
+          {kind === 'keepApart' ? KEEP_APART_RULES[rule].description : KEEP_TOGETHER_RULES[togetherRule].description}。
+          {maxStudents > 2 && '3人以上を選ぶと、どの2人もこの条件を満たすようにします。'}
+        </Typography>
+      </Paper>
+
+      {/* 設定済みの条件 */}
+      <Paper elevation={2} sx={{ p: 2 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+          <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
+            設定済み ({seatingConstraints.length}件)
+          </Typography>
+          <Box sx={{ display: 'flex', alignItems: 'center' }}>
+            <UndoRedoButtons />
+            <IconButton
+              size="small"
+              color="warning"
+              onClick={handleClearAllConstraints}
+              disabled={seatingConstraints.length === 0}
+              title="全クリア"
+            >
+              <ClearAllIcon fontSize="small" />
+            </IconButton>
+          </Box>
+        </Box>
+        <List dense sx={{ maxHeight: 500, overflow: 'auto', border: '1px solid #eee', borderRadius: 1 }}>
+          {seatingConstraints.length === 0 ? (
+            <ListItem>
+              <ListItemText secondary="まだ設定されていません" secondaryTypographyProps={{ variant: 'caption' }} />
+            </ListItem>
+          ) : (
+            seatingConstraints.map(constraint => (
+              <ListItem
+                key={constraint.id}
+                secondaryAction={
+                  <IconButton edge="end" size="small" onClick={() => handleDeleteConstraint(constraint.id)}>
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                }
+                sx={{ py: 0.5 }}
+              >
+                <ListItemText
+                  primary={describeSeatingConstraint(constraint, studentById)}
+                  secondary={`${SEATING_CONSTRAINT_KINDS[constraint.kind].label}: ${getSeatingConstraintRuleDescription(constraint)}`}
+                  primaryTypographyProps={{ variant: 'body2' }}
+                  secondaryTypographyProps={{ variant: 'caption' }}
+                />
+              </ListItem>
+            ))
+          )}
+        </List>
+      </Paper>
+
+      {/* 属性の並べ方 */}
+      <Paper elevation={2} sx={{ p: 2, mt: 3 }}>
+        <Typography variant="subtitle1" sx={{ fontWeight: 'bold', mb: 2 }}>
+          属性の並べ方 ({attributeRules.length}件)
+        </Typography>
+        {attributeSchema.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            生徒の属性が設定されていません。名簿の読み込み画面で属性（性別・部活動など）を設定すると、並べ方を追加できます。
+          </Typography>
+        ) : (
+          <>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+              <TextField
+                select
+                size="small"
+                label="属性"
+                value={ruleAttributeId}
+                onChange={(e) => {
+                  setErrorMessage(null);
+                  setRuleAttributeId(e.target.value);
+                }}
+                sx={{ minWidth: 160 }}
+              >
+                {attributeSchema.map(def => (
+                  <MenuItem key={def.id} value={def.id}>{def.name}</MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                select
+                size="small"
+                label="並べ方"
+                value={ruleKind}
+                onChange={(e) => {
+                  setErrorMessage(null);
+                  setRuleKind(e.target.value as AttributeRuleKind);
+                }}
+                sx={{ minWidth: 180 }}
+              >
+                {(Object.keys(ATTRIBUTE_RULE_KINDS) as AttributeRuleKind[]).map(key => (
+                  <MenuItem key={key} value={key}>{ATTRIBUTE_RULE_KINDS[key].label}</MenuItem>
+                ))}
+              </TextField>
+              <Button variant="contained" startIcon={<AddIcon />} onClick={handleAddAttributeRule} disabled={!ruleAttributeId}>
+                追加
+              </Button>
+            </Box>
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+              {ATTRIBUTE_RULE_KINDS[ruleKind].description}。
+              席替えの条件と違い必ず満たすものではなく、属性の値が空の生徒は並べ方の対象にしません。
+            </Typography>
+          </>
+        )}
+        <List dense sx={{ mt: 2, maxHeight: 300, overflow: 'auto', border: '1px solid #eee', borderRadius: 1 }}>
+          {attributeRules.length === 0 ? (
+            <ListItem>
+              <ListItemText secondary="まだ設定されていません" secondaryTypographyProps={{ variant: 'caption' }} />
+            </ListItem>
+          ) : (
+            attributeRules.map(attributeRule => (
+              <ListItem
+                key={attributeRule.id}
+                secondaryAction={
+                  <IconButton edge="end" size="small" onClick={() => handleDeleteAttributeRule(attributeRule.id)}>
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                }
+                sx={{ py: 0.5 }}
+              >
+                <ListItemText
+                  primary={describeAttributeRule(attributeRule, attributeSchema)}
+                  secondary={ATTRIBUTE_RULE_KINDS[attributeRule.kind].description}
+                  primaryTypographyProps={{ variant: 'body2' }}
+                  secondaryTypographyProps={{ variant: 'caption' }}
+                />
+              </ListItem>
+            ))
+          )}
+        </List>
+      </Paper>
+
+      {/* ナビゲーションボタン */}
+      <Box sx={{ mt: 4, display: 'flex', justifyContent: 'space-between' }}>
+        <Button variant="outlined" color="secondary" onClick={onCancel}>
+          キャンセル
+        </Button>
+        <Button variant="contained" size="large" onClick={onConfigFinished}>
+          条件を確定し次へ
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+export default ConstraintConfig;
@@ -13,65 +13,161 @@ import {
   Divider,
   Autocomplete,
   TextField,
+  Chip,
+  ListItemButton,
+  MenuItem,
+  ToggleButton,
+  ToggleButtonGroup,
 } from '@mui/material';
 import DeleteIcon from '@mui/icons-material/Delete';
 import ClearAllIcon from '@mui/icons-material/ClearAll';
 import ChairIcon from '@mui/icons-material/Chair';
 import ChevronLeftIcon from '@mui/icons-material/ChevronLeft';
 import ChevronRightIcon from '@mui/icons-material/ChevronRight';
+import HighlightAltIcon from '@mui/icons-material/HighlightAlt';
 
 import type { Student } from '../../types/Student';
-import type { SeatMapData } from '../../types/Seat';
-import type { FixedSeatAssignment } from '../../types/Seat';
+import type { SeatGroup, SeatMapData } from '../../types/Seat';
+import type { SeatZone, SeatZoneKind } from '../../types/Seat';
+import type { RoomFeature } from '../../types/RoomFeature';
 
 import SeatMapChart from '../Seat/SeatMapChart';
+import UndoRedoButtons from '../Layout/UndoRedoButtons';
+import { useAppState } from '../../contexts/AppStateContext';
+import { getSeatLabel } from '../../utils/seatLayout';
+import { getAvailableSeatTags, getSeatTagLabel, getSeatsWithTag } from '../../utils/seatTags';
+import { indexStudentsById } from '../../utils/roster';
+import { describeSeatZone, findSeatZoneCapacityIssues, getSeatZoneSeats } from '../../utils/seatZones';
+import { SEAT_ZONE_KINDS } from '../../constants';
 import { DragDropContext } from '@hello-pangea/dnd';
 
 interface FixedSeatConfigProps {
   students: Student[];
   seatMap: SeatMapData[];
-  currentFixedSeatAssignments: FixedSeatAssignment[];
-  onConfigFinished: (updatedConfig: FixedSeatAssignment[]) => void;
+  seatGroups: SeatGroup[];
+  roomFeatures: RoomFeature[];
+  onConfigFinished: () => void;
   onCancel: () => void;
 }
 
 const FixedSeatConfig: React.FC<FixedSeatConfigProps> = ({
   students,
   seatMap,
-  currentFixedSeatAssignments,
+  seatGroups,
+  roomFeatures,
   onConfigFinished,
   onCancel,
 }) => {
-  const [editableFixedSeatAssignments, setEditableFixedSeatAssignments] = useState<FixedSeatAssignment[]>(currentFixedSeatAssignments);
+  // 固定座席・座席の範囲は Context を直接編集し、追加・削除・全クリアを共通の履歴で元に戻せるようにする
+  const { fixedSeatAssignments, setFixedSeatAssignments, seatZoneAssignments, setSeatZoneAssignments } = useAppState();
   const [selectedStudent, setSelectedStudent] = useState<Student | null>(null);
   const [selectedSeatId, setSelectedSeatId] = useState<string | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [sidebarVisible, setSidebarVisible] = useState(true);
+  const [filterTag, setFilterTag] = useState<string | null>(null);
+  // 座席を1つに決めるか、座席の範囲を決めるか
+  const [assignMode, setAssignMode] = useState<'seat' | 'zone'>('seat');
+  const [zoneKind, setZoneKind] = useState<SeatZoneKind>('rows');
+  const [zoneSeatIds, setZoneSeatIds] = useState<string[]>([]);
+  const [zoneRows, setZoneRows] = useState<number[]>([]);
+  const [zoneColumns, setZoneColumns] = useState<number[]>([]);
+  const [zoneTag, setZoneTag] = useState('');
+  // 設定済みの一覧で選んだ座席の範囲（座席表に表示する）
+  const [focusedZoneStudentId, setFocusedZoneStudentId] = useState<string | null>(null);
 
   const sortedStudents = useMemo(() => {
     return [...students].sort((a, b) => Number(a.number) - Number(b.number));
   }, [students]);
 
+  // 固定座席・座席の範囲のどちらかを設定した生徒
   const assignedStudentIds = useMemo(() => {
-    return new Set(editableFixedSeatAssignments.map(a => a.studentId));
-  }, [editableFixedSeatAssignments]);
+    return new Set([...fixedSeatAssignments, ...seatZoneAssignments].map(a => a.studentId));
+  }, [fixedSeatAssignments, seatZoneAssignments]);
 
   const assignedSeatIds = useMemo(() => {
-    return new Set(editableFixedSeatAssignments.map(a => a.seatId));
-  }, [editableFixedSeatAssignments]);
+    return new Set(fixedSeatAssignments.map(a => a.seatId));
+  }, [fixedSeatAssignments]);
 
+  const studentById = useMemo(() => indexStudentsById(students), [students]);
+
+  // 設定中の固定座席の生徒を座席に表示する。座席の表示を描画し直さずに済むよう、設定が変わったときだけ作り直す
+  const displaySeatMap = useMemo(() => {
+    const fixedStudentIdBySeatId = new Map(fixedSeatAssignments.map(a => [a.seatId, a.studentId]));
+    return seatMap.map(seat => ({
+      ...seat,
+      assignedStudentId: fixedStudentIdBySeatId.get(seat.seatId) || seat.assignedStudentId,
+    }));
+  }, [seatMap, fixedSeatAssignments]);
+
+  // 1席以上に付いているタグだけを、座席を探す候補にする
+  const seatTags = useMemo(() => {
+    return getAvailableSeatTags(seatMap).filter(tag => getSeatsWithTag(seatMap, tag).length > 0);
+  }, [seatMap]);
+
+  // 座席の範囲を行・列で決めるときの候補
+  const rowOptions = useMemo(() => {
+    return Array.from(new Set(seatMap.filter(seat => seat.isUsable).map(seat => seat.row))).sort((a, b) => a - b);
+  }, [seatMap]);
+  const columnOptions = useMemo(() => {
+    return Array.from(new Set(seatMap.filter(seat => seat.isUsable).map(seat => seat.col))).sort((a, b) => a - b);
+  }, [seatMap]);
+
+  // 入力中の座席の範囲。まだ何も選んでいない場合は null
+  const draftZone = useMemo((): SeatZone | null => {
+    switch (zoneKind) {
+      case 'seats': return zoneSeatIds.length > 0 ? { kind: 'seats', seatIds: zoneSeatIds } : null;
+      case 'rows': return zoneRows.length > 0 ? { kind: 'rows', rows: zoneRows } : null;
+      case 'columns': return zoneColumns.length > 0 ? { kind: 'columns', columns: zoneColumns } : null;
+      case 'tag': return zoneTag ? { kind: 'tag', tag: zoneTag } : null;
+    }
+  }, [zoneKind, zoneSeatIds, zoneRows, zoneColumns, zoneTag]);
+
+  // 範囲の座席のうち、固定座席に使っていない座席
+  const draftZoneSeats = useMemo(() => {
+    return draftZone ? getSeatZoneSeats(seatMap, draftZone).filter(seat => !assignedSeatIds.has(seat.seatId)) : [];
+  }, [draftZone, seatMap, assignedSeatIds]);
+
+  // 範囲の中の座席の数と、範囲に座らせる生徒の数を確かめる
+  const capacityIssues = useMemo(() => {
+    return findSeatZoneCapacityIssues(students, seatMap, fixedSeatAssignments, seatZoneAssignments);
+  }, [students, seatMap, fixedSeatAssignments, seatZoneAssignments]);
+
+  // 選択中の座席と、タグで探した使用可能な座席、入力中・一覧で選んだ座席の範囲をハイライトする
   const highlightedSeatIds = useMemo(() => {
-    return selectedSeatId ? new Set([selectedSeatId]) : new Set<string>();
-  }, [selectedSeatId]);
+    const ids = new Set<string>();
+    if (assignMode === 'seat') {
+      if (selectedSeatId) ids.add(selectedSeatId);
+      if (filterTag) {
+        getSeatsWithTag(seatMap, filterTag)
+          .filter(seat => seat.isUsable && !assignedSeatIds.has(seat.seatId))
+          .forEach(seat => ids.add(seat.seatId));
+      }
+    } else {
+      draftZoneSeats.forEach(seat => ids.add(seat.seatId));
+    }
+    const focusedZone = seatZoneAssignments.find(a => a.studentId === focusedZoneStudentId)?.zone;
+    if (focusedZone) getSeatZoneSeats(seatMap, focusedZone).forEach(seat => ids.add(seat.seatId));
+    return ids;
+  }, [assignMode, selectedSeatId, filterTag, seatMap, assignedSeatIds, draftZoneSeats, seatZoneAssignments, focusedZoneStudentId]);
 
   const handleSeatClick = useCallback((seatId: string) => {
     setErrorMessage(null);
+    if (assignMode === 'zone') {
+      // 座席を選んで範囲を決めるときだけ、クリックで範囲に加える・外す
+      if (zoneKind !== 'seats') return;
+      if (assignedSeatIds.has(seatId)) {
+        setErrorMessage(`座席 ${getSeatLabel(seatMap, seatId)} は固定座席に使っているため、範囲に加えられません。`);
+        return;
+      }
+      setZoneSeatIds(prev => (prev.includes(seatId) ? prev.filter(id => id !== seatId) : [...prev, seatId]));
+      return;
+    }
     if (assignedSeatIds.has(seatId)) {
-      setErrorMessage(`座席 ${seatId} は既に他の生徒に割り当てられています。`);
+      setErrorMessage(`座席 ${getSeatLabel(seatMap, seatId)} は既に他の生徒に割り当てられています。`);
       return;
     }
     setSelectedSeatId((prev) => (prev === seatId ? null : seatId));
-  }, [assignedSeatIds]);
+  }, [assignMode, zoneKind, assignedSeatIds, seatMap]);
 
   const handleAddAssignment = useCallback(() => {
     if (!selectedStudent || !selectedSeatId) {
@@ -87,30 +183,58 @@ const FixedSeatConfig: React.FC<FixedSeatConfigProps> = ({
       return;
     }
 
-    setEditableFixedSeatAssignments((prev) => [
+    setFixedSeatAssignments((prev) => [
       ...prev,
       { studentId: selectedStudent.id, seatId: selectedSeatId },
     ]);
     setSelectedStudent(null);
     setSelectedSeatId(null);
     setErrorMessage(null);
-  }, [selectedStudent, selectedSeatId, assignedStudentIds, assignedSeatIds]);
+  }, [selectedStudent, selectedSeatId, assignedStudentIds, assignedSeatIds, setFixedSeatAssignments]);
+
+  const handleAddZoneAssignment = useCallback(() => {
+    if (!selectedStudent || !draftZone) {
+      setErrorMessage('生徒と座席の範囲をそれぞれ選択してください。');
+      return;
+    }
+    if (assignedStudentIds.has(selectedStudent.id)) {
+      setErrorMessage('この生徒は既に固定座席か座席の範囲が設定されています。');
+      return;
+    }
+    if (draftZoneSeats.length === 0) {
+      setErrorMessage('この範囲には座れる座席がありません（使用不可の座席・固定座席は範囲に含めません）。');
+      return;
+    }
+
+    setSeatZoneAssignments((prev) => [
+      ...prev,
+      { studentId: selectedStudent.id, zone: draftZone },
+    ]);
+    setSelectedStudent(null);
+    setZoneSeatIds([]);
+    setErrorMessage(null);
+  }, [selectedStudent, draftZone, assignedStudentIds, draftZoneSeats.length, setSeatZoneAssignments]);
 
   const handleDeleteAssignment = useCallback((indexToDelete: number) => {
-    setEditableFixedSeatAssignments((prev) =>
+    setFixedSeatAssignments((prev) =>
       prev.filter((_, index) => index !== indexToDelete)
     );
-  }, []);
+  }, [setFixedSeatAssignments]);
+
+  const handleDeleteZoneAssignment = useCallback((studentId: string) => {
+    setSeatZoneAssignments((prev) => prev.filter(a => a.studentId !== studentId));
+    setFocusedZoneStudentId((prev) => (prev === studentId ? null : prev));
+  }, [setSeatZoneAssignments]);
 
   const handleClearAllAssignments = useCallback(() => {
-    if (window.confirm('全ての固定座席割り当てを削除してもよろしいですか？')) {
-      setEditableFixedSeatAssignments([]);
+    if (window.confirm('全ての固定座席割り当てと座席の範囲を削除してもよろしいですか？')) {
+      setFixedSeatAssignments([]);
+      setSeatZoneAssignments([]);
+      setFocusedZoneStudentId(null);
     }
-  }, []);
+  }, [setFixedSeatAssignments, setSeatZoneAssignments]);
 
-  const handleSaveConfig = useCallback(() => {
-    onConfigFinished(editableFixedSeatAssignments);
-  }, [editableFixedSeatAssignments, onConfigFinished]);
+  const settingCount = fixedSeatAssignments.length + seatZoneAssignments.length;
 
   const onDragEnd = useCallback(() => {}, []);
 
@@ -120,7 +244,7 @@ const FixedSeatConfig: React.FC<FixedSeatConfigProps> = ({
         固定座席設定
       </Typography>
       <Typography variant="body1" color="text.secondary" sx={{ mb: 3 }}>
-        特定の生徒を特定の座席に割り当てます。
+        特定の生徒を特定の座席に割り当てます。座席の範囲（前から2行目まで・窓側など）を決めると、範囲の中の座席からランダムに選びます。
       </Typography>
       <Divider sx={{ mb: 3 }} />
 
@@ -131,20 +255,30 @@ const FixedSeatConfig: React.FC<FixedSeatConfigProps> = ({
         </Alert>
       )}
 
+      {capacityIssues.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 3 }}>
+          <AlertTitle>座席の範囲に全員を座らせられません</AlertTitle>
+          {capacityIssues.map(message => (
+            <Typography key={message} variant="body2">{message}</Typography>
+          ))}
+        </Alert>
+      )}
+
       <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-start' }}>
         {/* サイドバー: 設定済み固定座席 */}
         {sidebarVisible && (
           <Paper elevation={2} sx={{ p: 2, width: 240, flexShrink: 0 }}>
             <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
               <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
-                設定済み ({editableFixedSeatAssignments.length}件)
+                設定済み ({settingCount}件)
               </Typography>
               <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                <UndoRedoButtons />
                 <IconButton
                   size="small"
                   color="warning"
                   onClick={handleClearAllAssignments}
-                  disabled={editableFixedSeatAssignments.length === 0}
+                  disabled={settingCount === 0}
                   title="全クリア"
                 >
                   <ClearAllIcon fontSize="small" />
@@ -155,13 +289,13 @@ const FixedSeatConfig: React.FC<FixedSeatConfigProps> = ({
               </Box>
             </Box>
             <List dense sx={{ maxHeight: 500, overflow: 'auto', border: '1px solid #eee', borderRadius: 1 }}>
-              {editableFixedSeatAssignments.length === 0 ? (
+              {settingCount === 0 ? (
                 <ListItem>
                   <ListItemText secondary="まだ設定されていません" secondaryTypographyProps={{ variant: 'caption' }} />
                 </ListItem>
               ) : (
-                editableFixedSeatAssignments.map((assignment, index) => {
-                  const student = students.find(s => s.id === assignment.studentId);
+                fixedSeatAssignments.map((assignment, index) => {
+                  const student = studentById.get(assignment.studentId);
                   if (!student) return null;
                   return (
                     <ListItem
@@ -175,7 +309,7 @@ const FixedSeatConfig: React.FC<FixedSeatConfigProps> = ({
                     >
                       <ListItemText
                         primary={`${student.number}番 ${student.name}`}
-                        secondary={assignment.seatId}
+                        secondary={getSeatLabel(seatMap, assignment.seatId)}
                         primaryTypographyProps={{ variant: 'body2', noWrap: true }}
                         secondaryTypographyProps={{ variant: 'caption' }}
                       />
@@ -183,6 +317,35 @@ const FixedSeatConfig: React.FC<FixedSeatConfigProps> = ({
                   );
                 })
               )}
+              {seatZoneAssignments.map(assignment => {
+                const student = studentById.get(assignment.studentId);
+                if (!student) return null;
+                const seatCount = getSeatZoneSeats(seatMap, assignment.zone).length;
+                return (
+                  <ListItem
+                    key={assignment.studentId}
+                    disablePadding
+                    secondaryAction={
+                      <IconButton edge="end" size="small" onClick={() => handleDeleteZoneAssignment(assignment.studentId)}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    }
+                  >
+                    <ListItemButton
+                      selected={focusedZoneStudentId === assignment.studentId}
+                      onClick={() => setFocusedZoneStudentId(prev => (prev === assignment.studentId ? null : assignment.studentId))}
+                      sx={{ py: 0.5 }}
+                    >
+                      <ListItemText
+                        primary={`${student.number}番 ${student.name}`}
+                        secondary={`範囲: ${describeSeatZone(assignment.zone, seatMap)} (${seatCount}席)`}
+                        primaryTypographyProps={{ variant: 'body2', noWrap: true }}
+                        secondaryTypographyProps={{ variant: 'caption' }}
+                      />
+                    </ListItemButton>
+                  </ListItem>
+                );
+              })}
             </List>
           </Paper>
         )}
@@ -198,12 +361,27 @@ const FixedSeatConfig: React.FC<FixedSeatConfigProps> = ({
               onClick={() => setSidebarVisible(true)}
               sx={{ mb: 2 }}
             >
-              設定済み固定座席 ({editableFixedSeatAssignments.length}件)
+              設定済み固定座席 ({settingCount}件)
             </Button>
           )}
 
           {/* 生徒・座席選択エリア */}
           <Paper elevation={2} sx={{ p: 2, mb: 3 }}>
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={assignMode}
+              onChange={(_, next: 'seat' | 'zone' | null) => {
+                if (!next) return;
+                setAssignMode(next);
+                setSelectedSeatId(null);
+                setErrorMessage(null);
+              }}
+              sx={{ mb: 2 }}
+            >
+              <ToggleButton value="seat">座席を1つに決める</ToggleButton>
+              <ToggleButton value="zone">座席の範囲を決める</ToggleButton>
+            </ToggleButtonGroup>
             <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
               <Autocomplete<Student>
                 options={sortedStudents}
@@ -220,27 +398,123 @@ const FixedSeatConfig: React.FC<FixedSeatConfigProps> = ({
                 noOptionsText="生徒がいません"
                 renderInput={(params) => <TextField {...params} label="生徒を選択" />}
               />
-              <Typography variant="body2" color="text.secondary" sx={{ whiteSpace: 'nowrap' }}>
-                座席: {selectedSeatId || '未選択'}
-              </Typography>
-              <Button
-                variant="contained"
-                startIcon={<ChairIcon />}
-                onClick={handleAddAssignment}
-                disabled={!selectedStudent || !selectedSeatId}
-              >
-                割り当てる
-              </Button>
+              {assignMode === 'seat' ? (
+                <>
+                  <Typography variant="body2" color="text.secondary" sx={{ whiteSpace: 'nowrap' }}>
+                    座席: {selectedSeatId ? getSeatLabel(seatMap, selectedSeatId) : '未選択'}
+                  </Typography>
+                  <Button
+                    variant="contained"
+                    startIcon={<ChairIcon />}
+                    onClick={handleAddAssignment}
+                    disabled={!selectedStudent || !selectedSeatId}
+                  >
+                    割り当てる
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <Typography variant="body2" color="text.secondary" sx={{ whiteSpace: 'nowrap' }}>
+                    範囲の座席: {draftZoneSeats.length}席
+                  </Typography>
+                  <Button
+                    variant="contained"
+                    startIcon={<HighlightAltIcon />}
+                    onClick={handleAddZoneAssignment}
+                    disabled={!selectedStudent || !draftZone}
+                  >
+                    範囲を割り当てる
+                  </Button>
+                </>
+              )}
               <Button
                 variant="outlined"
                 color="inherit"
                 size="small"
-                onClick={() => { setSelectedStudent(null); setSelectedSeatId(null); setErrorMessage(null); }}
-                disabled={!selectedStudent && !selectedSeatId}
+                onClick={() => { setSelectedStudent(null); setSelectedSeatId(null); setZoneSeatIds([]); setErrorMessage(null); }}
+                disabled={!selectedStudent && !selectedSeatId && zoneSeatIds.length === 0}
               >
                 選択解除
               </Button>
             </Box>
+            {assignMode === 'zone' && (
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap', mt: 2 }}>
+                <TextField
+                  select
+                  size="small"
+                  label="範囲の決め方"
+                  value={zoneKind}
+                  onChange={(e) => setZoneKind(e.target.value as SeatZoneKind)}
+                  sx={{ minWidth: 160 }}
+                >
+                  {(Object.keys(SEAT_ZONE_KINDS) as SeatZoneKind[]).map(key => (
+                    <MenuItem key={key} value={key}>{SEAT_ZONE_KINDS[key].label}</MenuItem>
+                  ))}
+                </TextField>
+                {zoneKind === 'rows' && (
+                  <TextField
+                    select
+                    size="small"
+                    label="行"
+                    value={zoneRows}
+                    onChange={(e) => setZoneRows(e.target.value as unknown as number[])}
+                    slotProps={{ select: { multiple: true, renderValue: (value) => `前から${[...(value as number[])].sort((a, b) => a - b).join('・')}行目` } }}
+                    sx={{ minWidth: 200 }}
+                  >
+                    {rowOptions.map(row => (
+                      <MenuItem key={row} value={row}>前から{row}行目</MenuItem>
+                    ))}
+                  </TextField>
+                )}
+                {zoneKind === 'columns' && (
+                  <TextField
+                    select
+                    size="small"
+                    label="列"
+                    value={zoneColumns}
+                    onChange={(e) => setZoneColumns(e.target.value as unknown as number[])}
+                    slotProps={{ select: { multiple: true, renderValue: (value) => `${[...(value as number[])].sort((a, b) => a - b).join('・')}列目` } }}
+                    sx={{ minWidth: 200 }}
+                  >
+                    {columnOptions.map(col => (
+                      <MenuItem key={col} value={col}>{col}列目</MenuItem>
+                    ))}
+                  </TextField>
+                )}
+                {zoneKind === 'tag' && (
+                  <TextField
+                    select
+                    size="small"
+                    label="タグ"
+                    value={zoneTag}
+                    onChange={(e) => setZoneTag(e.target.value)}
+                    sx={{ minWidth: 200 }}
+                  >
+                    {seatTags.map(tag => (
+                      <MenuItem key={tag} value={tag}>{getSeatTagLabel(tag)}</MenuItem>
+                    ))}
+                  </TextField>
+                )}
+                <Typography variant="caption" color="text.secondary">
+                  {SEAT_ZONE_KINDS[zoneKind].description}。範囲の中のどの座席にするかは、ルーレットでランダムに選びます。
+                </Typography>
+              </Box>
+            )}
+            {assignMode === 'seat' && seatTags.length > 0 && (
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap', mt: 2 }}>
+                <Typography variant="body2" color="text.secondary">タグで座席を探す:</Typography>
+                {seatTags.map(tag => (
+                  <Chip
+                    key={tag}
+                    size="small"
+                    label={getSeatTagLabel(tag)}
+                    color={filterTag === tag ? 'warning' : 'default'}
+                    variant={filterTag === tag ? 'filled' : 'outlined'}
+                    onClick={() => setFilterTag(prev => (prev === tag ? null : tag))}
+                  />
+                ))}
+              </Box>
+            )}
           </Paper>
 
           {/* 座席グリッド */}
@@ -257,10 +531,9 @@ const FixedSeatConfig: React.FC<FixedSeatConfigProps> = ({
             <Box sx={{ display: 'flex', justifyContent: 'center' }}>
               <DragDropContext onDragEnd={onDragEnd}>
                 <SeatMapChart
-                  seatMap={seatMap.map(seat => ({
-                    ...seat,
-                    assignedStudentId: editableFixedSeatAssignments.find(a => a.seatId === seat.seatId)?.studentId || seat.assignedStudentId,
-                  }))}
+                  seatMap={displaySeatMap}
+                  seatGroups={seatGroups}
+                  roomFeatures={roomFeatures}
                   students={students}
                   onClickSeat={handleSeatClick}
                   displayMode="config"
@@ -278,7 +551,7 @@ const FixedSeatConfig: React.FC<FixedSeatConfigProps> = ({
         <Button variant="outlined" color="secondary" onClick={onCancel}>
           キャンセル
         </Button>
-        <Button variant="contained" size="large" onClick={handleSaveConfig}>
+        <Button variant="contained" size="large" onClick={onConfigFinished}>
           固定座席を確定し次へ
         </Button>
       </Box>
@@ -8,18 +8,15 @@ import {
   Divider,
 } from '@mui/material';
 import SeatMapConfig from '../Seat/SeatMapConfig'; // 統合された SeatMapConfig をインポート
-import type { SeatMap } from '../../types/Seat';
+import type { SeatGroup, SeatMap } from '../../types/Seat';
 import type { Student } from '../../types/Student';
+import type { RoomFeature } from '../../types/RoomFeature';
 
 /**
  * SeatConfigProps インターフェース
  * 座席設定コンポーネントが受け取るPropsの型定義です。
  */
 interface SeatConfigProps {
-  /**
-   * 現在の座席マップデータ（Appコンテキストから渡されることを想定）。
-   */
-  currentSeatMap: SeatMap;
   /**
    * 現在の生徒データ（Appコンテキストから渡されることを想定）。
    */
@@ -27,7 +24,7 @@ interface SeatConfigProps {
   /**
    * 設定が完了し、座席マップが更新されたときに呼び出されるコールバック関数です。
    */
-  onConfigFinished: (updatedSeatMap: SeatMap) => void;
+  onConfigFinished: (updatedSeatMap: SeatMap, updatedSeatGroups: SeatGroup[], updatedRoomFeatures: RoomFeature[]) => void;
   /**
    * キャンセル時に呼び出されるコールバック関数です。
    */
@@ -36,10 +33,9 @@ interface SeatConfigProps {
 
 /**
  * 座席に関する設定を管理するコンポーネントです。
- * 1. 座席マップの行と列の設定、および個々の座席の使用可否設定 (SeatMapConfig)
+ * 1. 座席レイアウト（座席の位置・向き・追加・削除）と個々の座席の使用可否設定 (SeatMapConfig)
  */
 const SeatConfig: React.FC<SeatConfigProps> = ({
-  currentSeatMap,
   onConfigFinished,
   onCancel,
 }) => {
@@ -48,11 +44,11 @@ const SeatConfig: React.FC<SeatConfigProps> = ({
   const [activeStep, setActiveStep] = useState(0); // 0: レイアウト設定, 1: 完了
 
   // レイアウト設定 (SeatMapConfig) が完了したときのハンドラ
-  const handleSeatMapConfigComplete = useCallback((rows: number, cols: number, finalSeatMap: SeatMap) => {
+  const handleSeatMapConfigComplete = useCallback((finalSeatMap: SeatMap, finalSeatGroups: SeatGroup[], finalRoomFeatures: RoomFeature[]) => {
     // SeatMapConfig から受け取った最終的な座席マップを直接 onConfigFinished で親に渡す
-    onConfigFinished(finalSeatMap);
+    onConfigFinished(finalSeatMap, finalSeatGroups, finalRoomFeatures);
     setActiveStep((prevActiveStep) => prevActiveStep + 1); // 完了ステップへ
-    console.log('SeatMapConfig completed with rows:', rows, 'cols:', cols, 'finalSeatMap:', finalSeatMap);
+    console.log('SeatMapConfig completed with finalSeatMap:', finalSeatMap);
   }, [onConfigFinished]);
 
   // 「設定を確定する」ボタンは、handleSeatMapConfigComplete が呼び出された時点で、
@@ -81,9 +77,6 @@ const SeatConfig: React.FC<SeatConfigProps> = ({
       <Paper elevation={3} sx={{ p: 3, mb: 3 }}>
         {activeStep === 0 && (
           <SeatMapConfig
-            initialRows={currentSeatMap.length > 0 ? Math.max(...currentSeatMap.map(s => parseInt(s.seatId.match(/R(\d+)C(\d+)/)?.[1] || '0'))) : undefined}
-            initialCols={currentSeatMap.length > 0 ? Math.max(...currentSeatMap.map(s => parseInt(s.seatId.match(/R(\d+)C(\d+)/)?.[2] || '0'))) : undefined}
-            existingSeatMap={currentSeatMap} // 既存の座席マップを渡す
             onConfigComplete={handleSeatMapConfigComplete} // 統合されたハンドラを渡す
           />
         )}
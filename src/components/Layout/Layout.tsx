@@ -4,15 +4,18 @@ import {
   Tooltip, IconButton, Menu, MenuItem, Snackbar, Alert, Collapse,
 } from "@mui/material";
 import { saveAppData, loadAppData, clearAppData } from "../../utils/localStorage";
+import { clearStudentPhotos } from "../../utils/photoStore";
 import type { AppPersistedState } from "../../utils/localStorage";
 import MoreVertIcon from '@mui/icons-material/MoreVert';
 import SaveIcon from '@mui/icons-material/Save';
 import FolderOpenIcon from '@mui/icons-material/FolderOpen';
 import RestoreIcon from '@mui/icons-material/Restore';
+import PeopleIcon from '@mui/icons-material/People';
+import RosterEditorDialog from "../Student/RosterEditorDialog";
 
 import { useAppState } from "../../contexts/AppStateContext";
 import type { AppPhase } from "../../contexts/AppStateContext";
-import { AppPhaseTitles, AppPhaseIcons } from "../../constants";
+import { AppPhaseTitles, AppPhaseIcons, DEFAULT_CHART_ORIENTATION, DEFAULT_PHOTO_DISPLAY } from "../../constants";
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -24,12 +27,30 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     setStudents,
     seatMap,
     setSeatMap,
+    seatGroups,
+    setSeatGroups,
+    roomFeatures,
+    setRoomFeatures,
     appPhase,
     setAppPhase,
     rouletteState,
     setRouletteState,
     fixedSeatAssignments,
     setFixedSeatAssignments,
+    seatZoneAssignments,
+    setSeatZoneAssignments,
+    seatingConstraints,
+    setSeatingConstraints,
+    attributeRules,
+    setAttributeRules,
+    attributeSchema,
+    setAttributeSchema,
+    setStudentPhotos,
+    editHistory,
+    photoDisplay,
+    setPhotoDisplay,
+    chartOrientation,
+    setChartOrientation,
   } = useAppState();
 
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
@@ -37,6 +58,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
   const [snackbar, setSnackbar] = useState<{ open: boolean; message: string; severity: 'success' | 'error' | 'warning' | 'info' }>({ open: false, message: '', severity: 'info' });
   // ルーレットフェーズ専用: ヘッダーの表示/非表示
   const [headerExpanded, setHeaderExpanded] = useState(false);
+  const [rosterEditorOpen, setRosterEditorOpen] = useState(false);
 
   const isRoulettePhase = appPhase === 'roulette';
 
@@ -60,7 +82,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
   const handleSaveData = useCallback(() => {
     try {
       const dataToSave: AppPersistedState = {
-        students, seatMap, appPhase, rouletteState, fixedSeatAssignments,
+        students, seatMap, seatGroups, roomFeatures, appPhase, rouletteState, fixedSeatAssignments, seatZoneAssignments, seatingConstraints, attributeRules, attributeSchema, photoDisplay, chartOrientation,
       };
       saveAppData(dataToSave);
       showSnackbar('データを保存しました！', 'success');
@@ -69,7 +91,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     } finally {
       handleCloseMenu();
     }
-  }, [students, seatMap, appPhase, rouletteState, fixedSeatAssignments, showSnackbar]);
+  }, [students, seatMap, seatGroups, roomFeatures, appPhase, rouletteState, fixedSeatAssignments, seatZoneAssignments, seatingConstraints, attributeRules, attributeSchema, photoDisplay, chartOrientation, showSnackbar]);
 
   const handleLoadData = useCallback(() => {
     handleCloseMenu();
@@ -79,9 +101,19 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
       if (loadedData) {
         setStudents(loadedData.students);
         setSeatMap(loadedData.seatMap);
+        setSeatGroups(loadedData.seatGroups);
+        setRoomFeatures(loadedData.roomFeatures);
         setAppPhase(loadedData.appPhase);
         setRouletteState(loadedData.rouletteState);
         setFixedSeatAssignments(loadedData.fixedSeatAssignments);
+        setSeatZoneAssignments(loadedData.seatZoneAssignments);
+        setSeatingConstraints(loadedData.seatingConstraints);
+        setAttributeRules(loadedData.attributeRules);
+        setAttributeSchema(loadedData.attributeSchema);
+        setPhotoDisplay(loadedData.photoDisplay);
+        setChartOrientation(loadedData.chartOrientation);
+        // 読み込む前の状態には戻せないため、読み込んだ状態から記録し直す
+        editHistory.clear();
         showSnackbar('データを読み込みました！', 'success');
       } else {
         showSnackbar('保存されたデータがありません。', 'info');
@@ -89,7 +121,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     } catch {
       showSnackbar('データの読み込みに失敗しました。データ形式が不正な可能性があります。', 'error');
     }
-  }, [setStudents, setSeatMap, setAppPhase, setRouletteState, setFixedSeatAssignments, showSnackbar]);
+  }, [setStudents, setSeatMap, setSeatGroups, setRoomFeatures, setAppPhase, setRouletteState, setFixedSeatAssignments, setSeatZoneAssignments, setSeatingConstraints, setAttributeRules, setAttributeSchema, setPhotoDisplay, setChartOrientation, editHistory, showSnackbar]);
 
   const handleResetData = useCallback(() => {
     handleCloseMenu();
@@ -97,16 +129,30 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
       clearAppData();
       setStudents([]);
       setSeatMap([]);
+      setSeatGroups([]);
+      setRoomFeatures([]);
       setAppPhase('input');
       setRouletteState({ isRunning: false, currentSelectedSeatId: null, currentAssigningStudent: null, winningHistory: [], isStopped: false });
       setFixedSeatAssignments([]);
+      setSeatZoneAssignments([]);
+      setSeatingConstraints([]);
+      setAttributeRules([]);
+      setAttributeSchema([]);
+      setPhotoDisplay(DEFAULT_PHOTO_DISPLAY);
+      setChartOrientation(DEFAULT_CHART_ORIENTATION);
+      setStudentPhotos({});
+      editHistory.clear();
+      clearStudentPhotos().catch(error => {
+        console.error('写真の削除中にエラーが発生しました:', error);
+        showSnackbar('写真の削除に失敗しました。', 'error');
+      });
       showSnackbar('全てのデータがリセットされました。', 'success');
     } catch {
       showSnackbar('データのリセットに失敗しました。', 'error');
     }
-  }, [setStudents, setSeatMap, setAppPhase, setRouletteState, setFixedSeatAssignments, showSnackbar]);
+  }, [setStudents, setSeatMap, setSeatGroups, setRoomFeatures, setAppPhase, setRouletteState, setFixedSeatAssignments, setSeatZoneAssignments, setSeatingConstraints, setAttributeRules, setAttributeSchema, setStudentPhotos, setPhotoDisplay, setChartOrientation, editHistory, showSnackbar]);
 
-  const appPhases: AppPhase[] = ['input', 'config', 'fixedSeat', 'roulette', 'chart', 'finished'];
+  const appPhases: AppPhase[] = ['input', 'config', 'fixedSeat', 'constraints', 'roulette', 'chart', 'finished'];
 
   const toolbarContent = (
     <Toolbar>
@@ -137,6 +183,18 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
           );
         })}
       </ButtonGroup>
+      <Tooltip title="名簿の編集">
+        {/* span wrapper でdisabled時もTooltipを表示 */}
+        <span>
+          <IconButton
+            onClick={() => setRosterEditorOpen(true)}
+            color="inherit"
+            disabled={isRoulettePhase && rouletteState.isRunning}
+          >
+            <PeopleIcon />
+          </IconButton>
+        </span>
+      </Tooltip>
       <Tooltip title="データ操作">
         <IconButton
           aria-controls={open ? 'basic-menu' : undefined}
@@ -175,6 +233,11 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     </Snackbar>
   );
 
+  // 名簿の編集はどのフェーズからでも開けるよう、レイアウト側に置く
+  const rosterEditorEl = (
+    <RosterEditorDialog open={rosterEditorOpen} onClose={() => setRosterEditorOpen(false)} />
+  );
+
   // ルーレットフェーズ: ヘッダーは上端トリガー帯からのホバー/タップで展開
   if (isRoulettePhase) {
     return (
@@ -198,6 +261,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
         <Box sx={{ pt: '8px' }}>
           {children}
         </Box>
+        {rosterEditorEl}
         {snackbarEl}
       </Box>
     );
@@ -213,6 +277,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
           {children}
         </Box>
       </Container>
+      {rosterEditorEl}
       {snackbarEl}
     </Box>
   );
@@ -0,0 +1,32 @@
+import React from 'react';
+import { IconButton, Tooltip } from '@mui/material';
+import UndoIcon from '@mui/icons-material/Undo';
+import RedoIcon from '@mui/icons-material/Redo';
+import { useAppState } from '../../contexts/AppStateContext';
+
+/**
+ * 編集を元に戻す・やり直すボタンです。AppStateContext の共通の履歴を操作し、レイアウト編集・固定座席設定・条件設定・座席表の調整で共通に使います。
+ */
+const UndoRedoButtons: React.FC = () => {
+  const { editHistory } = useAppState();
+  return (
+    <>
+      <Tooltip title="元に戻す（Ctrl + Z）">
+        <span>
+          <IconButton size="small" onClick={editHistory.undo} disabled={!editHistory.canUndo}>
+            <UndoIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Tooltip title="やり直す（Ctrl + Shift + Z）">
+        <span>
+          <IconButton size="small" onClick={editHistory.redo} disabled={!editHistory.canRedo}>
+            <RedoIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+    </>
+  );
+};
+
+export default UndoRedoButtons;
@@ -0,0 +1,67 @@
+import React from 'react';
+import {
+  Box,
+  Grid,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import type { StudentOutputColumn } from '../../types/Output';
+import type { SeatGroupMembers } from '../../utils/seatGroups';
+
+interface GroupRosterTableProps {
+  groupMembers: SeatGroupMembers[]; // 班ごとの座席と生徒（getSeatGroupMembers の結果）
+  outputColumns: StudentOutputColumn[]; // 表示する項目（基本項目 + showOnPrint の属性）
+}
+
+/**
+ * 班ごとの名簿を、班の色の見出しを付けた小さな表で並べて表示します。
+ * 生徒は班の座席の順（前から、同じ行では左から）に並べます。
+ */
+const GroupRosterTable: React.FC<GroupRosterTableProps> = ({ groupMembers, outputColumns }) => {
+  return (
+    <Grid container spacing={2}>
+      {groupMembers.map(({ group, students }) => (
+        <Grid size={{ xs: 12, sm: 6, md: 4 }} key={group.id}>
+          <Paper variant="outlined" sx={{ borderColor: group.color, borderWidth: 2 }}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', px: 1.5, py: 0.5, bgcolor: group.color, color: 'white' }}>
+              <Typography variant="subtitle2" sx={{ fontWeight: 'bold' }}>{group.name}</Typography>
+              <Typography variant="caption">{students.length} 人</Typography>
+            </Box>
+            <Table size="small" aria-label={`${group.name}の名簿`}>
+              <TableHead>
+                <TableRow>
+                  {outputColumns.map(column => (
+                    <TableCell key={column.key} sx={{ fontWeight: 'bold' }}>{column.label}</TableCell>
+                  ))}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {students.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={Math.max(outputColumns.length, 1)} align="center" sx={{ color: 'text.secondary' }}>
+                      生徒が割り当てられていません。
+                    </TableCell>
+                  </TableRow>
+                )}
+                {students.map(student => (
+                  <TableRow key={student.id}>
+                    {outputColumns.map(column => (
+                      <TableCell key={column.key}>{column.getValue(student)}</TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Paper>
+        </Grid>
+      ))}
+    </Grid>
+  );
+};
+
+export default GroupRosterTable;
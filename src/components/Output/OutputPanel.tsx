@@ -14,33 +14,42 @@ import {
 } from '@mui/material';
 import PrintIcon from '@mui/icons-material/Print';
 import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import GroupsIcon from '@mui/icons-material/Groups';
 import { useAppState } from '../../contexts/AppStateContext';
 import PrintableSeatChart from './PrintableSeatChart';
+import GroupRosterTable from './GroupRosterTable';
+import ChartOrientationToggle from '../Seat/ChartOrientationToggle';
+import type { StudentOutputFields } from '../../types/Output';
+import type { ChartOrientation } from '../../types/ChartOrientation';
+import { getOutputColumns } from '../../utils/studentAttributes';
+import { getSeatGroupMembers } from '../../utils/seatGroups';
+import { orientGridPosition } from '../../utils/chartOrientation';
+import { indexStudentsById } from '../../utils/roster';
+import { CHART_ORIENTATIONS } from '../../constants';
 
-interface StudentOutputFields {
-  id: boolean;
-  number: boolean;
-  name: boolean;
-  kana: boolean;
-  info1: boolean;
-  info2: boolean;
-  info3: boolean;
-}
+const OUTPUT_FIELD_LABELS: Record<keyof StudentOutputFields, string> = {
+  id: '生徒ID',
+  number: '出席番号',
+  name: '名前',
+  kana: 'フリガナ',
+};
 
 const OutputPanel: React.FC = () => {
-  const { students, seatMap } = useAppState();
+  const {
+    students, seatMap, seatGroups, roomFeatures, attributeSchema, setAttributeSchema,
+    studentPhotos, photoDisplay, setPhotoDisplay, chartOrientation, setChartOrientation,
+  } = useAppState();
 
   const [selectedFields, setSelectedFields] = useState<StudentOutputFields>({
     id: false,
     number: true,
     name: true,
     kana: false,
-    info1: false,
-    info2: false,
-    info3: false,
   });
   const [topText, setTopText] = useState('');
   const [bottomText, setBottomText] = useState('');
+  // 生徒側と先生側の両方の向きを、別のページに続けて印刷するかどうか
+  const [printBothViews, setPrintBothViews] = useState(false);
   const [snackbar, setSnackbar] = useState<{ open: boolean; message: string; severity: 'success' | 'error' | 'warning' | 'info' }>({ open: false, message: '', severity: 'info' });
 
   const showSnackbar = useCallback((message: string, severity: 'success' | 'error' | 'warning' | 'info') => {
@@ -54,9 +63,24 @@ const OutputPanel: React.FC = () => {
     []
   );
 
-  const hasSelectedFields = useMemo(
-    () => Object.values(selectedFields).some(v => v),
-    [selectedFields]
+  // 属性の表示・非表示は属性の定義に保存し、次回以降の出力にも引き継ぐ
+  const handleAttributeToggle = useCallback((attributeId: string, checked: boolean) => {
+    setAttributeSchema(prev => prev.map(def => def.id === attributeId ? { ...def, showOnPrint: checked } : def));
+  }, [setAttributeSchema]);
+
+  const outputColumns = useMemo(
+    () => getOutputColumns(selectedFields, attributeSchema),
+    [selectedFields, attributeSchema]
+  );
+
+  const hasSelectedFields = outputColumns.length > 0;
+
+  // 印刷する向き（ページごと）
+  const printOrientations: ChartOrientation[] = printBothViews ? ['student', 'teacher'] : [chartOrientation];
+
+  const groupMembers = useMemo(
+    () => getSeatGroupMembers(seatMap, seatGroups, students),
+    [seatMap, seatGroups, students]
   );
 
   const handlePrint = useCallback(() => {
@@ -75,27 +99,25 @@ const OutputPanel: React.FC = () => {
 
     const maxRow = Math.max(...seatMap.map((seat) => seat.row));
     const maxCol = Math.max(...seatMap.map((seat) => seat.col));
+    // 座席表の向きに合わせて行と列を並べ替える（先生側なら前の席が下、左右なら行と列が入れ替わる）
+    const { rowCount, colCount } = orientGridPosition(1, 1, maxRow, maxCol, chartOrientation);
+    const usableSeatsByPosition = new Map(seatMap.filter((s) => s.isUsable).map((s) => {
+      const position = orientGridPosition(s.row, s.col, maxRow, maxCol, chartOrientation);
+      return [`${position.row}-${position.col}`, s];
+    }));
+    const studentById = indexStudentsById(students);
     let csvContent = '';
 
-    const activeFieldKeys: { key: keyof StudentOutputFields; label: string }[] = [];
-    if (selectedFields.id) activeFieldKeys.push({ key: 'id', label: '生徒ID' });
-    if (selectedFields.number) activeFieldKeys.push({ key: 'number', label: '出席番号' });
-    if (selectedFields.name) activeFieldKeys.push({ key: 'name', label: '名前' });
-    if (selectedFields.kana) activeFieldKeys.push({ key: 'kana', label: 'フリガナ' });
-    if (selectedFields.info1) activeFieldKeys.push({ key: 'info1', label: '情報1' });
-    if (selectedFields.info2) activeFieldKeys.push({ key: 'info2', label: '情報2' });
-    if (selectedFields.info3) activeFieldKeys.push({ key: 'info3', label: '情報3' });
-
-    for (let r = 1; r <= maxRow; r++) {
-      activeFieldKeys.forEach(field => {
+    for (let r = 1; r <= rowCount; r++) {
+      outputColumns.forEach(field => {
         const row: (string | number | null)[] = [field.label];
-        for (let c = 1; c <= maxCol; c++) {
-          const seat = seatMap.find((s) => s.row === r && s.col === c && s.isUsable);
+        for (let c = 1; c <= colCount; c++) {
+          const seat = usableSeatsByPosition.get(`${r}-${c}`);
           const student = seat?.assignedStudentId
-            ? students.find((s) => s.id === seat.assignedStudentId)
+            ? studentById.get(seat.assignedStudentId)
             : null;
           if (seat) {
-            row.push(student ? (student[field.key as 'id' | 'number' | 'name' | 'kana' | 'info1' | 'info2' | 'info3'] ?? '') : '空席');
+            row.push(student ? field.getValue(student) : '空席');
           } else {
             row.push('使用不可');
           }
@@ -104,13 +126,48 @@ const OutputPanel: React.FC = () => {
       });
     }
 
+    // 席替えから除外した生徒は座席表の下に1人1行で付け加える
+    const excludedStudents = students
+      .filter((s) => s.isExcluded)
+      .sort((a, b) => Number(a.number) - Number(b.number));
+    if (excludedStudents.length > 0) {
+      csvContent += '\n席替えから除外\n';
+      csvContent += outputColumns.map(column => column.label).join('\t') + '\n';
+      excludedStudents.forEach(student => {
+        csvContent += outputColumns.map(column => column.getValue(student)).join('\t') + '\n';
+      });
+    }
+
     try {
       await navigator.clipboard.writeText(csvContent);
       showSnackbar('座席データがクリップボードにコピーされました！表計算ソフトに貼り付けてください。', 'success');
     } catch {
       showSnackbar('クリップボードへのコピーに失敗しました。', 'error');
     }
-  }, [hasSelectedFields, seatMap, students, selectedFields, showSnackbar]);
+  }, [hasSelectedFields, seatMap, students, outputColumns, chartOrientation, showSnackbar]);
+
+  // 班ごとの名簿を、班の名前の行・見出しの行・生徒の行の順に班ごとに区切ってコピーする
+  const handleCopyGroupRoster = useCallback(async () => {
+    if (!hasSelectedFields) {
+      showSnackbar('表示したい項目を選択してください。', 'warning');
+      return;
+    }
+
+    const content = groupMembers
+      .map(({ group, students: members }) => [
+        group.name,
+        outputColumns.map(column => column.label).join('\t'),
+        ...members.map(student => outputColumns.map(column => column.getValue(student)).join('\t')),
+      ].join('\n'))
+      .join('\n\n') + '\n';
+
+    try {
+      await navigator.clipboard.writeText(content);
+      showSnackbar('班ごとの名簿がクリップボードにコピーされました！', 'success');
+    } catch {
+      showSnackbar('クリップボードへのコピーに失敗しました。', 'error');
+    }
+  }, [hasSelectedFields, groupMembers, outputColumns, showSnackbar]);
 
   return (
     <>
@@ -126,18 +183,35 @@ const OutputPanel: React.FC = () => {
             <Grid size={{ xs: 4, sm: 2 }} key={key}>
               <FormControlLabel
                 control={<Checkbox checked={value} onChange={handleFieldChange} name={key} />}
-                label={
-                  key === 'id' ? '生徒ID' :
-                  key === 'number' ? '出席番号' :
-                  key === 'name' ? '名前' :
-                  key === 'kana' ? 'フリガナ' :
-                  `情報${key.slice(-1)}`
-                }
+                label={OUTPUT_FIELD_LABELS[key]}
+              />
+            </Grid>
+          ))}
+          <Grid size={{ xs: 4, sm: 2 }}>
+            <FormControlLabel
+              control={<Checkbox checked={photoDisplay.showOnPrint} onChange={(e) => setPhotoDisplay(prev => ({ ...prev, showOnPrint: e.target.checked }))} />}
+              label="写真"
+            />
+          </Grid>
+          {attributeSchema.map(def => (
+            <Grid size={{ xs: 4, sm: 2 }} key={def.id}>
+              <FormControlLabel
+                control={<Checkbox checked={def.showOnPrint} onChange={(e) => handleAttributeToggle(def.id, e.target.checked)} />}
+                label={def.name}
               />
             </Grid>
           ))}
         </Grid>
 
+        <Typography variant="subtitle1" sx={{ mb: 1 }}>座席表の向き:</Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 2 }}>
+          <ChartOrientationToggle value={chartOrientation} onChange={setChartOrientation} />
+          <FormControlLabel
+            control={<Checkbox checked={printBothViews} onChange={(e) => setPrintBothViews(e.target.checked)} />}
+            label="生徒側と先生側の両方を別のページに印刷"
+          />
+        </Box>
+
         <Box sx={{ display: 'flex', justifyContent: 'center', gap: 2, mt: 2 }}>
           <Tooltip title={hasSelectedFields ? '座席表を印刷' : '出力項目を選択してください'}>
             <span>
@@ -165,58 +239,95 @@ const OutputPanel: React.FC = () => {
               </Button>
             </span>
           </Tooltip>
+          {groupMembers.length > 0 && (
+            <Tooltip title={hasSelectedFields ? '班ごとの名簿を表計算ソフト用にコピー' : '出力項目を選択してください'}>
+              <span>
+                <Button
+                  variant="outlined"
+                  color="primary"
+                  onClick={handleCopyGroupRoster}
+                  startIcon={<GroupsIcon />}
+                  disabled={!hasSelectedFields}
+                >
+                  班ごとの名簿をコピー
+                </Button>
+              </span>
+            </Tooltip>
+          )}
         </Box>
       </Paper>
 
-      {/* 印刷対象エリア。@media print で #print-area だけが表示される */}
+      {/* 印刷対象エリア。@media print で #print-area だけが表示され、向きごとに別のページに印刷される */}
       <div id="print-area">
-        <Paper elevation={3} sx={{ p: 3, my: 3, '@media print': { boxShadow: 'none', margin: 0, padding: 0 } }}>
-          <Typography variant="h6" gutterBottom align="center" sx={{ '@media print': { display: 'none' } }}>
-            座席表プレビュー
-          </Typography>
+        {printOrientations.map(orientation => (
+          <Paper key={orientation} className="print-page" elevation={3} sx={{ p: 3, my: 3, '@media print': { boxShadow: 'none', margin: 0, padding: 0 } }}>
+            <Typography variant="h6" gutterBottom align="center" sx={{ '@media print': { display: 'none' } }}>
+              {printBothViews ? `座席表プレビュー（${CHART_ORIENTATIONS[orientation].label}）` : '座席表プレビュー'}
+            </Typography>
 
-          {/* 上部テキストボックス（タイトル欄） */}
-          <TextField
-            fullWidth
-            variant="standard"
-            placeholder="〇年〇組 座席表"
-            value={topText}
-            onChange={(e) => setTopText(e.target.value)}
-            inputProps={{ style: { textAlign: 'center', fontSize: '1.2rem', fontWeight: 'bold' } }}
-            sx={{
-              mb: 2,
-              '@media print': {
-                '& .MuiInput-underline::before, & .MuiInput-underline::after': { display: 'none' },
-              },
-            }}
-          />
+            {/* 上部テキストボックス（タイトル欄）。両方の向きを印刷するときは、どのページにも同じ内容を表示する */}
+            <TextField
+              fullWidth
+              variant="standard"
+              placeholder="〇年〇組 座席表"
+              value={topText}
+              onChange={(e) => setTopText(e.target.value)}
+              inputProps={{ style: { textAlign: 'center', fontSize: '1.2rem', fontWeight: 'bold' } }}
+              sx={{
+                mb: printBothViews ? 0 : 2,
+                '@media print': {
+                  '& .MuiInput-underline::before, & .MuiInput-underline::after': { display: 'none' },
+                },
+              }}
+            />
+            {printBothViews && (
+              <Typography variant="caption" align="center" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+                {CHART_ORIENTATIONS[orientation].description}
+              </Typography>
+            )}
 
-          <Box className="print-chart-wrapper" sx={{ overflowX: 'auto' }}>
-            <PrintableSeatChart
-              seatMap={seatMap}
-              students={students}
-              selectedFields={selectedFields}
+            <Box className="print-chart-wrapper" sx={{ overflowX: 'auto' }}>
+              <PrintableSeatChart
+                seatMap={seatMap}
+                students={students}
+                selectedFields={selectedFields}
+                attributeSchema={attributeSchema}
+                studentPhotos={photoDisplay.showOnPrint ? studentPhotos : undefined}
+                seatGroups={seatGroups}
+                roomFeatures={roomFeatures}
+                orientation={orientation}
+              />
+            </Box>
+
+            {/* 下部テキストボックス（備考欄） */}
+            <TextField
+              fullWidth
+              variant="standard"
+              placeholder="〇月〇日から"
+              value={bottomText}
+              onChange={(e) => setBottomText(e.target.value)}
+              inputProps={{ style: { textAlign: 'center' } }}
+              sx={{
+                mt: 2,
+                '@media print': {
+                  '& .MuiInput-underline::before, & .MuiInput-underline::after': { display: 'none' },
+                },
+              }}
             />
-          </Box>
-
-          {/* 下部テキストボックス（備考欄） */}
-          <TextField
-            fullWidth
-            variant="standard"
-            placeholder="〇月〇日から"
-            value={bottomText}
-            onChange={(e) => setBottomText(e.target.value)}
-            inputProps={{ style: { textAlign: 'center' } }}
-            sx={{
-              mt: 2,
-              '@media print': {
-                '& .MuiInput-underline::before, & .MuiInput-underline::after': { display: 'none' },
-              },
-            }}
-          />
-        </Paper>
+          </Paper>
+        ))}
       </div>
 
+      {/* 班ごとの名簿（印刷時には非表示） */}
+      {groupMembers.length > 0 && (
+        <Paper elevation={3} sx={{ p: 3, my: 3, '@media print': { display: 'none' } }}>
+          <Typography variant="h6" gutterBottom align="center">
+            班ごとの名簿
+          </Typography>
+          <GroupRosterTable groupMembers={groupMembers} outputColumns={outputColumns} />
+        </Paper>
+      )}
+
       <Snackbar
         open={snackbar.open}
         autoHideDuration={4000}
@@ -1,112 +1,256 @@
 import React from 'react';
 import type { Student } from '../../types/Student';
-import type { SeatMapData } from '../../types/Seat';
-
-interface StudentOutputFields {
-  id: boolean;
-  number: boolean;
-  name: boolean;
-  kana: boolean;
-  info1: boolean;
-  info2: boolean;
-  info3: boolean;
-}
+import type { SeatGroup, SeatMapData } from '../../types/Seat';
+import type { StudentOutputFields } from '../../types/Output';
+import type { StudentAttributeSchema } from '../../types/Attribute';
+import type { RoomFeature } from '../../types/RoomFeature';
+import type { ChartOrientation } from '../../types/ChartOrientation';
+import { formatAttributeBadge } from '../../utils/studentAttributes';
+import { getLayoutBounds, indexSeatsById } from '../../utils/seatLayout';
+import { indexStudentsById } from '../../utils/roster';
+import { getGroupLabelSeatIds } from '../../utils/seatGroups';
+import { getRoomFeatureLabel, isVerticalRoomFeature } from '../../utils/roomFeatures';
+import { getFrontSide, orientLayout } from '../../utils/chartOrientation';
+import { ROOM_FEATURE_TYPES, SEAT_LAYOUT_GAP, SEAT_LAYOUT_HEIGHT, SEAT_LAYOUT_WIDTH } from '../../constants';
 
 interface PrintableSeatChartProps {
   seatMap: SeatMapData[];
   students: Student[];
   selectedFields: StudentOutputFields;
+  attributeSchema: StudentAttributeSchema; // showOnPrint の属性を座席内に表示する
+  studentPhotos?: Record<string, string>; // 座席内に表示する生徒の写真のURL（表示しない場合は undefined）
+  seatGroups?: SeatGroup[]; // 班の定義（班の座席を班の色で塗り分け、班の名前を表示する）
+  roomFeatures?: RoomFeature[]; // 教室の設備（黒板・教卓・出入口など）
+  orientation?: ChartOrientation; // どの位置から見た向きで印刷するか（省略すると生徒から見た向き）
 }
 
+// 黒板（前）の帯を用紙のどちら側に置くかごとの、帯・座席・「後」の並べ方
+const FRONT_SIDE_DIRECTIONS = {
+  top: 'column',
+  bottom: 'column-reverse',
+  left: 'row',
+  right: 'row-reverse',
+} as const;
+
 const PrintableSeatChart: React.FC<PrintableSeatChartProps> = ({
-  seatMap,
+  seatMap: originalSeatMap,
   students,
   selectedFields,
+  attributeSchema,
+  studentPhotos,
+  seatGroups = [],
+  roomFeatures: originalRoomFeatures = [],
+  orientation = 'student',
 }) => {
-  const maxRow = Math.max(...seatMap.map((seat) => seat.row));
-  const maxCol = Math.max(...seatMap.map((seat) => seat.col));
+  const { seatMap, roomFeatures } = orientLayout(originalSeatMap, originalRoomFeatures, orientation);
+  const frontSide = getFrontSide(orientation);
+  const isSideView = frontSide === 'left' || frontSide === 'right';
+  const printAttributes = attributeSchema.filter(def => def.showOnPrint);
+  // 座席はレイアウト上の位置に置き、用紙の幅に合わせて拡大・縮小できるよう割合で指定する
+  // 設備は座席より前や左にも置けるため、座席と設備をすべて囲む範囲の左上を基準にする
+  const bounds = getLayoutBounds(seatMap, roomFeatures);
+  const toPercent = (value: number, total: number) => `${(value / total) * 100}%`;
+  const toLeft = (x: number) => toPercent(x - bounds.left, bounds.width);
+  const toTop = (y: number) => toPercent(y - bounds.top, bounds.height);
+  const hasBlackboard = roomFeatures.some(feature => feature.type === 'blackboard');
+  const groupById = new Map(seatGroups.map(group => [group.id, group]));
+  const groupLabelSeatIds = getGroupLabelSeatIds(seatMap);
+  const studentById = indexStudentsById(students);
+  const seatById = indexSeatsById(seatMap);
+  // 席替えから除外した生徒は座席表の下に一覧で示す
+  const excludedStudents = students
+    .filter((s) => s.isExcluded)
+    .sort((a, b) => Number(a.number) - Number(b.number));
 
   return (
     <div className="print-chart-root" style={{ display: 'flex', flexDirection: 'column' }}>
-      <div style={{ border: '1px solid #555', color: '#333', textAlign: 'center', padding: '4px 0', marginBottom: '6px', fontSize: '0.85em', fontWeight: 'bold' }}>
-        黒板（前）
-      </div>
+      <div style={{ display: 'flex', flexDirection: FRONT_SIDE_DIRECTIONS[frontSide], alignItems: isSideView ? 'center' : 'stretch', gap: '6px' }}>
+        {!hasBlackboard && (
+          <div
+            style={{
+              border: '1px solid #555',
+              color: '#333',
+              textAlign: 'center',
+              padding: isSideView ? '0 4px' : '4px 0',
+              alignSelf: 'stretch',
+              fontSize: '0.85em',
+              fontWeight: 'bold',
+              writingMode: isSideView ? 'vertical-rl' : undefined,
+            }}
+          >
+            黒板（前）
+          </div>
+        )}
 
-      {/* CSS変数 --seat-cols で列数を @media print の CSS に伝達する */}
-      <div
-        className="print-seat-grid"
-        style={{
-          '--seat-cols': maxCol,
-          display: 'grid',
-          gridTemplateColumns: `repeat(${maxCol}, minmax(80px, 1fr))`,
-          gap: '6px',
-          padding: '4px',
-          flex: 1,
-        } as React.CSSProperties}
-      >
-        {Array.from({ length: maxRow * maxCol }).map((_, index) => {
-          const r = Math.floor(index / maxCol) + 1;
-          const c = (index % maxCol) + 1;
+        {/* 縦横比をレイアウトに合わせ、幅いっぱいに広げる */}
+        <div
+          className="print-seat-canvas"
+          style={{
+            position: 'relative',
+            flex: isSideView ? 1 : undefined,
+            width: '100%',
+            aspectRatio: `${bounds.width} / ${bounds.height}`,
+            minWidth: `${bounds.width * 0.6}px`,
+          }}
+        >
+          {roomFeatures.map((feature) => {
+            const isVertical = isVerticalRoomFeature(feature);
+            return (
+              <div
+                key={feature.id}
+                style={{
+                  position: 'absolute',
+                  left: toLeft(feature.x),
+                  top: toTop(feature.y),
+                  width: toPercent(feature.width, bounds.width),
+                  height: toPercent(feature.height, bounds.height),
+                  transform: feature.rotation ? `rotate(${feature.rotation}deg)` : undefined,
+                  boxSizing: 'border-box',
+                  display: 'flex',
+                  justifyContent: 'center',
+                  alignItems: 'center',
+                  overflow: 'hidden',
+                  backgroundColor: ROOM_FEATURE_TYPES[feature.type].color,
+                  color: '#fff',
+                  fontSize: '0.75em',
+                  fontWeight: 'bold',
+                  whiteSpace: 'nowrap',
+                  writingMode: isVertical ? 'vertical-rl' : undefined,
+                  printColorAdjust: 'exact',
+                  WebkitPrintColorAdjust: 'exact',
+                }}
+              >
+                {getRoomFeatureLabel(feature)}
+              </div>
+            );
+          })}
+          {/* 班の座席の周りを班の色で塗る。印刷でも背景色が出るように print-color-adjust を指定する */}
+          {seatMap.map((seat) => {
+            const group = seat.groupId ? groupById.get(seat.groupId) : undefined;
+            if (!group) return null;
+            return (
+              <div
+                key={`group-${seat.seatId}`}
+                style={{
+                  position: 'absolute',
+                  left: toLeft(seat.x - SEAT_LAYOUT_GAP / 2),
+                  top: toTop(seat.y - SEAT_LAYOUT_GAP / 2),
+                  width: toPercent(SEAT_LAYOUT_WIDTH + SEAT_LAYOUT_GAP, bounds.width),
+                  height: toPercent(SEAT_LAYOUT_HEIGHT + SEAT_LAYOUT_GAP, bounds.height),
+                  transform: seat.rotation ? `rotate(${seat.rotation}deg)` : undefined,
+                  backgroundColor: `${group.color}40`,
+                  printColorAdjust: 'exact',
+                  WebkitPrintColorAdjust: 'exact',
+                }}
+              />
+            );
+          })}
+          {seatMap.map((seat) => {
+            const student = seat.isUsable && seat.assignedStudentId
+              ? studentById.get(seat.assignedStudentId)
+              : null;
 
-          const seat = seatMap.find((s) => s.row === r && s.col === c && s.isUsable);
-          const student = seat?.assignedStudentId
-            ? students.find((s) => s.id === seat.assignedStudentId)
-            : null;
-
-          return (
-            <div
-              key={`${r}-${c}`}
-              className="print-seat-cell"
-              style={{
-                border: seat ? '1px solid #000' : '1px solid #bbb',
-                borderRadius: 0,
-                padding: '6px',
-                aspectRatio: '16/11',
-                minHeight: '60px',
-                display: 'flex',
-                flexDirection: 'column',
-                justifyContent: 'center',
-                alignItems: 'center',
-                backgroundColor: '#fff',
-                textAlign: 'center',
-                fontSize: '0.9em',
-                color: '#333',
-              }}
-            >
-              {seat ? (
-                <>
-                  {student ? (
-                    <div style={{ fontSize: '0.85em' }}>
-                      <div style={{ display: 'flex', flexDirection: 'row', justifyContent: 'center', alignItems: 'center', gap: '6px', marginBottom: '2px' }}>
-                        {selectedFields.number && student.number && <div>{`${student.number}:`}</div>}
-                        {selectedFields.name && student.name
-                          ? <div style={{ fontSize: 15, fontWeight: 'bold' }}>{student.name}</div>
-                          : <div>-</div>
-                        }
-                      </div>
-                      {selectedFields.kana && student.kana && <div>{student.kana}</div>}
-                      <div style={{ display: 'flex', flexDirection: 'row', justifyContent: 'flex-end', gap: '4px', color: '#555' }}>
-                        {selectedFields.info1 && student.info1 && <div>{student.info1}</div>}
-                        {selectedFields.info2 && student.info2 && <div>{student.info2}</div>}
-                        {selectedFields.info3 && student.info3 && <div>{student.info3}</div>}
+            return (
+              <div
+                key={seat.seatId}
+                className="print-seat-cell"
+                style={{
+                  position: 'absolute',
+                  left: toLeft(seat.x),
+                  top: toTop(seat.y),
+                  width: toPercent(SEAT_LAYOUT_WIDTH, bounds.width),
+                  height: toPercent(SEAT_LAYOUT_HEIGHT, bounds.height),
+                  transform: seat.rotation ? `rotate(${seat.rotation}deg)` : undefined,
+                  boxSizing: 'border-box',
+                  border: seat.isUsable ? '1px solid #000' : '1px solid #bbb',
+                  borderRadius: 0,
+                  padding: '4px',
+                  display: 'flex',
+                  flexDirection: 'column',
+                  justifyContent: 'center',
+                  alignItems: 'center',
+                  backgroundColor: '#fff',
+                  textAlign: 'center',
+                  fontSize: '0.9em',
+                  color: '#333',
+                  overflow: 'hidden',
+                }}
+              >
+                {seat.isUsable ? (
+                  <>
+                    {student ? (
+                      <div style={{ fontSize: '0.85em' }}>
+                        {studentPhotos?.[student.id] && (
+                          <img
+                            src={studentPhotos[student.id]}
+                            alt={student.name}
+                            style={{ width: '40px', height: '40px', objectFit: 'cover', borderRadius: '50%', display: 'block', margin: '0 auto 2px' }}
+                          />
+                        )}
+                        <div style={{ display: 'flex', flexDirection: 'row', justifyContent: 'center', alignItems: 'center', gap: '6px', marginBottom: '2px' }}>
+                          {selectedFields.number && student.number && <div>{`${student.number}:`}</div>}
+                          {selectedFields.name && student.name
+                            ? <div style={{ fontSize: 15, fontWeight: 'bold' }}>{student.name}</div>
+                            : <div>-</div>
+                          }
+                        </div>
+                        {selectedFields.kana && student.kana && <div>{student.kana}</div>}
+                        <div style={{ display: 'flex', flexDirection: 'row', justifyContent: 'flex-end', gap: '4px', color: '#555' }}>
+                          {printAttributes.map(def => {
+                            const badge = formatAttributeBadge(def, student.attributes?.[def.id]);
+                            return badge ? <div key={def.id}>{badge}</div> : null;
+                          })}
+                        </div>
+                        {selectedFields.id && student.id && <div style={{ fontSize: '0.75em', color: '#666' }}>{`ID: ${student.id}`}</div>}
                       </div>
-                      {selectedFields.id && student.id && <div style={{ fontSize: '0.75em', color: '#666' }}>{`ID: ${student.id}`}</div>}
-                    </div>
-                  ) : (
-                    <div style={{ color: '#999' }}>空席</div>
-                  )}
-                </>
-              ) : (
-                <div style={{ color: '#ccc' }}>-</div>
-              )}
-            </div>
-          );
-        })}
-      </div>
+                    ) : (
+                      <div style={{ color: '#999' }}>空席</div>
+                    )}
+                  </>
+                ) : (
+                  <div style={{ color: '#ccc' }}>-</div>
+                )}
+              </div>
+            );
+          })}
+          {[...groupLabelSeatIds].map(([groupId, seatId]) => {
+            const group = groupById.get(groupId);
+            const seat = seatById.get(seatId);
+            if (!group || !seat) return null;
+            return (
+              <div
+                key={`group-label-${groupId}`}
+                style={{
+                  position: 'absolute',
+                  left: toLeft(seat.x),
+                  top: toTop(seat.y - SEAT_LAYOUT_GAP / 2),
+                  padding: '0 4px',
+                  backgroundColor: group.color,
+                  color: '#fff',
+                  fontSize: '0.7em',
+                  fontWeight: 'bold',
+                  printColorAdjust: 'exact',
+                  WebkitPrintColorAdjust: 'exact',
+                }}
+              >
+                {group.name}
+              </div>
+            );
+          })}
+        </div>
 
-      <div style={{ textAlign: 'center', marginTop: '6px', fontSize: '0.8em', color: '#666' }}>
-        後
+        <div style={{ textAlign: 'center', fontSize: '0.8em', color: '#666' }}>
+          後
+        </div>
       </div>
+
+      {excludedStudents.length > 0 && (
+        <div className="print-excluded-students" style={{ marginTop: '8px', fontSize: '0.8em', color: '#333' }}>
+          {`席替えから除外: ${excludedStudents
+            .map((s) => [selectedFields.number ? s.number : '', s.name].filter(Boolean).join(' '))
+            .join('、')}`}
+        </div>
+      )}
     </div>
   );
 };
@@ -13,6 +13,7 @@ import {
   DialogActions,
   Slide,
   Alert,
+  Avatar,
 } from '@mui/material';
 import PlayArrowIcon from '@mui/icons-material/PlayArrow';
 import StopIcon from '@mui/icons-material/Stop';
@@ -24,12 +25,20 @@ import KeyboardArrowDownIcon from '@mui/icons-material/KeyboardArrowDown';
 import KeyboardArrowUpIcon from '@mui/icons-material/KeyboardArrowUp';
 
 import Seat from '../Seat/Seat';
+import SeatLayoutViewport from '../Seat/SeatLayoutViewport';
+import ChartOrientationToggle from '../Seat/ChartOrientationToggle';
 
 import type { Student } from '../../types/Student';
 import type { SeatMapData } from '../../types/Seat';
+import type { StudentAttributeDefinition } from '../../types/Attribute';
 import { useAppState } from '../../contexts/AppStateContext';
+import { getSeatLabel } from '../../utils/seatLayout';
+import { getSeatZoneSeats } from '../../utils/seatZones';
+import { applySeatPlacements, assignRemainingSeats, assignSeatForStudent } from '../../utils/assignmentEngine';
+import type { SeatPlacement } from '../../utils/assignmentEngine';
 import type { TransitionProps } from '@mui/material/transitions';
 import type { RouletteState } from '../../types/Roulette';
+import { getSeatingTargets, indexStudentsById } from '../../utils/roster';
 
 const Transition = React.forwardRef(function Transition(
   props: TransitionProps & { children: React.ReactElement },
@@ -42,6 +51,50 @@ const Transition = React.forwardRef(function Transition(
 const BULK_SPIN_MS = 800;
 const BULK_CONFIRM_MS = 300;
 
+interface RouletteSeatProps {
+  seatData: SeatMapData;
+  assignedStudent: Student | null;
+  isHighlighted: boolean;
+  onSelect?: (seatId: string) => void; // ルーレット中に手動で当選させる座席を選ぶ（選べない座席では undefined）
+  projectorAttributes: StudentAttributeDefinition[];
+  photoUrl?: string;
+}
+
+// ルーレットは 100ms ごとに点灯する座席が変わるため、点灯が変わった座席だけを描画し直せるよう1席分を分けておく
+const RouletteSeat = React.memo(function RouletteSeat({
+  seatData,
+  assignedStudent,
+  isHighlighted,
+  onSelect,
+  projectorAttributes,
+  photoUrl,
+}: RouletteSeatProps) {
+  return (
+    <Box
+      sx={{
+        border: isHighlighted ? '3px solid' : '1px solid',
+        borderColor: isHighlighted ? 'warning.main' : (assignedStudent ? 'primary.dark' : 'grey.400'),
+        boxShadow: isHighlighted ? 6 : 1,
+        transition: 'all 0.1s ease-in-out',
+        borderRadius: 2,
+      }}
+    >
+      <Seat
+        seatId={seatData.seatId}
+        seatData={seatData}
+        assignedStudent={assignedStudent}
+        onClick={onSelect}
+        isHighlighted={isHighlighted}
+        isConfigMode={false}
+        displayMode='roulette'
+        isDragDisabled={true}
+        projectorAttributes={projectorAttributes}
+        photoUrl={photoUrl}
+      />
+    </Box>
+  );
+});
+
 const RouletteDisplay: React.FC = () => {
   const {
     students,
@@ -51,9 +104,25 @@ const RouletteDisplay: React.FC = () => {
     rouletteState,
     setRouletteState,
     fixedSeatAssignments,
+    seatZoneAssignments,
+    seatingConstraints,
+    attributeRules,
     setAppPhase,
+    attributeSchema,
+    studentPhotos,
+    photoDisplay,
+    seatGroups,
+    roomFeatures,
+    chartOrientation,
+    setChartOrientation,
   } = useAppState();
 
+  // プロジェクターに投影する座席に表示する属性
+  const projectorAttributes = useMemo(
+    () => attributeSchema.filter(def => def.showOnProjector),
+    [attributeSchema]
+  );
+
   const animationFrameRef = useRef<number | null>(null);
   const bulkTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const rouletteSpeed = 100;
@@ -64,10 +133,17 @@ const RouletteDisplay: React.FC = () => {
   const [localErrorMessage, setLocalErrorMessage] = useState<string | null>(null);
   const [manuallySelectedSeatIdForRoulette, setManuallySelectedSeatIdForRoulette] = useState<string | null>(null);
   const [panelVisible, setPanelVisible] = useState(true);
+  // 近くに座らせる組として、発表中の生徒と一緒に座席が決まった生徒
+  const [companionPlacements, setCompanionPlacements] = useState<SeatPlacement[]>([]);
+
+  const studentById = useMemo(() => indexStudentsById(students), [students]);
+
+  // 席替えから除外された生徒は割り当ての対象にしない
+  const seatingTargets = useMemo(() => getSeatingTargets(students), [students]);
 
   const unassignedStudents = useMemo(() => {
-    return students.filter(s => !s.isAssigned).sort((a, b) => Number(a.number) - Number(b.number));
-  }, [students]);
+    return seatingTargets.filter(s => !s.isAssigned).sort((a, b) => Number(a.number) - Number(b.number));
+  }, [seatingTargets]);
 
   const availableSeats = useMemo(() => {
     return seatMap.filter(seat => seat.isUsable && !seat.assignedStudentId);
@@ -91,21 +167,27 @@ const RouletteDisplay: React.FC = () => {
     setLocalErrorMessage(null);
     setRouletteState((prev: RouletteState) => ({ ...prev, isRunning: true, isStopped: false, currentSelectedSeatId: null }));
     setManuallySelectedSeatIdForRoulette(null);
+    setCompanionPlacements([]);
 
     if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
 
+    // 座席の範囲のある生徒は、範囲の中の空席だけを点灯する
+    const zone = seatZoneAssignments.find(a => a.studentId === selectedStudentForAssignment.id)?.zone;
+    const zoneSeats = zone ? getSeatZoneSeats(availableSeats, zone) : [];
+    const rouletteSeats = zoneSeats.length > 0 ? zoneSeats : availableSeats;
+
     let lastTime = 0;
     const animate = (currentTime: number) => {
       if (!lastTime || currentTime - lastTime >= rouletteSpeed) {
         lastTime = currentTime;
-        const randomIndex = Math.floor(Math.random() * availableSeats.length);
-        const randomSeatId = availableSeats[randomIndex]?.seatId || null;
+        const randomIndex = Math.floor(Math.random() * rouletteSeats.length);
+        const randomSeatId = rouletteSeats[randomIndex]?.seatId || null;
         setRouletteState((prev: RouletteState) => ({ ...prev, currentSelectedSeatId: randomSeatId }));
       }
       animationFrameRef.current = requestAnimationFrame(animate);
     };
     animationFrameRef.current = requestAnimationFrame(animate);
-  }, [availableSeats, rouletteState.isRunning, selectedStudentForAssignment, setRouletteState, rouletteSpeed]);
+  }, [availableSeats, rouletteState.isRunning, selectedStudentForAssignment, seatZoneAssignments, setRouletteState, rouletteSpeed]);
 
   const stopRoulette = useCallback(() => {
     if (!rouletteState.isRunning) return;
@@ -124,60 +206,41 @@ const RouletteDisplay: React.FC = () => {
       return;
     }
 
-    let finalChosenSeatId: string | null = null;
-
-    const fixedAssignmentForStudent = fixedSeatAssignments.find(fsa => fsa.studentId === selectedStudentForAssignment.id);
-
-    if (fixedAssignmentForStudent) {
-      const fixedSeatId = fixedAssignmentForStudent.seatId;
-      const targetFixedSeat = seatMap.find(seat => seat.seatId === fixedSeatId);
-      if (!targetFixedSeat || !targetFixedSeat.isUsable) {
-        setLocalErrorMessage(`生徒 ${selectedStudentForAssignment.name} の固定座席 (${fixedSeatId}) は使用できません。`);
-      } else if (targetFixedSeat.assignedStudentId && targetFixedSeat.assignedStudentId !== selectedStudentForAssignment.id) {
-        setLocalErrorMessage(`生徒 ${selectedStudentForAssignment.name} の固定座席 (${fixedSeatId}) は既に他の生徒に割り当てられています。`);
-      } else {
-        finalChosenSeatId = fixedSeatId;
-      }
-    } else if (manuallySelectedSeatIdForRoulette && availableSeats.find((s: SeatMapData) => s.seatId === manuallySelectedSeatIdForRoulette)) {
-      finalChosenSeatId = manuallySelectedSeatIdForRoulette;
-    } else if (rouletteState.currentSelectedSeatId && availableSeats.find((s: SeatMapData) => s.seatId === rouletteState.currentSelectedSeatId)) {
-      finalChosenSeatId = rouletteState.currentSelectedSeatId;
-    } else if (availableSeats.length > 0) {
-      finalChosenSeatId = availableSeats[Math.floor(Math.random() * availableSeats.length)].seatId;
-    }
+    const { placements, issues } = assignSeatForStudent(
+      { students, seatMap, fixedSeatAssignments, seatZoneAssignments, seatingConstraints, attributeRules },
+      selectedStudentForAssignment.id,
+      { preferredSeatId: manuallySelectedSeatIdForRoulette },
+    );
 
-    if (!finalChosenSeatId) {
-      setLocalErrorMessage('割り当て可能な空席が見つかりませんでした。');
+    if (issues.length > 0) {
+      setLocalErrorMessage(issues.map(issue => issue.message).join(' '));
       setRouletteState((prev: RouletteState) => ({ ...prev, isRunning: false, isStopped: true, currentSelectedSeatId: null, currentAssigningStudent: null }));
       setManuallySelectedSeatIdForRoulette(null);
       return;
     }
 
-    const updatedSeatMap = seatMap.map(seat =>
-      seat.seatId === finalChosenSeatId ? { ...seat, assignedStudentId: selectedStudentForAssignment.id } : seat
-    );
-    setSeatMap(updatedSeatMap);
-
-    const updatedStudents = students.map(s =>
-      s.id === selectedStudentForAssignment.id ? { ...s, isAssigned: true, assignedSeatId: finalChosenSeatId } : s
-    );
-    setStudents(updatedStudents);
+    const updated = applySeatPlacements(students, seatMap, placements);
+    setSeatMap(updated.seatMap);
+    setStudents(updated.students);
 
     setRouletteState(prev => ({
       ...prev,
       isRunning: false,
       isStopped: true,
-      currentSelectedSeatId: finalChosenSeatId,
+      currentSelectedSeatId: placements[0].seatId,
       currentAssigningStudent: selectedStudentForAssignment,
-      winningHistory: [...prev.winningHistory, { studentId: selectedStudentForAssignment.id, seatId: finalChosenSeatId! }],
+      winningHistory: [...prev.winningHistory, ...placements],
     }));
 
+    // 組の生徒は選んだ生徒の後に返るので、一緒に座席を点灯して発表する
+    setCompanionPlacements(placements.slice(1));
     setManuallySelectedSeatIdForRoulette(null);
     setOpenResultModal(true);
-  }, [rouletteState.isRunning, rouletteState.currentSelectedSeatId, availableSeats, selectedStudentForAssignment, seatMap, students, setSeatMap, setStudents, setRouletteState, manuallySelectedSeatIdForRoulette, fixedSeatAssignments]);
+  }, [rouletteState.isRunning, selectedStudentForAssignment, seatMap, students, setSeatMap, setStudents, setRouletteState, manuallySelectedSeatIdForRoulette, fixedSeatAssignments, seatZoneAssignments, seatingConstraints, attributeRules]);
 
   const handleCloseResultModal = useCallback(() => {
     setOpenResultModal(false);
+    setCompanionPlacements([]);
     const nextUnassignedStudent = unassignedStudents.find(s => s.id !== selectedStudentForAssignment?.id);
     if (nextUnassignedStudent) {
       setSelectedStudentForAssignment(nextUnassignedStudent);
@@ -196,7 +259,7 @@ const RouletteDisplay: React.FC = () => {
     const resetStudents = students.map(s => ({ ...s, isAssigned: false, assignedSeatId: null }));
     setStudents(resetStudents);
 
-    const initialAssigningStudent = resetStudents.filter(s => !s.isAssigned).sort((a, b) => Number(a.number) - Number(b.number))[0] || null;
+    const initialAssigningStudent = getSeatingTargets(resetStudents).sort((a, b) => Number(a.number) - Number(b.number))[0] || null;
     setRouletteState({
       isRunning: false,
       currentSelectedSeatId: null,
@@ -207,11 +270,12 @@ const RouletteDisplay: React.FC = () => {
     setLocalErrorMessage(null);
     setSelectedStudentForAssignment(initialAssigningStudent);
     setManuallySelectedSeatIdForRoulette(null);
+    setCompanionPlacements([]);
   }, [seatMap, students, setSeatMap, setStudents, setRouletteState]);
 
   const handleStudentSelect = useCallback((studentId: string) => {
     const student = students.find((s: Student) => s.id === studentId);
-    if (student && !student.isAssigned) {
+    if (student && !student.isAssigned && !student.isExcluded) {
       setSelectedStudentForAssignment(student);
       setRouletteState((prev: RouletteState) => ({ ...prev, currentAssigningStudent: student, isStopped: false, currentSelectedSeatId: null }));
       setLocalErrorMessage(null);
@@ -220,92 +284,30 @@ const RouletteDisplay: React.FC = () => {
   }, [students, setRouletteState]);
 
   const handleBulkAssign = useCallback(() => {
-    if (unassignedStudents.length === 0) { setLocalErrorMessage('割り当てる生徒がいません。'); return; }
-    if (availableSeats.length === 0) { setLocalErrorMessage('割り当て可能な空席がありません。'); return; }
-    if (unassignedStudents.length > availableSeats.length) {
-      setLocalErrorMessage(`生徒 (${unassignedStudents.length}人) が空席 (${availableSeats.length}席) より多いため、一括割り当てできません。`);
+    // 割り当ては先にまとめて決め、アニメーションはその結果を1人（近くに座らせる組は1組）ずつ発表するだけにする
+    const { steps, issues } = assignRemainingSeats({ students, seatMap, fixedSeatAssignments, seatZoneAssignments, seatingConstraints, attributeRules });
+    if (issues.length > 0) {
+      setLocalErrorMessage(issues.map(issue => issue.message).join(' '));
       return;
     }
     if (!window.confirm('残りの生徒をランダムに空席へ一括割り当てします。よろしいですか？')) return;
 
     setLocalErrorMessage(null);
 
-    // --- 割り当てキューを事前計算 ---
-    let tempSeatMap: SeatMapData[] = JSON.parse(JSON.stringify(seatMap));
-    let tempStudents: Student[] = JSON.parse(JSON.stringify(students));
-    const assignedStudentIds = new Set<string>();
-    const assignedSeatIds = new Set<string>();
-    const queue: { studentId: string; seatId: string }[] = [];
-    const errors: string[] = [];
-
-    // 固定座席の未割り当て生徒を先にキューへ
-    fixedSeatAssignments.forEach(fsa => {
-      const student = tempStudents.find(s => s.id === fsa.studentId && !s.isAssigned);
-      const seat = tempSeatMap.find(s => s.seatId === fsa.seatId);
-      if (!student) return;
-      if (!seat || !seat.isUsable) { errors.push(`生徒 ${student.name} の固定座席 (${fsa.seatId}) は使用できません。`); return; }
-      if (seat.assignedStudentId && seat.assignedStudentId !== student.id) { errors.push(`生徒 ${student.name} の固定座席 (${fsa.seatId}) は既に他の生徒に割り当てられています。`); return; }
-      if (assignedStudentIds.has(student.id) || assignedSeatIds.has(fsa.seatId)) return;
-
-      queue.push({ studentId: student.id, seatId: fsa.seatId });
-      tempSeatMap = tempSeatMap.map(s => s.seatId === fsa.seatId ? { ...s, assignedStudentId: student.id } : s);
-      tempStudents = tempStudents.map(s => s.id === student.id ? { ...s, isAssigned: true, assignedSeatId: fsa.seatId } : s);
-      assignedStudentIds.add(student.id);
-      assignedSeatIds.add(fsa.seatId);
-    });
-
-    // 残りをランダムにキューへ
-    const remaining = tempStudents.filter(s => !s.isAssigned);
-    const remainingSeats = tempSeatMap.filter(s => s.isUsable && !s.assignedStudentId);
-    for (let i = remaining.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [remaining[i], remaining[j]] = [remaining[j], remaining[i]];
-    }
-    for (let i = remainingSeats.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [remainingSeats[i], remainingSeats[j]] = [remainingSeats[j], remainingSeats[i]];
-    }
-    remaining.forEach(student => {
-      let assigned = false;
-      for (let i = 0; i < remainingSeats.length; i++) {
-        const seat = remainingSeats[i];
-        if (assignedSeatIds.has(seat.seatId)) continue;
-        queue.push({ studentId: student.id, seatId: seat.seatId });
-        tempSeatMap = tempSeatMap.map(s => s.seatId === seat.seatId ? { ...s, assignedStudentId: student.id } : s);
-        tempStudents = tempStudents.map(s => s.id === student.id ? { ...s, isAssigned: true, assignedSeatId: seat.seatId } : s);
-        assignedStudentIds.add(student.id);
-        assignedSeatIds.add(seat.seatId);
-        remainingSeats.splice(i, 1);
-        assigned = true;
-        break;
-      }
-      if (!assigned) errors.push(student.name);
-    });
-
-    if (errors.length > 0) {
-      setLocalErrorMessage(`以下の生徒の座席を見つけられませんでした: ${errors.join(', ')}`);
-      return;
-    }
-
-    // 固定座席・ランダムの区別なく順番を完全にシャッフル
-    for (let i = queue.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [queue[i], queue[j]] = [queue[j], queue[i]];
-    }
-
     // --- 1人ずつアニメーション実行 ---
     setIsBulkAnimating(true);
     setManuallySelectedSeatIdForRoulette(null);
 
     const runBulkAnimation = (
-      remaining: { studentId: string; seatId: string }[],
+      remaining: SeatPlacement[][],
       liveSeatMap: SeatMapData[],
       liveStudents: Student[],
-      liveHistory: { studentId: string; seatId: string }[],
+      liveHistory: SeatPlacement[],
     ) => {
       if (remaining.length === 0) {
         setIsBulkAnimating(false);
         setSelectedStudentForAssignment(null);
+        setCompanionPlacements([]);
         setRouletteState((prev: RouletteState) => ({
           ...prev,
           isRunning: false,
@@ -318,11 +320,13 @@ const RouletteDisplay: React.FC = () => {
         return;
       }
 
-      const { studentId, seatId } = remaining[0];
+      const step = remaining[0];
+      const { studentId, seatId } = step[0];
       const student = liveStudents.find(s => s.id === studentId)!;
       const animatableSeats = liveSeatMap.filter(s => s.isUsable && !s.assignedStudentId);
 
       setSelectedStudentForAssignment(student);
+      setCompanionPlacements([]);
       setRouletteState((prev: RouletteState) => ({
         ...prev,
         isRunning: true,
@@ -349,13 +353,8 @@ const RouletteDisplay: React.FC = () => {
           animationFrameRef.current = null;
         }
 
-        const newSeatMap = liveSeatMap.map(s =>
-          s.seatId === seatId ? { ...s, assignedStudentId: studentId } : s
-        );
-        const newStudents = liveStudents.map(s =>
-          s.id === studentId ? { ...s, isAssigned: true, assignedSeatId: seatId } : s
-        );
-        const newHistory = [...liveHistory, { studentId, seatId }];
+        const { seatMap: newSeatMap, students: newStudents } = applySeatPlacements(liveStudents, liveSeatMap, step);
+        const newHistory = [...liveHistory, ...step];
 
         setSeatMap(newSeatMap);
         setStudents(newStudents);
@@ -367,6 +366,7 @@ const RouletteDisplay: React.FC = () => {
           currentAssigningStudent: student,
           winningHistory: newHistory,
         }));
+        setCompanionPlacements(step.slice(1));
 
         bulkTimeoutRef.current = setTimeout(() => {
           runBulkAnimation(remaining.slice(1), newSeatMap, newStudents, newHistory);
@@ -374,8 +374,8 @@ const RouletteDisplay: React.FC = () => {
       }, BULK_SPIN_MS);
     };
 
-    runBulkAnimation(queue, seatMap, students, rouletteState.winningHistory);
-  }, [unassignedStudents, availableSeats, seatMap, students, rouletteState.winningHistory, fixedSeatAssignments, setSeatMap, setStudents, setRouletteState, rouletteSpeed]);
+    runBulkAnimation(steps, seatMap, students, rouletteState.winningHistory);
+  }, [seatMap, students, rouletteState.winningHistory, fixedSeatAssignments, seatZoneAssignments, seatingConstraints, attributeRules, setSeatMap, setStudents, setRouletteState, rouletteSpeed]);
 
   const handleCancelBulkAssign = useCallback(() => {
     if (bulkTimeoutRef.current) clearTimeout(bulkTimeoutRef.current);
@@ -384,13 +384,19 @@ const RouletteDisplay: React.FC = () => {
       animationFrameRef.current = null;
     }
     setIsBulkAnimating(false);
+    setCompanionPlacements([]);
     setRouletteState((prev: RouletteState) => ({ ...prev, isRunning: false, isStopped: true, currentSelectedSeatId: null }));
   }, [setRouletteState]);
 
   const allStudentsAssigned = unassignedStudents.length === 0;
-  const maxRow = seatMap.length > 0 ? Math.max(...seatMap.map(s => parseInt(s.seatId.match(/R(\d+)C(\d+)/)?.[1] || '0', 10))) : 0;
-  const maxCol = seatMap.length > 0 ? Math.max(...seatMap.map(s => parseInt(s.seatId.match(/R(\d+)C(\d+)/)?.[2] || '0', 10))) : 0;
-  const assignedCount = students.length - unassignedStudents.length;
+  const assignedCount = seatingTargets.length - unassignedStudents.length;
+  const excludedCount = students.length - seatingTargets.length;
+  // 組で座席が決まったときは、発表中の生徒と組の生徒の座席をまとめて点灯する
+  const togetherSeatIds = new Set(
+    !rouletteState.isRunning && companionPlacements.length > 0
+      ? [rouletteState.currentSelectedSeatId, ...companionPlacements.map(placement => placement.seatId)]
+      : []
+  );
 
   return (
     <Box sx={{ minHeight: 'calc(100vh - 8px)', pt: 2 }}>
@@ -405,55 +411,40 @@ const RouletteDisplay: React.FC = () => {
         </Alert>
       )}
 
-      {/* 座席グリッド - 画面中央に配置 */}
+      {/* 座席レイアウト - 画面中央に配置 */}
       <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', overflowX: 'auto', px: 1 }}>
-        <Box sx={{ alignSelf: 'stretch', textAlign: 'center', bgcolor: 'grey.800', color: 'white', py: 0.5, borderRadius: 1, mb: 1 }}>
-          <Typography variant="caption" sx={{ fontWeight: 'bold' }}>黒板（前）</Typography>
-        </Box>
-        {Array.from({ length: maxRow }).map((_, rowIndex) => (
-          <Box key={`row-${rowIndex}`} sx={{ display: 'flex', gap: 0.5, mb: 0.5 }}>
-            {Array.from({ length: maxCol }).map((_, colIndex) => {
-              const seatId = `R${rowIndex + 1}C${colIndex + 1}`;
-              const seatData = seatMap.find(s => s.seatId === seatId);
-              if (!seatData) return null;
-
-              const assignedStudent = students.find(s => s.id === seatData.assignedStudentId);
-              const isHighlighted = rouletteState.isRunning && rouletteState.currentSelectedSeatId === seatId;
-              const isManuallySelected = manuallySelectedSeatIdForRoulette === seatId;
-
-              return (
-                <Box
-                  key={seatId}
-                  sx={{
-                    border: (isHighlighted || isManuallySelected) ? '3px solid' : '1px solid',
-                    borderColor: (isHighlighted || isManuallySelected) ? 'warning.main' : (assignedStudent ? 'primary.dark' : 'grey.400'),
-                    boxShadow: (isHighlighted || isManuallySelected) ? 6 : 1,
-                    transition: 'all 0.1s ease-in-out',
-                    borderRadius: 2,
-                  }}
-                >
-                  <Seat
-                    seatId={seatId}
-                    seatData={seatData}
-                    assignedStudent={assignedStudent || null}
-                    onClick={
-                      (rouletteState.isRunning && !seatData.assignedStudentId && seatData.isUsable)
-                        ? () => setManuallySelectedSeatIdForRoulette(seatId)
-                        : undefined
-                    }
-                    isHighlighted={isHighlighted || isManuallySelected}
-                    isConfigMode={false}
-                    displayMode='roulette'
-                    isDragDisabled={true}
-                  />
-                </Box>
-              );
-            })}
-          </Box>
-        ))}
-        <Box sx={{ alignSelf: 'stretch', textAlign: 'center', mt: 1 }}>
-          <Typography variant="caption" color="text.secondary">後</Typography>
+        <Box sx={{ mb: 1 }}>
+          <ChartOrientationToggle value={chartOrientation} onChange={setChartOrientation} />
         </Box>
+        <SeatLayoutViewport
+          seatMap={seatMap}
+          seatGroups={seatGroups}
+          roomFeatures={roomFeatures}
+          orientation={chartOrientation}
+          maxHeight="calc(100vh - 120px)"
+          focusSeatId={rouletteState.isRunning ? null : rouletteState.currentSelectedSeatId}
+          renderSeat={(seatData) => {
+            const seatId = seatData.seatId;
+            const assignedStudent = seatData.assignedStudentId ? studentById.get(seatData.assignedStudentId) ?? null : null;
+            const isHighlighted = (rouletteState.isRunning && rouletteState.currentSelectedSeatId === seatId) || togetherSeatIds.has(seatId);
+            const isManuallySelected = manuallySelectedSeatIdForRoulette === seatId;
+
+            return (
+              <RouletteSeat
+                seatData={seatData}
+                assignedStudent={assignedStudent}
+                isHighlighted={isHighlighted || isManuallySelected}
+                onSelect={
+                  (rouletteState.isRunning && !seatData.assignedStudentId && seatData.isUsable)
+                    ? setManuallySelectedSeatIdForRoulette
+                    : undefined
+                }
+                projectorAttributes={projectorAttributes}
+                photoUrl={assignedStudent && photoDisplay.showOnProjector ? studentPhotos[assignedStudent.id] : undefined}
+              />
+            );
+          }}
+        />
       </Box>
 
       {/* パネル非表示時: 展開ボタンのみ表示 */}
@@ -486,7 +477,8 @@ const RouletteDisplay: React.FC = () => {
           {/* 1行目: 進捗 + 次の生徒(Autocomplete) + 折りたたみボタン */}
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, mb: 1.5 }}>
             <Typography variant="body2" color="text.secondary" noWrap>
-              {assignedCount} / {students.length} 名割り当て済み
+              {assignedCount} / {seatingTargets.length} 名割り当て済み
+              {excludedCount > 0 && `（除外 ${excludedCount} 名）`}
             </Typography>
             <Autocomplete<Student>
               options={unassignedStudents}
@@ -594,6 +586,13 @@ const RouletteDisplay: React.FC = () => {
           </Typography>
         </DialogTitle>
         <DialogContent sx={{ textAlign: 'center' }}>
+          {rouletteState.currentAssigningStudent && photoDisplay.showOnProjector && studentPhotos[rouletteState.currentAssigningStudent.id] && (
+            <Avatar
+              src={studentPhotos[rouletteState.currentAssigningStudent.id]}
+              alt={rouletteState.currentAssigningStudent.name}
+              sx={{ width: 120, height: 120, mx: 'auto', mt: 1 }}
+            />
+          )}
           {rouletteState.currentAssigningStudent && rouletteState.currentSelectedSeatId ? (
             <Typography variant="h5" color="text.primary" sx={{ mt: 1 }}>
               <Box component="span" sx={{ fontWeight: 'bold', color: 'error.main' }}>
@@ -601,13 +600,26 @@ const RouletteDisplay: React.FC = () => {
               </Box>
               さんは
               <Box component="span" sx={{ fontWeight: 'bold', color: 'primary.dark' }}>
-                {rouletteState.currentSelectedSeatId}
+                {getSeatLabel(seatMap, rouletteState.currentSelectedSeatId)}
               </Box>
               に決定しました！
             </Typography>
           ) : (
             <Typography variant="h6" color="text.secondary">選ばれませんでした。</Typography>
           )}
+          {rouletteState.currentSelectedSeatId && companionPlacements.map(placement => (
+            <Typography key={placement.studentId} variant="h6" color="text.primary" sx={{ mt: 1 }}>
+              一緒に座る
+              <Box component="span" sx={{ fontWeight: 'bold', color: 'error.main', mx: 0.5 }}>
+                {studentById.get(placement.studentId)?.name}
+              </Box>
+              さんは
+              <Box component="span" sx={{ fontWeight: 'bold', color: 'primary.dark' }}>
+                {getSeatLabel(seatMap, placement.seatId)}
+              </Box>
+              です
+            </Typography>
+          ))}
         </DialogContent>
         <DialogActions sx={{ justifyContent: 'center', pb: 2 }}>
           <Button onClick={handleCloseResultModal} variant="contained" size="large">OK</Button>
@@ -628,7 +640,7 @@ const RouletteDisplay: React.FC = () => {
         </DialogTitle>
         <DialogContent sx={{ textAlign: 'center' }}>
           <Typography variant="h6" color="text.primary" sx={{ mt: 1 }}>
-            全 {students.length} 名の座席が決まりました！
+            全 {seatingTargets.length} 名の座席が決まりました！
           </Typography>
         </DialogContent>
         <DialogActions sx={{ justifyContent: 'center', pb: 2, gap: 1 }}>
@@ -0,0 +1,42 @@
+import React from 'react';
+import { ToggleButton, ToggleButtonGroup, Tooltip } from '@mui/material';
+import type { ChartOrientation } from '../../types/ChartOrientation';
+import { CHART_ORIENTATIONS } from '../../constants';
+
+/**
+ * ChartOrientationToggle コンポーネントが受け取るPropsの型定義です。
+ */
+interface ChartOrientationToggleProps {
+  /**
+   * 現在の座席表の向きです。
+   */
+  value: ChartOrientation;
+  /**
+   * 向きを切り替えたときに呼び出されるコールバック関数です。
+   */
+  onChange: (orientation: ChartOrientation) => void;
+}
+
+/**
+ * 座席表を生徒側・先生側・左右のどこから見た向きで表示するかを切り替えるボタンです。
+ * 座席表・ルーレット・出力画面で共通の設定を切り替えます。
+ */
+const ChartOrientationToggle: React.FC<ChartOrientationToggleProps> = ({ value, onChange }) => (
+  <ToggleButtonGroup
+    size="small"
+    exclusive
+    value={value}
+    onChange={(_, next: ChartOrientation | null) => { if (next) onChange(next); }}
+    aria-label="座席表の向き"
+  >
+    {(Object.keys(CHART_ORIENTATIONS) as ChartOrientation[]).map(orientation => (
+      <Tooltip key={orientation} title={CHART_ORIENTATIONS[orientation].description}>
+        <ToggleButton value={orientation} sx={{ px: 1.5 }}>
+          {CHART_ORIENTATIONS[orientation].label}
+        </ToggleButton>
+      </Tooltip>
+    ))}
+  </ToggleButtonGroup>
+);
+
+export default ChartOrientationToggle;
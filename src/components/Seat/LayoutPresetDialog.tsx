@@ -0,0 +1,287 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import SaveIcon from '@mui/icons-material/Save';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
+import type { SeatGroup, SeatMap } from '../../types/Seat';
+import type { LayoutPreset } from '../../types/LayoutPreset';
+import type { RoomFeature } from '../../types/RoomFeature';
+import { loadLayoutPresets, saveLayoutPresets } from '../../utils/localStorage';
+import {
+  appendLayoutPresets,
+  createLayoutPreset,
+  createSeatMapFromPreset,
+  parseLayoutPresets,
+  serializeLayoutPresets,
+  toPresetSeats,
+} from '../../utils/layoutPresets';
+
+/**
+ * LayoutPresetDialog コンポーネントが受け取るPropsの型定義です。
+ */
+interface LayoutPresetDialogProps {
+  /**
+   * ダイアログを開くかどうかです。
+   */
+  open: boolean;
+  /**
+   * 編集中の座席マップです。「現在のレイアウトを保存」で保存します。
+   */
+  seatMap: SeatMap;
+  /**
+   * 編集中の班の定義です。座席マップと一緒に保存します。
+   */
+  seatGroups: SeatGroup[];
+  /**
+   * 編集中の教室の設備です。座席マップと一緒に保存します。
+   */
+  roomFeatures: RoomFeature[];
+  /**
+   * プリセットを読み込んだときに、プリセットから作成した座席マップと班の定義、教室の設備を受け取るコールバック関数です。
+   */
+  onLoad: (seatMap: SeatMap, seatGroups: SeatGroup[], roomFeatures: RoomFeature[]) => void;
+  /**
+   * ダイアログを閉じるときに呼び出されるコールバック関数です。
+   */
+  onClose: () => void;
+}
+
+const downloadJson = (text: string, fileName: string) => {
+  const blob = new Blob([text], { type: 'application/json;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * 座席レイアウトに名前を付けて保存し、一覧から読み込み・名前の変更・削除・JSONでの書き出しと読み込みを行うダイアログです。
+ * プリセットはクラスのデータとは別に保存するため、データをリセットしても残ります。
+ */
+const LayoutPresetDialog: React.FC<LayoutPresetDialogProps> = ({
+  open,
+  seatMap,
+  seatGroups,
+  roomFeatures,
+  onLoad,
+  onClose,
+}) => {
+  const [presets, setPresets] = useState<LayoutPreset[]>([]);
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [message, setMessage] = useState<{ severity: 'success' | 'error'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setPresets(loadLayoutPresets());
+    setNewName('');
+    setEditingId(null);
+    setMessage(null);
+  }, [open]);
+
+  // 一覧を更新し、すぐに保存する
+  const updatePresets = (next: LayoutPreset[], successText?: string) => {
+    try {
+      saveLayoutPresets(next);
+      setPresets(next);
+      setMessage(successText ? { severity: 'success', text: successText } : null);
+    } catch (error) {
+      setMessage({ severity: 'error', text: (error as Error).message });
+    }
+  };
+
+  const handleSaveCurrent = () => {
+    const name = newName.trim();
+    if (!name) return;
+    const existing = presets.find(preset => preset.name === name);
+    if (existing) {
+      if (!window.confirm(`「${name}」を現在のレイアウトで上書きしますか？`)) return;
+      updatePresets(
+        presets.map(preset => preset.id === existing.id
+          ? { ...preset, seats: toPresetSeats(seatMap), groups: seatGroups, roomFeatures, updatedAt: new Date().toISOString() }
+          : preset),
+        `「${name}」を上書きしました。`,
+      );
+    } else {
+      updatePresets([...presets, createLayoutPreset(presets, name, seatMap, seatGroups, roomFeatures)], `「${name}」を保存しました。`);
+    }
+    setNewName('');
+  };
+
+  const handleLoad = (preset: LayoutPreset) => {
+    if (!window.confirm(`「${preset.name}」を読み込みますか？編集中の座席の配置は置き換えられ、座席の割り当ては解除されます。`)) return;
+    onLoad(createSeatMapFromPreset(preset), preset.groups, preset.roomFeatures);
+    onClose();
+  };
+
+  const handleStartRename = (preset: LayoutPreset) => {
+    setEditingId(preset.id);
+    setEditingName(preset.name);
+  };
+
+  const handleCommitRename = () => {
+    const name = editingName.trim();
+    if (editingId && name) {
+      if (presets.some(preset => preset.id !== editingId && preset.name === name)) {
+        setMessage({ severity: 'error', text: `「${name}」という名前のプリセットが既にあります。` });
+        return;
+      }
+      updatePresets(presets.map(preset => preset.id === editingId ? { ...preset, name } : preset));
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (preset: LayoutPreset) => {
+    if (!window.confirm(`「${preset.name}」を削除しますか？`)) return;
+    updatePresets(presets.filter(p => p.id !== preset.id), `「${preset.name}」を削除しました。`);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseLayoutPresets(await file.text());
+      updatePresets(appendLayoutPresets(presets, imported), `${imported.length} 件のプリセットを読み込みました。`);
+    } catch (error) {
+      setMessage({ severity: 'error', text: (error as Error).message });
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>レイアウトのプリセット</DialogTitle>
+      <DialogContent dividers>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          教室・理科室・試験会場など、よく使う座席の配置に名前を付けて保存しておけます。
+          座席の位置・向き・座席名・使用可否・班・タグと、黒板・教卓などの設備を保存し、生徒の割り当ては保存しません。
+        </Typography>
+        {message && (
+          <Alert severity={message.severity} onClose={() => setMessage(null)} sx={{ mb: 2 }}>
+            {message.text}
+          </Alert>
+        )}
+        <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+          <TextField
+            size="small"
+            label="プリセット名"
+            placeholder="例: 理科室"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleSaveCurrent(); }}
+            sx={{ flexGrow: 1 }}
+          />
+          <Button variant="contained" startIcon={<SaveIcon />} onClick={handleSaveCurrent} disabled={!newName.trim() || seatMap.length === 0}>
+            現在のレイアウトを保存
+          </Button>
+        </Box>
+        <TableContainer>
+          <Table size="small" aria-label="layout preset table">
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ fontWeight: 'bold' }}>プリセット名</TableCell>
+                <TableCell sx={{ fontWeight: 'bold', width: 80 }} align="right">座席数</TableCell>
+                <TableCell sx={{ fontWeight: 'bold', width: 160 }}>保存日時</TableCell>
+                <TableCell sx={{ width: 220 }} />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {presets.map(preset => (
+                <TableRow key={preset.id} hover>
+                  <TableCell>
+                    {editingId === preset.id ? (
+                      <TextField
+                        variant="standard"
+                        size="small"
+                        fullWidth
+                        autoFocus
+                        value={editingName}
+                        onChange={(e) => setEditingName(e.target.value)}
+                        onBlur={handleCommitRename}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleCommitRename();
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                      />
+                    ) : preset.name}
+                  </TableCell>
+                  <TableCell align="right">{preset.seats.length}</TableCell>
+                  <TableCell>{new Date(preset.updatedAt).toLocaleString('ja-JP')}</TableCell>
+                  <TableCell align="right">
+                    <Button size="small" onClick={() => handleLoad(preset)}>読み込む</Button>
+                    <Tooltip title="名前を変更">
+                      <IconButton size="small" onClick={() => handleStartRename(preset)} aria-label="名前を変更">
+                        <EditIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="書き出す">
+                      <IconButton
+                        size="small"
+                        onClick={() => downloadJson(serializeLayoutPresets([preset]), `座席レイアウト_${preset.name}.json`)}
+                        aria-label="書き出す"
+                      >
+                        <FileDownloadIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="削除">
+                      <IconButton size="small" onClick={() => handleDelete(preset)} aria-label="削除">
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+        {presets.length === 0 && (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 2, textAlign: 'center' }}>
+            保存されたプリセットはありません。
+          </Typography>
+        )}
+        <Box sx={{ display: 'flex', gap: 1, mt: 2 }}>
+          <Button startIcon={<FileUploadIcon />} onClick={() => fileInputRef.current?.click()}>
+            ファイルから読み込む
+          </Button>
+          <Button
+            startIcon={<FileDownloadIcon />}
+            onClick={() => downloadJson(serializeLayoutPresets(presets), '座席レイアウト.json')}
+            disabled={presets.length === 0}
+          >
+            すべて書き出す
+          </Button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" hidden onChange={handleImport} />
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>閉じる</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default LayoutPresetDialog;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Box, Tooltip } from '@mui/material';
+import type { RoomFeature } from '../../types/RoomFeature';
+import { ROOM_FEATURE_TYPES } from '../../constants';
+import { getRoomFeatureLabel, isVerticalRoomFeature } from '../../utils/roomFeatures';
+
+interface RoomFeatureBoxProps {
+  feature: RoomFeature; // 表示する設備
+}
+
+/**
+ * 教室の設備（黒板・教卓・出入口など）1つ分の表示です。設備の枠いっぱいに、種類の色・アイコン・名前を表示します。
+ * 出入口や窓のような縦に細長い設備は、名前を縦書きにします。
+ */
+const RoomFeatureBox: React.FC<RoomFeatureBoxProps> = ({ feature }) => {
+  const { icon: FeatureIcon, color } = ROOM_FEATURE_TYPES[feature.type];
+  const label = getRoomFeatureLabel(feature);
+  const isVertical = isVerticalRoomFeature(feature);
+
+  return (
+    <Tooltip title={label}>
+      <Box
+        sx={{
+          width: '100%',
+          height: '100%',
+          boxSizing: 'border-box',
+          display: 'flex',
+          flexDirection: isVertical ? 'column' : 'row',
+          justifyContent: 'center',
+          alignItems: 'center',
+          gap: 0.5,
+          overflow: 'hidden',
+          borderRadius: 1,
+          bgcolor: color,
+          color: 'white',
+          fontSize: '0.7rem',
+          fontWeight: 'bold',
+          writingMode: isVertical ? 'vertical-rl' : undefined,
+          whiteSpace: 'nowrap',
+        }}
+      >
+        {Math.min(feature.width, feature.height) >= 24 && <FeatureIcon sx={{ fontSize: '1rem' }} />}
+        {label}
+      </Box>
+    </Tooltip>
+  );
+};
+
+export default RoomFeatureBox;
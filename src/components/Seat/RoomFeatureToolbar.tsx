@@ -0,0 +1,83 @@
+import React from 'react';
+import { Chip, IconButton, Paper, TextField, Tooltip } from '@mui/material';
+import RotateRightIcon from '@mui/icons-material/RotateRight';
+import DeleteIcon from '@mui/icons-material/Delete';
+import type { RoomFeature } from '../../types/RoomFeature';
+import { ROOM_FEATURE_TYPES } from '../../constants';
+
+// 設備の幅・奥行きの最小値（px）
+const MIN_FEATURE_SIZE = 10;
+
+/**
+ * RoomFeatureToolbar コンポーネントが受け取るPropsの型定義です。
+ */
+interface RoomFeatureToolbarProps {
+  /**
+   * 選択中の設備です。
+   */
+  feature: RoomFeature;
+  /**
+   * 設備の名前・大きさ・向きを変更するときに呼び出されるコールバック関数です。
+   */
+  onChange: (update: Partial<Omit<RoomFeature, 'id' | 'type'>>) => void;
+  /**
+   * 設備を削除するときに呼び出されるコールバック関数です。
+   */
+  onDelete: () => void;
+}
+
+/**
+ * 座席レイアウトの編集画面で、選択中の教室の設備（黒板・教卓・出入口など）の名前・大きさ・向きを変更するツールバーです。
+ */
+const RoomFeatureToolbar: React.FC<RoomFeatureToolbarProps> = ({ feature, onChange, onDelete }) => {
+  const { label: typeLabel, icon: FeatureIcon } = ROOM_FEATURE_TYPES[feature.type];
+
+  const handleSizeChange = (key: 'width' | 'height', value: string) => {
+    const size = parseInt(value, 10);
+    if (!isNaN(size)) onChange({ [key]: Math.max(MIN_FEATURE_SIZE, size) });
+  };
+
+  return (
+    <Paper elevation={1} sx={{ p: 1, mb: 1, display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+      <Chip icon={<FeatureIcon fontSize="small" />} label={typeLabel} size="small" />
+      <TextField
+        size="small"
+        label="名前"
+        placeholder={typeLabel}
+        value={feature.label}
+        onChange={(e) => onChange({ label: e.target.value })}
+        sx={{ width: 160 }}
+      />
+      <TextField
+        size="small"
+        type="number"
+        label="幅 (px)"
+        value={feature.width}
+        onChange={(e) => handleSizeChange('width', e.target.value)}
+        inputProps={{ min: MIN_FEATURE_SIZE, step: 10 }}
+        sx={{ width: 100 }}
+      />
+      <TextField
+        size="small"
+        type="number"
+        label="奥行き (px)"
+        value={feature.height}
+        onChange={(e) => handleSizeChange('height', e.target.value)}
+        inputProps={{ min: MIN_FEATURE_SIZE, step: 10 }}
+        sx={{ width: 100 }}
+      />
+      <Tooltip title="右に90°回転">
+        <IconButton size="small" onClick={() => onChange({ rotation: (feature.rotation + 90) % 360 })}>
+          <RotateRightIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+      <Tooltip title="削除">
+        <IconButton size="small" color="error" onClick={onDelete}>
+          <DeleteIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+    </Paper>
+  );
+};
+
+export default RoomFeatureToolbar;
@@ -1,8 +1,12 @@
 import React, { useMemo } from 'react';
-import { Box, Paper, Typography } from '@mui/material';
+import { Avatar, Box, Paper, Tooltip, Typography } from '@mui/material';
 import type { SxProps, Theme } from '@mui/system';
 import type { Student } from '../../types/Student';
 import type { SeatMapData } from '../../types/Seat';
+import type { StudentAttributeDefinition } from '../../types/Attribute';
+import { formatAttributeBadge } from '../../utils/studentAttributes';
+import { getSeatTagLabel, getSeatTags, isBuiltInSeatTag } from '../../utils/seatTags';
+import { BUILT_IN_SEAT_TAGS, CUSTOM_SEAT_TAG_ICON } from '../../constants';
 import { Draggable } from '@hello-pangea/dnd'; // Draggable をインポート
 
 interface SeatProps {
@@ -15,6 +19,8 @@ interface SeatProps {
   isHighlighted?: boolean; // ルーレット決定フェーズでハイライト表示するかどうか
   displayMode: 'config' | 'roulette' | 'assign' | 'final'; // 現在の表示モード
   isDragDisabled?: boolean; // ドラッグを無効にするかどうか (SeatMapChartから渡される)
+  projectorAttributes?: StudentAttributeDefinition[]; // 座席内に表示する属性（showOnProjector の属性）
+  photoUrl?: string; // 座席内に表示する生徒の写真（表示しない場合は undefined）
 }
 
 const Seat: React.FC<SeatProps> = ({
@@ -26,8 +32,11 @@ const Seat: React.FC<SeatProps> = ({
   isHighlighted = false, // デフォルト値を設定
   displayMode,
   isDragDisabled = true, // デフォルトはドラッグ無効
+  projectorAttributes = [],
+  photoUrl,
 }) => {
-  const { isUsable, assignedStudentId } = seatData;
+  const { isUsable, assignedStudentId, label } = seatData;
+  const tags = useMemo(() => getSeatTags(seatData), [seatData]);
 
   const handleClick = () => {
     // D&Dが有効な final モードでは、座席のクリックはD&Dを優先するため、
@@ -117,24 +126,33 @@ const Seat: React.FC<SeatProps> = ({
     },
   };
 
-  // 座席IDから行と列の情報を解析 (例: "R1C1" -> R:1, C:1)
-  const match = seatId.match(/R(\d+)C(\d+)$/);
-  const rowColText = match ? `(${match[1]},${match[2]})` : '';
-
-
   // 生徒が割り当てられており、かつ final モードで D&D が有効な場合のみ Draggable でラップ
   const shouldBeDraggable = displayMode === 'final' && assignedStudentId && !isDragDisabled;
 
   const seatContent = (
     <>
-      <Typography variant="caption" color="text.secondary"
-        sx={{ fontSize: { xs: '0.4rem', sm: '0.5rem', md: '0.6rem' }, color: textColor }} // テキスト色も統一
-      >
-        {`座席 ${seatId} ${rowColText}`} {/* 行列情報を追加 */}
-      </Typography>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.25 }}>
+        <Typography variant="caption" color="text.secondary"
+          sx={{ fontSize: { xs: '0.4rem', sm: '0.5rem', md: '0.6rem' }, color: textColor }} // テキスト色も統一
+        >
+          {`座席 ${label}`}
+        </Typography>
+        {/* 座席のタグ（前列・窓側など）をアイコンで示す */}
+        {tags.map(tag => {
+          const TagIcon = isBuiltInSeatTag(tag) ? BUILT_IN_SEAT_TAGS[tag].icon : CUSTOM_SEAT_TAG_ICON;
+          return (
+            <Tooltip key={tag} title={getSeatTagLabel(tag)}>
+              <TagIcon sx={{ fontSize: { xs: '0.5rem', sm: '0.6rem', md: '0.75rem' }, color: textColor, opacity: 0.8 }} />
+            </Tooltip>
+          );
+        })}
+      </Box>
 
       {assignedStudentId && assignedStudent ? (
-        <Box sx={{ textAlign: 'center', mt: 0.5 }}>
+        <Box sx={{ textAlign: 'center', mt: 0.5, display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+          {photoUrl && (
+            <Avatar src={photoUrl} alt={assignedStudent.name} sx={{ width: { xs: 20, sm: 24, md: 32 }, height: { xs: 20, sm: 24, md: 32 }, mb: 0.25 }} />
+          )}
           <Typography variant="body1" component="div"
             sx={{ fontWeight: 'bold', lineHeight: 1.2, fontSize: { xs: '0.5rem', sm: '0.75rem', md: '1rem' }, color: textColor }}
           >
@@ -145,6 +163,16 @@ const Seat: React.FC<SeatProps> = ({
           >
             ({assignedStudent.number})
           </Typography>
+          {projectorAttributes.length > 0 && (
+            <Typography variant="caption" component="div" lineHeight={1.2}
+              sx={{ fontSize: { xs: '0.3rem', sm: '0.4rem', md: '0.55rem' }, color: textColor }}
+            >
+              {projectorAttributes
+                .map(def => formatAttributeBadge(def, assignedStudent.attributes?.[def.id]))
+                .filter(Boolean)
+                .join(' / ')}
+            </Typography>
+          )}
         </Box>
       ) : (
         // 空席または使用不可の表示
@@ -206,4 +234,5 @@ const Seat: React.FC<SeatProps> = ({
   );
 };
 
-export default Seat;
\ No newline at end of file
+// 座席は数百席並ぶことがあるため、ルーレットの点灯などで変わった座席だけを描画し直す
+export default React.memo(Seat);
\ No newline at end of file
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  IconButton,
+  MenuItem,
+  Paper,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import GroupAddIcon from '@mui/icons-material/GroupAdd';
+import GroupRemoveIcon from '@mui/icons-material/GroupRemove';
+import AutoAwesomeMosaicIcon from '@mui/icons-material/AutoAwesomeMosaic';
+import AddCircleOutlineIcon from '@mui/icons-material/AddCircleOutline';
+import SelectAllIcon from '@mui/icons-material/SelectAll';
+import DeleteIcon from '@mui/icons-material/Delete';
+import type { SeatGroup, SeatMap } from '../../types/Seat';
+import { SEAT_GROUP_BLOCK_SIZES } from '../../constants';
+
+/**
+ * SeatGroupPanel コンポーネントが受け取るPropsの型定義です。
+ */
+interface SeatGroupPanelProps {
+  /**
+   * 編集中の座席マップです（班ごとの座席数の表示に使います）。
+   */
+  seats: SeatMap;
+  /**
+   * 編集中の班の定義です。
+   */
+  seatGroups: SeatGroup[];
+  /**
+   * 選択中の座席の数です。0 の場合は選択した座席を使う操作を無効にします。
+   */
+  selectedCount: number;
+  /**
+   * 選択した座席で新しい班を作るときに呼び出されるコールバック関数です。
+   */
+  onCreateFromSelection: () => void;
+  /**
+   * 選択した座席を指定した班に入れる（null の場合は班から外す）ときに呼び出されるコールバック関数です。
+   */
+  onAssignSelection: (groupId: string | null) => void;
+  /**
+   * 指定した班の座席を選択するときに呼び出されるコールバック関数です。
+   */
+  onSelectGroup: (groupId: string) => void;
+  /**
+   * 行数 × 列数のブロックごとに班を自動で作るときに呼び出されるコールバック関数です。
+   */
+  onGenerate: (blockRows: number, blockCols: number) => void;
+  /**
+   * 班の名前・色を変更するときに呼び出されるコールバック関数です。
+   */
+  onUpdateGroup: (groupId: string, update: Partial<Omit<SeatGroup, 'id'>>) => void;
+  /**
+   * 班を削除するときに呼び出されるコールバック関数です（座席はどの班にも属さない状態に戻ります）。
+   */
+  onDeleteGroup: (groupId: string) => void;
+}
+
+/**
+ * 座席レイアウトの編集画面で、班（グループ活動・掃除当番・給食などのまとまり）を設定するパネルです。
+ * 座席を範囲選択して班を作るか、格子状のブロックごとに自動で作ります。
+ */
+const SeatGroupPanel: React.FC<SeatGroupPanelProps> = ({
+  seats,
+  seatGroups,
+  selectedCount,
+  onCreateFromSelection,
+  onAssignSelection,
+  onSelectGroup,
+  onGenerate,
+  onUpdateGroup,
+  onDeleteGroup,
+}) => {
+  const [blockSizeIndex, setBlockSizeIndex] = useState(0);
+
+  const seatCountByGroup = seats.reduce<Record<string, number>>((counts, seat) => {
+    if (seat.groupId) counts[seat.groupId] = (counts[seat.groupId] ?? 0) + 1;
+    return counts;
+  }, {});
+
+  return (
+    <Paper elevation={1} sx={{ p: 2, mt: 2 }}>
+      <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>班</Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 1.5 }}>
+        座席の何もないところをドラッグするか、Shift キーを押しながら座席をクリックして選択し、班にまとめます。
+      </Typography>
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1, mb: 2 }}>
+        <Button size="small" variant="outlined" startIcon={<GroupAddIcon />} onClick={onCreateFromSelection} disabled={selectedCount === 0}>
+          選択した座席で班を作る
+        </Button>
+        <Button size="small" startIcon={<GroupRemoveIcon />} onClick={() => onAssignSelection(null)} disabled={selectedCount === 0}>
+          班から外す
+        </Button>
+        <Box sx={{ flexGrow: 1 }} />
+        <TextField
+          select
+          size="small"
+          label="ブロックの大きさ"
+          value={blockSizeIndex}
+          onChange={(e) => setBlockSizeIndex(Number(e.target.value))}
+          sx={{ width: 160 }}
+        >
+          {SEAT_GROUP_BLOCK_SIZES.map((size, index) => (
+            <MenuItem key={size.label} value={index}>{size.label}</MenuItem>
+          ))}
+        </TextField>
+        <Button
+          size="small"
+          startIcon={<AutoAwesomeMosaicIcon />}
+          onClick={() => onGenerate(SEAT_GROUP_BLOCK_SIZES[blockSizeIndex].rows, SEAT_GROUP_BLOCK_SIZES[blockSizeIndex].cols)}
+        >
+          自動で班を作る
+        </Button>
+      </Box>
+
+      {seatGroups.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center' }}>
+          班はまだありません。
+        </Typography>
+      ) : (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+          {seatGroups.map(group => (
+            <Box
+              key={group.id}
+              sx={{ display: 'flex', alignItems: 'center', gap: 0.5, border: '2px solid', borderColor: group.color, borderRadius: 1, pl: 0.5 }}
+            >
+              <Box
+                component="input"
+                type="color"
+                value={group.color}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => onUpdateGroup(group.id, { color: e.target.value })}
+                aria-label={`${group.name}の色`}
+                sx={{ width: 24, height: 24, p: 0, border: 'none', bgcolor: 'transparent', cursor: 'pointer' }}
+              />
+              <TextField
+                variant="standard"
+                size="small"
+                value={group.name}
+                error={!group.name.trim()}
+                onChange={(e) => onUpdateGroup(group.id, { name: e.target.value })}
+                sx={{ width: 72 }}
+              />
+              <Typography variant="caption" color="text.secondary" sx={{ minWidth: 28 }}>
+                {seatCountByGroup[group.id] ?? 0}席
+              </Typography>
+              <Tooltip title="この班の座席を選択">
+                <IconButton size="small" onClick={() => onSelectGroup(group.id)}>
+                  <SelectAllIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="選択した座席をこの班に入れる">
+                <span>
+                  <IconButton size="small" onClick={() => onAssignSelection(group.id)} disabled={selectedCount === 0}>
+                    <AddCircleOutlineIcon fontSize="small" />
+                  </IconButton>
+                </span>
+              </Tooltip>
+              <Tooltip title="班を削除">
+                <IconButton size="small" onClick={() => onDeleteGroup(group.id)}>
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            </Box>
+          ))}
+        </Box>
+      )}
+    </Paper>
+  );
+};
+
+export default SeatGroupPanel;
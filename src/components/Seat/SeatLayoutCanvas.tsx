@@ -0,0 +1,224 @@
+import React, { useMemo } from 'react';
+import { Box, Typography } from '@mui/material';
+import type { SxProps, Theme } from '@mui/system';
+import type { SeatGroup, SeatMap, SeatMapData } from '../../types/Seat';
+import type { RoomFeature } from '../../types/RoomFeature';
+import type { ChartOrientation } from '../../types/ChartOrientation';
+import { SEAT_LAYOUT_GAP, SEAT_LAYOUT_HEIGHT, SEAT_LAYOUT_WIDTH } from '../../constants';
+import { getLayoutBounds, getSeatsInRect, indexSeatsById } from '../../utils/seatLayout';
+import type { LayoutRect } from '../../utils/seatLayout';
+import { getGroupLabelSeatIds } from '../../utils/seatGroups';
+import { getFrontSide, orientLayout } from '../../utils/chartOrientation';
+import RoomFeatureBox from './RoomFeatureBox';
+
+/**
+ * SeatLayoutCanvas コンポーネントが受け取るPropsの型定義です。
+ */
+export interface SeatLayoutCanvasProps {
+  /**
+   * 描画する座席マップです。各座席の x / y / rotation の位置に配置します。
+   */
+  seatMap: SeatMap;
+  /**
+   * 1席分の中身を描画する関数です。SEAT_LAYOUT_WIDTH × SEAT_LAYOUT_HEIGHT の枠の中に表示されます。
+   */
+  renderSeat: (seat: SeatMapData) => React.ReactNode;
+  /**
+   * 座席を配置する領域に追加するスタイルです（レイアウト編集時の格子の背景など）。
+   */
+  canvasSx?: SxProps<Theme>;
+  /**
+   * 座標の原点（x = 0, y = 0）に置いた要素への参照です（レイアウト編集時の座標計算に使います）。
+   */
+  canvasRef?: React.Ref<HTMLDivElement>;
+  /**
+   * 座席を配置する領域の最小の大きさ（px）です。レイアウト編集時に座席を置く余白を確保するために使います。
+   */
+  minSize?: { width: number; height: number };
+  /**
+   * 班の定義です。指定すると、班に属する座席の周りを班の色で塗り、班の先頭の座席に班の名前を表示します。
+   */
+  seatGroups?: SeatGroup[];
+  /**
+   * 座席の上に重ねて描画する内容です（レイアウト編集時の範囲選択の枠など）。座席と同じ座標で配置します。
+   */
+  overlay?: React.ReactNode;
+  /**
+   * 教室の設備（黒板・教卓・出入口など）です。座席の後ろに描画します。黒板がない場合は、前を示す帯を表示します。
+   */
+  roomFeatures?: RoomFeature[];
+  /**
+   * 設備1つ分の中身を描画する関数です（レイアウト編集時に選択・移動できるようにするために使います）。
+   * 省略すると設備の種類の色・アイコン・名前を表示します。
+   */
+  renderRoomFeature?: (feature: RoomFeature) => React.ReactNode;
+  /**
+   * どの位置から見た向きで表示するかです（省略すると生徒から見た向き）。
+   * レイアウト編集では座標を直接扱うため指定しません。
+   */
+  orientation?: ChartOrientation;
+  /**
+   * 画面に見えている範囲（座標の原点からの px）です。指定すると、この範囲に重なる座席と班の塗りだけを描画します。
+   * 大きな座席マップで画面の外の座席を描画しないために、SeatLayoutViewport が指定します。
+   */
+  visibleRect?: LayoutRect | null;
+}
+
+// 黒板（前）の帯を画面のどちら側に置くかごとの、帯・キャンバス・「後」の並べ方
+const FRONT_SIDE_DIRECTIONS = {
+  top: 'column',
+  bottom: 'column-reverse',
+  left: 'row',
+  right: 'row-reverse',
+} as const;
+
+/**
+ * 座席をレイアウト上の位置（x, y, rotation）に配置して描画する共通のキャンバスです。
+ * 座席表・ルーレット・固定座席設定・レイアウト編集のすべてがこのキャンバスを使います。
+ */
+const SeatLayoutCanvas: React.FC<SeatLayoutCanvasProps> = ({
+  seatMap: originalSeatMap,
+  renderSeat,
+  canvasSx,
+  canvasRef,
+  minSize,
+  seatGroups = [],
+  overlay,
+  roomFeatures: originalRoomFeatures = [],
+  renderRoomFeature,
+  orientation = 'student',
+  visibleRect,
+}) => {
+  const { seatMap, roomFeatures } = useMemo(
+    () => orientLayout(originalSeatMap, originalRoomFeatures, orientation),
+    [originalSeatMap, originalRoomFeatures, orientation]
+  );
+  const frontSide = getFrontSide(orientation);
+  const isSideView = frontSide === 'left' || frontSide === 'right';
+  const bounds = useMemo(() => getLayoutBounds(seatMap, roomFeatures), [seatMap, roomFeatures]);
+  const hasBlackboard = roomFeatures.some(feature => feature.type === 'blackboard');
+  const groupById = useMemo(() => new Map(seatGroups.map(group => [group.id, group])), [seatGroups]);
+  const seatById = useMemo(() => indexSeatsById(seatMap), [seatMap]);
+  const groupLabelSeatIds = useMemo(() => getGroupLabelSeatIds(seatMap), [seatMap]);
+  const visibleSeats = useMemo(
+    () => (visibleRect ? getSeatsInRect(seatMap, visibleRect) : seatMap),
+    [seatMap, visibleRect]
+  );
+  // 班の塗りは座席の中身と違ってルーレットの点灯などでは変わらないため、座席マップ・表示範囲が変わったときだけ作り直す
+  const groupTints = useMemo(() => visibleSeats.map(seat => {
+    const group = seat.groupId ? groupById.get(seat.groupId) : undefined;
+    if (!group) return null;
+    return (
+      <div
+        key={`group-${seat.seatId}`}
+        style={{
+          position: 'absolute',
+          left: seat.x - SEAT_LAYOUT_GAP / 2,
+          top: seat.y - SEAT_LAYOUT_GAP / 2,
+          width: SEAT_LAYOUT_WIDTH + SEAT_LAYOUT_GAP,
+          height: SEAT_LAYOUT_HEIGHT + SEAT_LAYOUT_GAP,
+          transform: seat.rotation ? `rotate(${seat.rotation}deg)` : undefined,
+          backgroundColor: `${group.color}40`,
+        }}
+      />
+    );
+  }), [visibleSeats, groupById]);
+  const width = Math.max(bounds.width, minSize?.width ?? 0) + SEAT_LAYOUT_GAP * 2;
+  const height = Math.max(bounds.height, minSize?.height ?? 0) + SEAT_LAYOUT_GAP * 2;
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: FRONT_SIDE_DIRECTIONS[frontSide], alignItems: 'stretch', gap: 1, width: isSideView ? undefined : width }}>
+      {!hasBlackboard && (
+        <Box
+          sx={{
+            display: 'flex',
+            justifyContent: 'center',
+            alignItems: 'center',
+            bgcolor: 'grey.800',
+            color: 'white',
+            borderRadius: 1,
+            py: isSideView ? 0 : 0.5,
+            px: isSideView ? 0.5 : 0,
+            writingMode: isSideView ? 'vertical-rl' : undefined,
+          }}
+        >
+          <Typography variant="caption" sx={{ fontWeight: 'bold' }}>黒板（前）</Typography>
+        </Box>
+      )}
+      <Box sx={[{ position: 'relative', width, height, flexShrink: 0 }, ...(Array.isArray(canvasSx) ? canvasSx : canvasSx ? [canvasSx] : [])]}>
+        {/* 座標の原点。設備が座席より前・左にあっても収まるよう、範囲の左上からずらして置く */}
+        <Box ref={canvasRef} sx={{ position: 'absolute', left: SEAT_LAYOUT_GAP - bounds.left, top: SEAT_LAYOUT_GAP - bounds.top }}>
+          {roomFeatures.map(feature => (
+            <Box
+              key={feature.id}
+              sx={{
+                position: 'absolute',
+                left: feature.x,
+                top: feature.y,
+                width: feature.width,
+                height: feature.height,
+                transform: feature.rotation ? `rotate(${feature.rotation}deg)` : undefined,
+              }}
+            >
+              {renderRoomFeature ? renderRoomFeature(feature) : <RoomFeatureBox feature={feature} />}
+            </Box>
+          ))}
+          {/* 班の座席の周りを塗る。隣り合う座席の塗りがつながり、班が1つのまとまりに見える */}
+          {groupTints}
+          {/* 座席の枠は席の数だけ並ぶため、sx ではなく style で位置を指定する */}
+          {visibleSeats.map(seat => (
+            <div
+              key={seat.seatId}
+              data-seat-id={seat.seatId}
+              style={{
+                position: 'absolute',
+                left: seat.x,
+                top: seat.y,
+                width: SEAT_LAYOUT_WIDTH,
+                height: SEAT_LAYOUT_HEIGHT,
+                transform: seat.rotation ? `rotate(${seat.rotation}deg)` : undefined,
+                display: 'flex',
+                justifyContent: 'center',
+                alignItems: 'center',
+              }}
+            >
+              {renderSeat(seat)}
+            </div>
+          ))}
+          {[...groupLabelSeatIds].map(([groupId, seatId]) => {
+            const group = groupById.get(groupId);
+            const seat = seatById.get(seatId);
+            if (!group || !seat) return null;
+            return (
+              <Box
+                key={`group-label-${groupId}`}
+                sx={{
+                  position: 'absolute',
+                  left: seat.x - SEAT_LAYOUT_GAP / 2,
+                  top: seat.y - SEAT_LAYOUT_GAP,
+                  px: 0.75,
+                  borderRadius: 1,
+                  bgcolor: group.color,
+                  color: 'white',
+                  fontSize: '0.65rem',
+                  fontWeight: 'bold',
+                  lineHeight: 1.6,
+                  pointerEvents: 'none',
+                  zIndex: 1,
+                }}
+              >
+                {group.name}
+              </Box>
+            );
+          })}
+          {overlay}
+        </Box>
+      </Box>
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center' }}>
+        <Typography variant="caption" color="text.secondary">後</Typography>
+      </Box>
+    </Box>
+  );
+};
+
+export default SeatLayoutCanvas;
@@ -0,0 +1,292 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Box, IconButton, Tooltip, Typography } from '@mui/material';
+import ZoomInIcon from '@mui/icons-material/ZoomIn';
+import ZoomOutIcon from '@mui/icons-material/ZoomOut';
+import FitScreenIcon from '@mui/icons-material/FitScreen';
+import SeatLayoutCanvas from './SeatLayoutCanvas';
+import type { SeatLayoutCanvasProps } from './SeatLayoutCanvas';
+import {
+  SEAT_LAYOUT_GAP,
+  SEAT_LAYOUT_HEIGHT,
+  SEAT_LAYOUT_WIDTH,
+  SEAT_MAP_MAX_ZOOM,
+  SEAT_MAP_MIN_ZOOM,
+  SEAT_MAP_ZOOM_STEP,
+  SEAT_VIRTUALIZATION_THRESHOLD,
+} from '../../constants';
+import { indexSeatsById } from '../../utils/seatLayout';
+import type { LayoutRect } from '../../utils/seatLayout';
+import { orientLayout } from '../../utils/chartOrientation';
+
+/**
+ * SeatLayoutViewport コンポーネントが受け取るPropsの型定義です。
+ * 座席・設備・班・向きは SeatLayoutCanvas と同じものを受け取ります。
+ */
+interface SeatLayoutViewportProps extends Omit<SeatLayoutCanvasProps, 'canvasRef' | 'visibleRect'> {
+  /**
+   * 表示する領域の最大の高さ（CSS の値）です。座席表がこれより大きい場合は、領域の中でスクロールします。
+   */
+  maxHeight?: string | number;
+  /**
+   * 見える位置までスクロールする座席のIDです（ルーレットで決まった座席など）。既に見えている場合はスクロールしません。
+   */
+  focusSeatId?: string | null;
+}
+
+// 少しスクロールしただけで描画し直さないよう、表示範囲をこの大きさの区切りに広げて扱う
+const VISIBLE_RECT_CHUNK = (SEAT_LAYOUT_WIDTH + SEAT_LAYOUT_GAP) * 2;
+
+const clampZoom = (zoom: number) => Math.min(SEAT_MAP_MAX_ZOOM, Math.max(SEAT_MAP_MIN_ZOOM, zoom));
+
+const isSameRect = (a: LayoutRect | null, b: LayoutRect | null) =>
+  a === b || (!!a && !!b && a.left === b.left && a.top === b.top && a.right === b.right && a.bottom === b.bottom);
+
+/**
+ * 座席表を拡大・縮小・スクロールして表示する領域です。中身は SeatLayoutCanvas で描画します。
+ * 座席の空いている所をドラッグするとスクロールでき、Ctrl キーを押しながらホイールを回すと拡大・縮小します。
+ * 座席が多い座席表では、領域に見えている範囲の座席だけを描画します。
+ */
+const SeatLayoutViewport: React.FC<SeatLayoutViewportProps> = ({
+  maxHeight = '70vh',
+  focusSeatId,
+  ...canvasProps
+}) => {
+  const { seatMap, roomFeatures, orientation = 'student' } = canvasProps;
+  const containerRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const originRef = useRef<HTMLDivElement>(null);
+  const [zoom, setZoom] = useState(1);
+  const zoomRef = useRef(zoom);
+  const [visibleRect, setVisibleRect] = useState<LayoutRect | null>(null);
+  // 拡大・縮小の前後で、基準の点（ポインターや領域の中央）の下にある座席表の位置を保つためのスクロール量
+  const pendingScrollRef = useRef<{ x: number; y: number; contentX: number; contentY: number } | null>(null);
+  // 利用者が倍率を変えた後は、座席表が変わっても全体表示に戻さない
+  const hasManualZoomRef = useRef(false);
+  const panRef = useRef<{ pointerId: number; startX: number; startY: number; scrollLeft: number; scrollTop: number } | null>(null);
+  const [isPanning, setIsPanning] = useState(false);
+
+  const isVirtualized = seatMap.length > SEAT_VIRTUALIZATION_THRESHOLD;
+  // 座席へのスクロールは向きに合わせて並べ替えた後の位置で計算する
+  const orientedSeatById = useMemo(
+    () => indexSeatsById(orientLayout(seatMap, roomFeatures ?? [], orientation).seatMap),
+    [seatMap, roomFeatures, orientation]
+  );
+
+  const updateVisibleRect = useCallback(() => {
+    const container = containerRef.current;
+    const origin = originRef.current;
+    if (!isVirtualized || !container || !origin) {
+      setVisibleRect(null);
+      return;
+    }
+    const view = container.getBoundingClientRect();
+    const originRect = origin.getBoundingClientRect();
+    const currentZoom = zoomRef.current;
+    const next = {
+      left: Math.floor((view.left - originRect.left) / currentZoom / VISIBLE_RECT_CHUNK) * VISIBLE_RECT_CHUNK - VISIBLE_RECT_CHUNK,
+      top: Math.floor((view.top - originRect.top) / currentZoom / VISIBLE_RECT_CHUNK) * VISIBLE_RECT_CHUNK - VISIBLE_RECT_CHUNK,
+      right: Math.ceil((view.right - originRect.left) / currentZoom / VISIBLE_RECT_CHUNK) * VISIBLE_RECT_CHUNK + VISIBLE_RECT_CHUNK,
+      bottom: Math.ceil((view.bottom - originRect.top) / currentZoom / VISIBLE_RECT_CHUNK) * VISIBLE_RECT_CHUNK + VISIBLE_RECT_CHUNK,
+    };
+    setVisibleRect(prev => (isSameRect(prev, next) ? prev : next));
+  }, [isVirtualized]);
+
+  const changeZoom = useCallback((nextZoom: number, anchor?: { x: number; y: number }) => {
+    const container = containerRef.current;
+    const clamped = clampZoom(nextZoom);
+    if (container && clamped !== zoomRef.current) {
+      const x = anchor?.x ?? container.clientWidth / 2;
+      const y = anchor?.y ?? container.clientHeight / 2;
+      pendingScrollRef.current = {
+        x,
+        y,
+        contentX: (container.scrollLeft + x) / zoomRef.current,
+        contentY: (container.scrollTop + y) / zoomRef.current,
+      };
+    }
+    setZoom(clamped);
+  }, []);
+
+  const fitToView = useCallback(() => {
+    const container = containerRef.current;
+    const content = contentRef.current;
+    if (!container || !content) return;
+    const rect = content.getBoundingClientRect();
+    const naturalWidth = rect.width / zoomRef.current;
+    const naturalHeight = rect.height / zoomRef.current;
+    if (naturalWidth === 0 || naturalHeight === 0) return;
+    const availableHeight = parseFloat(getComputedStyle(container).maxHeight) || container.clientHeight;
+    const fitted = clampZoom(Math.min(container.clientWidth / naturalWidth, availableHeight / naturalHeight, 1));
+    // 全体を表示するときは左上から表示する（倍率が変わらない場合はそのままスクロールする）
+    if (fitted === zoomRef.current) {
+      container.scrollTo(0, 0);
+      return;
+    }
+    pendingScrollRef.current = { x: 0, y: 0, contentX: 0, contentY: 0 };
+    setZoom(fitted);
+  }, []);
+
+  // 倍率を変えたら、基準の点の位置を保つようにスクロールし、描画する範囲を求め直す
+  useLayoutEffect(() => {
+    zoomRef.current = zoom;
+    const container = containerRef.current;
+    const pending = pendingScrollRef.current;
+    if (container && pending) {
+      container.scrollLeft = pending.contentX * zoom - pending.x;
+      container.scrollTop = pending.contentY * zoom - pending.y;
+      pendingScrollRef.current = null;
+    }
+    updateVisibleRect();
+  }, [zoom, updateVisibleRect]);
+
+  // 座席の数・向きが変わったら、倍率を変えていない限り全体が見える倍率に合わせる
+  useLayoutEffect(() => {
+    if (!hasManualZoomRef.current) fitToView();
+  }, [seatMap.length, orientation, fitToView]);
+
+  useLayoutEffect(() => {
+    updateVisibleRect();
+  }, [seatMap, roomFeatures, orientation, updateVisibleRect]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => updateVisibleRect());
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [updateVisibleRect]);
+
+  // ブラウザ自体の拡大・縮小を止めるため、ホイールは passive でないリスナーで受け取る
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (event: WheelEvent) => {
+      if (!event.ctrlKey) return;
+      event.preventDefault();
+      const rect = container.getBoundingClientRect();
+      hasManualZoomRef.current = true;
+      changeZoom(
+        event.deltaY < 0 ? zoomRef.current * SEAT_MAP_ZOOM_STEP : zoomRef.current / SEAT_MAP_ZOOM_STEP,
+        { x: event.clientX - rect.left, y: event.clientY - rect.top },
+      );
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [changeZoom]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const origin = originRef.current;
+    const seat = focusSeatId ? orientedSeatById.get(focusSeatId) : undefined;
+    if (!container || !origin || !seat) return;
+    const view = container.getBoundingClientRect();
+    const originRect = origin.getBoundingClientRect();
+    const seatLeft = originRect.left - view.left + seat.x * zoom;
+    const seatTop = originRect.top - view.top + seat.y * zoom;
+    const seatWidth = SEAT_LAYOUT_WIDTH * zoom;
+    const seatHeight = SEAT_LAYOUT_HEIGHT * zoom;
+    const isVisible = seatLeft >= 0 && seatTop >= 0
+      && seatLeft + seatWidth <= container.clientWidth && seatTop + seatHeight <= container.clientHeight;
+    if (isVisible) return;
+    container.scrollTo({
+      left: container.scrollLeft + seatLeft - (container.clientWidth - seatWidth) / 2,
+      top: container.scrollTop + seatTop - (container.clientHeight - seatHeight) / 2,
+      behavior: 'smooth',
+    });
+  }, [focusSeatId, orientedSeatById, zoom]);
+
+  const handleScroll = () => {
+    updateVisibleRect();
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    // タッチ操作はブラウザのスクロールに任せ、座席の上ではクリックやドラッグ＆ドロップを優先する
+    if (event.pointerType !== 'mouse' || event.button !== 0) return;
+    if ((event.target as Element).closest('[data-seat-id]')) return;
+    const container = event.currentTarget;
+    panRef.current = {
+      pointerId: event.pointerId,
+      startX: event.clientX,
+      startY: event.clientY,
+      scrollLeft: container.scrollLeft,
+      scrollTop: container.scrollTop,
+    };
+    container.setPointerCapture(event.pointerId);
+    setIsPanning(true);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const pan = panRef.current;
+    if (!pan || pan.pointerId !== event.pointerId) return;
+    event.currentTarget.scrollLeft = pan.scrollLeft - (event.clientX - pan.startX);
+    event.currentTarget.scrollTop = pan.scrollTop - (event.clientY - pan.startY);
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (panRef.current?.pointerId !== event.pointerId) return;
+    panRef.current = null;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    setIsPanning(false);
+  };
+
+  const handleZoomButton = (nextZoom: number) => {
+    hasManualZoomRef.current = true;
+    changeZoom(nextZoom);
+  };
+
+  const handleFitToView = () => {
+    hasManualZoomRef.current = false;
+    fitToView();
+  };
+
+  return (
+    <Box sx={{ width: '100%' }}>
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', alignItems: 'center', gap: 0.5, mb: 0.5 }}>
+        <Tooltip title="縮小">
+          <span>
+            <IconButton size="small" onClick={() => handleZoomButton(zoom / SEAT_MAP_ZOOM_STEP)} disabled={zoom <= SEAT_MAP_MIN_ZOOM}>
+              <ZoomOutIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title="100% で表示">
+          <Typography
+            variant="caption"
+            onClick={() => handleZoomButton(1)}
+            sx={{ minWidth: 40, textAlign: 'center', cursor: 'pointer' }}
+          >
+            {Math.round(zoom * 100)}%
+          </Typography>
+        </Tooltip>
+        <Tooltip title="拡大">
+          <span>
+            <IconButton size="small" onClick={() => handleZoomButton(zoom * SEAT_MAP_ZOOM_STEP)} disabled={zoom >= SEAT_MAP_MAX_ZOOM}>
+              <ZoomInIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title="全体を表示">
+          <IconButton size="small" onClick={handleFitToView}>
+            <FitScreenIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      </Box>
+      <Box
+        ref={containerRef}
+        onScroll={handleScroll}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        sx={{ width: '100%', maxHeight, overflow: 'auto', cursor: isPanning ? 'grabbing' : 'grab' }}
+      >
+        {/* 拡大・縮小は transform ではなく zoom で行い、ドラッグ＆ドロップの位置の計算とスクロールの範囲を縮尺に合わせる */}
+        <Box ref={contentRef} sx={{ width: 'fit-content', mx: 'auto', zoom }}>
+          <SeatLayoutCanvas {...canvasProps} canvasRef={originRef} visibleRect={visibleRect} />
+        </Box>
+      </Box>
+    </Box>
+  );
+};
+
+export default SeatLayoutViewport;
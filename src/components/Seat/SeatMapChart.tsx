@@ -1,9 +1,14 @@
 import React, { useMemo } from 'react';
 import { Box, Paper, Typography } from '@mui/material'; // Typography を追加
 import Seat from './Seat';
-import type { SeatMap } from '../../types/Seat'; // SeatMap と SeatMapData をインポート
+import SeatLayoutViewport from './SeatLayoutViewport';
+import type { SeatGroup, SeatMap } from '../../types/Seat'; // SeatMap と SeatMapData をインポート
 import type { Student } from '../../types/Student';
+import type { RoomFeature } from '../../types/RoomFeature';
+import type { ChartOrientation } from '../../types/ChartOrientation';
+import type { StudentAttributeSchema } from '../../types/Attribute';
 import { Droppable } from '@hello-pangea/dnd';
+import { indexStudentsById } from '../../utils/roster';
 
 interface SeatMapChartProps {
   seatMap: SeatMap; // SeatMapData の配列を受け取る
@@ -12,6 +17,11 @@ interface SeatMapChartProps {
   onClickSeat?: (seatId: string) => void; // 座席クリック時のハンドラ
   displayMode: 'config' | 'assign' | 'final'; // 表示モード
   isDragAndDropEnabled?: boolean; // D&Dが有効なフェーズかどうかのフラグ
+  attributeSchema?: StudentAttributeSchema; // showOnProjector の属性を座席内に表示する
+  studentPhotos?: Record<string, string>; // 座席内に表示する生徒の写真のURL（表示しない場合は undefined）
+  seatGroups?: SeatGroup[]; // 班の定義（班の座席を班の色で塗り分ける）
+  roomFeatures?: RoomFeature[]; // 教室の設備（黒板・教卓・出入口など）
+  orientation?: ChartOrientation; // どの位置から見た向きで表示するか（省略すると生徒から見た向き）
   // ルーレット決定フェーズで使用される可能性のある情報もここで定義
   // 例: currentRouletteStudentId: string | null;
 }
@@ -23,30 +33,19 @@ const SeatMapChart: React.FC<SeatMapChartProps> = ({
   onClickSeat,
   displayMode,
   isDragAndDropEnabled = false,
+  attributeSchema,
+  studentPhotos,
+  seatGroups,
+  roomFeatures,
+  orientation,
 }) => {
-  // 生徒IDから生徒オブジェクトを高速に検索するためのMap
-  const studentMap = useMemo(() => {
-    const map = new Map<string, Student>();
-    students.forEach(s => map.set(s.id, s));
-    return map;
-  }, [students]);
-
-  // 座席マップの行と列の最大値を計算（グリッドレイアウトのために必要）
-  // SeatMapData に row/col が直接含まれないため、座席IDから推測するか、
-  // 親コンポーネントから rows/cols の情報を渡す必要があります。
-  // ここでは座席IDが "R{row}C{col}" 形式と仮定して最大列数を計算します。
-  const maxCols = useMemo(() => {
-    if (seatMap.length === 0) return 1;
-    let currentMaxCols = 0;
-    seatMap.forEach(seat => {
-      const match = seat.seatId.match(/C(\d+)$/);
-      if (match && match[1]) {
-        currentMaxCols = Math.max(currentMaxCols, parseInt(match[1], 10));
-      }
-    });
-    return currentMaxCols || 1; // 少なくとも1列
-  }, [seatMap]);
+  const projectorAttributes = useMemo(
+    () => (attributeSchema ?? []).filter(def => def.showOnProjector),
+    [attributeSchema]
+  );
 
+  // 生徒IDから生徒オブジェクトを高速に検索するためのMap
+  const studentMap = useMemo(() => indexStudentsById(students), [students]);
 
   // seatMapが空の場合のガード
   if (!seatMap || seatMap.length === 0) {
@@ -67,32 +66,30 @@ const SeatMapChart: React.FC<SeatMapChartProps> = ({
   const isSeatDroppableInThisMode = isDragAndDropEnabled && (displayMode === 'final'); // D&Dは final モードでのみ有効とする
 
   return (
-    <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', width: 'fit-content' }}>
-      <Box sx={{ width: '100%', textAlign: 'center', bgcolor: 'grey.800', color: 'white', py: 0.5, borderRadius: 1, mb: 1 }}>
-        <Typography variant="caption" sx={{ fontWeight: 'bold' }}>黒板（前）</Typography>
-      </Box>
-      <Box
-        sx={{
-          display: 'grid',
-          gridTemplateColumns: `repeat(${maxCols}, minmax(80px, 1fr))`,
-          gap: 1.5,
-          p: 2,
-          border: '1px solid #e0e0e0',
-          borderRadius: 2,
-          bgcolor: 'background.paper',
-          width: 'fit-content',
-          boxShadow: 3,
-          overflowX: 'auto',
-        }}
-      >
-        {seatMap.map((seat) => (
-          <Droppable droppableId={seat.seatId} key={seat.seatId} isDropDisabled={!isSeatDroppableInThisMode}>
+    <Box
+      sx={{
+        p: 2,
+        border: '1px solid #e0e0e0',
+        borderRadius: 2,
+        bgcolor: 'background.paper',
+        width: '100%',
+        boxShadow: 3,
+      }}
+    >
+      <SeatLayoutViewport
+        seatMap={seatMap}
+        seatGroups={seatGroups}
+        roomFeatures={roomFeatures}
+        orientation={orientation}
+        renderSeat={(seat) => (
+          <Droppable droppableId={seat.seatId} isDropDisabled={!isSeatDroppableInThisMode}>
             {(provided) => (
               <div
                 ref={provided.innerRef}
                 {...provided.droppableProps}
                 style={{
-                  minHeight: '80px',
+                  width: '100%',
+                  height: '100%',
                   display: 'flex',
                   justifyContent: 'center',
                   alignItems: 'center',
@@ -101,22 +98,21 @@ const SeatMapChart: React.FC<SeatMapChartProps> = ({
                 <Seat
                   seatId={seat.seatId}
                   seatData={seat}
-                  onClick={onClickSeat ? () => onClickSeat(seat.seatId) : undefined}
+                  onClick={onClickSeat}
                   isConfigMode={displayMode === 'config'}
                   isHighlighted={highlightedSeatIds.has(seat.seatId)}
                   displayMode={displayMode}
                   assignedStudent={seat.assignedStudentId ? studentMap.get(seat.assignedStudentId) : null}
                   isDragDisabled={!(isDragAndDropEnabled && displayMode === 'final' && seat.assignedStudentId)}
+                  projectorAttributes={projectorAttributes}
+                  photoUrl={seat.assignedStudentId ? studentPhotos?.[seat.assignedStudentId] : undefined}
                 />
                 {provided.placeholder}
               </div>
             )}
           </Droppable>
-        ))}
-      </Box>
-      <Box sx={{ width: '100%', textAlign: 'center', mt: 1 }}>
-        <Typography variant="caption" color="text.secondary">後</Typography>
-      </Box>
+        )}
+      />
     </Box>
   );
 };
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import React, { useState, useCallback, useMemo, useRef } from 'react';
 import {
   Box,
   Grid,
@@ -8,11 +8,68 @@ import {
   Paper,
   Alert,
   AlertTitle,
-  Divider
+  Divider,
+  FormControlLabel,
+  IconButton,
+  Menu,
+  MenuItem,
+  ListItemIcon,
+  ListItemText,
+  Switch,
+  Tooltip,
 } from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import DeleteIcon from '@mui/icons-material/Delete';
+import BlockIcon from '@mui/icons-material/Block';
+import CheckCircleOutlineIcon from '@mui/icons-material/CheckCircleOutline';
+import LayersClearIcon from '@mui/icons-material/LayersClear';
+import SelectAllIcon from '@mui/icons-material/SelectAll';
+import RotateLeftIcon from '@mui/icons-material/RotateLeft';
+import RotateRightIcon from '@mui/icons-material/RotateRight';
+import GridOnIcon from '@mui/icons-material/GridOn';
+import BookmarksIcon from '@mui/icons-material/Bookmarks';
+import MeetingRoomIcon from '@mui/icons-material/MeetingRoom';
 import Seat from './Seat';
-import { DEFAULT_SEAT_ROWS, DEFAULT_SEAT_COLS, MAX_SEATS } from '../../constants';
-import type { SeatMap, SeatMapData } from '../../types/Seat';
+import SeatLayoutCanvas from './SeatLayoutCanvas';
+import LayoutPresetDialog from './LayoutPresetDialog';
+import SeatGroupPanel from './SeatGroupPanel';
+import SeatTagEditor from './SeatTagEditor';
+import SeatPatternPanel from './SeatPatternPanel';
+import RoomFeatureBox from './RoomFeatureBox';
+import RoomFeatureToolbar from './RoomFeatureToolbar';
+import UndoRedoButtons from '../Layout/UndoRedoButtons';
+import { useAppState } from '../../contexts/AppStateContext';
+import {
+  DEFAULT_SEAT_ROWS,
+  DEFAULT_SEAT_COLS,
+  MAX_SEATS,
+  ROOM_FEATURE_TYPES,
+  SEAT_LAYOUT_HEIGHT,
+  SEAT_LAYOUT_SNAP_SIZE,
+  SEAT_LAYOUT_WIDTH,
+} from '../../constants';
+import type { SeatGroup, SeatMap, SeatMapData, SeatUsablePattern } from '../../types/Seat';
+import type { RoomFeature, RoomFeatureType } from '../../types/RoomFeature';
+import {
+  applySeatUsablePattern,
+  createGridSeatMap,
+  createSeat,
+  duplicateSeat,
+  findFreeSeatPosition,
+  getLayoutBounds,
+  moveSeat,
+  setAisleColumn,
+  snapToGrid,
+} from '../../utils/seatLayout';
+import {
+  assignSeatsToGroup,
+  createSeatGroup,
+  generateBlockGroups,
+  pruneSeatGroups,
+} from '../../utils/seatGroups';
+import { setSeatTag } from '../../utils/seatTags';
+import { createRoomFeature } from '../../utils/roomFeatures';
 
 /**
  * SeatMapConfig コンポーネントが受け取るPropsの型定義です。
@@ -20,58 +77,98 @@ import type { SeatMap, SeatMapData } from '../../types/Seat';
 interface SeatMapConfigProps {
   /**
    * 座席レイアウト設定が完了したときに呼び出されるコールバック関数です。
-   * 設定された行数、列数、そして最終的な座席マップを引数として受け取ります。
+   * 最終的な座席マップと、座席が1つ以上ある班の定義、教室の設備を引数として受け取ります。
    */
-  onConfigComplete: (rows: number, cols: number, finalSeatMap: SeatMap) => void;
+  onConfigComplete: (finalSeatMap: SeatMap, finalSeatGroups: SeatGroup[], finalRoomFeatures: RoomFeature[]) => void;
+}
 
-  /**
-   * 初期行数です。指定がなければ DEFAULT_SEAT_ROWS が使用されます。
-   */
-  initialRows?: number;
+// 回転ボタン1回あたりの角度
+const ROTATION_STEP = 15;
 
-  /**
-   * 初期列数です。指定がなければ DEFAULT_SEAT_COLS が使用されます。
-   */
-  initialCols?: number;
+/**
+ * ドラッグ開始時のポインターの位置と、一緒に動かす座席それぞれのドラッグ開始時の位置です。
+ */
+interface DragState {
+  pointerX: number;
+  pointerY: number;
+  origins: Map<string, { x: number; y: number }>;
+}
 
-  /**
-   * 既存の座席マップデータ。編集開始時の初期値として使用されます。
-   */
-  existingSeatMap?: SeatMap;
+/**
+ * 設備のドラッグ開始時のポインターの位置と、設備のドラッグ開始時の位置です。
+ */
+interface FeatureDragState {
+  featureId: string;
+  pointerX: number;
+  pointerY: number;
+  originX: number;
+  originY: number;
+}
+
+/**
+ * 範囲選択の枠です。座標はキャンバス上の座席の座標（x, y）と同じ基準です。
+ */
+interface MarqueeState {
+  startX: number;
+  startY: number;
+  endX: number;
+  endY: number;
+  /** 範囲選択を始める前から選択していた座席（Shift キーを押しながら始めた場合のみ） */
+  baseSeatIds: string[];
 }
 
+const getMarqueeRect = (marquee: MarqueeState) => ({
+  left: Math.min(marquee.startX, marquee.endX),
+  top: Math.min(marquee.startY, marquee.endY),
+  right: Math.max(marquee.startX, marquee.endX),
+  bottom: Math.max(marquee.startY, marquee.endY),
+});
+
 /**
- * 座席レイアウト（行数と列数）を設定し、個々の座席の使用可否を設定するコンポーネントです。
+ * 教室の座席レイアウトを設定するコンポーネントです。
+ * 行数と列数から格子状の配置（テンプレート）を作成し、座席をドラッグして自由に配置・回転・追加・複製・削除できます。
+ * 座席をダブルクリックすると使用可否を切り替えます。
+ * 何もないところをドラッグするか Shift キーを押しながらクリックすると複数の座席を選択でき、まとめて動かしたり、使用可否・タグ・班を設定したりできます。
+ * 一席おき・市松模様・通路の列など、使用可否を並べ方に合わせてまとめて設定することもできます。
+ * 黒板・教卓・出入口などの教室の設備も追加し、座席と同じようにドラッグして配置できます。
  */
 const SeatMapConfig: React.FC<SeatMapConfigProps> = ({
   onConfigComplete,
-  initialRows = DEFAULT_SEAT_ROWS,
-  initialCols = DEFAULT_SEAT_COLS,
-  existingSeatMap = [],
 }) => {
-  const [rows, setRows] = useState<number>(initialRows);
-  const [cols, setCols] = useState<number>(initialCols);
+  const [rows, setRows] = useState<number>(DEFAULT_SEAT_ROWS);
+  const [cols, setCols] = useState<number>(DEFAULT_SEAT_COLS);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [currentEditedSeatMap, setCurrentEditedSeatMap] = useState<SeatMap>([]);
-
-  // コンポーネントがマウントされたとき、または行・列・既存マップが変更されたときに座席マップを生成
-  useEffect(() => {
-    const newMap: SeatMapData[] = [];
-    for (let r = 0; r < rows; r++) {
-      for (let c = 0; c < cols; c++) {
-        const seatId = `R${r + 1}C${c + 1}`;
-        const existingSeat = existingSeatMap.find(s => s.seatId === seatId);
-        newMap.push({
-          seatId: seatId,
-          assignedStudentId: existingSeat ? existingSeat.assignedStudentId : null,
-          isUsable: existingSeat ? existingSeat.isUsable : true,
-          row: r + 1, // 行番号を1から始める
-          col: c + 1, // 列番号を1から始める
-        });
-      }
-    }
-    setCurrentEditedSeatMap(newMap);
-  }, [rows, cols, existingSeatMap]);
+  // 座席・班・設備は Context を直接編集し、共通の履歴で元に戻せるようにする（選択中の座席などの表示の状態は記録しない）
+  const {
+    seatMap: seats,
+    setSeatMap: setSeats,
+    seatGroups,
+    setSeatGroups,
+    roomFeatures,
+    setRoomFeatures,
+    editHistory,
+  } = useAppState();
+  const [selectedSeatIdList, setSelectedSeatIds] = useState<string[]>([]);
+  const [selectedFeatureId, setSelectedFeatureId] = useState<string | null>(null);
+  const [featureMenuAnchor, setFeatureMenuAnchor] = useState<HTMLElement | null>(null);
+  const [marquee, setMarquee] = useState<MarqueeState | null>(null);
+  const [snapEnabled, setSnapEnabled] = useState(true);
+  const [presetDialogOpen, setPresetDialogOpen] = useState(false);
+  const dragRef = useRef<DragState | null>(null);
+  const featureDragRef = useRef<FeatureDragState | null>(null);
+  const canvasRef = useRef<HTMLDivElement>(null);
+
+  // 元に戻す・やり直すでなくなった座席は、選択から外して扱う
+  const selectedSeatIds = useMemo(() => {
+    const seatIds = new Set(seats.map(seat => seat.seatId));
+    const existing = selectedSeatIdList.filter(id => seatIds.has(id));
+    return existing.length === selectedSeatIdList.length ? selectedSeatIdList : existing;
+  }, [seats, selectedSeatIdList]);
+  const selectedIdSet = useMemo(() => new Set(selectedSeatIds), [selectedSeatIds]);
+  const selectedSeats = useMemo(() => seats.filter(seat => selectedIdSet.has(seat.seatId)), [seats, selectedIdSet]);
+  // 座席名の変更と複製は、座席を1つだけ選択しているときに使える
+  const selectedSeat = selectedSeats.length === 1 ? selectedSeats[0] : null;
+  const selectedFeature = roomFeatures.find(feature => feature.id === selectedFeatureId) ?? null;
 
   // 行数の入力ハンドラ
   const handleRowsChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
@@ -103,48 +200,358 @@ const SeatMapConfig: React.FC<SeatMapConfigProps> = ({
     }
   }, [rows]);
 
-  // 座席クリックハンドラ：isUsableをトグル
-  const handleSeatClick = useCallback((seatId: string) => {
-    setCurrentEditedSeatMap(prevMap => {
-      return prevMap.map(seat =>
-        seat.seatId === seatId ? { ...seat, isUsable: !seat.isUsable } : seat
-      );
-    });
+  // テンプレートの適用：現在の配置を格子状の配置で置き換える
+  const handleApplyTemplate = useCallback(() => {
+    if (!window.confirm(`現在の座席の配置を ${rows} 行 × ${cols} 列の配置で置き換えますか？`)) return;
+    setSeats(createGridSeatMap(rows, cols, seats));
+    setSelectedSeatIds([]);
+  }, [rows, cols, seats, setSeats]);
+
+  // プリセットの読み込み：現在の配置・班・設備をプリセットのもので置き換える
+  const handleLoadPreset = useCallback((presetSeatMap: SeatMap, presetSeatGroups: SeatGroup[], presetRoomFeatures: RoomFeature[]) => {
+    setSeats(presetSeatMap);
+    setSeatGroups(presetSeatGroups);
+    setRoomFeatures(presetRoomFeatures);
+    setSelectedSeatIds([]);
+    setSelectedFeatureId(null);
+    setErrorMessage(null);
+  }, [setRoomFeatures, setSeatGroups, setSeats]);
+
+  const updateSeat = useCallback((seatId: string, update: (seat: SeatMapData) => SeatMapData) => {
+    setSeats(prev => prev.map(seat => seat.seatId === seatId ? update(seat) : seat));
+  }, [setSeats]);
+
+  // 選択中のすべての座席を更新する
+  const updateSelectedSeats = useCallback((update: (seat: SeatMapData) => SeatMapData) => {
+    setSeats(prev => prev.map(seat => selectedIdSet.has(seat.seatId) ? update(seat) : seat));
+  }, [selectedIdSet, setSeats]);
+
+  const handleAddSeat = useCallback(() => {
+    const { x, y } = findFreeSeatPosition(seats);
+    const seat = createSeat(seats, x, y);
+    setSeats([...seats, seat]);
+    setSelectedSeatIds([seat.seatId]);
+  }, [seats, setSeats]);
+
+  const handleDuplicateSeat = useCallback(() => {
+    if (!selectedSeat) return;
+    const seat = duplicateSeat(seats, selectedSeat);
+    setSeats([...seats, seat]);
+    setSelectedSeatIds([seat.seatId]);
+  }, [seats, selectedSeat, setSeats]);
+
+  const handleDeleteSeat = useCallback(() => {
+    if (selectedSeats.length === 0) return;
+    if (selectedSeats.some(seat => seat.assignedStudentId) && !window.confirm('選択した座席には生徒が割り当てられています。削除すると生徒は未割り当てに戻ります。削除しますか？')) return;
+    setSeats(prev => prev.filter(seat => !selectedIdSet.has(seat.seatId)));
+    setSelectedSeatIds([]);
+  }, [selectedSeats, selectedIdSet, setSeats]);
+
+  const handleRotate = useCallback((delta: number) => {
+    updateSelectedSeats(seat => ({ ...seat, rotation: ((seat.rotation + delta) % 360 + 360) % 360 }));
+  }, [updateSelectedSeats]);
+
+  const handleToggleUsable = useCallback((seatId: string) => {
+    updateSeat(seatId, seat => ({ ...seat, isUsable: !seat.isUsable }));
+  }, [updateSeat]);
+
+  // 選択中の座席の使用可否を揃える（使用可能な座席と使用不可の座席が混ざっていても同じ状態にする）
+  const handleSetSelectedUsable = useCallback((isUsable: boolean) => {
+    updateSelectedSeats(seat => seat.isUsable === isUsable ? seat : { ...seat, isUsable });
+  }, [updateSelectedSeats]);
+
+  // 選択中の座席を、使用可能・タグなし・班なしの状態に戻す（位置・向き・座席名はそのまま）
+  const handleClearSelectedSeats = useCallback(() => {
+    updateSelectedSeats(seat => ({ ...seat, isUsable: true, tags: [], groupId: null }));
+  }, [updateSelectedSeats]);
+
+  const handleSelectAll = useCallback(() => {
+    setSelectedSeatIds(seats.map(seat => seat.seatId));
+    setSelectedFeatureId(null);
+  }, [seats]);
+
+  // --- 使用可否の並べ方（選択していなければすべての座席に適用する） ---
+  const patternTargetIds = useMemo(
+    () => (selectedSeatIds.length > 0 ? selectedIdSet : new Set(seats.map(seat => seat.seatId))),
+    [selectedSeatIds, selectedIdSet, seats]
+  );
+
+  const handleApplyPattern = useCallback((pattern: SeatUsablePattern) => {
+    setSeats(applySeatUsablePattern(seats, patternTargetIds, pattern));
+  }, [seats, patternTargetIds, setSeats]);
+
+  const handleSetAisleColumn = useCallback((col: number) => {
+    if (!seats.some(seat => patternTargetIds.has(seat.seatId) && seat.col === col)) {
+      setErrorMessage(`${col} 列目の座席がありません。`);
+      return;
+    }
+    setErrorMessage(null);
+    setSeats(setAisleColumn(seats, patternTargetIds, col));
+  }, [seats, patternTargetIds, setSeats]);
+
+  // --- 座席のドラッグによる移動（選択中の座席をまとめて動かす） ---
+  const handlePointerDown = useCallback((event: React.PointerEvent<HTMLDivElement>, seat: SeatMapData) => {
+    // キャンバス側の範囲選択を始めないようにする
+    event.stopPropagation();
+    setSelectedFeatureId(null);
+    if (event.shiftKey) {
+      setSelectedSeatIds(prev => prev.includes(seat.seatId) ? prev.filter(id => id !== seat.seatId) : [...prev, seat.seatId]);
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    // ドラッグ中の移動は、まとめて1回の編集として元に戻す
+    editHistory.beginContinuousEdit();
+    const dragSeats = selectedIdSet.has(seat.seatId) ? selectedSeats : [seat];
+    dragRef.current = {
+      pointerX: event.clientX,
+      pointerY: event.clientY,
+      origins: new Map(dragSeats.map(s => [s.seatId, { x: s.x, y: s.y }])),
+    };
+    if (!selectedIdSet.has(seat.seatId)) setSelectedSeatIds([seat.seatId]);
+  }, [selectedIdSet, selectedSeats, editHistory]);
+
+  const handlePointerMove = useCallback((event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = event.clientX - drag.pointerX;
+    const dy = event.clientY - drag.pointerY;
+    setSeats(prev => prev.map(seat => {
+      const origin = drag.origins.get(seat.seatId);
+      if (!origin) return seat;
+      const x = snapEnabled ? snapToGrid(origin.x + dx) : Math.round(origin.x + dx);
+      const y = snapEnabled ? snapToGrid(origin.y + dy) : Math.round(origin.y + dy);
+      return seat.x === x && seat.y === y ? seat : moveSeat(seat, x, y);
+    }));
+  }, [snapEnabled, setSeats]);
+
+  const handlePointerUp = useCallback(() => {
+    dragRef.current = null;
+    featureDragRef.current = null;
+    editHistory.endContinuousEdit();
+  }, [editHistory]);
+
+  // --- 教室の設備 ---
+  const handleAddFeature = useCallback((type: RoomFeatureType) => {
+    const feature = createRoomFeature(roomFeatures, type, seats);
+    setRoomFeatures([...roomFeatures, feature]);
+    setSelectedFeatureId(feature.id);
+    setSelectedSeatIds([]);
+    setFeatureMenuAnchor(null);
+  }, [roomFeatures, seats, setRoomFeatures]);
+
+  const handleUpdateFeature = useCallback((featureId: string, update: Partial<Omit<RoomFeature, 'id' | 'type'>>) => {
+    setRoomFeatures(prev => prev.map(feature => feature.id === featureId ? { ...feature, ...update } : feature));
+  }, [setRoomFeatures]);
+
+  const handleDeleteFeature = useCallback((featureId: string) => {
+    setRoomFeatures(prev => prev.filter(feature => feature.id !== featureId));
+    setSelectedFeatureId(null);
+  }, [setRoomFeatures]);
+
+  // 設備は座席の外（黒板の前や教室の壁際）にも置けるよう、位置を制限しない
+  const handleFeaturePointerDown = useCallback((event: React.PointerEvent<HTMLDivElement>, feature: RoomFeature) => {
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    editHistory.beginContinuousEdit();
+    featureDragRef.current = {
+      featureId: feature.id,
+      pointerX: event.clientX,
+      pointerY: event.clientY,
+      originX: feature.x,
+      originY: feature.y,
+    };
+    setSelectedFeatureId(feature.id);
+    setSelectedSeatIds([]);
+  }, [editHistory]);
+
+  const handleFeaturePointerMove = useCallback((event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = featureDragRef.current;
+    if (!drag) return;
+    const rawX = drag.originX + event.clientX - drag.pointerX;
+    const rawY = drag.originY + event.clientY - drag.pointerY;
+    const x = snapEnabled ? snapToGrid(rawX) : Math.round(rawX);
+    const y = snapEnabled ? snapToGrid(rawY) : Math.round(rawY);
+    setRoomFeatures(prev => prev.map(feature =>
+      feature.id === drag.featureId && (feature.x !== x || feature.y !== y) ? { ...feature, x, y } : feature
+    ));
+  }, [snapEnabled, setRoomFeatures]);
+
+  // --- 何もないところのドラッグによる範囲選択 ---
+  const toCanvasPoint = (event: React.PointerEvent) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    return {
+      x: event.clientX - (rect?.left ?? 0),
+      y: event.clientY - (rect?.top ?? 0),
+    };
+  };
+
+  const handleMarqueeStart = useCallback((event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const { x, y } = toCanvasPoint(event);
+    setMarquee({ startX: x, startY: y, endX: x, endY: y, baseSeatIds: event.shiftKey ? selectedSeatIds : [] });
+    setSelectedFeatureId(null);
+    if (!event.shiftKey) setSelectedSeatIds([]);
+  }, [selectedSeatIds]);
+
+  const handleMarqueeMove = useCallback((event: React.PointerEvent<HTMLDivElement>) => {
+    if (!marquee) return;
+    const { x, y } = toCanvasPoint(event);
+    const next = { ...marquee, endX: x, endY: y };
+    const rect = getMarqueeRect(next);
+    // 座席の枠が少しでも範囲に入っていれば選択する
+    const hitIds = seats
+      .filter(seat => seat.x < rect.right && seat.x + SEAT_LAYOUT_WIDTH > rect.left && seat.y < rect.bottom && seat.y + SEAT_LAYOUT_HEIGHT > rect.top)
+      .map(seat => seat.seatId);
+    setMarquee(next);
+    setSelectedSeatIds([...new Set([...next.baseSeatIds, ...hitIds])]);
+  }, [marquee, seats]);
+
+  const handleMarqueeEnd = useCallback(() => {
+    setMarquee(null);
   }, []);
 
+  // 矢印キーで選択中の座席（または設備）を少しずつ動かし、Delete キーで削除する。Ctrl + A ですべての座席を選択する
+  const handleKeyDown = useCallback((event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'a' && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      handleSelectAll();
+      return;
+    }
+    if (selectedSeats.length === 0 && !selectedFeature) return;
+    const step = snapEnabled ? SEAT_LAYOUT_SNAP_SIZE : 1;
+    const offsets: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0],
+      ArrowRight: [step, 0],
+      ArrowUp: [0, -step],
+      ArrowDown: [0, step],
+    };
+    if (event.key in offsets) {
+      event.preventDefault();
+      const [dx, dy] = offsets[event.key];
+      if (selectedFeature) {
+        handleUpdateFeature(selectedFeature.id, { x: selectedFeature.x + dx, y: selectedFeature.y + dy });
+      } else {
+        updateSelectedSeats(seat => moveSeat(seat, seat.x + dx, seat.y + dy));
+      }
+    } else if (event.key === 'Delete' || event.key === 'Backspace') {
+      event.preventDefault();
+      if (selectedFeature) {
+        handleDeleteFeature(selectedFeature.id);
+      } else {
+        handleDeleteSeat();
+      }
+    } else if (event.key === 'Escape') {
+      setSelectedSeatIds([]);
+      setSelectedFeatureId(null);
+    }
+  }, [selectedSeats, selectedFeature, snapEnabled, updateSelectedSeats, handleDeleteSeat, handleUpdateFeature, handleDeleteFeature, handleSelectAll]);
+
+  // 選択中の座席にタグを付ける・外す
+  const handleSetTag = useCallback((tag: string, enabled: boolean) => {
+    updateSelectedSeats(seat => setSeatTag(seat, tag, enabled));
+  }, [updateSelectedSeats]);
+
+  // --- 班 ---
+  const handleCreateGroupFromSelection = useCallback(() => {
+    if (selectedSeatIds.length === 0) return;
+    const group = createSeatGroup(seatGroups);
+    setSeatGroups([...seatGroups, group]);
+    setSeats(assignSeatsToGroup(seats, selectedSeatIds, group.id));
+  }, [selectedSeatIds, seatGroups, seats, setSeatGroups, setSeats]);
+
+  const handleAssignSelectionToGroup = useCallback((groupId: string | null) => {
+    setSeats(assignSeatsToGroup(seats, selectedSeatIds, groupId));
+  }, [seats, selectedSeatIds, setSeats]);
+
+  const handleSelectGroup = useCallback((groupId: string) => {
+    setSelectedSeatIds(seats.filter(seat => seat.groupId === groupId).map(seat => seat.seatId));
+  }, [seats]);
+
+  const handleGenerateGroups = useCallback((blockRows: number, blockCols: number) => {
+    if (seatGroups.length > 0 && !window.confirm(`現在の班を、${blockRows} 行 × ${blockCols} 列ごとの班で置き換えますか？`)) return;
+    const generated = generateBlockGroups(seats, blockRows, blockCols);
+    setSeats(generated.seatMap);
+    setSeatGroups(generated.groups);
+  }, [seatGroups.length, seats, setSeats, setSeatGroups]);
+
+  const handleUpdateGroup = useCallback((groupId: string, update: Partial<Omit<SeatGroup, 'id'>>) => {
+    setSeatGroups(prev => prev.map(group => group.id === groupId ? { ...group, ...update } : group));
+  }, [setSeatGroups]);
+
+  const handleDeleteGroup = useCallback((groupId: string) => {
+    setSeatGroups(prev => prev.filter(group => group.id !== groupId));
+    setSeats(prev => prev.map(seat => seat.groupId === groupId ? { ...seat, groupId: null } : seat));
+  }, [setSeatGroups, setSeats]);
+
   // 「座席マップを確定し次へ」ボタンのハンドラ
   const handleGenerateClick = useCallback(() => {
-    if (rows < 1 || cols < 1) {
-      setErrorMessage('行数、列数ともに1以上の整数を入力してください。');
+    if (seats.length === 0) {
+      setErrorMessage('座席を1つ以上配置してください。');
       return;
     }
-    if (rows * cols > MAX_SEATS) {
-        setErrorMessage(`総座席数が${MAX_SEATS}を超えています。行数または列数を減らしてください。`);
+    if (seats.length > MAX_SEATS) {
+        setErrorMessage(`総座席数が${MAX_SEATS}を超えています。座席を減らしてください。`);
         return;
     }
+    const labels = seats.map(seat => seat.label.trim());
+    if (labels.some(label => !label)) {
+      setErrorMessage('座席名が空の座席があります。');
+      return;
+    }
+    if (new Set(labels).size !== labels.length) {
+      setErrorMessage('同じ座席名の座席があります。座席名は座席ごとに変えてください。');
+      return;
+    }
+    if (seatGroups.some(group => !group.name.trim())) {
+      setErrorMessage('名前が空の班があります。');
+      return;
+    }
 
     setErrorMessage(null);
-    onConfigComplete(rows, cols, currentEditedSeatMap);
-  }, [rows, cols, currentEditedSeatMap, onConfigComplete]);
+    const pruned = pruneSeatGroups(
+      seats.map(seat => ({ ...seat, label: seat.label.trim() })),
+      seatGroups.map(group => ({ ...group, name: group.name.trim() })),
+    );
+    onConfigComplete(
+      pruned.seatMap,
+      pruned.groups,
+      roomFeatures.map(feature => ({ ...feature, label: feature.label.trim() })),
+    );
+  }, [seats, seatGroups, roomFeatures, onConfigComplete]);
 
   // 使用可能な座席数を計算するuseMemo
   const usableSeatCount = useMemo(() => {
-    return currentEditedSeatMap.filter(seat => seat.isUsable).length;
-  }, [currentEditedSeatMap]);
+    return seats.filter(seat => seat.isUsable).length;
+  }, [seats]);
+
+  // 座席を右・下に動かせるよう、キャンバスに1席分の余白を確保する
+  const canvasMinSize = useMemo(() => {
+    const bounds = getLayoutBounds(seats, roomFeatures);
+    return { width: bounds.width + SEAT_LAYOUT_WIDTH, height: bounds.height + SEAT_LAYOUT_HEIGHT };
+  }, [seats, roomFeatures]);
+
+  const isTemplateInvalid = rows < 1 || cols < 1 || rows * cols > MAX_SEATS;
 
   return (
     <Box sx={{ p: 3 }}>
       <Typography variant="h5" component="h2" gutterBottom>
         座席レイアウトの設定
       </Typography>
-      <Typography variant="body1" color="text.secondary" sx={{ mb: 3 }}>
-        座席の行数と列数を入力し、座席をクリックして使用不可の座席を設定します。
-      </Typography>
+      <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 2, mb: 3 }}>
+        <Typography variant="body1" color="text.secondary" sx={{ flexGrow: 1 }}>
+          行数と列数から格子状の配置を作り、座席をドラッグして教室の形に合わせて並べ替えます。
+          よく使う配置はプリセットとして保存・読み込みできます。
+        </Typography>
+        <Button variant="outlined" startIcon={<BookmarksIcon />} onClick={() => setPresetDialogOpen(true)} sx={{ flexShrink: 0 }}>
+          プリセット
+        </Button>
+      </Box>
 
-      {/* 行数・列数入力エリア */}
+      {/* テンプレート（行数・列数）入力エリア */}
       <Paper elevation={2} sx={{ p: 2, mb: 3 }}>
         <Grid container spacing={2} alignItems="center">
-          <Grid size={{ xs: 12, sm: 6 }}>
+          <Grid size={{ xs: 12, sm: 4 }}>
             <TextField
               label="行数 (Rows)"
               type="number"
@@ -156,7 +563,7 @@ const SeatMapConfig: React.FC<SeatMapConfigProps> = ({
               helperText={!!errorMessage && errorMessage.includes('行数') ? errorMessage : ' '}
             />
           </Grid>
-          <Grid size={{ xs: 12, sm: 6 }}>
+          <Grid size={{ xs: 12, sm: 4 }}>
             <TextField
               label="列数 (Columns)"
               type="number"
@@ -168,11 +575,23 @@ const SeatMapConfig: React.FC<SeatMapConfigProps> = ({
               helperText={!!errorMessage && errorMessage.includes('列数') ? errorMessage : ' '}
             />
           </Grid>
+          <Grid size={{ xs: 12, sm: 4 }}>
+            <Button
+              variant="outlined"
+              startIcon={<GridOnIcon />}
+              onClick={handleApplyTemplate}
+              disabled={isTemplateInvalid}
+              fullWidth
+              sx={{ mb: 2.5 }}
+            >
+              格子状に並べる
+            </Button>
+          </Grid>
         </Grid>
 
         {/* 総座席数表示を「使用可能な座席数」に変更 */}
-        <Typography variant="body2" color="text.secondary" sx={{ mt: 2, textAlign: 'right' }}>
-          使用可能な座席数: {usableSeatCount} 席 (総座席数: {rows * cols})
+        <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'right' }}>
+          使用可能な座席数: {usableSeatCount} 席 (総座席数: {seats.length})
         </Typography>
 
         {errorMessage && (
@@ -185,73 +604,255 @@ const SeatMapConfig: React.FC<SeatMapConfigProps> = ({
 
       <Divider sx={{ my: 4 }} />
 
-      {/* 座席設定エリア */}
+      {/* 座席配置エリア */}
       <Typography variant="h6" component="h3" gutterBottom>
-        座席の使用可否設定
+        座席の配置
       </Typography>
       <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
-        表示されている座席をクリックして、使用不可に設定できます。
+        座席をドラッグして移動し、ダブルクリックで使用不可に設定できます。選択した座席は矢印キーで少しずつ動かせ、座席名（例: 窓側A-1）も変更できます。
+        何もないところをドラッグするか、Shift キーを押しながらクリックすると、複数の座席をまとめて選択し、使用可否・タグ・班をまとめて設定できます。
+        「設備を追加」から黒板・教卓・出入口・窓・柱・ロッカーを置くと、座席表や印刷にも表示されます。
       </Typography>
-      <Paper elevation={2} sx={{ p: 2, overflowX: 'auto' }}>
-        <Box sx={{ textAlign: 'center', bgcolor: 'grey.800', color: 'white', py: 0.5, borderRadius: 1, mb: 2 }}>
-          <Typography variant="caption" sx={{ fontWeight: 'bold' }}>黒板（前）</Typography>
-        </Box>
-        <Grid container spacing={1} justifyContent="center" wrap="wrap">
-          {Array.from({ length: rows }).map((_, rowIndex) => (
-            <Grid container size={12} key={`row-${rowIndex}`} spacing={1} justifyContent="center" wrap="nowrap">
-              {Array.from({ length: cols }).map((_, colIndex) => {
-                const seatId = `R${rowIndex + 1}C${colIndex + 1}`;
-                const seatData = currentEditedSeatMap.find(s => s.seatId === seatId);
-                const displaySeatData: SeatMapData = seatData || {
-                  seatId: seatId,
-                  assignedStudentId: null,
-                  isUsable: true,
-                  row: rowIndex + 1,
-                  col: colIndex + 1,
-                };
-
-                return (
-                  <Grid key={seatId}>
-                    <Seat
-                      seatId={seatId}
-                      seatData={displaySeatData}
-                      assignedStudent={null}
-                      onClick={handleSeatClick}
-                      isConfigMode={true}
-                      isHighlighted={false}
-                      displayMode="config"
-                      isDragDisabled={true}
-                    />
-                  </Grid>
-                );
-              })}
-            </Grid>
-          ))}
-        </Grid>
-        <Box sx={{ textAlign: 'center', mt: 2 }}>
-          <Typography variant="caption" color="text.secondary">後</Typography>
-        </Box>
+
+      {/* 編集ツールバー */}
+      <Paper elevation={1} sx={{ p: 1, mb: 1, display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+        <UndoRedoButtons />
+        <Divider orientation="vertical" flexItem />
+        <Button size="small" startIcon={<AddIcon />} onClick={handleAddSeat} disabled={seats.length >= MAX_SEATS}>
+          座席を追加
+        </Button>
+        <Button size="small" startIcon={<MeetingRoomIcon />} onClick={(e) => setFeatureMenuAnchor(e.currentTarget)}>
+          設備を追加
+        </Button>
+        <Menu anchorEl={featureMenuAnchor} open={!!featureMenuAnchor} onClose={() => setFeatureMenuAnchor(null)}>
+          {(Object.keys(ROOM_FEATURE_TYPES) as RoomFeatureType[]).map(type => {
+            const { label, icon: FeatureIcon } = ROOM_FEATURE_TYPES[type];
+            return (
+              <MenuItem key={type} onClick={() => handleAddFeature(type)}>
+                <ListItemIcon><FeatureIcon fontSize="small" /></ListItemIcon>
+                <ListItemText>{label}</ListItemText>
+              </MenuItem>
+            );
+          })}
+        </Menu>
+        <Divider orientation="vertical" flexItem />
+        <TextField
+          size="small"
+          label="座席名"
+          placeholder="例: 窓側A-1"
+          value={selectedSeat?.label ?? ''}
+          disabled={!selectedSeat}
+          onChange={(e) => selectedSeat && updateSeat(selectedSeat.seatId, seat => ({ ...seat, label: e.target.value }))}
+          error={!!selectedSeat && !selectedSeat.label.trim()}
+          sx={{ width: 160 }}
+        />
+        <Tooltip title="複製">
+          <span>
+            <IconButton size="small" onClick={handleDuplicateSeat} disabled={!selectedSeat || seats.length >= MAX_SEATS}>
+              <ContentCopyIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title={`左に${ROTATION_STEP}°回転`}>
+          <span>
+            <IconButton size="small" onClick={() => handleRotate(-ROTATION_STEP)} disabled={selectedSeats.length === 0}>
+              <RotateLeftIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title={`右に${ROTATION_STEP}°回転`}>
+          <span>
+            <IconButton size="small" onClick={() => handleRotate(ROTATION_STEP)} disabled={selectedSeats.length === 0}>
+              <RotateRightIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title="使用可能にする">
+          <span>
+            <IconButton size="small" onClick={() => handleSetSelectedUsable(true)} disabled={selectedSeats.length === 0}>
+              <CheckCircleOutlineIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title="使用不可にする">
+          <span>
+            <IconButton size="small" onClick={() => handleSetSelectedUsable(false)} disabled={selectedSeats.length === 0}>
+              <BlockIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title="使用不可・タグ・班を解除">
+          <span>
+            <IconButton size="small" onClick={handleClearSelectedSeats} disabled={selectedSeats.length === 0}>
+              <LayersClearIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title="削除">
+          <span>
+            <IconButton size="small" color="error" onClick={handleDeleteSeat} disabled={selectedSeats.length === 0}>
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title="すべて選択（Ctrl + A）">
+          <span>
+            <IconButton size="small" onClick={handleSelectAll} disabled={seats.length === 0}>
+              <SelectAllIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+        {selectedSeats.length > 1 && (
+          <Typography variant="body2" color="text.secondary">{selectedSeats.length} 席を選択中</Typography>
+        )}
+        <FormControlLabel
+          sx={{ ml: 'auto' }}
+          control={<Switch size="small" checked={snapEnabled} onChange={(e) => setSnapEnabled(e.target.checked)} />}
+          label="格子に揃える"
+        />
       </Paper>
-      {rows * cols > MAX_SEATS && (
-          <Alert severity="warning" sx={{ mt: 2 }}>
-            <AlertTitle>警告</AlertTitle>
-            設定された総座席数が推奨される最大数（{MAX_SEATS}）を超えています。パフォーマンスに影響が出る可能性があります。
-          </Alert>
+
+      {selectedFeature && (
+        <RoomFeatureToolbar
+          feature={selectedFeature}
+          onChange={(update) => handleUpdateFeature(selectedFeature.id, update)}
+          onDelete={() => handleDeleteFeature(selectedFeature.id)}
+        />
       )}
 
+      <Paper
+        elevation={2}
+        sx={{ p: 2, overflow: 'auto', outline: 'none' }}
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        onPointerDown={handleMarqueeStart}
+        onPointerMove={handleMarqueeMove}
+        onPointerUp={handleMarqueeEnd}
+        onPointerCancel={handleMarqueeEnd}
+      >
+        <SeatLayoutCanvas
+          seatMap={seats}
+          seatGroups={seatGroups}
+          roomFeatures={roomFeatures}
+          canvasRef={canvasRef}
+          minSize={canvasMinSize}
+          canvasSx={{
+            // 格子に揃えるときの目安として方眼を表示する
+            backgroundImage: snapEnabled
+              ? 'linear-gradient(to right, rgba(0,0,0,0.06) 1px, transparent 1px), linear-gradient(to bottom, rgba(0,0,0,0.06) 1px, transparent 1px)'
+              : 'none',
+            backgroundSize: `${SEAT_LAYOUT_SNAP_SIZE * 2}px ${SEAT_LAYOUT_SNAP_SIZE * 2}px`,
+          }}
+          overlay={marquee && (() => {
+            const rect = getMarqueeRect(marquee);
+            return (
+              <Box
+                sx={{
+                  position: 'absolute',
+                  left: rect.left,
+                  top: rect.top,
+                  width: rect.right - rect.left,
+                  height: rect.bottom - rect.top,
+                  border: '1px dashed',
+                  borderColor: 'primary.main',
+                  bgcolor: 'rgba(25, 118, 210, 0.08)',
+                  pointerEvents: 'none',
+                  zIndex: 2,
+                }}
+              />
+            );
+          })()}
+          renderRoomFeature={(feature) => (
+            <Box
+              onPointerDown={(e) => handleFeaturePointerDown(e, feature)}
+              onPointerMove={handleFeaturePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              sx={{
+                width: '100%',
+                height: '100%',
+                touchAction: 'none',
+                cursor: 'move',
+                outline: feature.id === selectedFeatureId ? '3px solid' : 'none',
+                outlineColor: 'warning.main',
+                outlineOffset: 2,
+              }}
+            >
+              <RoomFeatureBox feature={feature} />
+            </Box>
+          )}
+          renderSeat={(seat) => (
+            <Box
+              onPointerDown={(e) => handlePointerDown(e, seat)}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              onDoubleClick={() => handleToggleUsable(seat.seatId)}
+              sx={{
+                touchAction: 'none',
+                cursor: 'move',
+                borderRadius: 2,
+                outline: selectedIdSet.has(seat.seatId) ? '3px solid' : 'none',
+                outlineColor: 'warning.main',
+                outlineOffset: 2,
+              }}
+            >
+              <Seat
+                seatId={seat.seatId}
+                seatData={seat}
+                assignedStudent={null}
+                isConfigMode={true}
+                isHighlighted={false}
+                displayMode="config"
+                isDragDisabled={true}
+              />
+            </Box>
+          )}
+        />
+      </Paper>
+
+      <SeatPatternPanel
+        selectedCount={selectedSeats.length}
+        onApplyPattern={handleApplyPattern}
+        onSetAisleColumn={handleSetAisleColumn}
+      />
+
+      <SeatTagEditor seats={seats} selectedSeats={selectedSeats} onSetTag={handleSetTag} />
+
+      <SeatGroupPanel
+        seats={seats}
+        seatGroups={seatGroups}
+        selectedCount={selectedSeats.length}
+        onCreateFromSelection={handleCreateGroupFromSelection}
+        onAssignSelection={handleAssignSelectionToGroup}
+        onSelectGroup={handleSelectGroup}
+        onGenerate={handleGenerateGroups}
+        onUpdateGroup={handleUpdateGroup}
+        onDeleteGroup={handleDeleteGroup}
+      />
+
       {/* 次へボタン */}
       <Box sx={{ mt: 4, display: 'flex', justifyContent: 'flex-end' }}>
         <Button
           variant="contained"
           size="large"
           onClick={handleGenerateClick}
-          disabled={!!errorMessage || rows < 1 || cols < 1 || rows * cols === 0 || rows * cols > MAX_SEATS}
+          disabled={seats.length === 0 || seats.length > MAX_SEATS}
         >
           座席レイアウトを確定し次へ
         </Button>
       </Box>
+
+      <LayoutPresetDialog
+        open={presetDialogOpen}
+        seatMap={seats}
+        seatGroups={seatGroups}
+        roomFeatures={roomFeatures}
+        onLoad={handleLoadPreset}
+        onClose={() => setPresetDialogOpen(false)}
+      />
     </Box>
   );
 };
 
-export default SeatMapConfig;
\ No newline at end of file
+export default SeatMapConfig;
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { Box, Button, Paper, TextField, Tooltip, Typography } from '@mui/material';
+import ViewColumnIcon from '@mui/icons-material/ViewColumn';
+import type { SeatUsablePattern } from '../../types/Seat';
+import { SEAT_USABLE_PATTERNS } from '../../constants';
+
+/**
+ * SeatPatternPanel コンポーネントが受け取るPropsの型定義です。
+ */
+interface SeatPatternPanelProps {
+  /**
+   * 選択中の座席の数です。0 の場合はすべての座席に適用します。
+   */
+  selectedCount: number;
+  /**
+   * 並べ方（一席おき・市松模様）に合わせて使用可否を設定するときに呼び出されるコールバック関数です。
+   */
+  onApplyPattern: (pattern: SeatUsablePattern) => void;
+  /**
+   * 指定した列番号の座席を通路として使用不可にするときに呼び出されるコールバック関数です。
+   */
+  onSetAisleColumn: (col: number) => void;
+}
+
+/**
+ * 座席レイアウトの編集画面で、座席の使用可否を並べ方に合わせてまとめて設定するパネルです。
+ * 試験のために一席おき・市松模様に空けたり、列を通路として空けたりします。
+ */
+const SeatPatternPanel: React.FC<SeatPatternPanelProps> = ({ selectedCount, onApplyPattern, onSetAisleColumn }) => {
+  const [aisleColumn, setAisleColumn] = useState(1);
+  const targetLabel = selectedCount > 0 ? `選択中の ${selectedCount} 席` : 'すべての座席';
+
+  return (
+    <Paper elevation={1} sx={{ p: 2, mt: 2 }}>
+      <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>使用可否をまとめて設定</Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 1.5 }}>
+        {targetLabel}に適用します。一席おき・市松模様は、空ける座席を使用不可に、それ以外の座席を使用可能にします。
+      </Typography>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1 }}>
+        {(Object.keys(SEAT_USABLE_PATTERNS) as SeatUsablePattern[]).map(pattern => (
+          <Tooltip key={pattern} title={SEAT_USABLE_PATTERNS[pattern].description}>
+            <Button size="small" variant="outlined" onClick={() => onApplyPattern(pattern)}>
+              {SEAT_USABLE_PATTERNS[pattern].label}
+            </Button>
+          </Tooltip>
+        ))}
+        <TextField
+          size="small"
+          type="number"
+          label="列番号"
+          value={aisleColumn}
+          onChange={(e) => setAisleColumn(Math.max(1, parseInt(e.target.value, 10) || 1))}
+          inputProps={{ min: 1 }}
+          sx={{ width: 100, ml: 1 }}
+        />
+        <Button size="small" startIcon={<ViewColumnIcon />} onClick={() => onSetAisleColumn(aisleColumn)}>
+          この列を通路として空ける
+        </Button>
+      </Box>
+    </Paper>
+  );
+};
+
+export default SeatPatternPanel;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Box, Button, Chip, Paper, TextField, Typography } from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import type { SeatMap, SeatMapData } from '../../types/Seat';
+import { BUILT_IN_SEAT_TAGS, CUSTOM_SEAT_TAG_ICON, SEAT_TAG_FRONT_ROW_COUNT } from '../../constants';
+import { getAvailableSeatTags, getSeatTagLabel, isBuiltInSeatTag, normalizeSeatTagName } from '../../utils/seatTags';
+
+/**
+ * SeatTagEditor コンポーネントが受け取るPropsの型定義です。
+ */
+interface SeatTagEditorProps {
+  /**
+   * 編集中の座席マップです（先生が作ったタグの一覧を求めるために使います）。
+   */
+  seats: SeatMap;
+  /**
+   * 選択中の座席です。タグの付け外しはこれらの座席すべてに行います。
+   */
+  selectedSeats: SeatMapData[];
+  /**
+   * 選択中の座席にタグを付ける（enabled が true）、または外すときに呼び出されるコールバック関数です。
+   */
+  onSetTag: (tag: string, enabled: boolean) => void;
+}
+
+/**
+ * 座席レイアウトの編集画面で、選択中の座席にタグ（窓側・通路側・出入口の近く、先生が作ったタグ）を付け外しするパネルです。
+ * 前列のタグは座席の位置から自動で付くため、ここでは変更しません。
+ */
+const SeatTagEditor: React.FC<SeatTagEditorProps> = ({ seats, selectedSeats, onSetTag }) => {
+  const [newTagName, setNewTagName] = useState('');
+
+  const editableTags = getAvailableSeatTags(seats).filter(tag => !(isBuiltInSeatTag(tag) && BUILT_IN_SEAT_TAGS[tag].isDerived));
+
+  const handleAddTag = () => {
+    const tag = normalizeSeatTagName(newTagName);
+    if (!tag || selectedSeats.length === 0) return;
+    onSetTag(tag, true);
+    setNewTagName('');
+  };
+
+  return (
+    <Paper elevation={1} sx={{ p: 2, mt: 2 }}>
+      <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>座席のタグ</Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 1.5 }}>
+        座席を選択してタグをクリックすると、付け外しできます。前から {SEAT_TAG_FRONT_ROW_COUNT} 行目までの座席には「{BUILT_IN_SEAT_TAGS.front.label}」のタグが自動で付きます。
+      </Typography>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1 }}>
+        {editableTags.map(tag => {
+          const taggedCount = selectedSeats.filter(seat => seat.tags.includes(tag)).length;
+          const isAllTagged = selectedSeats.length > 0 && taggedCount === selectedSeats.length;
+          const TagIcon = isBuiltInSeatTag(tag) ? BUILT_IN_SEAT_TAGS[tag].icon : CUSTOM_SEAT_TAG_ICON;
+          return (
+            <Chip
+              key={tag}
+              icon={<TagIcon fontSize="small" />}
+              label={taggedCount > 0 && !isAllTagged ? `${getSeatTagLabel(tag)}（${taggedCount}席）` : getSeatTagLabel(tag)}
+              color={taggedCount > 0 ? 'primary' : 'default'}
+              variant={isAllTagged ? 'filled' : 'outlined'}
+              onClick={() => onSetTag(tag, !isAllTagged)}
+              disabled={selectedSeats.length === 0}
+            />
+          );
+        })}
+        <TextField
+          size="small"
+          label="新しいタグ"
+          placeholder="例: 教卓の近く"
+          value={newTagName}
+          onChange={(e) => setNewTagName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleAddTag(); }}
+          disabled={selectedSeats.length === 0}
+          sx={{ width: 160, ml: 1 }}
+        />
+        <Button size="small" startIcon={<AddIcon />} onClick={handleAddTag} disabled={selectedSeats.length === 0 || !newTagName.trim()}>
+          選択した座席に付ける
+        </Button>
+      </Box>
+    </Paper>
+  );
+};
+
+export default SeatTagEditor;
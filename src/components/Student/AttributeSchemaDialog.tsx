@@ -0,0 +1,214 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import type { StudentAttributeDefinition, StudentAttributeSchema, StudentAttributeType } from '../../types/Attribute';
+import { ATTRIBUTE_TYPE_LABELS } from '../../constants';
+import { createAttributeDefinition } from '../../utils/studentAttributes';
+
+/**
+ * AttributeSchemaDialog コンポーネントが受け取るPropsの型定義です。
+ */
+interface AttributeSchemaDialogProps {
+  /**
+   * ダイアログを開くかどうかです。
+   */
+  open: boolean;
+  /**
+   * 現在の属性の定義です。
+   */
+  schema: StudentAttributeSchema;
+  /**
+   * 「決定」が押されたときに、編集後の属性の定義を受け取るコールバック関数です。
+   */
+  onSave: (schema: StudentAttributeSchema) => void;
+  /**
+   * ダイアログを閉じるときに呼び出されるコールバック関数です。
+   */
+  onClose: () => void;
+}
+
+// 選択肢は入力途中の区切り文字を消さないよう、文字列のまま編集して決定時に分割する
+interface DraftAttribute {
+  definition: StudentAttributeDefinition;
+  optionsText: string;
+}
+
+const parseOptions = (text: string): string[] =>
+  Array.from(new Set(text.split(/[,、\n]/).map(option => option.trim()).filter(Boolean)));
+
+/**
+ * クラスごとの生徒の属性（名前・値の種類・表示先）を設定するダイアログです。
+ */
+const AttributeSchemaDialog: React.FC<AttributeSchemaDialogProps> = ({
+  open,
+  schema,
+  onSave,
+  onClose,
+}) => {
+  const [drafts, setDrafts] = useState<DraftAttribute[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    setDrafts(schema.map(definition => ({ definition, optionsText: definition.options.join(', ') })));
+  }, [open, schema]);
+
+  const validationError = useMemo(() => {
+    const names = drafts.map(d => d.definition.name.trim());
+    if (names.some(name => !name)) return '属性名を入力してください。';
+    if (new Set(names).size !== names.length) return '同じ名前の属性があります。';
+    if (drafts.some(d => d.definition.type === 'enum' && parseOptions(d.optionsText).length === 0)) {
+      return '選択肢の属性には、選択肢を1つ以上入力してください。';
+    }
+    return null;
+  }, [drafts]);
+
+  const updateDraft = (id: string, update: Partial<StudentAttributeDefinition>) => {
+    setDrafts(prev => prev.map(d => d.definition.id === id ? { ...d, definition: { ...d.definition, ...update } } : d));
+  };
+
+  const handleAdd = () => {
+    setDrafts(prev => [
+      ...prev,
+      { definition: createAttributeDefinition(prev.map(d => d.definition), ''), optionsText: '' },
+    ]);
+  };
+
+  const handleDelete = (id: string, name: string) => {
+    if (!window.confirm(`属性「${name || '（名前なし）'}」を削除しますか？全生徒のこの属性の値も削除されます。`)) return;
+    setDrafts(prev => prev.filter(d => d.definition.id !== id));
+  };
+
+  const handleSave = () => {
+    onSave(drafts.map(({ definition, optionsText }) => ({
+      ...definition,
+      name: definition.name.trim(),
+      options: definition.type === 'enum' ? parseOptions(optionsText) : [],
+    })));
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>属性の設定</DialogTitle>
+      <DialogContent dividers>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          性別・身長・眼鏡の有無など、このクラスで管理する項目を設定します。
+          「投影」はルーレット・座席確認画面の座席に、「印刷」は印刷・コピーする座席表に表示します。
+        </Typography>
+        {validationError && <Alert severity="warning" sx={{ mb: 2 }}>{validationError}</Alert>}
+        <TableContainer>
+          <Table size="small" aria-label="attribute schema table">
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ fontWeight: 'bold', minWidth: 140 }}>属性名</TableCell>
+                <TableCell sx={{ fontWeight: 'bold', width: 140 }}>種類</TableCell>
+                <TableCell sx={{ fontWeight: 'bold', minWidth: 180 }}>選択肢（カンマ区切り）</TableCell>
+                <TableCell sx={{ fontWeight: 'bold', width: 64 }} align="center">投影</TableCell>
+                <TableCell sx={{ fontWeight: 'bold', width: 64 }} align="center">印刷</TableCell>
+                <TableCell sx={{ width: 56 }} />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {drafts.map(({ definition, optionsText }) => (
+                <TableRow key={definition.id}>
+                  <TableCell>
+                    <TextField
+                      variant="standard"
+                      size="small"
+                      fullWidth
+                      placeholder="例: 性別"
+                      value={definition.name}
+                      error={!definition.name.trim()}
+                      onChange={(e) => updateDraft(definition.id, { name: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      select
+                      variant="standard"
+                      size="small"
+                      fullWidth
+                      value={definition.type}
+                      onChange={(e) => updateDraft(definition.id, { type: e.target.value as StudentAttributeType })}
+                    >
+                      {(Object.keys(ATTRIBUTE_TYPE_LABELS) as StudentAttributeType[]).map(type => (
+                        <MenuItem key={type} value={type}>{ATTRIBUTE_TYPE_LABELS[type]}</MenuItem>
+                      ))}
+                    </TextField>
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      variant="standard"
+                      size="small"
+                      fullWidth
+                      placeholder={definition.type === 'enum' ? '例: 男, 女' : ''}
+                      disabled={definition.type !== 'enum'}
+                      value={definition.type === 'enum' ? optionsText : ''}
+                      onChange={(e) => setDrafts(prev => prev.map(d => d.definition.id === definition.id ? { ...d, optionsText: e.target.value } : d))}
+                    />
+                  </TableCell>
+                  <TableCell align="center">
+                    <Checkbox
+                      size="small"
+                      checked={definition.showOnProjector}
+                      onChange={(e) => updateDraft(definition.id, { showOnProjector: e.target.checked })}
+                    />
+                  </TableCell>
+                  <TableCell align="center">
+                    <Checkbox
+                      size="small"
+                      checked={definition.showOnPrint}
+                      onChange={(e) => updateDraft(definition.id, { showOnPrint: e.target.checked })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Tooltip title="削除">
+                      <IconButton size="small" onClick={() => handleDelete(definition.id, definition.name)} aria-label="削除">
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+        {drafts.length === 0 && (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 2, textAlign: 'center' }}>
+            属性がありません。
+          </Typography>
+        )}
+        <Button startIcon={<AddIcon />} onClick={handleAdd} sx={{ mt: 2 }}>
+          属性を追加
+        </Button>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>キャンセル</Button>
+        <Button onClick={handleSave} variant="contained" disabled={validationError !== null}>
+          決定
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AttributeSchemaDialog;
@@ -0,0 +1,153 @@
+import React, { useCallback, useMemo } from 'react';
+import {
+  Box,
+  Checkbox,
+  FormControl,
+  FormControlLabel,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import type { SelectChangeEvent } from '@mui/material';
+import type { ColumnMapping, ColumnTarget } from '../../types/Import';
+import type { StudentAttributeSchema } from '../../types/Attribute';
+import { COLUMN_TARGET_LABELS, STUDENT_CORE_FIELDS } from '../../constants';
+import { findDuplicateColumnTargets, getTargetAttributeId, toAttributeTarget } from '../../utils/csvParser';
+
+/**
+ * ColumnMappingEditor コンポーネントが受け取るPropsの型定義です。
+ */
+interface ColumnMappingEditorProps {
+  /**
+   * 取り込み元の行データです（見出し行を含む）。
+   */
+  rows: string[][];
+  /**
+   * 現在の列の割り当てです。
+   */
+  mapping: ColumnMapping;
+  /**
+   * 割り当てが変更されたときに呼び出されるコールバック関数です。
+   */
+  onChange: (mapping: ColumnMapping) => void;
+  /**
+   * 割り当て先として選べる、既存の属性の定義です。
+   */
+  attributeSchema?: StudentAttributeSchema;
+  /**
+   * プレビューに表示するデータ行の最大数です。
+   */
+  previewRowCount?: number;
+}
+
+// 複数の列に割り当てられる割り当て先
+const MULTI_COLUMN_TARGETS: ColumnTarget[] = ['newAttribute', 'ignore'];
+
+/**
+ * 取り込み元の各列を Student のどの項目（基本項目・属性）として読み込むかを指定するコンポーネントです。
+ * 同じ項目は1列にしか割り当てられないため、既に使われている項目を選ぶと元の列は「読み込まない」に戻ります。
+ * 前回の割り当ての適用などで同じ項目が複数の列に重なっている場合は、その列を赤く表示します。
+ */
+const ColumnMappingEditor: React.FC<ColumnMappingEditorProps> = ({
+  rows,
+  mapping,
+  onChange,
+  attributeSchema = [],
+  previewRowCount = 3,
+}) => {
+  const targetOptions = useMemo<ColumnTarget[]>(
+    () => [...STUDENT_CORE_FIELDS, ...attributeSchema.map(def => toAttributeTarget(def.id)), 'newAttribute', 'ignore'],
+    [attributeSchema]
+  );
+
+  const getTargetLabel = useCallback((target: ColumnTarget): string => {
+    const attributeId = getTargetAttributeId(target);
+    if (attributeId) return attributeSchema.find(def => def.id === attributeId)?.name ?? attributeId;
+    return COLUMN_TARGET_LABELS[target as keyof typeof COLUMN_TARGET_LABELS];
+  }, [attributeSchema]);
+
+  // 複数の列に重なっている割り当て先（前回の割り当てを見出しの名前で適用した場合など）は、その列を強調する
+  const duplicateTargets = useMemo(() => new Set(findDuplicateColumnTargets(mapping)), [mapping]);
+
+  const headerRow = mapping.hasHeader ? rows[0] : undefined;
+  const previewRows = useMemo(
+    () => (mapping.hasHeader ? rows.slice(1) : rows).slice(0, previewRowCount),
+    [rows, mapping.hasHeader, previewRowCount]
+  );
+
+  const handleHeaderToggle = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const hasHeader = event.target.checked;
+    onChange({ ...mapping, hasHeader, headers: hasHeader ? rows[0] : undefined });
+  }, [mapping, rows, onChange]);
+
+  const handleTargetChange = useCallback((colIndex: number, target: ColumnTarget) => {
+    const columns = mapping.columns.map((current, i) => {
+      if (i === colIndex) return target;
+      return !MULTI_COLUMN_TARGETS.includes(target) && current === target ? 'ignore' : current;
+    });
+    onChange({ ...mapping, columns });
+  }, [mapping, onChange]);
+
+  return (
+    <Box>
+      <FormControlLabel
+        control={<Checkbox checked={mapping.hasHeader} onChange={handleHeaderToggle} />}
+        label="1行目は見出し行（データとして読み込まない）"
+      />
+      <TableContainer sx={{ border: '1px solid #eee', borderRadius: 1, mt: 1 }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              {mapping.columns.map((target, colIndex) => (
+                <TableCell key={colIndex} sx={{ minWidth: 140, verticalAlign: 'bottom' }}>
+                  {headerRow && (
+                    <Typography variant="caption" color="text.secondary" display="block" noWrap>
+                      {headerRow[colIndex] || `列${colIndex + 1}`}
+                    </Typography>
+                  )}
+                  <FormControl size="small" fullWidth>
+                    <Select
+                      value={target}
+                      error={duplicateTargets.has(target)}
+                      onChange={(e: SelectChangeEvent) => handleTargetChange(colIndex, e.target.value as ColumnTarget)}
+                      sx={{ color: target === 'ignore' ? 'text.disabled' : undefined }}
+                    >
+                      {targetOptions.map(option => (
+                        <MenuItem key={option} value={option}>
+                          {getTargetLabel(option)}
+                          {(option === 'number' || option === 'name') && '（必須）'}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                </TableCell>
+              ))}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {previewRows.map((row, rowIndex) => (
+              <TableRow key={rowIndex}>
+                {mapping.columns.map((target, colIndex) => (
+                  <TableCell
+                    key={colIndex}
+                    sx={{ color: target === 'ignore' ? 'text.disabled' : undefined, whiteSpace: 'nowrap' }}
+                  >
+                    {row[colIndex] ?? ''}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+};
+
+export default ColumnMappingEditor;
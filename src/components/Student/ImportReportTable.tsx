@@ -0,0 +1,96 @@
+import React from 'react';
+import {
+  Box,
+  Checkbox,
+  Chip,
+  FormControlLabel,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import type { ImportIssue } from '../../types/Import';
+import { IMPORT_ISSUE_LABELS } from '../../constants';
+
+/**
+ * ImportReportTable コンポーネントが受け取るPropsの型定義です。
+ */
+interface ImportReportTableProps {
+  /**
+   * 表示する問題の一覧です。
+   */
+  issues: ImportIssue[];
+  /**
+   * 利用者が内容を確認済みかどうかです。
+   */
+  acknowledged: boolean;
+  /**
+   * 確認済みチェックが変更されたときに呼び出されるコールバック関数です。
+   */
+  onAcknowledgedChange: (acknowledged: boolean) => void;
+  /**
+   * テーブルの最大高さです。
+   */
+  maxHeight?: number | string;
+}
+
+/**
+ * 取り込み時に検出した問題を行ごとに一覧表示し、利用者に確認を求めるコンポーネントです。
+ */
+const ImportReportTable: React.FC<ImportReportTableProps> = ({
+  issues,
+  acknowledged,
+  onAcknowledgedChange,
+  maxHeight = 300,
+}) => {
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const skippedCount = issues.filter(issue => issue.skipped).length;
+
+  return (
+    <Box>
+      <Typography variant="body2" sx={{ mb: 1 }}>
+        エラー {errorCount} 件・警告 {issues.length - errorCount} 件
+        {skippedCount > 0 && `（${skippedCount} 行は読み込まれません）`}
+      </Typography>
+      <TableContainer sx={{ maxHeight, border: '1px solid #eee', borderRadius: 1 }}>
+        <Table stickyHeader size="small" aria-label="import issues table">
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ fontWeight: 'bold', width: 64 }}>行</TableCell>
+              <TableCell sx={{ fontWeight: 'bold', width: 160 }}>種類</TableCell>
+              <TableCell sx={{ fontWeight: 'bold' }}>内容</TableCell>
+              <TableCell sx={{ fontWeight: 'bold', width: 96 }}>扱い</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {issues.map((issue, index) => (
+              <TableRow key={index}>
+                <TableCell>{issue.line ?? '-'}</TableCell>
+                <TableCell>
+                  <Chip
+                    size="small"
+                    label={IMPORT_ISSUE_LABELS[issue.kind]}
+                    color={issue.severity === 'error' ? 'error' : 'warning'}
+                    variant={issue.skipped ? 'filled' : 'outlined'}
+                  />
+                </TableCell>
+                <TableCell>{issue.message}</TableCell>
+                <TableCell sx={{ color: issue.skipped ? 'error.main' : undefined }}>{issue.skipped ? '読み飛ばし' : '読み込む'}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      <FormControlLabel
+        sx={{ mt: 1 }}
+        control={<Checkbox checked={acknowledged} onChange={(e) => onAcknowledgedChange(e.target.checked)} />}
+        label="上記の内容を確認しました"
+      />
+    </Box>
+  );
+};
+
+export default ImportReportTable;
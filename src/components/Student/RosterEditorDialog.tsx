@@ -0,0 +1,548 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Alert,
+  Avatar,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  IconButton,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import TuneIcon from '@mui/icons-material/Tune';
+import PhotoLibraryIcon from '@mui/icons-material/PhotoLibrary';
+import CloseIcon from '@mui/icons-material/Close';
+import { useAppState } from '../../contexts/AppStateContext';
+import type { Student } from '../../types/Student';
+import type { StudentImportField } from '../../types/Import';
+import type { StudentAttributeDefinition, StudentAttributeSchema } from '../../types/Attribute';
+import type { StudentPhotoDisplay } from '../../types/Photo';
+import { COLUMN_TARGET_LABELS, DEFAULT_IDENTITY_FIELDS, STUDENT_CORE_FIELDS } from '../../constants';
+import { pruneRemovedStudents, reconcileRoster } from '../../utils/roster';
+import { getSeatLabel } from '../../utils/seatLayout';
+import { createUniqueStudentId } from '../../utils/studentId';
+import { loadIdentityFields } from '../../utils/localStorage';
+import { applySchemaToStudents } from '../../utils/studentAttributes';
+import { deleteStudentPhotos, matchPhotoFilesByNumber, resizePhoto, saveStudentPhotos } from '../../utils/photoStore';
+import AttributeSchemaDialog from './AttributeSchemaDialog';
+
+/**
+ * RosterEditorDialog コンポーネントが受け取るPropsの型定義です。
+ */
+interface RosterEditorDialogProps {
+  /**
+   * ダイアログを開くかどうかです。
+   */
+  open: boolean;
+  /**
+   * ダイアログを閉じるときに呼び出されるコールバック関数です。
+   */
+  onClose: () => void;
+}
+
+/**
+ * 編集中の1行分のデータです。追加した行は保存時に生徒IDが決まります。
+ */
+interface DraftRow {
+  key: string;
+  student: Student;
+  isNew: boolean;
+}
+
+/**
+ * 編集中の写真です。null は写真の削除を表します。
+ */
+type DraftPhoto = { blob: Blob; url: string } | null;
+
+const createEmptyStudent = (): Student => ({
+  id: '',
+  number: '',
+  name: '',
+  kana: '',
+  attributes: {},
+  isExcluded: false,
+  isAssigned: false,
+  assignedSeatId: null,
+});
+
+/**
+ * 属性の種類に合わせた入力欄です。
+ */
+const AttributeValueInput: React.FC<{
+  definition: StudentAttributeDefinition;
+  value: string;
+  onChange: (value: string) => void;
+}> = ({ definition, value, onChange }) => {
+  const inputProps = { htmlInput: { 'aria-label': definition.name } };
+  switch (definition.type) {
+    case 'boolean':
+      return (
+        <Checkbox
+          size="small"
+          checked={value === 'true'}
+          onChange={(e) => onChange(e.target.checked ? 'true' : 'false')}
+          slotProps={{ input: { 'aria-label': definition.name } }}
+        />
+      );
+    case 'enum':
+      return (
+        <TextField select variant="standard" size="small" fullWidth value={value} onChange={(e) => onChange(e.target.value)} slotProps={inputProps}>
+          <MenuItem value="">（未設定）</MenuItem>
+          {/* 選択肢から外れた既存の値も表示できるようにする */}
+          {[...definition.options, ...(value && !definition.options.includes(value) ? [value] : [])].map(option => (
+            <MenuItem key={option} value={option}>{option}</MenuItem>
+          ))}
+        </TextField>
+      );
+    default:
+      return (
+        <TextField
+          variant="standard"
+          size="small"
+          fullWidth
+          type={definition.type === 'number' ? 'number' : 'text'}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          slotProps={inputProps}
+        />
+      );
+  }
+};
+
+/**
+ * 名簿を直接編集するダイアログです（氏名・属性などの修正、転入生の追加、転出した生徒の削除）。
+ * 変更は「保存」を押したときにまとめて反映し、削除した生徒の座席と固定座席は解除し、座席の範囲と席替えの条件からも取り除きます。
+ * 席替えから除外した生徒は名簿に残したまま、座席だけを空席に戻します。
+ * 写真も「保存」で IndexedDB に反映します（フォルダからの一括読み込みは出席番号で対応付けます）。
+ */
+const RosterEditorDialog: React.FC<RosterEditorDialogProps> = ({ open, onClose }) => {
+  const {
+    students, setStudents,
+    seatMap, setSeatMap,
+    fixedSeatAssignments, setFixedSeatAssignments,
+    seatZoneAssignments, setSeatZoneAssignments,
+    seatingConstraints, setSeatingConstraints,
+    setRouletteState,
+    attributeSchema, setAttributeSchema,
+    studentPhotos, setStudentPhotos,
+    photoDisplay, setPhotoDisplay,
+  } = useAppState();
+
+  const [rows, setRows] = useState<DraftRow[]>([]);
+  const [newRowCount, setNewRowCount] = useState(0);
+  // 属性の定義も名簿と一緒に「保存」で反映する
+  const [schema, setSchema] = useState<StudentAttributeSchema>([]);
+  const [schemaDialogOpen, setSchemaDialogOpen] = useState(false);
+  // 行のキーをキーとした、変更した写真
+  const [photoDrafts, setPhotoDrafts] = useState<Record<string, DraftPhoto>>({});
+  const [photoDisplayDraft, setPhotoDisplayDraft] = useState<StudentPhotoDisplay>(photoDisplay);
+  const [photoMessage, setPhotoMessage] = useState<{ severity: 'success' | 'warning' | 'error'; text: string } | null>(null);
+  const [photoTargetKey, setPhotoTargetKey] = useState<string | null>(null);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const photoFolderInputRef = useRef<HTMLInputElement | null>(null);
+
+  // 開いたときに現在の名簿から編集内容を作り直す。開いている間に名簿が変わっても（一括割り当ての発表など）、編集中の内容は残す
+  // 座席の割り当ては保存時に reconcileRoster で現在の座席から求め直すため、古いままでよい
+  const wasOpenRef = useRef(false);
+  useEffect(() => {
+    const justOpened = open && !wasOpenRef.current;
+    wasOpenRef.current = open;
+    if (!justOpened) return;
+    setRows(
+      [...students]
+        .sort((a, b) => Number(a.number) - Number(b.number))
+        .map(student => ({ key: student.id, student, isNew: false }))
+    );
+    setSchema(attributeSchema);
+    setPhotoDisplayDraft(photoDisplay);
+    setPhotoDrafts({});
+    setPhotoMessage(null);
+  }, [open, students, attributeSchema, photoDisplay]);
+
+  // 置き換えた写真と、開き直して破棄した写真のURLを解放する
+  const draftPhotoUrlsRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    const currentUrls = new Set(Object.values(photoDrafts).flatMap(draft => (draft ? [draft.url] : [])));
+    draftPhotoUrlsRef.current.forEach(url => {
+      if (!currentUrls.has(url)) URL.revokeObjectURL(url);
+    });
+    draftPhotoUrlsRef.current = currentUrls;
+  }, [photoDrafts]);
+
+  const fixedStudentIds = useMemo(
+    () => new Set(fixedSeatAssignments.map(a => a.studentId)),
+    [fixedSeatAssignments]
+  );
+
+  const duplicateNumbers = useMemo(() => {
+    const counts = new Map<string, number>();
+    rows.forEach(({ student }) => {
+      const number = student.number.trim();
+      if (number) counts.set(number, (counts.get(number) ?? 0) + 1);
+    });
+    return new Set([...counts].filter(([, count]) => count > 1).map(([number]) => number));
+  }, [rows]);
+
+  const hasMissingValues = rows.some(({ student }) => !student.number.trim() || !student.name.trim());
+
+  const handleFieldChange = (key: string, field: StudentImportField, value: string) => {
+    setRows(prev => prev.map(row =>
+      row.key === key ? { ...row, student: { ...row.student, [field]: value } } : row
+    ));
+  };
+
+  const handleAttributeChange = (key: string, attributeId: string, value: string) => {
+    setRows(prev => prev.map(row =>
+      row.key === key
+        ? { ...row, student: { ...row.student, attributes: { ...row.student.attributes, [attributeId]: value } } }
+        : row
+    ));
+  };
+
+  const handleExcludedChange = (key: string, isExcluded: boolean) => {
+    setRows(prev => prev.map(row =>
+      row.key === key ? { ...row, student: { ...row.student, isExcluded } } : row
+    ));
+  };
+
+  const handleSchemaSave = (nextSchema: StudentAttributeSchema) => {
+    setSchema(nextSchema);
+    // 削除した属性の値を取り除き、種類を変えた属性の値を変換する
+    setRows(prev => {
+      const converted = applySchemaToStudents(prev.map(row => row.student), nextSchema);
+      return prev.map((row, i) => ({ ...row, student: converted[i] }));
+    });
+    setSchemaDialogOpen(false);
+  };
+
+  const getPhotoUrl = (row: DraftRow): string | undefined =>
+    row.key in photoDrafts ? photoDrafts[row.key]?.url : studentPhotos[row.student.id];
+
+  const setDraftPhotos = (photos: Record<string, DraftPhoto>) => {
+    setPhotoDrafts(prev => ({ ...prev, ...photos }));
+  };
+
+  const handlePhotoClick = (key: string) => {
+    setPhotoTargetKey(key);
+    photoInputRef.current?.click();
+  };
+
+  const handlePhotoFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !photoTargetKey) return;
+    try {
+      const blob = await resizePhoto(file);
+      setDraftPhotos({ [photoTargetKey]: { blob, url: URL.createObjectURL(blob) } });
+      setPhotoMessage(null);
+    } catch (error) {
+      console.error('写真の読み込み中にエラーが発生しました:', error);
+      setPhotoMessage({ severity: 'error', text: `「${file.name}」を画像として読み込めませんでした。` });
+    }
+  };
+
+  const handlePhotoFolderChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    const { matches, unmatchedFiles } = matchPhotoFilesByNumber(files, rows, row => row.student.number);
+    const photos: Record<string, DraftPhoto> = {};
+    const failedFiles: File[] = [];
+    for (const { target, file } of matches) {
+      try {
+        const blob = await resizePhoto(file);
+        photos[target.key] = { blob, url: URL.createObjectURL(blob) };
+      } catch (error) {
+        console.error('写真の読み込み中にエラーが発生しました:', error);
+        failedFiles.push(file);
+      }
+    }
+    setDraftPhotos(photos);
+
+    const skipped = [...unmatchedFiles, ...failedFiles].map(file => file.name);
+    const loadedCount = Object.keys(photos).length;
+    setPhotoMessage(skipped.length === 0
+      ? { severity: 'success', text: `${loadedCount} 枚の写真を読み込みました。` }
+      : {
+          severity: 'warning',
+          text: `${loadedCount} 枚の写真を読み込みました。出席番号が一致しない、または画像でないため読み込まなかったファイル: ${skipped.join(', ')}`,
+        });
+  };
+
+  const handleAddRow = () => {
+    setRows(prev => [...prev, { key: `new-${newRowCount}`, student: createEmptyStudent(), isNew: true }]);
+    setNewRowCount(prev => prev + 1);
+  };
+
+  const handleDeleteRow = (row: DraftRow) => {
+    const { student } = row;
+    if (!row.isNew) {
+      const notes = [
+        student.assignedSeatId ? `座席 ${getSeatLabel(seatMap, student.assignedSeatId)} は空席に戻ります。` : '',
+        fixedStudentIds.has(student.id) ? '固定座席の設定も解除されます。' : '',
+      ].filter(Boolean).join('\n');
+      const label = `${student.number} ${student.name}`.trim();
+      if (!window.confirm(`「${label}」を名簿から削除しますか？${notes ? `\n${notes}` : ''}`)) return;
+    }
+    setRows(prev => prev.filter(r => r.key !== row.key));
+  };
+
+  /**
+   * 変更した写真を IndexedDB に保存し、名簿から削除した生徒の写真も削除します。
+   * @param idByKey 行のキーと保存後の生徒IDの組
+   * @param editedStudents 保存後の名簿
+   */
+  const savePhotoDrafts = (idByKey: [string, string][], editedStudents: Student[]) => {
+    const remainingIds = new Set(editedStudents.map(s => s.id));
+    const photosToSave: Record<string, Blob> = {};
+    const idsToDelete = Object.keys(studentPhotos).filter(id => !remainingIds.has(id));
+    idByKey.forEach(([key, id]) => {
+      if (!(key in photoDrafts)) return;
+      const draft = photoDrafts[key];
+      if (draft) photosToSave[id] = draft.blob;
+      else idsToDelete.push(id);
+    });
+    if (Object.keys(photosToSave).length === 0 && idsToDelete.length === 0) return;
+
+    Promise.all([saveStudentPhotos(photosToSave), deleteStudentPhotos(idsToDelete)])
+      .catch(error => console.error('写真の保存中にエラーが発生しました:', error));
+    setStudentPhotos(prev => {
+      const next = { ...prev };
+      idsToDelete.forEach(id => { delete next[id]; });
+      Object.entries(photosToSave).forEach(([id, blob]) => { next[id] = URL.createObjectURL(blob); });
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    const identityFields = loadIdentityFields() ?? DEFAULT_IDENTITY_FIELDS;
+    const usedIds = new Set(rows.filter(row => !row.isNew).map(row => row.student.id));
+    const trimmedRows = rows.map(row => ({
+      ...row,
+      student: {
+        ...row.student,
+        ...Object.fromEntries(STUDENT_CORE_FIELDS.map(field => [field, row.student[field].trim()])),
+      },
+    }));
+
+    // 既存の生徒はIDを保ったまま更新し、追加した生徒には名簿の内容から決定的なIDを振る
+    const editedStudents = applySchemaToStudents(trimmedRows.map(({ student, isNew }) => {
+      if (!isNew) return student;
+      const id = createUniqueStudentId(student, identityFields, usedIds);
+      usedIds.add(id);
+      return { ...student, id };
+    }), schema);
+
+    savePhotoDrafts(rows.map((row, i) => [row.key, editedStudents[i].id]), editedStudents);
+
+    const reconciled = reconcileRoster(editedStudents, seatMap, fixedSeatAssignments);
+    setAttributeSchema(schema);
+    setPhotoDisplay(photoDisplayDraft);
+    setStudents(reconciled.students);
+    setSeatMap(reconciled.seatMap);
+    setFixedSeatAssignments(reconciled.fixedSeatAssignments);
+    const pruned = pruneRemovedStudents(reconciled.students, seatZoneAssignments, seatingConstraints);
+    setSeatZoneAssignments(pruned.seatZoneAssignments);
+    setSeatingConstraints(pruned.seatingConstraints);
+    // 削除・除外した生徒は割り当て履歴と次に割り当てる生徒からも外す
+    const studentIds = new Set(reconciled.students.filter(s => !s.isExcluded).map(s => s.id));
+    setRouletteState(prev => ({
+      ...prev,
+      currentAssigningStudent: reconciled.students.find(s => s.id === prev.currentAssigningStudent?.id && studentIds.has(s.id)) ?? null,
+      winningHistory: prev.winningHistory.filter(h => studentIds.has(h.studentId)),
+    }));
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>名簿の編集</DialogTitle>
+      <DialogContent dividers>
+        {hasMissingValues && (
+          <Alert severity="error" sx={{ mb: 2 }}>出席番号と氏名は必須です。</Alert>
+        )}
+        {photoMessage && (
+          <Alert severity={photoMessage.severity} sx={{ mb: 2 }} onClose={() => setPhotoMessage(null)}>
+            {photoMessage.text}
+          </Alert>
+        )}
+        {duplicateNumbers.size > 0 && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            出席番号が重複しています: {[...duplicateNumbers].join(', ')}
+          </Alert>
+        )}
+        <TableContainer sx={{ maxHeight: '60vh' }}>
+          <Table stickyHeader size="small" aria-label="roster editor table">
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ fontWeight: 'bold', width: 72 }}>写真</TableCell>
+                {STUDENT_CORE_FIELDS.map(field => (
+                  <TableCell key={field} sx={{ fontWeight: 'bold', minWidth: field === 'number' ? 80 : 120 }}>
+                    {COLUMN_TARGET_LABELS[field]}
+                  </TableCell>
+                ))}
+                {schema.map(definition => (
+                  <TableCell key={definition.id} sx={{ fontWeight: 'bold', minWidth: definition.type === 'boolean' ? 64 : 100 }}>
+                    {definition.name}
+                  </TableCell>
+                ))}
+                <TableCell sx={{ fontWeight: 'bold', width: 64 }} align="center">
+                  <Tooltip title="長期欠席・留学中などで、今回の席替えで座席を割り当てない生徒">
+                    <span>除外</span>
+                  </Tooltip>
+                </TableCell>
+                <TableCell sx={{ fontWeight: 'bold', width: 120 }}>座席</TableCell>
+                <TableCell sx={{ width: 56 }} />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.key}>
+                  <TableCell>
+                    <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                      <Tooltip title="写真を選択">
+                        <IconButton size="small" onClick={() => handlePhotoClick(row.key)} aria-label="写真を選択" sx={{ p: 0.25 }}>
+                          <Avatar src={getPhotoUrl(row)} alt={row.student.name} sx={{ width: 36, height: 36 }} />
+                        </IconButton>
+                      </Tooltip>
+                      {getPhotoUrl(row) && (
+                        <Tooltip title="写真を削除">
+                          <IconButton size="small" onClick={() => setDraftPhotos({ [row.key]: null })} aria-label="写真を削除">
+                            <CloseIcon fontSize="inherit" />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                    </Box>
+                  </TableCell>
+                  {STUDENT_CORE_FIELDS.map(field => {
+                    const value = row.student[field];
+                    const isRequired = field === 'number' || field === 'name';
+                    const isError = (isRequired && !value.trim())
+                      || (field === 'number' && duplicateNumbers.has(value.trim()));
+                    return (
+                      <TableCell key={field}>
+                        <TextField
+                          variant="standard"
+                          size="small"
+                          fullWidth
+                          value={value}
+                          error={isError}
+                          onChange={(e) => handleFieldChange(row.key, field, e.target.value)}
+                          slotProps={{ htmlInput: { 'aria-label': COLUMN_TARGET_LABELS[field] } }}
+                        />
+                      </TableCell>
+                    );
+                  })}
+                  {schema.map(definition => (
+                    <TableCell key={definition.id}>
+                      <AttributeValueInput
+                        definition={definition}
+                        value={row.student.attributes?.[definition.id] ?? ''}
+                        onChange={(value) => handleAttributeChange(row.key, definition.id, value)}
+                      />
+                    </TableCell>
+                  ))}
+                  <TableCell align="center">
+                    <Checkbox
+                      size="small"
+                      checked={row.student.isExcluded}
+                      onChange={(e) => handleExcludedChange(row.key, e.target.checked)}
+                      slotProps={{ input: { 'aria-label': '席替えから除外' } }}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                      {row.isNew && <Chip size="small" color="success" label="追加" />}
+                      {row.student.assignedSeatId && !row.student.isExcluded && <Chip size="small" label={getSeatLabel(seatMap, row.student.assignedSeatId)} />}
+                      {fixedStudentIds.has(row.student.id) && <Chip size="small" color="secondary" label="固定" />}
+                    </Box>
+                  </TableCell>
+                  <TableCell>
+                    <Tooltip title="削除">
+                      <IconButton size="small" onClick={() => handleDeleteRow(row)} aria-label="削除">
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+        {rows.length === 0 && (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 2, textAlign: 'center' }}>
+            生徒がいません。
+          </Typography>
+        )}
+        <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 1, mt: 2 }}>
+          <Button startIcon={<AddIcon />} onClick={handleAddRow}>
+            生徒を追加
+          </Button>
+          <Tooltip title="ファイル名が出席番号で始まる写真（例: 05.jpg）をまとめて読み込みます">
+            <Button startIcon={<PhotoLibraryIcon />} onClick={() => photoFolderInputRef.current?.click()}>
+              フォルダから写真を読み込む
+            </Button>
+          </Tooltip>
+          <Typography variant="body2" color="text.secondary" sx={{ ml: 'auto' }}>写真を座席に表示:</Typography>
+          <FormControlLabel
+            control={<Checkbox size="small" checked={photoDisplayDraft.showOnProjector} onChange={(e) => setPhotoDisplayDraft(prev => ({ ...prev, showOnProjector: e.target.checked }))} />}
+            label="投影"
+          />
+          <FormControlLabel
+            control={<Checkbox size="small" checked={photoDisplayDraft.showOnPrint} onChange={(e) => setPhotoDisplayDraft(prev => ({ ...prev, showOnPrint: e.target.checked }))} />}
+            label="印刷"
+          />
+        </Box>
+        <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>
+          写真の変更と、削除した生徒の写真は、保存すると元に戻す（Ctrl + Z）では戻りません。名簿と属性の定義は元に戻せます。
+        </Typography>
+        <input ref={photoInputRef} type="file" accept="image/*" hidden onChange={handlePhotoFileChange} />
+        <input
+          ref={(el) => {
+            photoFolderInputRef.current = el;
+            // フォルダ選択用の属性は React の型定義にないため、直接設定する
+            el?.setAttribute('webkitdirectory', '');
+          }}
+          type="file"
+          multiple
+          hidden
+          onChange={handlePhotoFolderChange}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button startIcon={<TuneIcon />} onClick={() => setSchemaDialogOpen(true)} sx={{ mr: 'auto' }}>
+          属性の設定
+        </Button>
+        <Button onClick={onClose}>キャンセル</Button>
+        <Button onClick={handleSave} variant="contained" disabled={hasMissingValues}>
+          保存
+        </Button>
+      </DialogActions>
+      <AttributeSchemaDialog
+        open={schemaDialogOpen}
+        schema={schema}
+        onSave={handleSchemaSave}
+        onClose={() => setSchemaDialogOpen(false)}
+      />
+    </Dialog>
+  );
+};
+
+export default RosterEditorDialog;
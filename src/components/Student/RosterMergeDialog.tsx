@@ -0,0 +1,148 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemText,
+  Typography,
+} from '@mui/material';
+import type { Student } from '../../types/Student';
+import type { StudentAttributeSchema } from '../../types/Attribute';
+import type { RosterDiff, RosterMatch } from '../../utils/roster';
+import { COLUMN_TARGET_LABELS } from '../../constants';
+
+/**
+ * RosterMergeDialog コンポーネントが受け取るPropsの型定義です。
+ */
+interface RosterMergeDialogProps {
+  /**
+   * ダイアログを開くかどうかです。
+   */
+  open: boolean;
+  /**
+   * 現在の名簿と取り込んだ名簿の差分です。
+   */
+  diff: RosterDiff | null;
+  /**
+   * 変更された属性の名前を表示するための、属性の定義です。
+   */
+  attributeSchema: StudentAttributeSchema;
+  /**
+   * 差分を反映する（座席・固定座席を引き継ぐ）ときに呼び出されるコールバック関数です。
+   */
+  onMerge: () => void;
+  /**
+   * 現在の名簿を取り込んだ名簿で置き換えるときに呼び出されるコールバック関数です。
+   */
+  onReplace: () => void;
+  /**
+   * 取り込みを取りやめるときに呼び出されるコールバック関数です。
+   */
+  onCancel: () => void;
+}
+
+const formatStudent = (student: Student) => `${student.number} ${student.name}`;
+
+const formatChanges = (match: RosterMatch, schema: StudentAttributeSchema) =>
+  match.changes
+    .map(change => {
+      const label = change.field === 'attributes'
+        ? schema.find(def => def.id === change.attributeId)?.name ?? change.attributeId
+        : COLUMN_TARGET_LABELS[change.field];
+      return `${label}: ${change.before || '（空）'} → ${change.after || '（空）'}`;
+    })
+    .join(' / ');
+
+/**
+ * 差分の1区分（追加・削除など）を見出し付きで表示します。
+ */
+const DiffSection: React.FC<{
+  title: string;
+  color: 'success' | 'error' | 'warning' | 'info';
+  items: { key: string; primary: string; secondary?: string }[];
+}> = ({ title, color, items }) => {
+  if (items.length === 0) return null;
+  return (
+    <Box sx={{ mb: 2 }}>
+      <Chip size="small" color={color} label={`${title} ${items.length} 名`} sx={{ mb: 0.5 }} />
+      <List dense disablePadding sx={{ maxHeight: 160, overflowY: 'auto', border: '1px solid #eee', borderRadius: 1 }}>
+        {items.map(item => (
+          <ListItem key={item.key}>
+            <ListItemText primary={item.primary} secondary={item.secondary} />
+          </ListItem>
+        ))}
+      </List>
+    </Box>
+  );
+};
+
+/**
+ * 名簿の再読み込み時に、現在の名簿との差分を表示して反映方法を確認するダイアログです。
+ */
+const RosterMergeDialog: React.FC<RosterMergeDialogProps> = ({
+  open,
+  diff,
+  attributeSchema,
+  onMerge,
+  onReplace,
+  onCancel,
+}) => {
+  const hasChanges = !!diff && (diff.added.length + diff.removed.length + diff.renamed.length + diff.changed.length) > 0;
+
+  return (
+    <Dialog open={open} onClose={onCancel} maxWidth="sm" fullWidth>
+      <DialogTitle>名簿の変更内容の確認</DialogTitle>
+      <DialogContent dividers>
+        {diff && (
+          <>
+            <Typography variant="body2" sx={{ mb: 2 }}>
+              「差分を反映」では、変更のない生徒と出席番号で対応付けられた生徒の座席・固定座席を引き継ぎます。
+              削除された生徒の座席は空席に戻ります。
+            </Typography>
+            {!hasChanges && (
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                現在の名簿との違いはありません。
+              </Typography>
+            )}
+            <DiffSection
+              title="追加"
+              color="success"
+              items={diff.added.map(s => ({ key: s.id, primary: formatStudent(s) }))}
+            />
+            <DiffSection
+              title="削除"
+              color="error"
+              items={diff.removed.map(s => ({ key: s.id, primary: formatStudent(s) }))}
+            />
+            <DiffSection
+              title="氏名の変更"
+              color="warning"
+              items={diff.renamed.map(m => ({ key: m.current.id, primary: `${formatStudent(m.current)} → ${m.incoming.name}`, secondary: formatChanges(m, attributeSchema) }))}
+            />
+            <DiffSection
+              title="情報の変更"
+              color="info"
+              items={diff.changed.map(m => ({ key: m.current.id, primary: formatStudent(m.current), secondary: formatChanges(m, attributeSchema) }))}
+            />
+            <Typography variant="body2" color="text.secondary">
+              変更なし: {diff.unchanged.length} 名
+            </Typography>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel}>キャンセル</Button>
+        <Button onClick={onReplace} color="error">名簿を置き換える</Button>
+        <Button onClick={onMerge} variant="contained">差分を反映</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RosterMergeDialog;
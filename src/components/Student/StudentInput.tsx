@@ -1,34 +1,140 @@
-import React, { useState, useCallback } from 'react';
-import { Button, TextField, Box, Typography, Paper, Grid, Alert, AlertTitle, Chip } from '@mui/material';
+import React, { useState, useCallback, useMemo, useRef } from 'react';
+import { Button, TextField, Box, Typography, Paper, Grid, Alert, AlertTitle, Chip, MenuItem, FormGroup, FormControlLabel, Checkbox } from '@mui/material';
 import type { Student } from '../../types/Student';
-import { parseStudentData } from '../../utils/csvParser';
+import type { StudentAttributeSchema } from '../../types/Attribute';
+import type { AttributeColumnTarget, ColumnMapping, ImportIssue, SourceTable, StudentIdentityField, StudentImportField, StudentImportResult, TextEncodingName } from '../../types/Import';
+import { canKeepColumnMapping, getTargetAttributeId, parseCsvRows, resolveColumnMapping, resolveImportAttributes, tableToStudents, validateColumnMapping } from '../../utils/csvParser';
+import { detectEncoding, decodeBytes, countReplacementChars } from '../../utils/encoding';
+import type { EncodingDetectionResult } from '../../utils/encoding';
+import { isWorkbookFileName, readWorkbook, sheetToRows } from '../../utils/workbookParser';
+import type { WorkBook } from 'xlsx';
+import { loadColumnMapping, saveColumnMapping, loadIdentityFields, saveIdentityFields } from '../../utils/localStorage';
+import { sortIdentityFields } from '../../utils/studentId';
 import StudentList from './StudentList';
-import { CSV_DELIMITERS } from '../../constants';
+import ColumnMappingEditor from './ColumnMappingEditor';
+import ImportReportTable from './ImportReportTable';
+import WorkbookSheetSelector from './WorkbookSheetSelector';
+import { CSV_DELIMITERS, TEXT_ENCODING_LABELS, WORKBOOK_FILE_EXTENSIONS, COLUMN_TARGET_LABELS, DEFAULT_IDENTITY_FIELDS, STUDENT_CORE_FIELDS } from '../../constants';
+import { useAppState } from '../../contexts/AppStateContext';
 
 interface StudentInputProps {
-  onStudentsLoaded: (students: Student[]) => void;
+  // 新しい属性として読み込んだ列がある場合は、それを追加した属性の定義も一緒に渡す
+  onStudentsLoaded: (students: Student[], attributeSchema: StudentAttributeSchema) => void;
 }
 
 const COLUMN_GUIDE = [
   { label: '出席番号', required: true },
   { label: '氏名', required: true },
   { label: 'ふりがな', required: false },
-  { label: '情報1', required: false },
-  { label: '情報2', required: false },
-  { label: '情報3', required: false },
+  { label: '属性（性別・身長など。何列でも可）', required: false },
 ] as const;
 
 const SAMPLE_CSV_ROWS = [
-  '1,山田太郎,やまだたろう,男性,A組,',
-  '2,鈴木花子,すずきはなこ,女性,B組,',
-  '3,佐藤次郎,さとうじろう,,C組,',
+  '出席番号,氏名,ふりがな,性別,出身校',
+  '1,山田太郎,やまだたろう,男性,A小学校',
+  '2,鈴木花子,すずきはなこ,女性,B小学校',
+  '3,佐藤次郎,さとうじろう,,C小学校',
 ].join('\n');
 
+const EMPTY_TABLE: SourceTable = { rows: [], lineNumbers: [], issues: [] };
+
 const StudentInput: React.FC<StudentInputProps> = ({ onStudentsLoaded }) => {
+  const { attributeSchema } = useAppState();
   const [file, setFile] = useState<File | null>(null);
   const [inputText, setInputText] = useState('');
-  const [parsedStudentsPreview, setParsedStudentsPreview] = useState<Student[]>([]);
+  const [sourceTable, setSourceTable] = useState<SourceTable>(EMPTY_TABLE);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping | null>(null);
+  // 生徒IDの作成に使う項目。読み込み直しても同じ生徒に同じIDが付くよう、前回の設定を引き継ぐ
+  const [identityFields, setIdentityFields] = useState<StudentIdentityField[]>(() => loadIdentityFields() ?? DEFAULT_IDENTITY_FIELDS);
   const [error, setError] = useState<string | null>(null);
+  // ファイル取り込み時の元のバイト列と文字コード（プレビューで文字コードを切り替えて再変換するために保持する）
+  const [fileBytes, setFileBytes] = useState<Uint8Array | null>(null);
+  const [fileEncoding, setFileEncoding] = useState<TextEncodingName>('utf-8');
+  const [detectedEncoding, setDetectedEncoding] = useState<EncodingDetectionResult | null>(null);
+  const [replacementCharCount, setReplacementCharCount] = useState(0);
+  // ワークブック（.xlsx / .ods など）取り込み時のシートとセル範囲
+  const [workbook, setWorkbook] = useState<WorkBook | null>(null);
+  const [sheetName, setSheetName] = useState('');
+  const [sheetRange, setSheetRange] = useState('');
+
+  // 直前に適用した表の行。文字コードとシートを続けて切り替えた場合も、描画を待たずに直前の表と比べられるよう ref に持つ
+  const sourceRowsRef = useRef<string[][]>(EMPTY_TABLE.rows);
+
+  // 表データを受け取り、前回の割り当て（あれば）を適用してプレビュー状態を更新する
+  // 見出し行が変わらない間（貼り付けたテキストの編集など）は、画面で変更した割り当てを残す
+  const applyTable = useCallback((table: SourceTable) => {
+    const previousRows = sourceRowsRef.current;
+    sourceRowsRef.current = table.rows;
+    setSourceTable(table);
+    setColumnMapping(prev => {
+      if (table.rows.length === 0) return null;
+      if (prev && canKeepColumnMapping(prev, previousRows, table.rows)) return prev;
+      return resolveColumnMapping(table.rows, loadColumnMapping(), attributeSchema);
+    });
+  }, [attributeSchema]);
+
+  const mappingError = useMemo(
+    () => (columnMapping ? validateColumnMapping(columnMapping, attributeSchema) : null),
+    [columnMapping, attributeSchema]
+  );
+
+  const identityFieldsError = identityFields.length === 0 ? '生徒を識別する項目を1つ以上選択してください。' : null;
+
+  // 「新しい属性として追加」の列を属性の定義に置き換えた割り当てと、追加後の属性の定義
+  const resolvedImport = useMemo(
+    () => (columnMapping ? resolveImportAttributes(columnMapping, attributeSchema) : null),
+    [columnMapping, attributeSchema]
+  );
+
+  // 生徒を識別する項目の候補（基本項目と、取り込む属性の列）。選択済みで今回の列にない項目も、選択を外せるよう表示する
+  const identityOptions = useMemo(() => {
+    if (!resolvedImport) return [];
+    const mappedTargets = resolvedImport.mapping.columns;
+    const attributeFields = mappedTargets.filter((target): target is AttributeColumnTarget => getTargetAttributeId(target) !== null);
+    const fields = sortIdentityFields(Array.from(new Set<StudentIdentityField>([...STUDENT_CORE_FIELDS, ...attributeFields, ...identityFields])));
+    return fields.map(field => {
+      const attributeId = getTargetAttributeId(field);
+      const label = attributeId
+        ? resolvedImport.schema.find(def => def.id === attributeId)?.name ?? '（削除された属性）'
+        : COLUMN_TARGET_LABELS[field as StudentImportField];
+      return { field, label, isMapped: mappedTargets.includes(field) };
+    });
+  }, [resolvedImport, identityFields]);
+
+  const importResult = useMemo<StudentImportResult>(() => {
+    if (!resolvedImport || mappingError || identityFields.length === 0) return { students: [], issues: [] };
+    return tableToStudents(sourceTable, resolvedImport.mapping, identityFields, resolvedImport.schema);
+  }, [sourceTable, resolvedImport, mappingError, identityFields]);
+  const parsedStudentsPreview = importResult.students;
+
+  // 問題の一覧が変わったら、確認済みの状態をリセットする
+  const [acknowledgedIssues, setAcknowledgedIssues] = useState<ImportIssue[] | null>(null);
+  const issuesAcknowledged = importResult.issues.length === 0 || acknowledgedIssues === importResult.issues;
+
+  // ファイルのバイト列を指定の文字コードで変換し、行データとして取り込む
+  const decodeAndApply = useCallback((bytes: Uint8Array, encoding: TextEncodingName) => {
+    try {
+      const text = decodeBytes(bytes, encoding);
+      setReplacementCharCount(countReplacementChars(text));
+      applyTable(parseCsvRows(text, CSV_DELIMITERS));
+    } catch {
+      setError('ファイルのパースに失敗しました。形式や文字コードを確認してください。');
+      setReplacementCharCount(0);
+      applyTable(EMPTY_TABLE);
+    }
+  }, [applyTable]);
+
+  // ワークブックの指定シート・範囲を行データとして取り込む
+  const applySheet = useCallback((book: WorkBook, name: string, range: string) => {
+    setSheetName(name);
+    setSheetRange(range);
+    try {
+      applyTable(sheetToRows(book, name, range || undefined));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'シートの読み込みに失敗しました。');
+      applyTable(EMPTY_TABLE);
+    }
+  }, [applyTable]);
 
   const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = event.target.files?.[0];
@@ -37,44 +143,95 @@ const StudentInput: React.FC<StudentInputProps> = ({ onStudentsLoaded }) => {
       setError(null);
       const reader = new FileReader();
       reader.onload = (e) => {
-        const text = e.target?.result as string;
-        try {
-          setParsedStudentsPreview(parseStudentData(text, CSV_DELIMITERS));
-        } catch {
-          setError('ファイルのパースに失敗しました。形式を確認してください。');
-          setParsedStudentsPreview([]);
+        const buffer = e.target?.result as ArrayBuffer;
+        if (isWorkbookFileName(selectedFile.name)) {
+          setFileBytes(null);
+          setDetectedEncoding(null);
+          setReplacementCharCount(0);
+          try {
+            const book = readWorkbook(buffer);
+            setWorkbook(book);
+            applySheet(book, book.SheetNames[0] ?? '', '');
+          } catch {
+            setError('ワークブックの読み込みに失敗しました。形式を確認してください。');
+            setWorkbook(null);
+            applyTable(EMPTY_TABLE);
+          }
+          return;
         }
+        const bytes = new Uint8Array(buffer);
+        const detection = detectEncoding(bytes);
+        setWorkbook(null);
+        setFileBytes(bytes);
+        setDetectedEncoding(detection);
+        setFileEncoding(detection.encoding);
+        decodeAndApply(bytes, detection.encoding);
       };
       reader.onerror = () => {
         setError('ファイルの読み込みに失敗しました。');
-        setParsedStudentsPreview([]);
+        setFileBytes(null);
+        setWorkbook(null);
+        applyTable(EMPTY_TABLE);
       };
-      reader.readAsText(selectedFile);
+      reader.readAsArrayBuffer(selectedFile);
     } else {
       setFile(null);
-      setParsedStudentsPreview([]);
+      setFileBytes(null);
+      setDetectedEncoding(null);
+      setWorkbook(null);
+      applyTable(EMPTY_TABLE);
       setError(null);
     }
-  }, []);
+  }, [applyTable, applySheet, decodeAndApply]);
+
+  const handleSheetChange = useCallback((name: string, range: string) => {
+    if (!workbook) return;
+    setError(null);
+    applySheet(workbook, name, range);
+  }, [workbook, applySheet]);
+
+  const handleEncodingChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const encoding = event.target.value as TextEncodingName;
+    setFileEncoding(encoding);
+    setError(null);
+    if (fileBytes) decodeAndApply(fileBytes, encoding);
+  }, [fileBytes, decodeAndApply]);
 
   const handleInputChange = useCallback((event: React.ChangeEvent<HTMLTextAreaElement>) => {
     const text = event.target.value;
     setInputText(text);
     setError(null);
+    setFileBytes(null);
+    setWorkbook(null);
+    setReplacementCharCount(0);
     try {
-      setParsedStudentsPreview(parseStudentData(text, CSV_DELIMITERS));
+      applyTable(parseCsvRows(text, CSV_DELIMITERS));
     } catch {
-      setParsedStudentsPreview([]);
+      applyTable(EMPTY_TABLE);
     }
-  }, []);
+  }, [applyTable]);
 
   const handleLoadStudents = useCallback(() => {
     if (parsedStudentsPreview.length === 0) {
       setError('読み込む生徒情報がありません。');
       return;
     }
-    onStudentsLoaded(parsedStudentsPreview);
-  }, [parsedStudentsPreview, onStudentsLoaded]);
+    if (!issuesAcknowledged) {
+      setError('取り込み時の問題の一覧を確認してください。');
+      return;
+    }
+    if (resolvedImport) saveColumnMapping(resolvedImport.mapping);
+    saveIdentityFields(identityFields);
+    onStudentsLoaded(parsedStudentsPreview, resolvedImport?.schema ?? attributeSchema);
+  }, [parsedStudentsPreview, issuesAcknowledged, resolvedImport, identityFields, attributeSchema, onStudentsLoaded]);
+
+  const handleIdentityFieldToggle = useCallback((field: StudentIdentityField, checked: boolean) => {
+    setIdentityFields(prev => {
+      const next = checked ? [...prev, field] : prev.filter(f => f !== field);
+      // 表示順に関わらず、IDの作成に使う順序は常に固定にする
+      return sortIdentityFields(next);
+    });
+  }, []);
 
   const handleDownloadSample = useCallback(() => {
     const blob = new Blob([SAMPLE_CSV_ROWS], { type: 'text/csv;charset=utf-8;' });
@@ -95,7 +252,7 @@ const StudentInput: React.FC<StudentInputProps> = ({ onStudentsLoaded }) => {
       <Alert severity="info" sx={{ mb: 3 }}>
         <AlertTitle>入力形式</AlertTitle>
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap', mb: 1 }}>
-          <Typography variant="body2">列順（左から）：</Typography>
+          <Typography variant="body2">既定の列順（左から）：</Typography>
           {COLUMN_GUIDE.map((col, i) => (
             <Chip
               key={i}
@@ -106,7 +263,7 @@ const StudentInput: React.FC<StudentInputProps> = ({ onStudentsLoaded }) => {
           ))}
         </Box>
         <Typography variant="body2" sx={{ mb: 1 }}>
-          区切りはカンマ（,）・タブ・スペースなどを自動判別。ヘッダー行は不要です。
+          Excel（.xlsx / .xls）・OpenDocument（.ods）のファイルも読み込めます。区切りはカンマ（,）・タブ・スペースなどを自動判別。見出し行があれば自動で判別し、列の割り当ては読み込み後に変更できます。ふりがなより右の列は、見出しを名前とする属性として読み込みます。
         </Typography>
         <Button size="small" variant="outlined" onClick={handleDownloadSample}>
           サンプルCSVをダウンロード
@@ -116,11 +273,11 @@ const StudentInput: React.FC<StudentInputProps> = ({ onStudentsLoaded }) => {
       <Grid container spacing={2} sx={{ mb: 3 }}>
         <Grid size={4} sx={{ display: 'flex', flexDirection: 'column' }}>
           <Paper elevation={3} sx={{ p: 2, mb: 3, flexGrow: 1 }}>
-            <Typography variant="h6" sx={{ mb: 2 }}>CSVファイルをアップロード</Typography>
+            <Typography variant="h6" sx={{ mb: 2 }}>ファイルをアップロード</Typography>
             <Box sx={{ display: 'flex', alignItems: 'center' }}>
               <input
                 type="file"
-                accept=".csv, .txt"
+                accept={[".csv", ".txt", ...WORKBOOK_FILE_EXTENSIONS].join(", ")}
                 style={{ display: 'none' }}
                 id="csv-file-upload"
                 onChange={handleFileChange}
@@ -136,6 +293,38 @@ const StudentInput: React.FC<StudentInputProps> = ({ onStudentsLoaded }) => {
                 </Typography>
               )}
             </Box>
+            {workbook && (
+              <Box sx={{ mt: 2 }}>
+                <WorkbookSheetSelector
+                  sheetNames={workbook.SheetNames}
+                  sheetName={sheetName}
+                  range={sheetRange}
+                  onChange={handleSheetChange}
+                />
+              </Box>
+            )}
+            {fileBytes && (
+              <Box sx={{ mt: 2 }}>
+                <TextField
+                  select
+                  size="small"
+                  fullWidth
+                  label="文字コード"
+                  value={fileEncoding}
+                  onChange={handleEncodingChange}
+                  helperText={detectedEncoding ? `自動判別: ${TEXT_ENCODING_LABELS[detectedEncoding.encoding]}（${detectedEncoding.reason}）` : ' '}
+                >
+                  {(Object.keys(TEXT_ENCODING_LABELS) as TextEncodingName[]).map(encoding => (
+                    <MenuItem key={encoding} value={encoding}>{TEXT_ENCODING_LABELS[encoding]}</MenuItem>
+                  ))}
+                </TextField>
+                {replacementCharCount > 0 && (
+                  <Alert severity="warning" sx={{ mt: 1 }}>
+                    変換できない文字が {replacementCharCount} 個あります。プレビューで文字化けしている場合は文字コードを変更してください。
+                  </Alert>
+                )}
+              </Box>
+            )}
           </Paper>
         </Grid>
         <Grid size={8} sx={{ display: 'flex', flexDirection: 'column' }}>
@@ -148,16 +337,64 @@ const StudentInput: React.FC<StudentInputProps> = ({ onStudentsLoaded }) => {
               fullWidth
               value={inputText}
               onChange={handleInputChange}
-              placeholder={`例:\n1,山田太郎,やまだたろう,男性,A組,\n2,鈴木花子,すずきはなこ,女性,B組,`}
+              placeholder={`例:\n出席番号,氏名,ふりがな,性別\n1,山田太郎,やまだたろう,男性\n2,鈴木花子,すずきはなこ,女性`}
             />
           </Paper>
         </Grid>
       </Grid>
 
+      {columnMapping && (
+        <Paper elevation={3} sx={{ p: 2, mb: 3 }}>
+          <Typography variant="h6" sx={{ mb: 1 }}>列の割り当て</Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            各列をどの項目として読み込むか選択してください。割り当ては次回の取り込み時にも引き継がれます。
+          </Typography>
+          <ColumnMappingEditor rows={sourceTable.rows} mapping={columnMapping} onChange={setColumnMapping} attributeSchema={attributeSchema} />
+          {mappingError && (
+            <Alert severity="warning" sx={{ mt: 2 }}>{mappingError}</Alert>
+          )}
+
+          <Typography variant="subtitle2" sx={{ mt: 2 }}>生徒を識別する項目</Typography>
+          <Typography variant="body2" color="text.secondary">
+            選択した項目の値が同じ生徒は、名簿を読み込み直しても同じ生徒として扱われ、固定座席などの設定が引き継がれます。組・学籍番号などの属性の列も選べます。
+          </Typography>
+          <FormGroup row>
+            {identityOptions.map(({ field, label, isMapped }) => (
+              <FormControlLabel
+                key={field}
+                control={
+                  <Checkbox
+                    size="small"
+                    checked={identityFields.includes(field)}
+                    onChange={(e) => handleIdentityFieldToggle(field, e.target.checked)}
+                  />
+                }
+                label={label}
+                disabled={!isMapped && !identityFields.includes(field)}
+              />
+            ))}
+          </FormGroup>
+          {identityFieldsError && (
+            <Alert severity="warning" sx={{ mt: 1 }}>{identityFieldsError}</Alert>
+          )}
+        </Paper>
+      )}
+
+      {importResult.issues.length > 0 && (
+        <Paper elevation={3} sx={{ p: 2, mb: 3 }}>
+          <Typography variant="h6" sx={{ mb: 1 }}>取り込み時の問題</Typography>
+          <ImportReportTable
+            issues={importResult.issues}
+            acknowledged={issuesAcknowledged}
+            onAcknowledgedChange={(checked) => setAcknowledgedIssues(checked ? importResult.issues : null)}
+          />
+        </Paper>
+      )}
+
       {parsedStudentsPreview.length > 0 && (
         <Paper elevation={3} sx={{ p: 2, mb: 3 }}>
           <Typography variant="h6" sx={{ mb: 2 }}>読み込みプレビュー ({parsedStudentsPreview.length}名)</Typography>
-          <StudentList students={parsedStudentsPreview} />
+          <StudentList students={parsedStudentsPreview} attributeSchema={resolvedImport?.schema} />
         </Paper>
       )}
 
@@ -172,7 +409,7 @@ const StudentInput: React.FC<StudentInputProps> = ({ onStudentsLoaded }) => {
           variant="contained"
           size="large"
           onClick={handleLoadStudents}
-          disabled={parsedStudentsPreview.length === 0}
+          disabled={parsedStudentsPreview.length === 0 || !issuesAcknowledged}
         >
           生徒情報を読み込む ({parsedStudentsPreview.length}名)
         </Button>
@@ -11,6 +11,8 @@ import {
 } from '@mui/material';
 import type { SxProps, Theme } from '@mui/material/styles';
 import type { Student } from '../../types/Student';
+import type { StudentAttributeSchema } from '../../types/Attribute';
+import { formatAttributeValue } from '../../utils/studentAttributes';
 
 /**
  * StudentList コンポーネントが受け取るPropsの型定義です。
@@ -53,6 +55,11 @@ interface StudentListProps {
    * 'default' の場合は名前、番号、ふりがな、その他の情報を表示します。
    */
   type?: 'minimal' | 'default';
+
+  /**
+   * 'default' の場合に表示する属性の定義です。
+   */
+  attributeSchema?: StudentAttributeSchema;
 }
 
 /**
@@ -67,6 +74,7 @@ const StudentList: React.FC<StudentListProps> = ({
   maxHeight,
   sx,
   type = 'default', // デフォルトは 'default' タイプ
+  attributeSchema = [],
 }) => {
   // 生徒リストを番号順にソート (常にソートされた状態で表示)
   const sortedStudents = useMemo(() => {
@@ -121,15 +129,12 @@ const StudentList: React.FC<StudentListProps> = ({
                 {type === 'default' && student.kana &&
                   <ListItemText secondary={`(${student.kana})`} sx={{ ml: 2, color: 'text.secondary' }} />
                 }
-                {type === 'default' && student.info1 &&
-                  <ListItemText secondary={`(${student.info1})`} sx={{ ml: 2, color: 'text.secondary' }} />
-                }
-                {type === 'default' && student.info2 &&
-                  <ListItemText secondary={`(${student.info2})`} sx={{ ml: 2, color: 'text.secondary' }} />
-                }
-                {type === 'default' && student.info3 &&
-                  <ListItemText secondary={`(${student.info3})`} sx={{ ml: 2, color: 'text.secondary' }} />
-                }
+                {type === 'default' && attributeSchema.map(def => {
+                  const value = formatAttributeValue(def, student.attributes?.[def.id]);
+                  return value
+                    ? <ListItemText key={def.id} secondary={`(${def.name}: ${value})`} sx={{ ml: 2, color: 'text.secondary' }} />
+                    : null;
+                })}
               </>
             );
             return onStudentClick ? (
@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { Box, Button, MenuItem, TextField } from '@mui/material';
+import { isValidCellRange } from '../../utils/workbookParser';
+
+/**
+ * WorkbookSheetSelector コンポーネントが受け取るPropsの型定義です。
+ */
+interface WorkbookSheetSelectorProps {
+  /**
+   * ワークブックに含まれるシート名の一覧です。
+   */
+  sheetNames: string[];
+  /**
+   * 現在選択されているシート名です。
+   */
+  sheetName: string;
+  /**
+   * 現在適用されているセル範囲です（例: "A1:F41"）。
+   */
+  range: string;
+  /**
+   * シートまたはセル範囲が変更されたときに呼び出されるコールバック関数です。
+   * シートを切り替えた場合、range は空文字列（シート全体）で呼び出されます。
+   */
+  onChange: (sheetName: string, range: string) => void;
+}
+
+/**
+ * ワークブックから読み込むシートとセル範囲を選択するコンポーネントです。
+ */
+const WorkbookSheetSelector: React.FC<WorkbookSheetSelectorProps> = ({
+  sheetNames,
+  sheetName,
+  range,
+  onChange,
+}) => {
+  // 入力途中の範囲は「範囲を適用」を押すまで親に伝えない
+  const [rangeInput, setRangeInput] = useState(range);
+
+  useEffect(() => {
+    setRangeInput(range);
+  }, [range]);
+
+  const isRangeValid = rangeInput.trim() === '' || isValidCellRange(rangeInput);
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+      <TextField
+        select
+        size="small"
+        fullWidth
+        label="シート"
+        value={sheetName}
+        onChange={(e) => onChange(e.target.value, '')}
+      >
+        {sheetNames.map(name => (
+          <MenuItem key={name} value={name}>{name}</MenuItem>
+        ))}
+      </TextField>
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start' }}>
+        <TextField
+          size="small"
+          fullWidth
+          label="セル範囲"
+          placeholder="A1:F41"
+          value={rangeInput}
+          onChange={(e) => setRangeInput(e.target.value)}
+          error={!isRangeValid}
+          helperText={isRangeValid ? '空欄の場合はシート全体' : '例: A1:F41'}
+        />
+        <Button
+          variant="outlined"
+          onClick={() => onChange(sheetName, rangeInput.trim())}
+          disabled={!isRangeValid || rangeInput.trim() === range}
+          sx={{ whiteSpace: 'nowrap' }}
+        >
+          範囲を適用
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+export default WorkbookSheetSelector;
@@ -3,10 +3,28 @@ import type { AppPhase } from '../contexts/AppStateContext';
 import GroupIcon from '@mui/icons-material/Group';
 import ChairAltIcon from '@mui/icons-material/ChairAlt';
 import ManageAccountsIcon from '@mui/icons-material/ManageAccounts';
+import RuleIcon from '@mui/icons-material/Rule';
 import ShuffleIcon from '@mui/icons-material/Shuffle';
 import AppsIcon from '@mui/icons-material/Apps';
 import CheckCircleOutlineIcon from '@mui/icons-material/CheckCircleOutline';
 import type { SvgIconProps } from '@mui/material';
+import type { ImportIssueKind, StudentIdentityField, StudentImportField, TextEncodingName } from '../types/Import';
+import type { StudentAttributeType } from '../types/Attribute';
+import type { StudentPhotoDisplay } from '../types/Photo';
+import type { BuiltInSeatTagId, SeatUsablePattern, SeatZoneKind } from '../types/Seat';
+import type { RoomFeatureType } from '../types/RoomFeature';
+import type { ChartOrientation } from '../types/ChartOrientation';
+import type { AttributeRuleKind, KeepApartRule, KeepTogetherRule, SeatingConstraintKind } from '../types/Constraint';
+import VerticalAlignTopIcon from '@mui/icons-material/VerticalAlignTop';
+import WindowIcon from '@mui/icons-material/Window';
+import DirectionsWalkIcon from '@mui/icons-material/DirectionsWalk';
+import MeetingRoomIcon from '@mui/icons-material/MeetingRoom';
+import LocalOfferIcon from '@mui/icons-material/LocalOffer';
+import CoPresentIcon from '@mui/icons-material/CoPresent';
+import DeskIcon from '@mui/icons-material/Desk';
+import DoorFrontIcon from '@mui/icons-material/DoorFront';
+import ViewColumnIcon from '@mui/icons-material/ViewColumn';
+import Inventory2Icon from '@mui/icons-material/Inventory2';
 
 
 // =============================================================================
@@ -22,6 +40,7 @@ export const AppPhaseConstants: Record<AppPhase, AppPhase> = {
   input: 'input',
   config: 'config',
   fixedSeat: 'fixedSeat',
+  constraints: 'constraints',
   roulette: 'roulette',
   chart: 'chart',
   finished: 'finished',
@@ -35,6 +54,7 @@ export const AppPhaseTitles: Record<any, string> = {
   [AppPhaseConstants.input]: '生徒情報の取り込み',
   [AppPhaseConstants.config]: '座席レイアウトを設定',
   [AppPhaseConstants.fixedSeat]: '固定座席割り当てを設定',
+  [AppPhaseConstants.constraints]: '席替えの条件を設定',
   [AppPhaseConstants.roulette]: 'ルーレット',
   [AppPhaseConstants.chart]: '座席表を確認・出力',
   [AppPhaseConstants.finished]: '完了',
@@ -44,6 +64,7 @@ export const AppPhaseIcons: Record<any, React.ComponentType<SvgIconProps>> = {
   [AppPhaseConstants.input]: GroupIcon,
   [AppPhaseConstants.config]: ChairAltIcon,
   [AppPhaseConstants.fixedSeat]: ManageAccountsIcon,
+  [AppPhaseConstants.constraints]: RuleIcon,
   [AppPhaseConstants.roulette]: ShuffleIcon,
   [AppPhaseConstants.chart]: AppsIcon,
   [AppPhaseConstants.finished]: CheckCircleOutlineIcon,
@@ -64,9 +85,129 @@ export const DEFAULT_SEAT_ROWS = 6;
  */
 export const DEFAULT_SEAT_COLS = 7;
 /**
- * 座席表のデフォルトの列数です。
+ * 座席の最大数です。学年集会や試験会場のような大きな会場も扱えるようにしています。
+ */
+export const MAX_SEATS = 400;
+
+/**
+ * 座席レイアウト上の1席分の幅（px）です。座席の位置（x, y）もこの単位で表します。
+ */
+export const SEAT_LAYOUT_WIDTH = 110;
+
+/**
+ * 座席レイアウト上の1席分の高さ（px）です。
+ */
+export const SEAT_LAYOUT_HEIGHT = 80;
+
+/**
+ * 格子状のテンプレートで並べるときの座席どうしの間隔（px）です。
+ */
+export const SEAT_LAYOUT_GAP = 10;
+
+/**
+ * 座席レイアウトの編集で、位置を揃える格子の間隔（px）です。
+ */
+export const SEAT_LAYOUT_SNAP_SIZE = 10;
+
+/**
+ * 元に戻せる編集の数です。これより古い編集は元に戻せません。
+ */
+export const EDIT_HISTORY_LIMIT = 50;
+
+/**
+ * 編集を元に戻す・やり直すの対象にするフェーズです。ほかのフェーズで状態が変わると（ルーレットでの割り当てなど）、履歴を捨てます。
+ */
+export const EDIT_HISTORY_PHASES: AppPhase[] = ['config', 'fixedSeat', 'constraints', 'chart'];
+
+/**
+ * 座席表を拡大・縮小できる範囲（倍率）です。
+ */
+export const SEAT_MAP_MIN_ZOOM = 0.25;
+export const SEAT_MAP_MAX_ZOOM = 2;
+
+/**
+ * 拡大・縮小のボタンを1回押したときに倍率を何倍にするかです。
+ */
+export const SEAT_MAP_ZOOM_STEP = 1.25;
+
+/**
+ * 座席がこの数を超える座席表では、画面に見えている範囲の座席だけを描画します。
+ */
+export const SEAT_VIRTUALIZATION_THRESHOLD = 120;
+
+/**
+ * 班を塗り分ける色の候補です。班を作るたびに順番に割り当てます。
+ */
+export const SEAT_GROUP_COLORS = [
+  '#e57373', '#64b5f6', '#81c784', '#ffb74d', '#ba68c8',
+  '#4db6ac', '#f06292', '#a1887f', '#7986cb', '#aed581',
+];
+
+/**
+ * 班を自動で作るときの、1つの班にまとめる座席のブロックの大きさ（行数 × 列数）の候補です。
+ */
+export const SEAT_GROUP_BLOCK_SIZES: { label: string; rows: number; cols: number }[] = [
+  { label: '2 × 2（4人）', rows: 2, cols: 2 },
+  { label: '2 × 3（6人）', rows: 2, cols: 3 },
+  { label: '3 × 2（6人）', rows: 3, cols: 2 },
+  { label: '1 × 2（2人）', rows: 1, cols: 2 },
+];
+
+/**
+ * 座席の使用可否をまとめて設定する並べ方ごとの表示名と説明です。
+ */
+export const SEAT_USABLE_PATTERNS: Record<SeatUsablePattern, { label: string; description: string }> = {
+  everyOther: { label: '一席おき', description: '各行で1席おきに空け、左右の隣を空席にします' },
+  checkerboard: { label: '市松模様', description: '前後左右の隣を空席にします（試験の座席など）' },
+};
+
+/**
+ * 前から何行目までの座席を「前列」とするかです。前列のタグは座席の位置から自動で付きます。
+ */
+export const SEAT_TAG_FRONT_ROW_COUNT = 2;
+
+/**
+ * 組み込みの座席タグの表示名・アイコンと、位置から自動で付くタグかどうかです。並び順は画面に表示する順です。
  */
-export const MAX_SEATS = 100;
+export const BUILT_IN_SEAT_TAGS: Record<BuiltInSeatTagId, { label: string; icon: React.ComponentType<SvgIconProps>; isDerived: boolean }> = {
+  front: { label: '前列', icon: VerticalAlignTopIcon, isDerived: true },
+  window: { label: '窓側', icon: WindowIcon, isDerived: false },
+  aisle: { label: '通路側', icon: DirectionsWalkIcon, isDerived: false },
+  'near-door': { label: '出入口の近く', icon: MeetingRoomIcon, isDerived: false },
+};
+
+/**
+ * 先生が作ったタグ（組み込み以外のタグ）に表示するアイコンです。
+ */
+export const CUSTOM_SEAT_TAG_ICON: React.ComponentType<SvgIconProps> = LocalOfferIcon;
+
+/**
+ * 固定座席設定で、座席の範囲の決め方ごとの表示名と説明です。
+ */
+export const SEAT_ZONE_KINDS: Record<SeatZoneKind, { label: string; description: string }> = {
+  seats: { label: '座席を選ぶ', description: '座席表をクリックして、範囲にする座席を選びます' },
+  rows: { label: '行で決める', description: '前から数えた行の座席を範囲にします' },
+  columns: { label: '列で決める', description: '指定した列の座席を範囲にします' },
+  tag: { label: 'タグで決める', description: 'タグ（前列・窓側など）の付いた座席を範囲にします' },
+};
+
+/**
+ * 教室の設備の種類ごとの表示名・アイコン・色と、追加したときの大きさ（px）です。並び順は追加メニューに表示する順です。
+ */
+export const ROOM_FEATURE_TYPES: Record<RoomFeatureType, {
+  label: string;
+  icon: React.ComponentType<SvgIconProps>;
+  color: string;
+  width: number;
+  height: number;
+}> = {
+  blackboard: { label: '黒板', icon: CoPresentIcon, color: '#37474f', width: 400, height: 30 },
+  'teacher-desk': { label: '教卓', icon: DeskIcon, color: '#8d6e63', width: 120, height: 50 },
+  door: { label: '出入口', icon: DoorFrontIcon, color: '#f4511e', width: 20, height: 90 },
+  window: { label: '窓', icon: WindowIcon, color: '#039be5', width: 20, height: 200 },
+  pillar: { label: '柱', icon: ViewColumnIcon, color: '#757575', width: 40, height: 40 },
+  locker: { label: 'ロッカー', icon: Inventory2Icon, color: '#6d4c41', width: 200, height: 40 },
+};
 
 /**
  * ルーレットアニメーションの生徒切り替え間隔（ミリ秒）です。
@@ -78,5 +219,184 @@ export const ROULETTE_INTERVAL_MS = 50;
  */
 export const CSV_DELIMITERS = [',', '\t', ';', '|'];
 
+/**
+ * ワークブックとして読み込むファイルの拡張子です。
+ */
+export const WORKBOOK_FILE_EXTENSIONS = ['.xlsx', '.xls', '.ods'];
+
+/**
+ * 取り込みファイルの文字コードの表示名です。
+ */
+export const TEXT_ENCODING_LABELS: Record<TextEncodingName, string> = {
+  'utf-8': 'UTF-8',
+  shift_jis: 'Shift_JIS (CP932)',
+  'euc-jp': 'EUC-JP',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+};
+
+/**
+ * 取り込み時の列の割り当て先の表示名です。既存の属性への割り当ては属性名で表示します。
+ */
+export const COLUMN_TARGET_LABELS: Record<StudentImportField | 'newAttribute' | 'ignore', string> = {
+  number: '出席番号',
+  name: '氏名',
+  kana: 'ふりがな',
+  newAttribute: '新しい属性として追加',
+  ignore: '読み込まない',
+};
+
+/**
+ * 生徒の基本項目です。属性とは異なり、すべてのクラスで共通です。
+ */
+export const STUDENT_CORE_FIELDS: StudentImportField[] = ['number', 'name', 'kana'];
+
+/**
+ * 属性の値の種類の表示名です。
+ */
+export const ATTRIBUTE_TYPE_LABELS: Record<StudentAttributeType, string> = {
+  text: 'テキスト',
+  enum: '選択肢',
+  number: '数値',
+  boolean: 'はい/いいえ',
+};
+
+/**
+ * はい/いいえの属性として読み込むときに「はい」とみなす値です（全角は半角に、英字は小文字に揃えて照合します）。
+ */
+export const BOOLEAN_TRUE_VALUES: readonly string[] = ['true', 'yes', 'y', '1', 'はい', '有', 'あり', '○', '◯', '✓'];
+
+/**
+ * はい/いいえの属性として読み込むときに「いいえ」とみなす値です。
+ */
+export const BOOLEAN_FALSE_VALUES: readonly string[] = ['false', 'no', 'n', '0', 'いいえ', '無', 'なし', '×', '-'];
+
+/**
+ * 取り込み時に検出した問題の種類の表示名です。
+ */
+export const IMPORT_ISSUE_LABELS: Record<ImportIssueKind, string> = {
+  formatError: '形式エラー',
+  missingNumber: '出席番号なし',
+  missingName: '氏名なし',
+  columnCount: '列数の不一致',
+  duplicateNumber: '出席番号の重複',
+  duplicateName: '氏名の重複',
+  suspiciousKana: 'ふりがなの確認',
+  invalidAttributeValue: '属性の値の確認',
+};
+
+/**
+ * 見出し行がない場合に使う、従来の列順での割り当てです。
+ * 4列目以降は既存の属性に順に割り当て、残りは新しい属性として読み込みます。
+ */
+export const DEFAULT_COLUMN_TARGETS: StudentImportField[] = ['number', 'name', 'kana'];
+
+/**
+ * 生徒IDの作成に使う項目の既定値です。
+ * 同じ名簿を読み込み直したときに、これらの値が同じ生徒は同じIDになります。
+ */
+export const DEFAULT_IDENTITY_FIELDS: StudentIdentityField[] = ['number', 'name'];
+
+/**
+ * 見出し行から列の割り当てを推測するための、フィールドごとの見出しの候補です。
+ * 比較時は空白を除去し、小文字に揃えてから照合します。
+ */
+export const COLUMN_HEADER_ALIASES: Record<StudentImportField, readonly string[]> = {
+  number: ['番号', '出席番号', '出席No', 'No', 'No.', 'number', '#'],
+  name: ['氏名', '名前', '生徒名', '生徒氏名', 'name'],
+  kana: ['ふりがな', 'フリガナ', 'よみがな', 'ヨミガナ', 'かな', 'カナ', '読み', 'kana'],
+};
+
+/**
+ * 生徒の写真を保存するときの長辺の最大ピクセル数です。
+ * 座席に小さく表示するだけなので、保存前に縮小して IndexedDB の容量を抑えます。
+ */
+export const STUDENT_PHOTO_MAX_SIZE = 320;
+
+/**
+ * 生徒の写真の表示設定の既定値です。
+ */
+export const DEFAULT_PHOTO_DISPLAY: StudentPhotoDisplay = {
+  showOnProjector: false,
+  showOnPrint: false,
+};
+
+/**
+ * 座席表の向きごとの表示名です。並び順は切り替えボタンに表示する順です。
+ */
+export const CHART_ORIENTATIONS: Record<ChartOrientation, { label: string; description: string }> = {
+  student: { label: '生徒側', description: '生徒から見た向き（黒板が上）' },
+  teacher: { label: '先生側', description: '先生（教卓）から見た向き（黒板が下）' },
+  left: { label: '左側', description: '教室の左側から見た向き（黒板が左）' },
+  right: { label: '右側', description: '教室の右側から見た向き（黒板が右）' },
+};
+
+/**
+ * 座席表の向きの既定値です。
+ */
+export const DEFAULT_CHART_ORIENTATION: ChartOrientation = 'student';
+
+/**
+ * 席替えの条件の種類ごとの表示名と説明です。
+ */
+export const SEATING_CONSTRAINT_KINDS: Record<SeatingConstraintKind, { label: string; description: string }> = {
+  keepApart: { label: '近くに座らせない', description: 'いじめ・私語・過去のトラブルなどで離したい生徒の組' },
+  keepTogether: { label: '近くに座らせる', description: '日本語の通訳や学習の支援など、近くにいてほしい生徒の組' },
+};
+
+/**
+ * 近くに座らせない生徒の離し方ごとの表示名と説明です。
+ */
+export const KEEP_APART_RULES: Record<KeepApartRule, { label: string; description: string }> = {
+  notAdjacent: { label: '隣にしない', description: '前後左右・斜めの隣の席にしません' },
+  minDistance: { label: '席数以上離す', description: '前後左右・斜めに1席ずつ数えて、指定した席数以上離します' },
+};
+
+/**
+ * 近くに座らせる生徒の座らせ方ごとの表示名と説明です。
+ */
+export const KEEP_TOGETHER_RULES: Record<KeepTogetherRule, { label: string; description: string }> = {
+  adjacent: { label: '隣の席にする', description: '前後左右の隣の席にします（2人の組だけ）' },
+  sameGroup: { label: '同じ班にする', description: 'レイアウトで作った同じ班の座席にします' },
+};
+
+/**
+ * 「席数以上離す」の席数の既定値と上限です。
+ */
+export const KEEP_APART_DEFAULT_DISTANCE = 3;
+export const KEEP_APART_MAX_DISTANCE = 10;
+
+/**
+ * 1つの条件にまとめられる生徒の人数の上限です。
+ */
+export const SEATING_CONSTRAINT_MAX_STUDENTS = 6;
+
+/**
+ * 席替えの条件があるとき、条件を満たす割り当てから同じ確率で1つを選ぶために、ランダムな割り当てを引き直す回数です（座席の範囲が重なる場合は同じ確率になりません）。
+ * この回数で条件を満たす割り当てが出ない場合は、条件を満たす座席を順に探します。
+ */
+export const ASSIGNMENT_SAMPLING_ATTEMPTS = 300;
+
+/**
+ * 条件を満たす座席を順に探すときに、座席を試す回数の上限です。これを超えた場合は、割り当てを見つけられなかったものとします。
+ */
+export const ASSIGNMENT_SEARCH_STEP_LIMIT = 20000;
+
+/**
+ * 生徒の属性を使った座席の並べ方ごとの表示名と説明です。
+ */
+export const ATTRIBUTE_RULE_KINDS: Record<AttributeRuleKind, { label: string; description: string }> = {
+  checkerboard: { label: '市松模様にする', description: '前後左右の隣の席を違う値にします（男女交互など）' },
+  alternateInRow: { label: '左右で交互にする', description: '左右の隣の席を違う値にし、列ごとに交互に並べます' },
+  noAdjacentSame: { label: '同じ値を隣にしない', description: '前後左右・斜めの隣の席に、同じ値の生徒を並べません（同じ部活動・出身校を散らすなど）' },
+  balanceGroups: { label: '班ごとに均等にする', description: '各班の値ごとの人数を、クラス全体の割合に近づけます' },
+  balanceRows: { label: '行ごとに均等にする', description: '前から数えた各行の値ごとの人数を、クラス全体の割合に近づけます' },
+};
+
+/**
+ * 属性の並べ方に近づけるために、条件を満たす割り当ての中で生徒の座席を入れ替えてみる回数です。
+ */
+export const ATTRIBUTE_RULE_SWAP_ATTEMPTS = 3000;
+
 // ... 今後必要になる可能性のあるその他の定数をここに追加してください ...
 
@@ -0,0 +1,61 @@
+// @vitest-environment jsdom
+// src/contexts/AppStateContext.test.tsx
+
+import { act, renderHook } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import type { StudentAttributeSchema } from '../types/Attribute';
+import type { Student } from '../types/Student';
+import { createAttributeDefinition, applySchemaToStudents } from '../utils/studentAttributes';
+import { AppStateProvider, useAppState } from './AppStateContext';
+
+// 写真は IndexedDB から読み込むため、テストでは写真がないものとする
+vi.mock('../utils/photoStore', () => ({ loadStudentPhotos: () => Promise.resolve({}) }));
+
+const createStudent = (number: string, name: string, attributes: Record<string, string>): Student => ({
+  id: `student-${number}`,
+  number,
+  name,
+  kana: '',
+  attributes,
+  isExcluded: false,
+  isAssigned: false,
+  assignedSeatId: null,
+});
+
+describe('AppStateProvider の editHistory', () => {
+  it('属性の定義を変えた名簿の保存を元に戻すと、生徒と属性の定義を同時に戻す', async () => {
+    const { result } = renderHook(() => useAppState(), { wrapper: AppStateProvider });
+    // 写真の読み込みを待つ
+    await act(async () => {});
+
+    const gender = createAttributeDefinition([], '性別');
+    const schemaBefore: StudentAttributeSchema = [gender];
+    const studentsBefore = [createStudent('1', '山田太郎', { [gender.id]: '男性' })];
+    // 名簿の取り込み（記録しないフェーズ）の後、編集フェーズへ進む
+    act(() => {
+      result.current.setAttributeSchema(schemaBefore);
+      result.current.setStudents(studentsBefore);
+    });
+    act(() => result.current.setAppPhase('config'));
+    expect(result.current.editHistory.canUndo).toBe(false);
+
+    // 名簿の編集で「性別」を削除して「部活動」を追加し、保存する（RosterEditorDialog の保存と同じく同時に設定する）
+    const club = createAttributeDefinition(schemaBefore, '部活動');
+    const schemaAfter: StudentAttributeSchema = [club];
+    const studentsAfter = applySchemaToStudents([{ ...studentsBefore[0], attributes: { [club.id]: 'サッカー部' } }], schemaAfter);
+    act(() => {
+      result.current.setAttributeSchema(schemaAfter);
+      result.current.setStudents(studentsAfter);
+    });
+    expect(result.current.editHistory.canUndo).toBe(true);
+
+    act(() => result.current.editHistory.undo());
+    expect(result.current.attributeSchema).toBe(schemaBefore);
+    expect(result.current.students).toBe(studentsBefore);
+    expect(result.current.editHistory.canUndo).toBe(false);
+
+    act(() => result.current.editHistory.redo());
+    expect(result.current.attributeSchema).toBe(schemaAfter);
+    expect(result.current.students).toBe(studentsAfter);
+  });
+});
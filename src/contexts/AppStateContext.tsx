@@ -1,14 +1,26 @@
 import React, {
   createContext,
+  useCallback,
   useContext,
+  useEffect,
+  useRef,
   useState,
   useMemo,
 } from 'react';
 import type { ReactNode } from 'react';
 import type { Student } from '../types/Student';
-import type { SeatMapData } from '../types/Seat'; // SeatMap を SeatMapData[] に変更
+import type { SeatGroup, SeatMapData } from '../types/Seat'; // SeatMap を SeatMapData[] に変更
+import type { RoomFeature } from '../types/RoomFeature';
 import type { RouletteState } from '../types/Roulette';
-import type { FixedSeatAssignment } from '../types/Seat'; // 新しく定義した型をインポート
+import type { FixedSeatAssignment, SeatZoneAssignment } from '../types/Seat'; // 新しく定義した型をインポート
+import type { StudentAttributeSchema } from '../types/Attribute';
+import type { StudentPhotoDisplay } from '../types/Photo';
+import type { ChartOrientation } from '../types/ChartOrientation';
+import type { AttributeRule, SeatingConstraint } from '../types/Constraint';
+import { DEFAULT_CHART_ORIENTATION, DEFAULT_PHOTO_DISPLAY, EDIT_HISTORY_PHASES } from '../constants';
+import { loadStudentPhotos } from '../utils/photoStore';
+import { useEditHistory } from '../hooks/useEditHistory';
+import type { EditHistory } from '../hooks/useEditHistory';
 
 // =============================================================================
 // 型定義
@@ -19,22 +31,59 @@ export type AppPhase =
   | 'input'
   | 'config'
   | 'fixedSeat'
+  | 'constraints'
   | 'roulette'
   | 'chart'
   | 'finished';
 
+/**
+ * 元に戻す・やり直すときに記録する状態です。画面の表示の状態（選択中の座席など）やルーレットの状態は含めません。
+ * 属性の定義は生徒の属性の値と対応するため、生徒と一緒に記録して同時に戻します。
+ * 写真は IndexedDB に保存・削除し、表示用のURLも解放するため記録しません（名簿の保存を元に戻しても写真は戻りません）。
+ */
+interface EditSnapshot {
+  students: Student[];
+  attributeSchema: StudentAttributeSchema;
+  seatMap: SeatMapData[];
+  seatGroups: SeatGroup[];
+  roomFeatures: RoomFeature[];
+  fixedSeatAssignments: FixedSeatAssignment[];
+  seatZoneAssignments: SeatZoneAssignment[];
+  seatingConstraints: SeatingConstraint[];
+  attributeRules: AttributeRule[];
+}
+
 // アプリケーション全体の状態を定義するインターフェース
 interface AppState {
   students: Student[];
   setStudents: React.Dispatch<React.SetStateAction<Student[]>>;
   seatMap: SeatMapData[]; // SeatMap を SeatMapData[] に変更
   setSeatMap: React.Dispatch<React.SetStateAction<SeatMapData[]>>; // SeatMap を SeatMapData[] に変更
+  seatGroups: SeatGroup[]; // 班の定義（どの座席がどの班かは SeatMapData.groupId で表す）
+  setSeatGroups: React.Dispatch<React.SetStateAction<SeatGroup[]>>;
+  roomFeatures: RoomFeature[]; // 教室の設備（黒板・教卓・出入口など）
+  setRoomFeatures: React.Dispatch<React.SetStateAction<RoomFeature[]>>;
   appPhase: AppPhase;
   setAppPhase: React.Dispatch<React.SetStateAction<AppPhase>>;
   rouletteState: RouletteState;
   setRouletteState: React.Dispatch<React.SetStateAction<RouletteState>>;
   fixedSeatAssignments: FixedSeatAssignment[]; // 新しい固定座席割り当ての状態
   setFixedSeatAssignments: React.Dispatch<React.SetStateAction<FixedSeatAssignment[]>>; // 新しい固定座席割り当てのセッター
+  seatZoneAssignments: SeatZoneAssignment[]; // 座席の範囲の割り当て（範囲の中のどこかに座らせる生徒）
+  setSeatZoneAssignments: React.Dispatch<React.SetStateAction<SeatZoneAssignment[]>>;
+  seatingConstraints: SeatingConstraint[]; // 席替えの条件（近くに座らせない生徒など）
+  setSeatingConstraints: React.Dispatch<React.SetStateAction<SeatingConstraint[]>>;
+  attributeRules: AttributeRule[]; // 生徒の属性を使った座席の並べ方（男女交互など）
+  setAttributeRules: React.Dispatch<React.SetStateAction<AttributeRule[]>>;
+  attributeSchema: StudentAttributeSchema; // クラスごとの生徒の属性の定義
+  setAttributeSchema: React.Dispatch<React.SetStateAction<StudentAttributeSchema>>;
+  studentPhotos: Record<string, string>; // 生徒IDをキーとした写真の表示用URL（本体は IndexedDB に保存）
+  setStudentPhotos: React.Dispatch<React.SetStateAction<Record<string, string>>>;
+  photoDisplay: StudentPhotoDisplay; // 写真を座席に表示するかどうか
+  setPhotoDisplay: React.Dispatch<React.SetStateAction<StudentPhotoDisplay>>;
+  chartOrientation: ChartOrientation; // 座席表をどの位置から見た向きで表示するか（座席表・ルーレット・出力）
+  setChartOrientation: React.Dispatch<React.SetStateAction<ChartOrientation>>;
+  editHistory: EditHistory; // 編集フェーズの間の編集を元に戻す・やり直すための共通の履歴
 }
 
 // AppStateContext の作成
@@ -51,6 +100,8 @@ export const AppStateProvider: React.FC<AppStateProviderProps> = ({
 }) => {
   const [students, setStudents] = useState<Student[]>([]);
   const [seatMap, setSeatMap] = useState<SeatMapData[]>([]); // SeatMap を SeatMapData[] に変更
+  const [seatGroups, setSeatGroups] = useState<SeatGroup[]>([]);
+  const [roomFeatures, setRoomFeatures] = useState<RoomFeature[]>([]);
   const [appPhase, setAppPhase] = useState<AppPhase>('input');
   const [rouletteState, setRouletteState] = useState<RouletteState>({
     isRunning: false,
@@ -60,6 +111,65 @@ export const AppStateProvider: React.FC<AppStateProviderProps> = ({
     isStopped: false, // ルーレットが一時停止中か
   });
   const [fixedSeatAssignments, setFixedSeatAssignments] = useState<FixedSeatAssignment[]>([]);
+  const [seatZoneAssignments, setSeatZoneAssignments] = useState<SeatZoneAssignment[]>([]);
+  const [seatingConstraints, setSeatingConstraints] = useState<SeatingConstraint[]>([]);
+  const [attributeRules, setAttributeRules] = useState<AttributeRule[]>([]);
+  const [attributeSchema, setAttributeSchema] = useState<StudentAttributeSchema>([]);
+  const [studentPhotos, setStudentPhotos] = useState<Record<string, string>>({});
+  const [photoDisplay, setPhotoDisplay] = useState<StudentPhotoDisplay>(DEFAULT_PHOTO_DISPLAY);
+  const [chartOrientation, setChartOrientation] = useState<ChartOrientation>(DEFAULT_CHART_ORIENTATION);
+
+  // 編集フェーズ（レイアウト・固定座席・条件・座席表の調整）の編集を、フェーズをまたいで1つの履歴に記録する
+  const editSnapshot = useMemo(
+    (): EditSnapshot => ({
+      students,
+      attributeSchema,
+      seatMap,
+      seatGroups,
+      roomFeatures,
+      fixedSeatAssignments,
+      seatZoneAssignments,
+      seatingConstraints,
+      attributeRules,
+    }),
+    [students, attributeSchema, seatMap, seatGroups, roomFeatures, fixedSeatAssignments, seatZoneAssignments, seatingConstraints, attributeRules]
+  );
+  const restoreSnapshot = useCallback((snapshot: EditSnapshot) => {
+    setStudents(snapshot.students);
+    setAttributeSchema(snapshot.attributeSchema);
+    setSeatMap(snapshot.seatMap);
+    setSeatGroups(snapshot.seatGroups);
+    setRoomFeatures(snapshot.roomFeatures);
+    setFixedSeatAssignments(snapshot.fixedSeatAssignments);
+    setSeatZoneAssignments(snapshot.seatZoneAssignments);
+    setSeatingConstraints(snapshot.seatingConstraints);
+    setAttributeRules(snapshot.attributeRules);
+  }, []);
+  const editHistory = useEditHistory(editSnapshot, restoreSnapshot, EDIT_HISTORY_PHASES.includes(appPhase));
+
+  // 保存済みの写真は起動時に IndexedDB から読み込む
+  useEffect(() => {
+    let cancelled = false;
+    loadStudentPhotos()
+      .then(photos => {
+        if (cancelled) return;
+        setStudentPhotos(Object.fromEntries(
+          Object.entries(photos).map(([studentId, blob]) => [studentId, URL.createObjectURL(blob)])
+        ));
+      })
+      .catch(error => console.error('写真の読み込み中にエラーが発生しました:', error));
+    return () => { cancelled = true; };
+  }, []);
+
+  // 使われなくなった写真のURLを解放する
+  const previousPhotosRef = useRef<Record<string, string>>({});
+  useEffect(() => {
+    const currentUrls = new Set(Object.values(studentPhotos));
+    Object.values(previousPhotosRef.current).forEach(url => {
+      if (!currentUrls.has(url)) URL.revokeObjectURL(url);
+    });
+    previousPhotosRef.current = studentPhotos;
+  }, [studentPhotos]);
 
   const value = useMemo(
     () => ({
@@ -67,24 +177,62 @@ export const AppStateProvider: React.FC<AppStateProviderProps> = ({
       setStudents,
       seatMap,
       setSeatMap,
+      seatGroups,
+      setSeatGroups,
+      roomFeatures,
+      setRoomFeatures,
       appPhase,
       setAppPhase,
       rouletteState,
       setRouletteState,
       fixedSeatAssignments,
       setFixedSeatAssignments,
+      seatZoneAssignments,
+      setSeatZoneAssignments,
+      seatingConstraints,
+      setSeatingConstraints,
+      attributeRules,
+      setAttributeRules,
+      attributeSchema,
+      setAttributeSchema,
+      studentPhotos,
+      setStudentPhotos,
+      photoDisplay,
+      setPhotoDisplay,
+      chartOrientation,
+      setChartOrientation,
+      editHistory,
     }),
     [
       students,
       setStudents,
       seatMap,
       setSeatMap,
+      seatGroups,
+      setSeatGroups,
+      roomFeatures,
+      setRoomFeatures,
       appPhase,
       setAppPhase,
       rouletteState,
       setRouletteState,
       fixedSeatAssignments,
       setFixedSeatAssignments,
+      seatZoneAssignments,
+      setSeatZoneAssignments,
+      seatingConstraints,
+      setSeatingConstraints,
+      attributeRules,
+      setAttributeRules,
+      attributeSchema,
+      setAttributeSchema,
+      studentPhotos,
+      setStudentPhotos,
+      photoDisplay,
+      setPhotoDisplay,
+      chartOrientation,
+      setChartOrientation,
+      editHistory,
     ]
   );
 
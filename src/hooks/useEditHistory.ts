@@ -0,0 +1,150 @@
+// src/hooks/useEditHistory.ts
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  createEditHistory,
+  isSameEditSnapshot,
+  pushEditHistory,
+  redoEditHistory,
+  undoEditHistory,
+} from '../utils/editHistory';
+import type { EditHistoryStacks } from '../utils/editHistory';
+
+/**
+ * 編集を元に戻す・やり直すための操作です。AppStateContext の editHistory として、全画面で共有します。
+ */
+export interface EditHistory {
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => void;
+  redo: () => void;
+  /**
+   * 続けて行う編集（ドラッグ中の移動など）を始めます。endContinuousEdit までの変更は1回の編集としてまとめます。
+   * 文字の入力欄は、入力欄にフォーカスがある間を自動で続けて行う編集として扱います。
+   */
+  beginContinuousEdit: () => void;
+  /** 続けて行う編集を終えます。 */
+  endContinuousEdit: () => void;
+  /** 履歴を捨てます。同時に行った変更（データの読み込みなど）は記録しません。 */
+  clear: () => void;
+}
+
+// 入力欄の中では、ブラウザ標準の文字の取り消しを優先する
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLElement
+  && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+
+// チェックボックスやボタンは1回ごとの編集として記録し、続けて行う編集にはしない
+const NON_CONTINUOUS_INPUT_TYPES = new Set(['checkbox', 'radio', 'button', 'submit', 'reset', 'file', 'image']);
+
+const isContinuousInput = (target: EventTarget | null) =>
+  isTextInput(target) && !(target instanceof HTMLInputElement && NON_CONTINUOUS_INPUT_TYPES.has(target.type));
+
+/**
+ * 状態の変化を記録し、元に戻す・やり直すための操作を返します。
+ * 状態が変わるたびに変わる前の状態を履歴に積むため、編集する側で記録を呼び出す必要はありません。
+ * 続けて行う編集（ドラッグ中の移動・入力欄への文字の入力）だけは、1回の編集としてまとめます。
+ * recording が true の間は Ctrl + Z で元に戻し、Ctrl + Shift + Z（または Ctrl + Y）でやり直します。
+ *
+ * @param current 記録する状態です。複数の状態をまとめる場合はオブジェクトにします（中の値が同じなら変化なしとみなします）。
+ * @param restore 履歴の状態に戻すときに呼び出す関数です。状態の中の値をそのまま設定してください。
+ * @param recording false の間の変化は記録せず、それより前の状態には戻せなくなるため履歴を捨てます（ルーレットでの割り当てなど）。
+ */
+export const useEditHistory = <T>(current: T, restore: (snapshot: T) => void, recording: boolean): EditHistory => {
+  const [history, setHistory] = useState<EditHistoryStacks<T>>(createEditHistory);
+  const [clearCount, setClearCount] = useState(0);
+  // 最後に記録した状態。元に戻したときは戻した状態を入れ、その変化を新しい編集として記録しない
+  const previousRef = useRef(current);
+  const clearCountRef = useRef(clearCount);
+  // 続けて行う編集の最中か、その編集をすでに履歴に積んだか
+  const continuousRef = useRef({ active: false, recorded: false });
+
+  useEffect(() => {
+    const previous = previousRef.current;
+    previousRef.current = current;
+    if (clearCountRef.current !== clearCount) {
+      clearCountRef.current = clearCount;
+      return;
+    }
+    if (isSameEditSnapshot(previous, current)) return;
+    if (!recording) {
+      setHistory(prev => (prev.past.length === 0 && prev.future.length === 0 ? prev : createEditHistory()));
+      return;
+    }
+    const continuous = continuousRef.current;
+    const isContinued = continuous.active && continuous.recorded;
+    if (continuous.active) continuous.recorded = true;
+    setHistory(prev => (isContinued && prev.past.length > 0 ? { ...prev, future: [] } : pushEditHistory(prev, previous)));
+  }, [current, recording, clearCount]);
+
+  const beginContinuousEdit = useCallback(() => {
+    continuousRef.current = { active: true, recorded: false };
+  }, []);
+
+  const endContinuousEdit = useCallback(() => {
+    continuousRef.current = { active: false, recorded: false };
+  }, []);
+
+  const clear = useCallback(() => {
+    setHistory(createEditHistory());
+    setClearCount(prev => prev + 1);
+  }, []);
+
+  const undo = useCallback(() => {
+    const result = undoEditHistory(history, previousRef.current);
+    if (!result) return;
+    previousRef.current = result.snapshot;
+    continuousRef.current.recorded = false;
+    setHistory(result.history);
+    restore(result.snapshot);
+  }, [history, restore]);
+
+  const redo = useCallback(() => {
+    const result = redoEditHistory(history, previousRef.current);
+    if (!result) return;
+    previousRef.current = result.snapshot;
+    continuousRef.current.recorded = false;
+    setHistory(result.history);
+    restore(result.snapshot);
+  }, [history, restore]);
+
+  useEffect(() => {
+    if (!recording) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isTextInput(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+    // 入力欄にフォーカスがある間の入力は、1文字ずつではなくまとめて元に戻す
+    const handleFocusIn = (event: FocusEvent) => {
+      if (isContinuousInput(event.target)) beginContinuousEdit();
+    };
+    const handleFocusOut = (event: FocusEvent) => {
+      if (isContinuousInput(event.target)) endContinuousEdit();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('focusin', handleFocusIn);
+    window.addEventListener('focusout', handleFocusOut);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('focusin', handleFocusIn);
+      window.removeEventListener('focusout', handleFocusOut);
+    };
+  }, [undo, redo, recording, beginContinuousEdit, endContinuousEdit]);
+
+  return {
+    canUndo: recording && history.past.length > 0,
+    canRedo: recording && history.future.length > 0,
+    undo,
+    redo,
+    beginContinuousEdit,
+    endContinuousEdit,
+    clear,
+  };
+};
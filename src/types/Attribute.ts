@@ -0,0 +1,34 @@
+// src/types/Attribute.ts
+
+/**
+ * 生徒の属性の値の種類です。
+ * - text: 自由入力の文字列
+ * - enum: 選択肢から1つを選ぶ（例: 性別）
+ * - number: 数値（例: 身長）
+ * - boolean: はい/いいえ（例: 眼鏡）
+ */
+export type StudentAttributeType = 'text' | 'enum' | 'number' | 'boolean';
+
+/**
+ * クラスごとに設定できる生徒の属性の定義です。
+ * 生徒の属性値は Student.attributes に、この定義の id をキーとして保存されます。
+ */
+export interface StudentAttributeDefinition {
+  /** 属性の一意の識別子です（例: "attr-1"）。名前を変更しても変わりません。 */
+  id: string;
+  /** 画面・出力に表示する属性名です（例: "性別"）。 */
+  name: string;
+  /** 値の種類です。 */
+  type: StudentAttributeType;
+  /** type が 'enum' の場合の選択肢です。それ以外の種類では空配列です。 */
+  options: string[];
+  /** ルーレット・座席確認画面（プロジェクター投影）の座席に表示するかどうかです。 */
+  showOnProjector: boolean;
+  /** 印刷・クリップボードコピーの座席表に表示するかどうかです。 */
+  showOnPrint: boolean;
+}
+
+/**
+ * 属性の定義の一覧（スキーマ）です。配列の順序が表示順になります。
+ */
+export type StudentAttributeSchema = StudentAttributeDefinition[];
@@ -0,0 +1,10 @@
+// src/types/ChartOrientation.ts
+
+/**
+ * 座席表をどの位置から見た向きで表示するかです。
+ * - student: 生徒から見た向き（黒板が上。レイアウトの座標そのまま）
+ * - teacher: 先生（教卓）から見た向き（180° 回転し、黒板が下）
+ * - left: 教室の左側（窓側・廊下側など）から見た向き（黒板が左）
+ * - right: 教室の右側から見た向き（黒板が右）
+ */
+export type ChartOrientation = 'student' | 'teacher' | 'left' | 'right';
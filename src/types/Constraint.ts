@@ -0,0 +1,78 @@
+// src/types/Constraint.ts
+
+/**
+ * 近くに座らせない生徒の離し方です。
+ * - notAdjacent: 前後左右・斜めの隣の席にしない
+ * - minDistance: 座席の距離（前後左右・斜めに1席ずつ数える）を指定した席数以上にする
+ */
+export type KeepApartRule = 'notAdjacent' | 'minDistance';
+
+/**
+ * 近くに座らせない生徒の組です（いじめ・私語・過去のトラブルなど）。
+ * ルーレット・一括割り当てでは、組のどの2人もこの離し方を満たすように座席を決めます。
+ */
+export interface KeepApartConstraint {
+  /** 条件の一意のID (例: "constraint-1") */
+  id: string;
+  kind: 'keepApart';
+  /** 組になる生徒のID（2人以上）。名簿にいない生徒・席替えから除外された生徒は無視します。 */
+  studentIds: string[];
+  rule: KeepApartRule;
+  /** rule が 'minDistance' のときの席数です。'notAdjacent' では使いません。 */
+  distance: number;
+}
+
+/**
+ * 近くに座らせる生徒の座らせ方です。
+ * - adjacent: 前後左右の隣の席にする（2人の組だけ）
+ * - sameGroup: 同じ班（SeatGroup）の座席にする
+ */
+export type KeepTogetherRule = 'adjacent' | 'sameGroup';
+
+/**
+ * 近くに座らせる生徒の組です（日本語を学んでいる生徒と通訳のできる生徒、支援の必要な生徒と支援する生徒など）。
+ * ルーレット・一括割り当てでは、組のどの2人もこの座らせ方を満たすように座席を決め、組の生徒をまとめて発表します。
+ */
+export interface KeepTogetherConstraint {
+  /** 条件の一意のID (例: "constraint-1") */
+  id: string;
+  kind: 'keepTogether';
+  /** 組になる生徒のID（2人以上。'adjacent' では2人）。名簿にいない生徒・席替えから除外された生徒は無視します。 */
+  studentIds: string[];
+  rule: KeepTogetherRule;
+}
+
+/**
+ * 席替えの条件の種類です。
+ * - keepApart: 近くに座らせない
+ * - keepTogether: 近くに座らせる
+ */
+export type SeatingConstraintKind = 'keepApart' | 'keepTogether';
+
+/**
+ * 席替えの条件です。クラスのデータと一緒に保存します。
+ */
+export type SeatingConstraint = KeepApartConstraint | KeepTogetherConstraint;
+
+/**
+ * 生徒の属性を使った座席の並べ方です。
+ * - checkerboard: 前後左右の隣の席を違う値にする（市松模様の男女交互など）
+ * - alternateInRow: 左右の隣の席を違う値にする（列ごとに交互）
+ * - noAdjacentSame: 前後左右・斜めの隣の席に同じ値の生徒を並べない（同じ部活動・出身校を散らすなど）
+ * - balanceGroups: 班ごとの値の人数を、クラス全体の割合に近づける
+ * - balanceRows: 行ごとの値の人数を、クラス全体の割合に近づける
+ */
+export type AttributeRuleKind = 'checkerboard' | 'alternateInRow' | 'noAdjacentSame' | 'balanceGroups' | 'balanceRows';
+
+/**
+ * 生徒の属性を使った座席の並べ方の設定です。クラスのデータと一緒に保存します。
+ * 席替えの条件と違い必ず満たすものではなく、ルーレット・一括割り当ては条件を満たす割り当ての中から、できるだけ並べ方に合う割り当てを選びます。
+ * 属性の値が空の生徒は、並べ方の対象にしません。
+ */
+export interface AttributeRule {
+  /** 並べ方の一意のID (例: "attribute-rule-1") */
+  id: string;
+  /** 使う属性の ID（StudentAttributeDefinition.id） */
+  attributeId: string;
+  kind: AttributeRuleKind;
+}
@@ -0,0 +1,99 @@
+// src/types/Import.ts
+
+import type { Student } from './Student';
+
+/**
+ * 取り込み元の列を割り当てられる Student の基本項目です。
+ */
+export type StudentImportField = 'number' | 'name' | 'kana';
+
+/**
+ * 既存の属性への割り当てを表す値です（"attribute:" + 属性ID）。
+ */
+export type AttributeColumnTarget = `attribute:${string}`;
+
+/**
+ * 取り込み元の1列の割り当て先です。
+ * 'newAttribute' の列は見出しを名前とする新しい属性として、'ignore' の列は読み込みません。
+ */
+export type ColumnTarget = StudentImportField | AttributeColumnTarget | 'newAttribute' | 'ignore';
+
+/**
+ * 生徒IDの作成に使える項目です。基本項目のほか、属性（組・学籍番号など）も使えます（"attribute:" + 属性ID）。
+ */
+export type StudentIdentityField = StudentImportField | AttributeColumnTarget;
+
+/**
+ * 取り込み元の列と Student のフィールドの対応付けを定義するインターフェースです。
+ */
+export interface ColumnMapping {
+  /**
+   * 1行目を見出し行として扱い、データとして読み込まないかどうかです。
+   */
+  hasHeader: boolean;
+  /**
+   * 取り込み元の列ごとの割り当て先です。インデックスが列番号（0 始まり）に対応します。
+   */
+  columns: ColumnTarget[];
+  /**
+   * 見出し行がある場合の見出しの文字列です。
+   * 次回の取り込み時に、見出しの名前で列を対応付け直すために保存します。
+   */
+  headers?: string[];
+}
+
+/**
+ * 取り込みファイルの文字コードです。値は TextDecoder に渡すラベルに対応します。
+ */
+export type TextEncodingName = 'utf-8' | 'shift_jis' | 'euc-jp' | 'utf-16le' | 'utf-16be';
+
+/**
+ * 取り込み時に検出した問題の種類です。
+ */
+export type ImportIssueKind =
+  | 'formatError'        // 区切り文字・引用符などの形式エラー
+  | 'missingNumber'      // 出席番号が空
+  | 'missingName'        // 氏名が空
+  | 'columnCount'        // 列数が他の行と異なる
+  | 'duplicateNumber'    // 出席番号の重複
+  | 'duplicateName'      // 氏名の重複
+  | 'suspiciousKana'     // ふりがなにかな以外の文字が含まれている
+  | 'invalidAttributeValue'; // 属性の種類（数値・選択肢など）に合わない値
+
+/**
+ * 取り込み時に検出した問題1件を表すインターフェースです。
+ */
+export interface ImportIssue {
+  /** 問題の種類 */
+  kind: ImportIssueKind;
+  /** 'error' は読み込み結果に影響する問題、'warning' は確認を促す問題 */
+  severity: 'error' | 'warning';
+  /** 取り込み元の行番号（1 始まり）。特定の行に紐づかない場合は null */
+  line: number | null;
+  /** 画面に表示するメッセージ */
+  message: string;
+  /** この行を読み飛ばしたかどうか */
+  skipped: boolean;
+}
+
+/**
+ * 取り込み元の表データです。CSV・ワークブックのどちらから読み込んだ場合も同じ形になります。
+ */
+export interface SourceTable {
+  /** 各行のセルの値（見出し行を含む） */
+  rows: string[][];
+  /** rows の各行に対応する取り込み元の行番号（1 始まり） */
+  lineNumbers: number[];
+  /** 表データの読み込み時に検出した問題 */
+  issues: ImportIssue[];
+}
+
+/**
+ * 生徒データの取り込み結果です。
+ */
+export interface StudentImportResult {
+  /** 読み込まれた生徒 */
+  students: Student[];
+  /** 検出した問題の一覧（行番号順） */
+  issues: ImportIssue[];
+}
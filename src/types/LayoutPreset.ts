@@ -0,0 +1,28 @@
+// src/types/LayoutPreset.ts
+
+import type { SeatGroup, SeatMapData } from './Seat';
+import type { RoomFeature } from './RoomFeature';
+
+/**
+ * プリセットに保存する1席分の形状です。生徒の割り当ては保存しません。
+ */
+export type LayoutPresetSeat = Omit<SeatMapData, 'assignedStudentId'>;
+
+/**
+ * 名前を付けて保存した座席レイアウトです（例: ホームルーム教室、理科室、試験会場）。
+ * クラスのデータとは別に保存し、学期やクラスをまたいで使い回します。
+ */
+export interface LayoutPreset {
+  /** プリセットの一意のID */
+  id: string;
+  /** 一覧に表示するプリセット名 */
+  name: string;
+  /** 座席の位置・向き・座席名・使用可否・班・タグ */
+  seats: LayoutPresetSeat[];
+  /** 座席が属する班の定義 */
+  groups: SeatGroup[];
+  /** 教室の設備（黒板・教卓・出入口など） */
+  roomFeatures: RoomFeature[];
+  /** 最後に保存した日時（ISO 8601 形式） */
+  updatedAt: string;
+}
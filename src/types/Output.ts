@@ -0,0 +1,26 @@
+// src/types/Output.ts
+
+import type { Student } from './Student';
+
+/**
+ * 出力（印刷・クリップボードコピー・一覧表）に含める基本項目の選択状態です。
+ * 属性の表示・非表示は属性の定義（StudentAttributeDefinition.showOnPrint）で指定します。
+ */
+export interface StudentOutputFields {
+  id: boolean;
+  number: boolean;
+  name: boolean;
+  kana: boolean;
+}
+
+/**
+ * 出力する1項目分の定義です。基本項目と属性を同じ形で扱うために使います。
+ */
+export interface StudentOutputColumn {
+  /** 項目のキー（基本項目のフィールド名、または属性の id） */
+  key: string;
+  /** 見出しに表示する名前 */
+  label: string;
+  /** 生徒から表示用の値を取り出す関数 */
+  getValue: (student: Student) => string;
+}
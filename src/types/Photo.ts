@@ -0,0 +1,22 @@
+// src/types/Photo.ts
+
+/**
+ * 生徒の写真を座席に表示するかどうかの設定です。
+ * 写真そのものは容量が大きいため、この設定とは別に IndexedDB に保存します（src/utils/photoStore.ts 参照）。
+ */
+export interface StudentPhotoDisplay {
+  /** ルーレット・座席確認画面（プロジェクター投影）の座席と決定ダイアログに表示するかどうかです。 */
+  showOnProjector: boolean;
+  /** 印刷する座席表に表示するかどうかです。 */
+  showOnPrint: boolean;
+}
+
+/**
+ * 写真ファイルを出席番号で生徒に対応付けた結果です。
+ */
+export interface PhotoFileMatch<T> {
+  /** 対応付けられた生徒（または編集中の行）とファイルの組 */
+  matches: { target: T; file: File }[];
+  /** 出席番号が一致する生徒がいなかったファイル */
+  unmatchedFiles: File[];
+}
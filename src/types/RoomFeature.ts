@@ -0,0 +1,35 @@
+// src/types/RoomFeature.ts
+
+/**
+ * 教室の設備の種類です。
+ * - blackboard: 黒板
+ * - teacher-desk: 教卓
+ * - door: 出入口
+ * - window: 窓
+ * - pillar: 柱
+ * - locker: ロッカー
+ */
+export type RoomFeatureType = 'blackboard' | 'teacher-desk' | 'door' | 'window' | 'pillar' | 'locker';
+
+/**
+ * 座席レイアウトに置く教室の設備です。座席表・ルーレット・印刷で教室の向きを分かりやすくするために表示します。
+ * 座席と同じ座標で配置し、黒板や教卓を座席より前に置けるよう、位置には負の値も使えます。
+ */
+export interface RoomFeature {
+  /** 設備の一意のID (例: "feature-1") */
+  id: string;
+  /** 設備の種類 */
+  type: RoomFeatureType;
+  /** 表示名です。空の場合は種類の名前（例: "黒板"）を表示します。 */
+  label: string;
+  /** レイアウト上の左端の位置（px） */
+  x: number;
+  /** レイアウト上の上端の位置（px）。座席より前（黒板側）は負の値になります。 */
+  y: number;
+  /** 幅（px） */
+  width: number;
+  /** 奥行き（px） */
+  height: number;
+  /** 回転角度（度、時計回り） */
+  rotation: number;
+}
@@ -2,22 +2,71 @@
  * 個々の座席の現在の状態と設定を保持するデータ構造です。
  */
 export interface SeatMapData {
-  /** 座席の一意のID (例: "R1C1") */
+  /**
+   * 座席の一意のID (例: "seat-1")。座席を識別するためだけのもので、位置や表示名を読み取ってはいけません。
+   * 以前の形式で作成された座席は "R1C1" のようなIDのまま引き継いでいます。
+   */
   seatId: string;
+  /** 画面や出力に表示する座席名です（例: "1-1", "窓側A-1"）。先生が自由に変更できます。 */
+  label: string;
   /** この座席に割り当てられている生徒のID。割り当てられていない場合は null。 */
-  /** 座席の行番号 */
+  /** 座席の行番号（表形式の出力で使う。自由に配置した座席では位置から求める） */
   row: number; // 追加
-  /** 座席の列番号 */
+  /** 座席の列番号（表形式の出力で使う。自由に配置した座席では位置から求める） */
   col: number; // 追加
   assignedStudentId: string | null;
   /** この座席が現在使用可能かどうか (true: 使用可能, false: 使用不可)。デフォルトは true。 */
   isUsable: boolean;
-  // 他にも、今後追加する可能性のある座席属性 (例: groupId, isWindowSeat など)
+  /**
+   * 教室のレイアウト上の座席の左端の位置（px）です。黒板側の左上を原点とします。
+   * 座席表・ルーレット・印刷はすべてこの位置をもとに描画します。
+   */
+  x: number;
+  /** 教室のレイアウト上の座席の上端の位置（px）です。値が大きいほど後ろの席になります。 */
+  y: number;
+  /** 座席の回転角度（度、時計回り）です。0 で黒板の方を向きます。 */
+  rotation: number;
+  /** この座席が属する班の ID（SeatGroup の id）。どの班にも属さない場合は null。 */
+  groupId: string | null;
+  /**
+   * 座席に付けたタグです。組み込みのタグは BuiltInSeatTagId で、先生が作ったタグは名前のまま保持します。
+   * 前列（front）は位置から自動で決まるため保存しません。タグを調べるときは getSeatTags を使います。
+   */
+  tags: string[];
 }
 
 // SeatMapData の配列は座席マップ全体を表します。
 export type SeatMap = SeatMapData[];
 
+/**
+ * 組み込みの座席タグのIDです。
+ * - front: 前列（前から SEAT_TAG_FRONT_ROW_COUNT 行目まで。位置から自動で付く）
+ * - window: 窓側
+ * - aisle: 通路側
+ * - near-door: 出入口の近く
+ */
+export type BuiltInSeatTagId = 'front' | 'window' | 'aisle' | 'near-door';
+
+/**
+ * 座席の使用可否をまとめて設定するときの並べ方です。
+ * - everyOther: 各行で1席おきに空ける（左右の隣を空席にする）
+ * - checkerboard: 市松模様に空ける（前後左右の隣を空席にする）
+ */
+export type SeatUsablePattern = 'everyOther' | 'checkerboard';
+
+/**
+ * 班（グループ活動・掃除当番・給食などで使う、隣り合った座席のまとまり）の定義です。
+ * どの座席がどの班に属するかは SeatMapData の groupId で表します。
+ */
+export interface SeatGroup {
+  /** 班の一意のID (例: "group-1") */
+  id: string;
+  /** 画面や出力に表示する班の名前 (例: "1班") */
+  name: string;
+  /** 座席表で班を塗り分ける色（"#rrggbb" 形式） */
+  color: string;
+}
+
 /**
  * 固定座席割り当ての型定義
  * 特定の生徒が、特定の座席に割り当てられていることを示します。
@@ -30,7 +79,35 @@ export interface FixedSeatAssignment {
   studentId: string;
   /**
    * 割り当てられた座席のID。
-   * 例: "Seat-1", "A-1", "B-3" など、座席を一意に識別する文字列。
+   * SeatMapData の seatId プロパティに対応します。表示には座席名（label）を使います。
    */
   seatId: string;
-}
\ No newline at end of file
+}
+/**
+ * 座席の範囲の決め方です。
+ * - seats: 座席を1つずつ選ぶ
+ * - rows: 行（前から数えた行番号）で決める
+ * - columns: 列番号で決める
+ * - tag: 座席のタグ（前列・窓側など）で決める
+ */
+export type SeatZone =
+  | { kind: 'seats'; seatIds: string[] }
+  | { kind: 'rows'; rows: number[] }
+  | { kind: 'columns'; columns: number[] }
+  | { kind: 'tag'; tag: string };
+
+export type SeatZoneKind = SeatZone['kind'];
+
+/**
+ * 座席の範囲の割り当ての型定義
+ * 特定の生徒を、範囲の中のいずれかの座席に座らせることを示します（例: 視力の弱い生徒を前から2行目までに）。
+ * 範囲の中のどの座席にするかは、ルーレット・一括割り当てでランダムに選びます（他の生徒の範囲と重ならなければ同じ確率です）。
+ * 範囲はレイアウトを変更しても決め方のまま保持し、割り当てのときに座席を求めます。
+ */
+export interface SeatZoneAssignment {
+  /**
+   * 割り当てられた生徒のID。固定座席のある生徒には設定しません。
+   */
+  studentId: string;
+  zone: SeatZone;
+}
@@ -8,7 +8,8 @@ export interface Student {
   /**
    * 生徒の一意の識別子です。
    * アプリケーション内で生徒を特定するために使用します。
-   * (UUIDなど、CSV/コピペデータにIDがない場合は生成する必要があります)
+   * 取り込み時に識別項目（既定: 出席番号 + 氏名）の値から決定的に作成されるため、
+   * 同じ名簿を読み込み直しても同じIDになります（src/utils/studentId.ts 参照）。
    */
   id: string;
 
@@ -28,22 +29,17 @@ export interface Student {
   kana: string;
 
   /**
-   * ユーザーが設定できる追加情報1です。
-   * (例: 性別)
+   * クラスごとに設定した属性の値です（例: 性別、身長、眼鏡の有無）。
+   * キーは StudentAttributeDefinition の id で、値は文字列で保存します。
+   * 数値は数字の文字列、はい/いいえは "true" / "false"、未入力は空文字列またはキーなしです。
    */
-  info1: string;
+  attributes: Record<string, string>;
 
   /**
-   * ユーザーが設定できる追加情報2です。
-   * (例: 出身学校)
+   * 今回の席替えから除外するかどうかです（長期欠席・留学中など）。
+   * 除外した生徒は名簿には残りますが、ルーレット・一括割り当ての対象にならず、座席も割り当てられません。
    */
-  info2: string;
-
-  /**
-   * ユーザーが設定できる追加情報3です。
-   * (例: 特記事項、アレルギーなど)
-   */
-  info3: string;
+  isExcluded: boolean;
 
   /**
    * この生徒が既に座席に割り当てられているか
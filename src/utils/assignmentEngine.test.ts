@@ -0,0 +1,548 @@
+// src/utils/assignmentEngine.test.ts
+
+import { describe, expect, it } from 'vitest';
+import type { AttributeRuleKind } from '../types/Constraint';
+import type { FixedSeatAssignment, SeatMap, SeatZoneAssignment } from '../types/Seat';
+import type { Student } from '../types/Student';
+import { applySeatPlacements, assignRemainingSeats, assignSeatForStudent } from './assignmentEngine';
+import type { AssignmentInput, SeatPlacement } from './assignmentEngine';
+import { createAttributeRule, evaluateAttributeRules } from './attributeRules';
+import { generateBlockGroups } from './seatGroups';
+import { createGridSeatMap, isSeatAdjacent } from './seatLayout';
+import { createKeepApartConstraint, createKeepTogetherConstraint, findSeatingConstraintViolations } from './seatingConstraints';
+import { createAttributeDefinition } from './studentAttributes';
+
+// 結果を再現できるよう、種から乱数を作る（mulberry32）
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const createStudents = (count: number): Student[] =>
+  Array.from({ length: count }, (_, index) => ({
+    id: `student-${index + 1}`,
+    number: String(index + 1),
+    name: `生徒${index + 1}`,
+    kana: '',
+    attributes: {},
+    isExcluded: false,
+    isAssigned: false,
+    assignedSeatId: null,
+  }));
+
+const createInput = (students: Student[], seatMap: SeatMap, fixedSeatAssignments: FixedSeatAssignment[] = []): AssignmentInput => ({
+  students,
+  seatMap,
+  fixedSeatAssignments,
+  seatZoneAssignments: [],
+  seatingConstraints: [],
+  attributeRules: [],
+});
+
+// 一定の回数を試し、結果ごとの回数を数える
+const countOutcomes = (runs: number, run: (random: () => number) => string) => {
+  const random = createRandom(20240401);
+  const counts = new Map<string, number>();
+  for (let i = 0; i < runs; i++) {
+    const key = run(random);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+};
+
+// 全ての結果が同じ確率で出るとしたときのカイ二乗値
+const chiSquare = (counts: Map<string, number>, outcomeCount: number, runs: number) => {
+  const expected = runs / outcomeCount;
+  return Array.from(counts.values()).reduce((sum, count) => sum + (count - expected) ** 2 / expected, 0);
+};
+
+const toSeatIds = (placements: SeatPlacement[]) => new Map(placements.map(p => [p.studentId, p.seatId]));
+
+const getSeat = (seatMap: SeatMap, seatId: string | undefined) => seatMap.find(seat => seat.seatId === seatId)!;
+
+describe('assignRemainingSeats', () => {
+  it('全員を異なる使用可能な座席に割り当て、固定座席の生徒はその座席に座らせる', () => {
+    const students = createStudents(5);
+    const seatMap = createGridSeatMap(2, 3);
+    const input = createInput(students, seatMap, [{ studentId: 'student-2', seatId: seatMap[4].seatId }]);
+
+    const result = assignRemainingSeats(input, { random: createRandom(1) });
+
+    expect(result.issues).toEqual([]);
+    expect(result.placements).toHaveLength(5);
+    expect(new Set(result.placements.map(p => p.seatId)).size).toBe(5);
+    expect(toSeatIds(result.placements).get('student-2')).toBe(seatMap[4].seatId);
+    expect(result.steps.flat()).toEqual(result.placements);
+  });
+
+  it('同じ乱数を渡すと同じ結果になる', () => {
+    const input = createInput(createStudents(6), createGridSeatMap(3, 3));
+    expect(assignRemainingSeats(input, { random: createRandom(7) })).toEqual(assignRemainingSeats(input, { random: createRandom(7) }));
+  });
+
+  it('使用不可の座席には割り当てない', () => {
+    const seatMap = createGridSeatMap(2, 3).map((seat, index) => (index % 2 === 0 ? { ...seat, isUsable: false } : seat));
+    const unusableSeatIds = new Set(seatMap.filter(seat => !seat.isUsable).map(seat => seat.seatId));
+    const input = createInput(createStudents(3), seatMap);
+    const random = createRandom(2);
+
+    for (let i = 0; i < 50; i++) {
+      const result = assignRemainingSeats(input, { random });
+      expect(result.issues).toEqual([]);
+      expect(result.placements.some(p => unusableSeatIds.has(p.seatId))).toBe(false);
+    }
+  });
+
+  it('固定座席が使用不可の場合は割り当てずに問題を返す', () => {
+    const seatMap = createGridSeatMap(2, 2).map((seat, index) => (index === 0 ? { ...seat, isUsable: false } : seat));
+    const input = createInput(createStudents(2), seatMap, [{ studentId: 'student-1', seatId: seatMap[0].seatId }]);
+
+    const result = assignRemainingSeats(input, { random: createRandom(3) });
+
+    expect(result.placements).toEqual([]);
+    expect(result.issues).toMatchObject([{ kind: 'fixedSeatUnusable', studentId: 'student-1', seatId: seatMap[0].seatId }]);
+  });
+
+  it('同じ座席が複数の生徒の固定座席になっている場合は問題を返す', () => {
+    const seatMap = createGridSeatMap(2, 2);
+    const input = createInput(createStudents(3), seatMap, [
+      { studentId: 'student-1', seatId: seatMap[1].seatId },
+      { studentId: 'student-2', seatId: seatMap[1].seatId },
+    ]);
+
+    const result = assignRemainingSeats(input, { random: createRandom(4) });
+
+    expect(result.placements).toEqual([]);
+    expect(result.issues).toMatchObject([{ kind: 'fixedSeatConflict', studentId: 'student-2', seatId: seatMap[1].seatId }]);
+  });
+
+  it('固定座席に既に他の生徒が座っている場合は問題を返す', () => {
+    const students = createStudents(3);
+    const seatMap = createGridSeatMap(2, 2);
+    // 生徒1は既に座席に座っている
+    const seated = applySeatPlacements(students, seatMap, [{ studentId: 'student-1', seatId: seatMap[0].seatId }]);
+    const input = createInput(seated.students, seated.seatMap, [{ studentId: 'student-2', seatId: seatMap[0].seatId }]);
+
+    const result = assignRemainingSeats(input, { random: createRandom(5) });
+
+    expect(result.placements).toEqual([]);
+    expect(result.issues).toMatchObject([{ kind: 'fixedSeatOccupied', studentId: 'student-2' }]);
+  });
+
+  it('生徒が空席より多い場合は割り当てずに問題を返す', () => {
+    const seatMap = createGridSeatMap(2, 2).map((seat, index) => (index === 3 ? { ...seat, isUsable: false } : seat));
+    const result = assignRemainingSeats(createInput(createStudents(4), seatMap), { random: createRandom(6) });
+
+    expect(result.placements).toEqual([]);
+    expect(result.issues).toMatchObject([{ kind: 'notEnoughSeats' }]);
+  });
+
+  it('割り当てる生徒がいない・空席がない場合は問題を返す', () => {
+    const seatMap = createGridSeatMap(1, 2);
+    expect(assignRemainingSeats(createInput([], seatMap)).issues).toMatchObject([{ kind: 'noStudents' }]);
+    const unusable = seatMap.map(seat => ({ ...seat, isUsable: false }));
+    expect(assignRemainingSeats(createInput(createStudents(1), unusable)).issues).toMatchObject([{ kind: 'noAvailableSeat' }]);
+  });
+
+  it('近くに座らせない条件を満たす割り当てだけを返す', () => {
+    const students = createStudents(4);
+    const seatMap = createGridSeatMap(2, 3);
+    const constraint = createKeepApartConstraint([], ['student-1', 'student-2'], 'notAdjacent', 2);
+    const input = { ...createInput(students, seatMap), seatingConstraints: [constraint] };
+    const random = createRandom(8);
+
+    for (let i = 0; i < 50; i++) {
+      const result = assignRemainingSeats(input, { random });
+      expect(result.issues).toEqual([]);
+      const applied = applySeatPlacements(students, seatMap, result.placements);
+      expect(findSeatingConstraintViolations([constraint], applied.students, applied.seatMap)).toEqual([]);
+    }
+  });
+
+  it('条件も座席の範囲もなければ、どの組み合わせも同じ確率で選ぶ', () => {
+    const runs = 6000;
+    const input = createInput(createStudents(3), createGridSeatMap(1, 3));
+    const counts = countOutcomes(runs, random => {
+      const seatIds = toSeatIds(assignRemainingSeats(input, { random }).placements);
+      return ['student-1', 'student-2', 'student-3'].map(id => seatIds.get(id)).join(',');
+    });
+
+    expect(counts.size).toBe(6);
+    // 自由度 5、有意水準 0.1% の棄却域
+    expect(chiSquare(counts, 6, runs)).toBeLessThan(20.52);
+  });
+
+  it('固定座席のある生徒を除いた生徒は、残りの空席のどの組み合わせも同じ確率で選ぶ', () => {
+    const runs = 6000;
+    const seatMap = createGridSeatMap(2, 2);
+    const input = createInput(createStudents(3), seatMap, [{ studentId: 'student-3', seatId: seatMap[0].seatId }]);
+    const counts = countOutcomes(runs, random => {
+      const seatIds = toSeatIds(assignRemainingSeats(input, { random }).placements);
+      expect(seatIds.get('student-3')).toBe(seatMap[0].seatId);
+      return `${seatIds.get('student-1')},${seatIds.get('student-2')}`;
+    });
+
+    expect(counts.size).toBe(6);
+    expect(chiSquare(counts, 6, runs)).toBeLessThan(20.52);
+  });
+});
+
+describe('assignSeatForStudent', () => {
+  it('固定座席のある生徒は、その座席に割り当てる', () => {
+    const seatMap = createGridSeatMap(2, 2);
+    const input = createInput(createStudents(2), seatMap, [{ studentId: 'student-1', seatId: seatMap[3].seatId }]);
+
+    const result = assignSeatForStudent(input, 'student-1', { random: createRandom(9) });
+
+    expect(result).toEqual({ placements: [{ studentId: 'student-1', seatId: seatMap[3].seatId }], issues: [] });
+  });
+
+  it('まだ座席が決まっていない他の生徒の固定座席と、使用不可の座席は選ばない', () => {
+    const seatMap = createGridSeatMap(2, 2).map((seat, index) => (index === 2 ? { ...seat, isUsable: false } : seat));
+    const input = createInput(createStudents(2), seatMap, [{ studentId: 'student-2', seatId: seatMap[0].seatId }]);
+    const random = createRandom(10);
+
+    for (let i = 0; i < 50; i++) {
+      const [placement] = assignSeatForStudent(input, 'student-1', { random }).placements;
+      expect([seatMap[1].seatId, seatMap[3].seatId]).toContain(placement.seatId);
+    }
+  });
+
+  it('固定座席が他の生徒の固定座席と重なっている場合は問題を返す', () => {
+    const seatMap = createGridSeatMap(1, 3);
+    const input = createInput(createStudents(2), seatMap, [
+      { studentId: 'student-1', seatId: seatMap[0].seatId },
+      { studentId: 'student-2', seatId: seatMap[0].seatId },
+    ]);
+
+    expect(assignSeatForStudent(input, 'student-1', { random: createRandom(11) }).issues).toEqual([]);
+    expect(assignSeatForStudent(input, 'student-2', { random: createRandom(11) })).toMatchObject({
+      placements: [],
+      issues: [{ kind: 'fixedSeatConflict', studentId: 'student-2' }],
+    });
+  });
+
+  it('空席がない場合は問題を返す', () => {
+    const students = createStudents(2);
+    const seatMap = createGridSeatMap(1, 1);
+    const seated = applySeatPlacements(students, seatMap, [{ studentId: 'student-1', seatId: seatMap[0].seatId }]);
+
+    const result = assignSeatForStudent(createInput(seated.students, seated.seatMap), 'student-2', { random: createRandom(12) });
+
+    expect(result).toMatchObject({ placements: [], issues: [{ kind: 'noAvailableSeat', studentId: 'student-2' }] });
+  });
+
+  it('先生が選んだ座席が空いていれば、その座席にする', () => {
+    const seatMap = createGridSeatMap(2, 2);
+    const input = createInput(createStudents(1), seatMap);
+
+    const result = assignSeatForStudent(input, 'student-1', { random: createRandom(13), preferredSeatId: seatMap[2].seatId });
+
+    expect(result.placements).toEqual([{ studentId: 'student-1', seatId: seatMap[2].seatId }]);
+  });
+
+  it('先生が選んだ座席が他の生徒の固定座席なら、他の座席を選ばずに問題を返す', () => {
+    const seatMap = createGridSeatMap(2, 2);
+    const input = createInput(createStudents(2), seatMap, [{ studentId: 'student-2', seatId: seatMap[1].seatId }]);
+
+    const result = assignSeatForStudent(input, 'student-1', { random: createRandom(14), preferredSeatId: seatMap[1].seatId });
+
+    expect(result).toMatchObject({
+      placements: [],
+      issues: [{ kind: 'preferredSeatUnavailable', studentId: 'student-1', seatId: seatMap[1].seatId }],
+    });
+    expect(result.issues[0].message).toContain('生徒2');
+  });
+
+  it('先生が選んだ座席が着席済み・使用不可なら、他の座席を選ばずに問題を返す', () => {
+    const students = createStudents(2);
+    const seatMap = createGridSeatMap(2, 2).map((seat, index) => (index === 3 ? { ...seat, isUsable: false } : seat));
+    const seated = applySeatPlacements(students, seatMap, [{ studentId: 'student-2', seatId: seatMap[0].seatId }]);
+    const input = createInput(seated.students, seated.seatMap);
+
+    [seatMap[0].seatId, seatMap[3].seatId].forEach(seatId => {
+      expect(assignSeatForStudent(input, 'student-1', { random: createRandom(15), preferredSeatId: seatId })).toMatchObject({
+        placements: [],
+        issues: [{ kind: 'preferredSeatUnavailable', studentId: 'student-1', seatId }],
+      });
+    });
+  });
+
+  it('空席のどれも同じ確率で選ぶ', () => {
+    const runs = 4000;
+    const input = createInput(createStudents(2), createGridSeatMap(2, 2));
+    const counts = countOutcomes(runs, random => assignSeatForStudent(input, 'student-1', { random }).placements[0].seatId);
+
+    expect(counts.size).toBe(4);
+    // 自由度 3、有意水準 0.1% の棄却域
+    expect(chiSquare(counts, 4, runs)).toBeLessThan(16.27);
+  });
+});
+
+describe('近くに座らせる条件', () => {
+  it('隣の席にする組は、一括割り当てで前後左右の隣に座らせ、同じ step で一緒に発表する', () => {
+    const students = createStudents(6);
+    const seatMap = createGridSeatMap(2, 4);
+    const constraint = createKeepTogetherConstraint([], ['student-1', 'student-2'], 'adjacent');
+    const input = { ...createInput(students, seatMap), seatingConstraints: [constraint] };
+    const random = createRandom(16);
+
+    for (let i = 0; i < 50; i++) {
+      const result = assignRemainingSeats(input, { random });
+      expect(result.issues).toEqual([]);
+      const seatIds = toSeatIds(result.placements);
+      expect(isSeatAdjacent(getSeat(seatMap, seatIds.get('student-1')), getSeat(seatMap, seatIds.get('student-2')))).toBe(true);
+      const pairStep = result.steps.find(step => step.some(p => p.studentId === 'student-1'));
+      expect(pairStep?.map(p => p.studentId).sort()).toEqual(['student-1', 'student-2']);
+      expect(result.steps).toHaveLength(5);
+    }
+  });
+
+  it('同じ班にする組は、全員を同じ班の座席に座らせる', () => {
+    const students = createStudents(5);
+    // 2行 × 2列ずつの班を2つ作る
+    const { seatMap } = generateBlockGroups(createGridSeatMap(2, 4), 2, 2);
+    const constraint = createKeepTogetherConstraint([], ['student-1', 'student-2', 'student-3'], 'sameGroup');
+    const input = { ...createInput(students, seatMap), seatingConstraints: [constraint] };
+    const random = createRandom(17);
+
+    for (let i = 0; i < 50; i++) {
+      const result = assignRemainingSeats(input, { random });
+      expect(result.issues).toEqual([]);
+      const seatIds = toSeatIds(result.placements);
+      const groupIds = new Set(['student-1', 'student-2', 'student-3'].map(id => getSeat(seatMap, seatIds.get(id)).groupId));
+      expect(groupIds.size).toBe(1);
+      expect(groupIds.has(null)).toBe(false);
+    }
+  });
+
+  it('ルーレットを止めた生徒の組の生徒も一緒に座席を決め、止めた生徒の後に続けて返す', () => {
+    const seatMap = createGridSeatMap(3, 3);
+    const constraint = createKeepTogetherConstraint([], ['student-1', 'student-2'], 'adjacent');
+    const input = { ...createInput(createStudents(4), seatMap), seatingConstraints: [constraint] };
+    const random = createRandom(18);
+
+    for (let i = 0; i < 50; i++) {
+      const result = assignSeatForStudent(input, 'student-2', { random });
+      expect(result.issues).toEqual([]);
+      expect(result.placements.map(p => p.studentId)).toEqual(['student-2', 'student-1']);
+      const [own, companion] = result.placements;
+      expect(isSeatAdjacent(getSeat(seatMap, own.seatId), getSeat(seatMap, companion.seatId))).toBe(true);
+    }
+  });
+
+  it('先生が選んだ座席の隣に組の生徒が座れない場合は問題を返す', () => {
+    // 1番目の座席の隣（2番目）は使用不可
+    const seatMap = createGridSeatMap(1, 3).map((seat, index) => (index === 1 ? { ...seat, isUsable: false } : seat));
+    const constraint = createKeepTogetherConstraint([], ['student-1', 'student-2'], 'adjacent');
+    const input = { ...createInput(createStudents(2), seatMap), seatingConstraints: [constraint] };
+
+    const result = assignSeatForStudent(input, 'student-1', { random: createRandom(19), preferredSeatId: seatMap[0].seatId });
+
+    expect(result).toMatchObject({ placements: [], issues: [{ kind: 'preferredSeatViolatesConstraint', studentId: 'student-1' }] });
+  });
+
+  it('隣どうしの空席がない場合は割り当てずに、満たせない条件を返す', () => {
+    // 使える座席は斜めに並んだ2席だけ
+    const seatMap = createGridSeatMap(2, 2).map((seat, index) => (index === 1 || index === 2 ? { ...seat, isUsable: false } : seat));
+    const constraint = createKeepTogetherConstraint([], ['student-1', 'student-2'], 'adjacent');
+    const input = { ...createInput(createStudents(2), seatMap), seatingConstraints: [constraint] };
+
+    const result = assignRemainingSeats(input, { random: createRandom(20) });
+
+    expect(result.placements).toEqual([]);
+    expect(result.issues).toMatchObject([{ kind: 'constraintUnsatisfiable' }]);
+    expect(result.issues[0].message).toContain('生徒1');
+  });
+});
+
+describe('座席の範囲', () => {
+  const withZones = (input: AssignmentInput, seatZoneAssignments: SeatZoneAssignment[]): AssignmentInput => ({ ...input, seatZoneAssignments });
+
+  it('範囲のある生徒は、範囲の中の空席から同じ確率で選ぶ', () => {
+    const runs = 3000;
+    const seatMap = createGridSeatMap(2, 3);
+    const input = withZones(createInput(createStudents(4), seatMap), [{ studentId: 'student-1', zone: { kind: 'rows', rows: [1] } }]);
+    const counts = countOutcomes(runs, random => {
+      const result = assignRemainingSeats(input, { random });
+      expect(result.issues).toEqual([]);
+      return toSeatIds(result.placements).get('student-1')!;
+    });
+
+    expect(Array.from(counts.keys()).sort()).toEqual(seatMap.filter(seat => seat.row === 1).map(seat => seat.seatId).sort());
+    // 自由度 2、有意水準 0.1% の棄却域
+    expect(chiSquare(counts, 3, runs)).toBeLessThan(13.82);
+  });
+
+  it('範囲が重なる生徒も、それぞれの範囲の中に座らせ、ありうる組み合わせをすべて選ぶ', () => {
+    const seatMap = createGridSeatMap(1, 4);
+    const [s1, s2, s3] = seatMap.map(seat => seat.seatId);
+    const input = withZones(createInput(createStudents(3), seatMap), [
+      { studentId: 'student-1', zone: { kind: 'seats', seatIds: [s1, s2, s3] } },
+      { studentId: 'student-2', zone: { kind: 'seats', seatIds: [s1, s2] } },
+    ]);
+    const counts = countOutcomes(2000, random => {
+      const result = assignRemainingSeats(input, { random });
+      expect(result.issues).toEqual([]);
+      const seatIds = toSeatIds(result.placements);
+      expect([s1, s2, s3]).toContain(seatIds.get('student-1'));
+      expect([s1, s2]).toContain(seatIds.get('student-2'));
+      return `${seatIds.get('student-1')},${seatIds.get('student-2')}`;
+    });
+
+    // 範囲が重なる場合は同じ確率にならないため、組み合わせがすべて選ばれることだけを確かめる
+    expect(Array.from(counts.keys()).sort()).toEqual([`${s1},${s2}`, `${s2},${s1}`, `${s3},${s1}`, `${s3},${s2}`]);
+  });
+
+  it('範囲に空席がない場合は問題を返す', () => {
+    const students = createStudents(3);
+    const seatMap = createGridSeatMap(2, 2);
+    // 1行目の2席には既に生徒が座っている
+    const seated = applySeatPlacements(students, seatMap, [
+      { studentId: 'student-2', seatId: seatMap[0].seatId },
+      { studentId: 'student-3', seatId: seatMap[1].seatId },
+    ]);
+    const input = withZones(createInput(seated.students, seated.seatMap), [{ studentId: 'student-1', zone: { kind: 'rows', rows: [1] } }]);
+
+    expect(assignRemainingSeats(input, { random: createRandom(21) })).toMatchObject({
+      placements: [],
+      issues: [{ kind: 'seatZoneUnavailable', studentId: 'student-1' }],
+    });
+    expect(assignSeatForStudent(input, 'student-1', { random: createRandom(21) })).toMatchObject({
+      placements: [],
+      issues: [{ kind: 'seatZoneUnavailable', studentId: 'student-1' }],
+    });
+  });
+
+  it('範囲の座席より範囲に座らせる生徒が多い場合は問題を返す', () => {
+    const seatMap = createGridSeatMap(2, 2);
+    const zone: SeatZoneAssignment['zone'] = { kind: 'seats', seatIds: [seatMap[0].seatId] };
+    const input = withZones(createInput(createStudents(2), seatMap), [
+      { studentId: 'student-1', zone },
+      { studentId: 'student-2', zone },
+    ]);
+
+    expect(assignRemainingSeats(input, { random: createRandom(22) })).toMatchObject({
+      placements: [],
+      issues: [{ kind: 'seatZoneOverCapacity' }],
+    });
+  });
+
+  it('ルーレットを止めたときも範囲の中から選び、範囲の外の座席を先生が選んだ場合は問題を返す', () => {
+    const seatMap = createGridSeatMap(2, 3);
+    const input = withZones(createInput(createStudents(2), seatMap), [{ studentId: 'student-1', zone: { kind: 'columns', columns: [1] } }]);
+    const zoneSeatIds = seatMap.filter(seat => seat.col === 1).map(seat => seat.seatId);
+    const random = createRandom(23);
+
+    for (let i = 0; i < 50; i++) {
+      const [placement] = assignSeatForStudent(input, 'student-1', { random }).placements;
+      expect(zoneSeatIds).toContain(placement.seatId);
+    }
+    expect(assignSeatForStudent(input, 'student-1', { random, preferredSeatId: zoneSeatIds[1] }).placements)
+      .toEqual([{ studentId: 'student-1', seatId: zoneSeatIds[1] }]);
+    expect(assignSeatForStudent(input, 'student-1', { random, preferredSeatId: seatMap[1].seatId })).toMatchObject({
+      placements: [],
+      issues: [{ kind: 'preferredSeatOutsideZone', studentId: 'student-1', seatId: seatMap[1].seatId }],
+    });
+  });
+
+  it('範囲のない生徒は、範囲のある生徒が範囲に座れる座席を残す', () => {
+    // 範囲の座席は1席だけで、範囲のない生徒が先に止められても空けておく
+    const seatMap = createGridSeatMap(1, 2);
+    const input = withZones(createInput(createStudents(2), seatMap), [{ studentId: 'student-1', zone: { kind: 'seats', seatIds: [seatMap[0].seatId] } }]);
+    const random = createRandom(24);
+
+    for (let i = 0; i < 20; i++) {
+      expect(assignSeatForStudent(input, 'student-2', { random }).placements).toEqual([{ studentId: 'student-2', seatId: seatMap[1].seatId }]);
+    }
+  });
+});
+
+describe('属性の並べ方', () => {
+  const gender = createAttributeDefinition([], '性別');
+  // 奇数番の生徒を男性、偶数番の生徒を女性にする
+  const createGenderStudents = (count: number) =>
+    createStudents(count).map((student, index) => ({ ...student, attributes: { [gender.id]: index % 2 === 0 ? '男性' : '女性' } }));
+  const withRules = (input: AssignmentInput, kinds: AttributeRuleKind[]): AssignmentInput => ({
+    ...input,
+    attributeRules: kinds.map((kind, index) => ({ ...createAttributeRule([], gender.id, kind), id: `attribute-rule-${index + 1}` })),
+  });
+  const evaluate = (input: AssignmentInput, placements: SeatPlacement[]) => {
+    const applied = applySeatPlacements(input.students, input.seatMap, placements);
+    return evaluateAttributeRules(input.attributeRules, [gender], applied.students, applied.seatMap);
+  };
+
+  it('一括割り当てで、市松模様にできる場合は市松模様にする', () => {
+    const input = withRules(createInput(createGenderStudents(8), createGridSeatMap(2, 4)), ['checkerboard']);
+    const random = createRandom(25);
+
+    for (let i = 0; i < 20; i++) {
+      const result = assignRemainingSeats(input, { random });
+      expect(result.issues).toEqual([]);
+      expect(evaluate(input, result.placements)).toMatchObject([{ met: 10, total: 10, penalty: 0 }]);
+    }
+  });
+
+  it('班ごとに均等にする並べ方で、各班の男女を同じ人数にする', () => {
+    const { seatMap } = generateBlockGroups(createGridSeatMap(2, 4), 2, 2);
+    const input = withRules(createInput(createGenderStudents(8), seatMap), ['balanceGroups']);
+    const random = createRandom(26);
+
+    for (let i = 0; i < 20; i++) {
+      const result = assignRemainingSeats(input, { random });
+      expect(evaluate(input, result.placements)).toMatchObject([{ met: 2, total: 2 }]);
+    }
+  });
+
+  it('固定座席・座席の範囲の生徒は動かさず、席替えの条件も満たしたまま並べ方に近づける', () => {
+    const students = createGenderStudents(6);
+    const seatMap = createGridSeatMap(2, 3);
+    const constraint = createKeepApartConstraint([], ['student-3', 'student-5'], 'notAdjacent', 2);
+    const input = withRules({
+      ...createInput(students, seatMap, [{ studentId: 'student-1', seatId: seatMap[0].seatId }]),
+      seatZoneAssignments: [{ studentId: 'student-2', zone: { kind: 'rows', rows: [2] } }],
+      seatingConstraints: [constraint],
+    }, ['checkerboard']);
+    const random = createRandom(27);
+
+    for (let i = 0; i < 20; i++) {
+      const result = assignRemainingSeats(input, { random });
+      expect(result.issues).toEqual([]);
+      const seatIds = toSeatIds(result.placements);
+      expect(seatIds.get('student-1')).toBe(seatMap[0].seatId);
+      expect(getSeat(seatMap, seatIds.get('student-2')).row).toBe(2);
+      const applied = applySeatPlacements(students, seatMap, result.placements);
+      expect(findSeatingConstraintViolations([constraint], applied.students, applied.seatMap)).toEqual([]);
+    }
+  });
+
+  it('ルーレットを止めたときも、残りの生徒を含めて並べ方に合う座席を選ぶ', () => {
+    const students = createGenderStudents(4);
+    const seatMap = createGridSeatMap(2, 2);
+    // 左上に男性の生徒1が座っている
+    const seated = applySeatPlacements(students, seatMap, [{ studentId: 'student-1', seatId: seatMap[0].seatId }]);
+    const input = withRules(createInput(seated.students, seated.seatMap), ['checkerboard']);
+    const random = createRandom(28);
+
+    for (let i = 0; i < 20; i++) {
+      // 男性の生徒3は、市松模様にするには右下に座る
+      expect(assignSeatForStudent(input, 'student-3', { random }).placements).toEqual([{ studentId: 'student-3', seatId: seatMap[3].seatId }]);
+    }
+  });
+
+  it('先生が選んだ座席は、並べ方に合わなくてもそのまま決める', () => {
+    const students = createGenderStudents(4);
+    const seatMap = createGridSeatMap(2, 2);
+    const seated = applySeatPlacements(students, seatMap, [{ studentId: 'student-1', seatId: seatMap[0].seatId }]);
+    const input = withRules(createInput(seated.students, seated.seatMap), ['checkerboard']);
+
+    expect(assignSeatForStudent(input, 'student-3', { random: createRandom(29), preferredSeatId: seatMap[1].seatId }))
+      .toEqual({ placements: [{ studentId: 'student-3', seatId: seatMap[1].seatId }], issues: [] });
+  });
+});
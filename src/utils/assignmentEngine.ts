@@ -0,0 +1,580 @@
+// src/utils/assignmentEngine.ts
+
+import type { FixedSeatAssignment, SeatMap, SeatMapData, SeatZoneAssignment } from '../types/Seat';
+import type { Student } from '../types/Student';
+import type { AttributeRule, SeatingConstraint } from '../types/Constraint';
+import { ASSIGNMENT_SAMPLING_ATTEMPTS, ASSIGNMENT_SEARCH_STEP_LIMIT, ATTRIBUTE_RULE_SWAP_ATTEMPTS } from '../constants';
+import { createAttributeRuleScorer, getAttributeRuleValue } from './attributeRules';
+import { getSeatingTargets, indexStudentsById } from './roster';
+import { getSeatLabel } from './seatLayout';
+import {
+  describeSeatingConstraint,
+  getActiveSeatingConstraints,
+  getKeepTogetherClusters,
+  isSeatPairAllowed,
+} from './seatingConstraints';
+import { describeSeatZone, getSeatZoneSeats } from './seatZones';
+
+/**
+ * 1人の生徒を1つの座席に割り当てることを表します。
+ */
+export interface SeatPlacement {
+  studentId: string;
+  seatId: string;
+}
+
+/**
+ * 割り当てのときに見つかった問題の種類です。
+ * - fixedSeatUnusable: 固定座席が存在しないか、使用不可になっている
+ * - fixedSeatOccupied: 固定座席に既に他の生徒が座っている
+ * - fixedSeatConflict: 同じ座席が複数の生徒の固定座席になっている
+ * - seatZoneUnavailable: 座席の範囲に空席がない
+ * - seatZoneOverCapacity: 座席の範囲を指定した生徒を、全員範囲の中に座らせられない
+ * - preferredSeatOutsideZone: 先生が選んだ座席が、生徒の座席の範囲の外にある
+ * - preferredSeatUnavailable: 先生が選んだ座席が、他の生徒の固定座席・着席済み・使用不可のため選べない
+ * - notEnoughSeats: 割り当てる生徒が空席より多い
+ * - noStudents: 割り当てる生徒がいない
+ * - noAvailableSeat: 割り当てられる空席がない
+ * - constraintUnsatisfiable: 席替えの条件をすべて満たす割り当てがない
+ * - constraintSearchLimit: 席替えの条件を満たす割り当てを、試す回数の上限までに見つけられなかった
+ * - preferredSeatViolatesConstraint: 先生が選んだ座席では席替えの条件を満たせない
+ */
+export type AssignmentIssueKind =
+  | 'fixedSeatUnusable'
+  | 'fixedSeatOccupied'
+  | 'fixedSeatConflict'
+  | 'seatZoneUnavailable'
+  | 'seatZoneOverCapacity'
+  | 'preferredSeatOutsideZone'
+  | 'preferredSeatUnavailable'
+  | 'notEnoughSeats'
+  | 'noStudents'
+  | 'noAvailableSeat'
+  | 'constraintUnsatisfiable'
+  | 'constraintSearchLimit'
+  | 'preferredSeatViolatesConstraint';
+
+/**
+ * 割り当てのときに見つかった問題です。問題がある場合、割り当ては行いません。
+ */
+export interface AssignmentIssue {
+  kind: AssignmentIssueKind;
+  /** 画面に表示する説明 */
+  message: string;
+  /** 問題に関係する生徒のID */
+  studentId?: string;
+  /** 問題に関係する座席のID */
+  seatId?: string;
+}
+
+/**
+ * 割り当てに使う現在の状態です。
+ */
+export interface AssignmentInput {
+  students: Student[];
+  seatMap: SeatMap;
+  fixedSeatAssignments: FixedSeatAssignment[];
+  seatZoneAssignments: SeatZoneAssignment[];
+  seatingConstraints: SeatingConstraint[];
+  attributeRules: AttributeRule[];
+}
+
+export interface AssignmentOptions {
+  /** 0 以上 1 未満の乱数を返す関数です。省略すると Math.random を使います。同じ値を返す関数を渡すと、結果を再現できます。 */
+  random?: () => number;
+}
+
+export interface SingleAssignmentOptions extends AssignmentOptions {
+  /** ルーレット中に先生が選んだ座席です。くじを引かずにこの座席にします（割り当てられない座席・席替えの条件を満たせない場合は、他の座席を選ばずに問題を返します）。 */
+  preferredSeatId?: string | null;
+}
+
+/**
+ * 割り当ての結果です。issues が空でない場合、placements は空です。
+ */
+export interface AssignmentResult {
+  /** 割り当てる順（ルーレットで1人ずつ発表する順）に並べた割り当て */
+  placements: SeatPlacement[];
+  issues: AssignmentIssue[];
+}
+
+/**
+ * 一括割り当ての結果です。近くに座らせる組の生徒は同じ step にまとめ、ルーレットで一緒に発表します。
+ */
+export interface BulkAssignmentResult extends AssignmentResult {
+  /** 発表する順に並べた割り当てのまとまり。placements はこれを順に並べたものです */
+  steps: SeatPlacement[][];
+}
+
+/**
+ * 配列を並べ替えた新しい配列を返します（Fisher–Yates）。どの並び順も同じ確率で選ばれます。
+ */
+export const shuffleItems = <T>(items: T[], random: () => number = Math.random): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+/**
+ * 割り当てを生徒と座席に反映した新しい名簿と座席マップを返します。
+ */
+export const applySeatPlacements = (
+  students: Student[],
+  seatMap: SeatMap,
+  placements: SeatPlacement[],
+): { students: Student[]; seatMap: SeatMap } => {
+  const seatIdByStudent = new Map(placements.map(placement => [placement.studentId, placement.seatId]));
+  const studentIdBySeat = new Map(placements.map(placement => [placement.seatId, placement.studentId]));
+  return {
+    students: students.map(student => {
+      const seatId = seatIdByStudent.get(student.id);
+      return seatId ? { ...student, isAssigned: true, assignedSeatId: seatId } : student;
+    }),
+    seatMap: seatMap.map(seat => {
+      const studentId = studentIdBySeat.get(seat.seatId);
+      return studentId ? { ...seat, assignedStudentId: studentId } : seat;
+    }),
+  };
+};
+
+// 固定座席を確認し、座れる固定座席を生徒IDごとに返す。座れない固定座席は issues に加える
+const resolveFixedSeats = (
+  input: AssignmentInput,
+  targetStudents: Student[],
+  issues: AssignmentIssue[],
+): Map<string, string> => {
+  const { seatMap, fixedSeatAssignments } = input;
+  const studentById = new Map(targetStudents.map(student => [student.id, student]));
+  const seatById = new Map(seatMap.map(seat => [seat.seatId, seat]));
+  const resolved = new Map<string, string>();
+  const reservedSeatIds = new Set<string>();
+
+  fixedSeatAssignments.forEach(fsa => {
+    const student = studentById.get(fsa.studentId);
+    if (!student || resolved.has(student.id)) return;
+    const seat = seatById.get(fsa.seatId);
+    const seatLabel = getSeatLabel(seatMap, fsa.seatId);
+    if (!seat || !seat.isUsable) {
+      issues.push({ kind: 'fixedSeatUnusable', message: `生徒 ${student.name} の固定座席 (${seatLabel}) は使用できません。`, studentId: student.id, seatId: fsa.seatId });
+      return;
+    }
+    if (seat.assignedStudentId && seat.assignedStudentId !== student.id) {
+      issues.push({ kind: 'fixedSeatOccupied', message: `生徒 ${student.name} の固定座席 (${seatLabel}) は既に他の生徒に割り当てられています。`, studentId: student.id, seatId: fsa.seatId });
+      return;
+    }
+    if (reservedSeatIds.has(fsa.seatId)) {
+      issues.push({ kind: 'fixedSeatConflict', message: `生徒 ${student.name} の固定座席 (${seatLabel}) は他の生徒の固定座席と重なっています。`, studentId: student.id, seatId: fsa.seatId });
+      return;
+    }
+    resolved.set(student.id, fsa.seatId);
+    reservedSeatIds.add(fsa.seatId);
+  });
+  return resolved;
+};
+
+// 固定座席と座席の範囲から、座れる座席を限った生徒ごとの座席を求める。範囲に空席のない生徒は issues に加える
+const resolveSeatDomains = (
+  input: AssignmentInput,
+  targetStudents: Student[],
+  fixedSeats: Map<string, string>,
+  freeSeats: SeatMapData[],
+  issues: AssignmentIssue[],
+): Map<string, SeatMapData[]> => {
+  const seatById = new Map(input.seatMap.map(seat => [seat.seatId, seat]));
+  const studentById = new Map(targetStudents.map(student => [student.id, student]));
+  const domains = new Map(Array.from(fixedSeats, ([studentId, seatId]) => [studentId, [seatById.get(seatId)!]]));
+  input.seatZoneAssignments.forEach(({ studentId, zone }) => {
+    const student = studentById.get(studentId);
+    // 固定座席のある生徒は、固定座席を優先する
+    if (!student || domains.has(studentId) || input.fixedSeatAssignments.some(fsa => fsa.studentId === studentId)) return;
+    const zoneSeatIds = new Set(getSeatZoneSeats(input.seatMap, zone).map(seat => seat.seatId));
+    const seats = freeSeats.filter(seat => zoneSeatIds.has(seat.seatId));
+    if (seats.length === 0) {
+      issues.push({ kind: 'seatZoneUnavailable', message: `生徒 ${student.name} の座席の範囲（${describeSeatZone(zone, input.seatMap)}）に空席がありません。`, studentId });
+      return;
+    }
+    domains.set(studentId, seats);
+  });
+  return domains;
+};
+
+// 座席を決める生徒と、その生徒が座れる座席
+interface SeatPlanRequest {
+  /** 座席を決める生徒のID */
+  studentIds: string[];
+  /** 座れる座席を限った生徒（固定座席・座席の範囲など）。ここにない生徒は freeSeats のどれにでも座れる */
+  domains: Map<string, SeatMapData[]>;
+  /** domains にない生徒が座れる空席 */
+  freeSeats: SeatMapData[];
+  /** 既に座席が決まっている生徒の座席 */
+  seatedSeats: Map<string, SeatMapData>;
+  constraints: SeatingConstraint[];
+}
+
+type SeatPlanOutcome =
+  | { placements: SeatPlacement[] }
+  | { failure: 'unsatisfiable' | 'searchLimit' };
+
+// 生徒ごとに、その生徒が含まれる条件と、同じ条件の他の生徒をまとめる
+const indexConstraintsByStudent = (constraints: SeatingConstraint[]) => {
+  const index = new Map<string, { constraint: SeatingConstraint; otherIds: string[] }[]>();
+  constraints.forEach(constraint => {
+    constraint.studentIds.forEach(id => {
+      const entries = index.get(id) ?? [];
+      entries.push({ constraint, otherIds: constraint.studentIds.filter(other => other !== id) });
+      index.set(id, entries);
+    });
+  });
+  return index;
+};
+
+// 生徒をその座席に座らせたとき、座席が決まっている同じ条件の生徒との条件を満たすかを判定する関数を作る
+const createSeatAllowedCheck = (constraints: SeatingConstraint[]) => {
+  const constraintsByStudent = indexConstraintsByStudent(constraints);
+  const isAllowed = (studentId: string, seat: SeatMapData, seatOf: Map<string, SeatMapData>) =>
+    (constraintsByStudent.get(studentId) ?? []).every(({ constraint, otherIds }) =>
+      otherIds.every(otherId => {
+        const otherSeat = seatOf.get(otherId);
+        return !otherSeat || isSeatPairAllowed(constraint, seat, otherSeat);
+      })
+    );
+  return { constraintsByStudent, isAllowed };
+};
+
+/**
+ * 席替えの条件を満たすように、生徒の座席を決めます。
+ * まず、条件を考えずにランダムに決めた割り当てを条件を満たすまで引き直します。
+ * 座れる座席を限った生徒どうしの座席が重ならなければ、条件を満たす割り当てはどれも同じ確率で選ばれます。
+ * 座席の範囲が重なる場合は、範囲のある生徒から1人ずつ順に空席を選ぶため、先に選んだ生徒の座席によって後の生徒の選べる座席の数が変わり、同じ確率にはなりません。
+ * 引き直しで見つからない場合は、条件のある生徒から順に、条件を満たす座席をランダムな順で試して探します（見つかった割り当ても同じ確率にはなりません）。
+ * 近くに座らせる組の生徒は続けて試し、1人目の座席に合わない座席をすぐに除けるようにします。
+ */
+const planSeats = (request: SeatPlanRequest, random: () => number): SeatPlanOutcome => {
+  const { studentIds, domains, freeSeats, seatedSeats, constraints } = request;
+  const { constraintsByStudent, isAllowed } = createSeatAllowedCheck(constraints);
+
+  const restrictedIds = studentIds.filter(id => domains.has(id));
+  const unrestrictedIds = studentIds.filter(id => !domains.has(id));
+  const toPlacements = (seatOf: Map<string, SeatMapData>) =>
+    studentIds.map(id => ({ studentId: id, seatId: seatOf.get(id)!.seatId }));
+
+  // ランダムな割り当てを引き直す
+  for (let attempt = 0; attempt < ASSIGNMENT_SAMPLING_ATTEMPTS; attempt++) {
+    const seatOf = new Map(seatedSeats);
+    const usedSeatIds = new Set<string>();
+    const isPlaced = restrictedIds.every(id => {
+      const candidates = domains.get(id)!.filter(seat => !usedSeatIds.has(seat.seatId));
+      if (candidates.length === 0) return false;
+      const seat = candidates[Math.floor(random() * candidates.length)];
+      seatOf.set(id, seat);
+      usedSeatIds.add(seat.seatId);
+      return true;
+    });
+    const seats = shuffleItems(freeSeats.filter(seat => !usedSeatIds.has(seat.seatId)), random);
+    if (!isPlaced || seats.length < unrestrictedIds.length) continue;
+    unrestrictedIds.forEach((id, index) => seatOf.set(id, seats[index]));
+    if (studentIds.every(id => isAllowed(id, seatOf.get(id)!, seatOf))) return { placements: toPlacements(seatOf) };
+    // 条件がなければ、引き直しても結果は変わらない
+    if (constraints.length === 0) break;
+  }
+
+  // 座れる座席の少ない生徒・条件の多い生徒から順に座席を試す。条件のない生徒は最後に残りの空席に割り当てる
+  const searchOrder = [
+    ...[...restrictedIds].sort((a, b) => domains.get(a)!.length - domains.get(b)!.length),
+    ...unrestrictedIds
+      .filter(id => constraintsByStudent.has(id))
+      .sort((a, b) => constraintsByStudent.get(b)!.length - constraintsByStudent.get(a)!.length),
+  ];
+  const searchOrderSet = new Set(searchOrder);
+  const clusters = getKeepTogetherClusters(constraints);
+  const constrainedIds: string[] = [];
+  searchOrder.forEach(id => {
+    [id, ...(clusters.get(id) ?? [])].forEach(member => {
+      if (searchOrderSet.has(member) && !constrainedIds.includes(member)) constrainedIds.push(member);
+    });
+  });
+  const seatOf = new Map(seatedSeats);
+  const usedSeatIds = new Set<string>();
+  let steps = 0;
+  const search = (index: number): boolean | 'searchLimit' => {
+    if (index === constrainedIds.length) return true;
+    const id = constrainedIds[index];
+    const candidates = shuffleItems((domains.get(id) ?? freeSeats).filter(seat => !usedSeatIds.has(seat.seatId)), random);
+    for (const seat of candidates) {
+      if (++steps > ASSIGNMENT_SEARCH_STEP_LIMIT) return 'searchLimit';
+      if (!isAllowed(id, seat, seatOf)) continue;
+      seatOf.set(id, seat);
+      usedSeatIds.add(seat.seatId);
+      const result = search(index + 1);
+      if (result !== false) return result;
+      seatOf.delete(id);
+      usedSeatIds.delete(seat.seatId);
+    }
+    return false;
+  };
+  const result = search(0);
+  if (result !== true) return { failure: result === false ? 'unsatisfiable' : 'searchLimit' };
+
+  const constrainedIdSet = new Set(constrainedIds);
+  const restIds = studentIds.filter(id => !constrainedIdSet.has(id));
+  const restSeats = shuffleItems(freeSeats.filter(seat => !usedSeatIds.has(seat.seatId)), random);
+  if (restSeats.length < restIds.length) return { failure: 'unsatisfiable' };
+  restIds.forEach((id, index) => seatOf.set(id, restSeats[index]));
+  return { placements: toPlacements(seatOf) };
+};
+
+/**
+ * 生徒の属性の並べ方（男女交互・同じ部活動を散らすなど）に近づくように、決めた割り当ての座席を入れ替えます。
+ * 座れる座席を限っていない生徒どうし、またはその生徒と使われていない空席をランダムに選んで入れ替え、
+ * 席替えの条件を満たしたまま並べ方からのずれが大きくならない場合だけ入れ替えを残します（ずれが同じ入れ替えも残し、結果がかたよらないようにします）。
+ */
+const improveAttributeRules = (
+  input: AssignmentInput,
+  request: SeatPlanRequest,
+  placements: SeatPlacement[],
+  random: () => number,
+): SeatPlacement[] => {
+  if (input.attributeRules.length === 0) return placements;
+  const studentById = indexStudentsById(input.students);
+  const scoreRules = createAttributeRuleScorer(
+    input.attributeRules,
+    input.seatMap,
+    (studentId, attributeId) => getAttributeRuleValue(studentById.get(studentId), attributeId),
+  );
+  const { isAllowed } = createSeatAllowedCheck(request.constraints);
+  const seatById = new Map(input.seatMap.map(seat => [seat.seatId, seat]));
+  const seatOf = new Map(request.seatedSeats);
+  placements.forEach(placement => seatOf.set(placement.studentId, seatById.get(placement.seatId)!));
+  const occupantBySeatId = new Map(Array.from(seatOf, ([studentId, seat]) => [seat.seatId, studentId]));
+  const getPenalty = () =>
+    scoreRules(seatId => occupantBySeatId.get(seatId) ?? null).reduce((sum, score) => sum + score.penalty, 0);
+
+  const movableIds = new Set(request.studentIds.filter(id => !request.domains.has(id)));
+  const slots = request.freeSeats.filter(seat => {
+    const occupantId = occupantBySeatId.get(seat.seatId);
+    return !occupantId || movableIds.has(occupantId);
+  });
+  // 2つの座席に座る生徒を入れ替える（片方が空席なら移動する）。もう一度呼ぶと元に戻る
+  const swap = (a: SeatMapData, b: SeatMapData) => {
+    const studentA = occupantBySeatId.get(a.seatId);
+    const studentB = occupantBySeatId.get(b.seatId);
+    occupantBySeatId.delete(a.seatId);
+    occupantBySeatId.delete(b.seatId);
+    if (studentA) { occupantBySeatId.set(b.seatId, studentA); seatOf.set(studentA, b); }
+    if (studentB) { occupantBySeatId.set(a.seatId, studentB); seatOf.set(studentB, a); }
+  };
+
+  let penalty = getPenalty();
+  for (let attempt = 0; attempt < ATTRIBUTE_RULE_SWAP_ATTEMPTS && penalty > 0 && slots.length > 1; attempt++) {
+    const a = slots[Math.floor(random() * slots.length)];
+    const b = slots[Math.floor(random() * slots.length)];
+    const studentA = occupantBySeatId.get(a.seatId);
+    const studentB = occupantBySeatId.get(b.seatId);
+    if (a === b || (!studentA && !studentB)) continue;
+    swap(a, b);
+    const isSwapAllowed = (!studentA || isAllowed(studentA, b, seatOf)) && (!studentB || isAllowed(studentB, a, seatOf));
+    const nextPenalty = isSwapAllowed ? getPenalty() : Infinity;
+    if (nextPenalty <= penalty) penalty = nextPenalty;
+    else swap(b, a);
+  }
+  return placements.map(placement => ({ studentId: placement.studentId, seatId: seatOf.get(placement.studentId)!.seatId }));
+};
+
+// 割り当てられなかった理由を調べる。条件がなくても座れなければ座席の範囲を、1つだけでも満たせない条件があればその条件を、なければ条件の組み合わせが原因であることを返す
+const explainPlanFailure = (
+  request: SeatPlanRequest,
+  failure: 'unsatisfiable' | 'searchLimit',
+  studentById: Map<string, Student>,
+  random: () => number,
+): AssignmentIssue[] => {
+  const withoutConstraints = request.constraints.length === 0
+    ? { failure }
+    : planSeats({ ...request, constraints: [] }, random);
+  if ('failure' in withoutConstraints) {
+    return [{ kind: 'seatZoneOverCapacity', message: '座席の範囲を指定した生徒を、全員範囲の中の空席に座らせることができません。範囲の座席の数を確認してください。' }];
+  }
+  if (failure === 'searchLimit') {
+    return [{ kind: 'constraintSearchLimit', message: '席替えの条件を満たす座席の割り当てを見つけられませんでした。条件を減らすか、ゆるめてください。' }];
+  }
+  const unsatisfiable = request.constraints.filter(constraint => {
+    const outcome = planSeats({ ...request, constraints: [constraint] }, random);
+    return 'failure' in outcome && outcome.failure === 'unsatisfiable';
+  });
+  if (unsatisfiable.length === 0) {
+    return [{ kind: 'constraintUnsatisfiable', message: '席替えの条件をすべて同時に満たす座席の割り当てがありません。条件を見直してください。' }];
+  }
+  return unsatisfiable.map(constraint => ({
+    kind: 'constraintUnsatisfiable',
+    message: `条件「${describeSeatingConstraint(constraint, studentById)}」を満たす座席がありません。固定座席や空席の数を確認してください。`,
+  }));
+};
+
+// 座席が決まっている生徒の座席と、まだ座席が決まっていない生徒が使える空席を求める
+const getSeatingState = (input: AssignmentInput, reservedSeatIds: Set<string>) => {
+  const seatedSeats = new Map<string, SeatMapData>();
+  const freeSeats: SeatMapData[] = [];
+  input.seatMap.forEach(seat => {
+    if (!seat.isUsable) return;
+    if (seat.assignedStudentId) seatedSeats.set(seat.assignedStudentId, seat);
+    else if (!reservedSeatIds.has(seat.seatId)) freeSeats.push(seat);
+  });
+  return { seatedSeats, freeSeats };
+};
+
+/**
+ * まだ座席が決まっていない生徒全員を、空席にランダムに割り当てます（一括割り当て）。
+ * 固定座席のある生徒はその座席に、座席の範囲のある生徒は範囲の中の空席に、残りの生徒は残りの空席に席替えの条件を満たすように割り当て、発表する順もランダムにします。
+ * 座席の範囲が重ならず、引き直しで条件を満たす割り当てが見つかる場合は、その中から同じ確率で選びます（条件と範囲がなければ、どの組み合わせも同じ確率です）。
+ * 範囲が重なる場合や、条件が厳しく座席を探して見つけた場合は、割り当てによって選ばれる確率が異なります。
+ * 生徒の属性の並べ方がある場合は、選んだ割り当ての座席を入れ替えて並べ方に近づけます。
+ * 固定座席が使えない場合、座席の範囲に座れない場合、生徒が空席より多い場合、条件を満たせない場合は割り当てを行わず、問題を返します。
+ */
+export const assignRemainingSeats = (input: AssignmentInput, options: AssignmentOptions = {}): BulkAssignmentResult => {
+  const random = options.random ?? Math.random;
+  const targetStudents = getSeatingTargets(input.students).filter(student => !student.isAssigned);
+  const availableSeats = input.seatMap.filter(seat => seat.isUsable && !seat.assignedStudentId);
+
+  if (targetStudents.length === 0) {
+    return { placements: [], steps: [], issues: [{ kind: 'noStudents', message: '割り当てる生徒がいません。' }] };
+  }
+  if (availableSeats.length === 0) {
+    return { placements: [], steps: [], issues: [{ kind: 'noAvailableSeat', message: '割り当て可能な空席がありません。' }] };
+  }
+  if (targetStudents.length > availableSeats.length) {
+    return {
+      placements: [],
+      steps: [],
+      issues: [{ kind: 'notEnoughSeats', message: `生徒 (${targetStudents.length}人) が空席 (${availableSeats.length}席) より多いため、一括割り当てできません。` }],
+    };
+  }
+
+  const issues: AssignmentIssue[] = [];
+  const fixedSeats = resolveFixedSeats(input, targetStudents, issues);
+  if (issues.length > 0) return { placements: [], steps: [], issues };
+
+  const { seatedSeats, freeSeats } = getSeatingState(input, new Set(fixedSeats.values()));
+  const domains = resolveSeatDomains(input, targetStudents, fixedSeats, freeSeats, issues);
+  if (issues.length > 0) return { placements: [], steps: [], issues };
+
+  const request: SeatPlanRequest = {
+    seatedSeats,
+    freeSeats,
+    studentIds: targetStudents.map(student => student.id),
+    domains,
+    constraints: getActiveSeatingConstraints(input.seatingConstraints, input.students),
+  };
+  const outcome = planSeats(request, random);
+  if ('failure' in outcome) {
+    return { placements: [], steps: [], issues: explainPlanFailure(request, outcome.failure, indexStudentsById(input.students), random) };
+  }
+  // 近くに座らせる組はまとめ、固定座席・ランダムの区別なく発表する順をシャッフル
+  const clusters = getKeepTogetherClusters(request.constraints);
+  const stepByStudentId = new Map<string, SeatPlacement[]>();
+  improveAttributeRules(input, request, outcome.placements, random).forEach(placement => {
+    const memberIds = clusters.get(placement.studentId) ?? [placement.studentId];
+    const step = memberIds.map(id => stepByStudentId.get(id)).find(existing => existing) ?? [];
+    step.push(placement);
+    stepByStudentId.set(placement.studentId, step);
+  });
+  const steps = shuffleItems(Array.from(new Set(stepByStudentId.values())), random);
+  return { placements: steps.flat(), steps, issues: [] };
+};
+
+/**
+ * 1人の生徒の座席を決めます（ルーレットを止めたとき）。
+ * 固定座席のある生徒はその座席に、先生が選んだ座席があればその座席に、それ以外は空席（座席の範囲のある生徒は範囲の中の空席）からランダムに選びます。
+ * 先生が選んだ座席が他の生徒の固定座席・着席済み・使用不可の場合は、ランダムに選び直さずに問題を返します。
+ * まだ座席が決まっていない他の生徒の固定座席は、選ぶ候補から外します。
+ * 席替えの条件がある場合は、残りの生徒も条件を満たして座れる座席だけを選びます（空席が足りない間は、座席が決まっている生徒との条件と、固定座席・座席の範囲のある生徒が座れることだけを確かめます）。
+ * 近くに座らせる組の生徒は、まだ座席が決まっていなければ一緒に座席を決め、選んだ生徒の後に続けて返します。
+ * 生徒の属性の並べ方がある場合は、残りの生徒も含めて並べ方に近づけた割り当てから座席を選びます。
+ */
+export const assignSeatForStudent = (
+  input: AssignmentInput,
+  studentId: string,
+  options: SingleAssignmentOptions = {},
+): AssignmentResult => {
+  const random = options.random ?? Math.random;
+  const targetStudents = getSeatingTargets(input.students).filter(student => !student.isAssigned);
+  const student = targetStudents.find(s => s.id === studentId);
+  if (!student) {
+    return { placements: [], issues: [{ kind: 'noStudents', message: '座席を割り当てる生徒が選択されていません。' }] };
+  }
+
+  const issues: AssignmentIssue[] = [];
+  const fixedSeats = resolveFixedSeats(input, targetStudents, issues);
+  const { seatedSeats, freeSeats } = getSeatingState(input, new Set(fixedSeats.values()));
+  if (!fixedSeats.has(student.id) && freeSeats.length === 0 && !issues.some(issue => issue.studentId === student.id)) {
+    return { placements: [], issues: [{ kind: 'noAvailableSeat', message: '割り当て可能な空席が見つかりませんでした。', studentId: student.id }] };
+  }
+  const domains = resolveSeatDomains(input, targetStudents, fixedSeats, freeSeats, issues);
+  const ownIssues = issues.filter(issue => issue.studentId === student.id);
+  if (ownIssues.length > 0) return { placements: [], issues: ownIssues };
+
+  const preferredSeat = freeSeats.find(seat => seat.seatId === options.preferredSeatId);
+  // 選んだ座席が空席でなければ、黙ってランダムに選び直さずに問題を返す
+  if (options.preferredSeatId && !preferredSeat && !fixedSeats.has(student.id)) {
+    const seatId = options.preferredSeatId;
+    const seatLabel = input.seatMap.find(seat => seat.seatId === seatId)?.label ?? seatId;
+    const ownerId = Array.from(fixedSeats).find(([, fixedSeatId]) => fixedSeatId === seatId)?.[0];
+    const owner = targetStudents.find(s => s.id === ownerId);
+    return {
+      placements: [],
+      issues: [{
+        kind: 'preferredSeatUnavailable',
+        message: owner
+          ? `選んだ座席 (${seatLabel}) は、生徒 ${owner.name} の固定座席です。`
+          : `選んだ座席 (${seatLabel}) は空いていないか、使用できません。`,
+        studentId: student.id,
+        seatId,
+      }],
+    };
+  }
+  if (preferredSeat && !fixedSeats.has(student.id)) {
+    const zoneSeats = domains.get(student.id);
+    if (zoneSeats && !zoneSeats.includes(preferredSeat)) {
+      return {
+        placements: [],
+        issues: [{ kind: 'preferredSeatOutsideZone', message: `選んだ座席 (${preferredSeat.label}) は、生徒 ${student.name} の座席の範囲の外にあります。`, studentId: student.id, seatId: preferredSeat.seatId }],
+      };
+    }
+    domains.set(student.id, [preferredSeat]);
+  }
+
+  // 固定座席・座席の範囲に座れない生徒は、その生徒の番で問題を返すため、ここでは座席を決めない
+  const blockedIds = new Set(issues.map(issue => issue.studentId));
+  const plannableIds = targetStudents.map(s => s.id).filter(id => !blockedIds.has(id));
+  const canSeatEveryone = plannableIds.filter(id => !fixedSeats.has(id)).length <= freeSeats.length;
+  const constraints = getActiveSeatingConstraints(input.seatingConstraints, input.students);
+  const companionIds = (getKeepTogetherClusters(constraints).get(student.id) ?? [])
+    .filter(id => id !== student.id && plannableIds.includes(id));
+  const request: SeatPlanRequest = {
+    studentIds: canSeatEveryone
+      ? plannableIds
+      : plannableIds.filter(id => id === student.id || domains.has(id) || companionIds.includes(id)),
+    domains,
+    freeSeats,
+    seatedSeats,
+    constraints,
+  };
+  const outcome = planSeats(request, random);
+  if ('failure' in outcome) {
+    if (preferredSeat && !fixedSeats.has(student.id)) {
+      return {
+        placements: [],
+        issues: [{ kind: 'preferredSeatViolatesConstraint', message: `選んだ座席 (${preferredSeat.label}) では席替えの条件を満たせません。`, studentId: student.id, seatId: preferredSeat.seatId }],
+      };
+    }
+    return { placements: [], issues: explainPlanFailure(request, outcome.failure, indexStudentsById(input.students), random) };
+  }
+  const placementById = new Map(
+    improveAttributeRules(input, request, outcome.placements, random).map(placement => [placement.studentId, placement])
+  );
+  return {
+    placements: [student.id, ...companionIds].flatMap(id => placementById.get(id) ?? []),
+    issues: [],
+  };
+};
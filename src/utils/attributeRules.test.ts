@@ -0,0 +1,54 @@
+// src/utils/attributeRules.test.ts
+
+import { describe, expect, it } from 'vitest';
+import type { AttributeRuleKind } from '../types/Constraint';
+import type { SeatMap } from '../types/Seat';
+import { createAttributeRule, createAttributeRuleScorer } from './attributeRules';
+import { createGridSeatMap, isSeatAdjacent, moveSeat } from './seatLayout';
+import { createKeepTogetherConstraint, isSeatPairAllowed } from './seatingConstraints';
+
+// 座席IDと同じIDの生徒が座り、values の値を持つものとして並べ方を判定する
+const scoreRule = (kind: AttributeRuleKind, seatMap: SeatMap, values: Record<string, string>) => {
+  const score = createAttributeRuleScorer([createAttributeRule([], 'attr-1', kind)], seatMap, studentId => values[studentId] ?? '');
+  const [{ met, total }] = score(seatId => seatId);
+  return { met, total };
+};
+
+describe('createAttributeRuleScorer', () => {
+  it('格子状の配置では、行番号・列番号で隣どうしの組を数える', () => {
+    const seatMap = createGridSeatMap(2, 3);
+    // 市松模様に並べた値
+    const values = Object.fromEntries(seatMap.map(seat => [seat.seatId, (seat.row + seat.col) % 2 === 0 ? '男性' : '女性']));
+
+    expect(scoreRule('checkerboard', seatMap, values)).toEqual({ met: 7, total: 7 });
+    expect(scoreRule('alternateInRow', seatMap, values)).toEqual({ met: 4, total: 4 });
+    // 斜めの隣 4 組は同じ値になる
+    expect(scoreRule('noAdjacentSame', seatMap, values)).toEqual({ met: 7, total: 11 });
+  });
+
+  it('自由に配置した座席は、席替えの条件と同じくレイアウト上の位置で隣を判定する', () => {
+    const [template] = createGridSeatMap(1, 1);
+    // 横に少し間を空けて並べた2席。位置から求めた列番号は 1 と 3 になるが、実際には隣どうし
+    const a = moveSeat(template, 55, 0);
+    const b = moveSeat({ ...template, seatId: 'seat-2' }, 185, 0);
+    const seatMap = [a, b];
+    expect(b.col - a.col).toBe(2);
+    expect(isSeatAdjacent(a, b)).toBe(true);
+    expect(isSeatPairAllowed(createKeepTogetherConstraint([], ['a', 'b'], 'adjacent'), a, b)).toBe(true);
+
+    expect(scoreRule('checkerboard', seatMap, { [a.seatId]: '男性', [b.seatId]: '女性' })).toEqual({ met: 1, total: 1 });
+    expect(scoreRule('alternateInRow', seatMap, { [a.seatId]: '男性', [b.seatId]: '女性' })).toEqual({ met: 1, total: 1 });
+    expect(scoreRule('noAdjacentSame', seatMap, { [a.seatId]: 'サッカー部', [b.seatId]: 'サッカー部' })).toEqual({ met: 0, total: 1 });
+  });
+
+  it('自由に配置した座席で、同じ列番号でも離れている座席は隣と数えない', () => {
+    const [template] = createGridSeatMap(1, 1);
+    // 前後に 2 席分離れた2席
+    const a = moveSeat(template, 0, 0);
+    const b = moveSeat({ ...template, seatId: 'seat-2' }, 0, 200);
+    const seatMap = [a, b];
+
+    expect(scoreRule('checkerboard', seatMap, { [a.seatId]: '男性', [b.seatId]: '男性' })).toEqual({ met: 0, total: 0 });
+    expect(scoreRule('noAdjacentSame', seatMap, { [a.seatId]: '男性', [b.seatId]: '男性' })).toEqual({ met: 0, total: 0 });
+  });
+});
@@ -0,0 +1,157 @@
+// src/utils/attributeRules.ts
+
+import type { AttributeRule, AttributeRuleKind } from '../types/Constraint';
+import type { StudentAttributeSchema } from '../types/Attribute';
+import type { SeatMap, SeatMapData } from '../types/Seat';
+import type { Student } from '../types/Student';
+import { ATTRIBUTE_RULE_KINDS } from '../constants';
+import { getSeatingTargets } from './roster';
+import { getSeatDistance, isSeatAdjacent, isSeatSideBySide } from './seatLayout';
+
+/**
+ * 座席が並べ方にどれだけ合っているかです。
+ * 隣の席の並べ方は「値のある生徒どうしの隣の組」を、均等にする並べ方は「値のある生徒が座っている班・行」を数えます。
+ */
+export interface AttributeRuleScore {
+  rule: AttributeRule;
+  /** 並べ方に合っている組・班・行の数 */
+  met: number;
+  /** 数えた組・班・行の数。0 の場合は判定できる生徒・班がありません */
+  total: number;
+  /** 並べ方からのずれの大きさです。割り当てではこの値が小さくなるように座席を選び、0 なら完全に合っています */
+  penalty: number;
+}
+
+// 隣の席の並べ方で比べる隣どうしの判定。席替えの条件と同じく、自由に配置した座席でも行番号・列番号ではなくレイアウト上の位置で判定する
+const NEIGHBOR_TESTS: Partial<Record<AttributeRuleKind, (a: SeatMapData, b: SeatMapData) => boolean>> = {
+  checkerboard: isSeatAdjacent,
+  alternateInRow: isSeatSideBySide,
+  noAdjacentSame: (a, b) => getSeatDistance(a, b) === 1,
+};
+
+/**
+ * 既存の並べ方と重複しないIDを作成します（"attribute-rule-1", "attribute-rule-2" ...）。
+ */
+export const createAttributeRuleId = (rules: AttributeRule[]): string => {
+  const usedIds = new Set(rules.map(rule => rule.id));
+  let index = rules.length + 1;
+  while (usedIds.has(`attribute-rule-${index}`)) index++;
+  return `attribute-rule-${index}`;
+};
+
+/**
+ * 属性を使った座席の並べ方を作成します。
+ */
+export const createAttributeRule = (
+  rules: AttributeRule[],
+  attributeId: string,
+  kind: AttributeRuleKind,
+): AttributeRule => ({
+  id: createAttributeRuleId(rules),
+  attributeId,
+  kind,
+});
+
+/**
+ * 並べ方を画面に表示する文に変換します（例: "性別: 市松模様にする"）。
+ */
+export const describeAttributeRule = (rule: AttributeRule, schema: StudentAttributeSchema): string => {
+  const name = schema.find(def => def.id === rule.attributeId)?.name ?? '（削除された属性）';
+  return `${name}: ${ATTRIBUTE_RULE_KINDS[rule.kind].label}`;
+};
+
+/**
+ * 生徒の属性の値を返します。値のない生徒は空文字を返し、並べ方の対象にしません。
+ */
+export const getAttributeRuleValue = (student: Student | undefined, attributeId: string): string =>
+  student?.attributes[attributeId]?.trim() ?? '';
+
+/**
+ * 座席の並べ方を判定する関数を作成します。座席の位置の索引を最初に作り、入れ替えた割り当てを何度も判定できるようにします。
+ * 返す関数には、座席IDからその座席に座る生徒のIDを返す関数を渡します。
+ */
+export const createAttributeRuleScorer = (
+  rules: AttributeRule[],
+  seatMap: SeatMap,
+  valueOf: (studentId: string, attributeId: string) => string,
+): ((occupantOf: (seatId: string) => string | null) => AttributeRuleScore[]) => {
+  const seats = seatMap.filter(seat => seat.isUsable);
+  // 並べ方の種類ごとの隣どうしの座席の組。同じ組を2回数えないよう、1組ずつ持つ
+  const neighborPairs = new Map<AttributeRuleKind, [SeatMapData, SeatMapData][]>();
+  rules.forEach(rule => {
+    const isNeighbor = NEIGHBOR_TESTS[rule.kind];
+    if (!isNeighbor || neighborPairs.has(rule.kind)) return;
+    neighborPairs.set(rule.kind, seats.flatMap((seat, i) =>
+      seats.slice(i + 1).filter(other => isNeighbor(seat, other)).map(other => [seat, other] as [SeatMapData, SeatMapData])));
+  });
+
+  return (occupantOf) => rules.map(rule => {
+    const valueAt = (seat: SeatMapData): string => {
+      const studentId = occupantOf(seat.seatId);
+      return studentId ? valueOf(studentId, rule.attributeId) : '';
+    };
+
+    const pairs = neighborPairs.get(rule.kind);
+    if (pairs) {
+      let met = 0;
+      let total = 0;
+      pairs.forEach(([seat, neighbor]) => {
+        const value = valueAt(seat);
+        const neighborValue = value ? valueAt(neighbor) : '';
+        if (!neighborValue) return;
+        total++;
+        if (neighborValue !== value) met++;
+      });
+      return { rule, met, total, penalty: total - met };
+    }
+
+    // 班・行ごとの値の人数を、クラス全体の割合から求めた人数と比べる
+    const countsByUnit = new Map<string, Map<string, number>>();
+    const overall = new Map<string, number>();
+    let seatedCount = 0;
+    seats.forEach(seat => {
+      const unit = rule.kind === 'balanceGroups' ? seat.groupId : String(seat.row);
+      const value = valueAt(seat);
+      if (!unit || !value) return;
+      const counts = countsByUnit.get(unit) ?? new Map<string, number>();
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+      countsByUnit.set(unit, counts);
+      overall.set(value, (overall.get(value) ?? 0) + 1);
+      seatedCount++;
+    });
+    let met = 0;
+    let penalty = 0;
+    countsByUnit.forEach(counts => {
+      const unitSize = Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
+      let isBalanced = true;
+      overall.forEach((overallCount, value) => {
+        const deviation = (counts.get(value) ?? 0) - unitSize * overallCount / seatedCount;
+        penalty += deviation * deviation;
+        if (Math.abs(deviation) >= 1) isBalanced = false;
+      });
+      if (isBalanced) met++;
+    });
+    return { rule, met, total: countsByUnit.size, penalty };
+  });
+};
+
+/**
+ * 現在の座席が、属性の並べ方にどれだけ合っているかを求めます（座席表での確認用）。
+ * 削除された属性の並べ方と、席替えから除外された生徒は判定しません。
+ */
+export const evaluateAttributeRules = (
+  rules: AttributeRule[],
+  schema: StudentAttributeSchema,
+  students: Student[],
+  seatMap: SeatMap,
+): AttributeRuleScore[] => {
+  const activeRules = rules.filter(rule => schema.some(def => def.id === rule.attributeId));
+  const studentById = new Map(getSeatingTargets(students).map(student => [student.id, student]));
+  const occupantBySeatId = new Map(seatMap.map(seat => [seat.seatId, seat.assignedStudentId]));
+  const score = createAttributeRuleScorer(
+    activeRules,
+    seatMap,
+    (studentId, attributeId) => getAttributeRuleValue(studentById.get(studentId), attributeId),
+  );
+  return score(seatId => occupantBySeatId.get(seatId) ?? null);
+};
@@ -0,0 +1,86 @@
+// src/utils/chartOrientation.ts
+
+import type { SeatMap } from '../types/Seat';
+import type { RoomFeature } from '../types/RoomFeature';
+import type { ChartOrientation } from '../types/ChartOrientation';
+import { SEAT_LAYOUT_GAP, SEAT_LAYOUT_HEIGHT, SEAT_LAYOUT_WIDTH } from '../constants';
+import { getLayoutBounds } from './seatLayout';
+
+/**
+ * 座席表の向きで、黒板（前）が画面のどちら側に来るかを求めます。
+ */
+export const getFrontSide = (orientation: ChartOrientation): 'top' | 'bottom' | 'left' | 'right' => {
+  switch (orientation) {
+    case 'teacher': return 'bottom';
+    case 'left': return 'left';
+    case 'right': return 'right';
+    default: return 'top';
+  }
+};
+
+/**
+ * 座席と設備を、指定した向きから見た位置に並べ替えます。保存しているレイアウトは変更せず、表示にだけ使います。
+ * 座席の名前や生徒名が読めるよう、座席そのものは回転させず、位置だけを動かします。
+ * 左右から見た向きでは座席の縦横の間隔が入れ替わるため、座席が重ならないよう位置を縦横に伸縮します。
+ */
+export const orientLayout = (
+  seatMap: SeatMap,
+  roomFeatures: RoomFeature[],
+  orientation: ChartOrientation,
+): { seatMap: SeatMap; roomFeatures: RoomFeature[] } => {
+  if (orientation === 'student') return { seatMap, roomFeatures };
+
+  const bounds = getLayoutBounds(seatMap, roomFeatures);
+  const isSide = orientation === 'left' || orientation === 'right';
+  const scaleX = isSide ? (SEAT_LAYOUT_WIDTH + SEAT_LAYOUT_GAP) / (SEAT_LAYOUT_HEIGHT + SEAT_LAYOUT_GAP) : 1;
+  const scaleY = 1 / scaleX;
+
+  // 中心の位置を、範囲の左上を原点とした座標で向きに合わせて動かす
+  const orientCenter = (centerX: number, centerY: number) => {
+    const x = centerX - bounds.left;
+    const y = centerY - bounds.top;
+    switch (orientation) {
+      case 'teacher': return { x: bounds.width - x, y: bounds.height - y };
+      case 'left': return { x: y * scaleX, y: (bounds.width - x) * scaleY };
+      default: return { x: (bounds.height - y) * scaleX, y: x * scaleY };
+    }
+  };
+
+  const orientedSeats = seatMap.map(seat => {
+    const center = orientCenter(seat.x + SEAT_LAYOUT_WIDTH / 2, seat.y + SEAT_LAYOUT_HEIGHT / 2);
+    return { ...seat, x: center.x - SEAT_LAYOUT_WIDTH / 2, y: center.y - SEAT_LAYOUT_HEIGHT / 2 };
+  });
+  const orientedFeatures = roomFeatures.map(feature => {
+    const center = orientCenter(feature.x + feature.width / 2, feature.y + feature.height / 2);
+    const width = isSide ? feature.height * scaleX : feature.width;
+    const height = isSide ? feature.width * scaleY : feature.height;
+    return { ...feature, x: center.x - width / 2, y: center.y - height / 2, width, height };
+  });
+
+  // 座席の位置は原点より右下に置く前提のため、はみ出した分だけ全体をずらす
+  const offsetX = Math.min(0, ...orientedSeats.map(seat => seat.x));
+  const offsetY = Math.min(0, ...orientedSeats.map(seat => seat.y));
+  return {
+    seatMap: orientedSeats.map(seat => ({ ...seat, x: seat.x - offsetX, y: seat.y - offsetY })),
+    roomFeatures: orientedFeatures.map(feature => ({ ...feature, x: feature.x - offsetX, y: feature.y - offsetY })),
+  };
+};
+
+/**
+ * 表形式の出力（行番号・列番号）で、座席の行と列を指定した向きから見た位置に並べ替えます。
+ * 左右から見た向きでは行と列が入れ替わるため、並べ替えた後の行数・列数も返します。
+ */
+export const orientGridPosition = (
+  row: number,
+  col: number,
+  rowCount: number,
+  colCount: number,
+  orientation: ChartOrientation,
+): { row: number; col: number; rowCount: number; colCount: number } => {
+  switch (orientation) {
+    case 'teacher': return { row: rowCount - row + 1, col: colCount - col + 1, rowCount, colCount };
+    case 'left': return { row: colCount - col + 1, col: row, rowCount: colCount, colCount: rowCount };
+    case 'right': return { row: col, col: rowCount - row + 1, rowCount: colCount, colCount: rowCount };
+    default: return { row, col, rowCount, colCount };
+  }
+};
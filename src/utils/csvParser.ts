@@ -1,16 +1,31 @@
 import Papa from 'papaparse';
 import type { Student } from '../types/Student';
-import { CSV_DELIMITERS } from '../constants';
+import type { StudentAttributeSchema } from '../types/Attribute';
+import type {
+  AttributeColumnTarget,
+  ColumnMapping,
+  ColumnTarget,
+  ImportIssue,
+  SourceTable,
+  StudentIdentityField,
+  StudentImportField,
+  StudentImportResult,
+} from '../types/Import';
+import { ATTRIBUTE_TYPE_LABELS, COLUMN_TARGET_LABELS, STUDENT_CORE_FIELDS, CSV_DELIMITERS, COLUMN_HEADER_ALIASES, DEFAULT_COLUMN_TARGETS, DEFAULT_IDENTITY_FIELDS } from '../constants';
+import { assignStableStudentIds } from './studentId';
+import { createAttributeDefinition, normalizeAttributeValue } from './studentAttributes';
 
 // header: false で全行をデータ行として扱う。先頭行を読み飛ばす header: true はバグの原因になるため使わない。
-export const parseStudentData = (text: string, delimitersToGuess: string[] = CSV_DELIMITERS): Student[] => {
+// 見出し行の扱いは detectHeaderRow と ColumnMapping.hasHeader で明示的に行う。
+// 取り込み元の行番号を保つため、空行は Papa.parse ではなくここで読み飛ばす。
+export const parseCsvRows = (text: string, delimitersToGuess: string[] = CSV_DELIMITERS): SourceTable => {
   let parsedResult: Papa.ParseResult<string[]>;
 
   try {
     parsedResult = Papa.parse<string[]>(text, {
       header: false,
       dynamicTyping: false,
-      skipEmptyLines: true,
+      skipEmptyLines: false,
       delimiter: '',
       delimitersToGuess: delimitersToGuess,
     });
@@ -18,41 +33,384 @@ export const parseStudentData = (text: string, delimitersToGuess: string[] = CSV
     throw new Error(`CSVパース中に予期せぬエラーが発生しました: ${error instanceof Error ? error.message : String(error)}`);
   }
 
-  if (parsedResult.errors.length > 0) {
-    console.warn('Papa.parse detected format errors:', parsedResult.errors);
+  const rows: string[][] = [];
+  const lineNumbers: number[] = [];
+  parsedResult.data.forEach((row, index) => {
+    const cells = row.map(cell => String(cell ?? '').trim());
+    if (cells.every(cell => cell === '')) return;
+    rows.push(cells);
+    lineNumbers.push(index + 1);
+  });
+
+  const issues: ImportIssue[] = parsedResult.errors.map(error => ({
+    kind: 'formatError',
+    severity: 'warning',
+    line: typeof error.row === 'number' ? error.row + 1 : null,
+    message: `形式エラー: ${error.message}`,
+    skipped: false,
+  }));
+
+  return { rows, lineNumbers, issues };
+};
+
+const normalizeHeader = (value: string): string => value.replace(/\s/g, '').toLowerCase();
+
+/**
+ * 見出しの文字列から、対応する割り当て先（基本項目または既存の属性）を推測します。
+ * 該当するものがなければ null を返します。
+ */
+const matchHeaderToTarget = (header: string, schema: StudentAttributeSchema = []): ColumnTarget | null => {
+  const normalized = normalizeHeader(header);
+  if (!normalized) return null;
+  const entry = (Object.entries(COLUMN_HEADER_ALIASES) as [StudentImportField, readonly string[]][])
+    .find(([, aliases]) => aliases.some(alias => normalizeHeader(alias) === normalized));
+  if (entry) return entry[0];
+  const attribute = schema.find(def => normalizeHeader(def.name) === normalized);
+  return attribute ? toAttributeTarget(attribute.id) : null;
+};
+
+/**
+ * 属性IDから、列の割り当て先の値を作成します。
+ */
+export const toAttributeTarget = (attributeId: string): AttributeColumnTarget => `attribute:${attributeId}`;
+
+/**
+ * 列の割り当て先が既存の属性であれば、その属性IDを返します。
+ */
+export const getTargetAttributeId = (target: ColumnTarget): string | null =>
+  target.startsWith('attribute:') ? target.slice('attribute:'.length) : null;
+
+/**
+ * 1行目が見出し行かどうかを推測します。
+ * 既知の見出し（氏名・番号・属性名など）を含むか、2行目以降で数字が入っている列が1行目だけ数字でない場合に見出しとみなします。
+ */
+export const detectHeaderRow = (rows: string[][], schema: StudentAttributeSchema = []): boolean => {
+  if (rows.length === 0) return false;
+  const [firstRow, ...dataRows] = rows;
+
+  if (firstRow.some(cell => matchHeaderToTarget(cell, schema) !== null)) return true;
+  if (dataRows.length === 0) return false;
+
+  const isNumeric = (value: string) => /^\d+$/.test(value);
+  return firstRow.some((cell, colIndex) => {
+    if (isNumeric(cell)) return false;
+    const numericCount = dataRows.filter(row => isNumeric(row[colIndex] ?? '')).length;
+    return numericCount > 0 && numericCount >= dataRows.length / 2;
+  });
+};
+
+/**
+ * 列の位置だけで割り当てを作成します（出席番号・氏名・ふりがな、以降は既存の属性、残りは新しい属性）。
+ */
+const positionalTargets = (columnCount: number, schema: StudentAttributeSchema): ColumnTarget[] => {
+  const targets: ColumnTarget[] = [...DEFAULT_COLUMN_TARGETS, ...schema.map(def => toAttributeTarget(def.id))];
+  return Array.from({ length: columnCount }, (_, i) => targets[i] ?? 'newAttribute');
+};
+
+/**
+ * 列数と見出し行（あれば）から、初期状態の列の割り当てを作成します。
+ * 見出しが既存の属性名と一致する列はその属性に、判別できない列は新しい属性として割り当てます。
+ * 見出しで氏名・番号を判別できない場合は、列の位置で割り当てます。
+ */
+export const guessColumnMapping = (
+  rows: string[][],
+  hasHeader: boolean = detectHeaderRow(rows),
+  schema: StudentAttributeSchema = [],
+): ColumnMapping => {
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const headers = hasHeader && rows.length > 0 ? rows[0] : undefined;
+
+  let columns: ColumnTarget[];
+  if (headers) {
+    const used = new Set<ColumnTarget>();
+    columns = Array.from({ length: columnCount }, (_, i) => {
+      const header = headers[i] ?? '';
+      const target = matchHeaderToTarget(header, schema);
+      if (!target || used.has(target)) return header ? 'newAttribute' : 'ignore';
+      used.add(target);
+      return target;
+    });
+    // 見出しから氏名・番号が一つも判別できなければ、列の位置での割り当てにフォールバックする
+    if (!used.has('name') && !used.has('number')) {
+      columns = positionalTargets(columnCount, schema);
+    }
+  } else {
+    columns = positionalTargets(columnCount, schema);
   }
 
-  const students: Student[] = parsedResult.data
-    .map((row: string[], index: number) => {
-      const number = String(row[0] || '').trim();
-      const name = String(row[1] || '').trim();
-      const kana = String(row[2] || '').trim();
-      const info1 = String(row[3] || '').trim();
-      const info2 = String(row[4] || '').trim();
-      const info3 = String(row[5] || '').trim();
-
-      if (!number) {
-        console.warn(`行 ${index + 1}: 1列目（出席番号）が空のためスキップします。`);
-        return null;
-      }
-      if (!name) {
-        console.warn(`行 ${index + 1}: 2列目（氏名）が空のためスキップします。`);
-        return null;
+  return { hasHeader, columns, headers };
+};
+
+/**
+ * 前回保存した割り当てを今回の取り込みデータに適用します。
+ * 見出し行がある場合は見出しの名前で、ない場合は列の位置で対応付けます。
+ * 削除済みの属性への割り当ては、新しい属性としての割り当てに置き換えます。
+ * 保存済みの割り当てがない、または適用できない場合は guessColumnMapping の結果を返します。
+ */
+export const resolveColumnMapping = (
+  rows: string[][],
+  saved: ColumnMapping | null,
+  schema: StudentAttributeSchema = [],
+): ColumnMapping => {
+  const hasHeader = detectHeaderRow(rows, schema);
+  const guessed = guessColumnMapping(rows, hasHeader, schema);
+  if (!saved) return guessed;
+
+  const columnCount = guessed.columns.length;
+  const attributeIds = new Set(schema.map(def => def.id));
+  const keepIfValid = (target: ColumnTarget | undefined): ColumnTarget | undefined => {
+    if (!target) return undefined;
+    const attributeId = getTargetAttributeId(target);
+    if (attributeId) return attributeIds.has(attributeId) ? target : 'newAttribute';
+    // 以前の形式の割り当て（情報1〜3）は新しい属性として読み込む
+    const knownTargets: ColumnTarget[] = [...STUDENT_CORE_FIELDS, 'newAttribute', 'ignore'];
+    return knownTargets.includes(target) ? target : 'newAttribute';
+  };
+
+  if (hasHeader && saved.headers && saved.headers.length > 0) {
+    const savedByHeader = new Map<string, ColumnTarget>();
+    saved.headers.forEach((header, i) => {
+      const target = keepIfValid(saved.columns[i]);
+      if (target) savedByHeader.set(normalizeHeader(header), target);
+    });
+    const headers = rows[0];
+    const matchedAny = headers.some(header => savedByHeader.has(normalizeHeader(header)));
+    if (!matchedAny) return guessed;
+    return {
+      hasHeader,
+      headers,
+      columns: Array.from({ length: columnCount }, (_, i) =>
+        savedByHeader.get(normalizeHeader(headers[i] ?? '')) ?? guessed.columns[i] ?? 'ignore'),
+    };
+  }
+
+  if (!hasHeader && !saved.hasHeader) {
+    return {
+      hasHeader,
+      columns: Array.from({ length: columnCount }, (_, i) => keepIfValid(saved.columns[i]) ?? 'ignore'),
+    };
+  }
+
+  return guessed;
+};
+
+/**
+ * 取り込み元の表が変わったときに、現在の列の割り当てをそのまま使えるかを判定します。
+ * 見出し行（1行目）と列数が変わっていなければ、テキストの編集などでデータ行が変わっても、利用者が変更した割り当てを残します。
+ */
+export const canKeepColumnMapping = (mapping: ColumnMapping, previousRows: string[][], rows: string[][]): boolean => {
+  if (previousRows.length === 0 || rows.length === 0) return false;
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const [previousHeader, header] = [previousRows[0], rows[0]];
+  return mapping.columns.length === columnCount
+    && previousHeader.length === header.length
+    && previousHeader.every((cell, i) => cell === header[i]);
+};
+
+/**
+ * 「新しい属性として追加」の列について属性の定義を作成し、割り当てを既存の属性への割り当てに置き換えます。
+ * 属性名は見出し（なければ「列N」）を使います。
+ */
+export const resolveImportAttributes = (
+  mapping: ColumnMapping,
+  schema: StudentAttributeSchema,
+): { mapping: ColumnMapping; schema: StudentAttributeSchema } => {
+  if (!mapping.columns.includes('newAttribute')) return { mapping, schema };
+
+  const nextSchema = [...schema];
+  const columns = mapping.columns.map((target, i) => {
+    if (target !== 'newAttribute') return target;
+    const header = mapping.hasHeader ? (mapping.headers?.[i] ?? '').trim() : '';
+    const definition = createAttributeDefinition(nextSchema, header || `列${i + 1}`);
+    nextSchema.push(definition);
+    return toAttributeTarget(definition.id);
+  });
+  return { mapping: { ...mapping, columns }, schema: nextSchema };
+};
+
+/**
+ * 複数の列に割り当てられている割り当て先（「新しい属性として追加」「読み込まない」を除く）を返します。
+ * 見出しの名前で前回の割り当てを適用した場合など、同じ見出しの列が複数あると同じ割り当て先が重なります。
+ */
+export const findDuplicateColumnTargets = (mapping: ColumnMapping): ColumnTarget[] => {
+  const seen = new Set<ColumnTarget>();
+  const duplicates = new Set<ColumnTarget>();
+  mapping.columns.forEach(target => {
+    if (target === 'newAttribute' || target === 'ignore') return;
+    if (seen.has(target)) duplicates.add(target);
+    seen.add(target);
+  });
+  return [...duplicates];
+};
+
+/**
+ * 割り当てに必須フィールド（出席番号・氏名）が含まれ、同じ割り当て先が複数の列に重なっていないかを検証します。
+ * 重なっていると後ろの列は読み込まれないため、エラーとします。
+ * 問題がある場合はエラーメッセージを、問題がなければ null を返します。
+ */
+export const validateColumnMapping = (mapping: ColumnMapping, schema: StudentAttributeSchema = []): string | null => {
+  if (!mapping.columns.includes('number')) return '出席番号の列を指定してください。';
+  if (!mapping.columns.includes('name')) return '氏名の列を指定してください。';
+  const [duplicate] = findDuplicateColumnTargets(mapping);
+  if (duplicate) {
+    const attributeId = getTargetAttributeId(duplicate);
+    const label = attributeId
+      ? schema.find(def => def.id === attributeId)?.name ?? attributeId
+      : COLUMN_TARGET_LABELS[duplicate as StudentImportField];
+    const columnNumbers = mapping.columns.flatMap((target, i) => (target === duplicate ? [`${i + 1}列目`] : []));
+    return `「${label}」が複数の列（${columnNumbers.join('・')}）に割り当てられています。1つの列だけにしてください。`;
+  }
+  return null;
+};
+
+const KANA_PATTERN = /^[\u3041-\u309F\u30A0-\u30FF\uFF66-\uFF9F\s・ー]*$/;
+
+/**
+ * 列数が他の多くの行と異なる行を検出します。最も多い列数を基準とします。
+ */
+const findColumnCountIssues = (rows: string[][], lineNumbers: number[]): ImportIssue[] => {
+  const counts = new Map<number, number>();
+  rows.forEach(row => counts.set(row.length, (counts.get(row.length) ?? 0) + 1));
+  if (counts.size <= 1) return [];
+  const [expected] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+  return rows.flatMap((row, i) => row.length === expected ? [] : [{
+    kind: 'columnCount' as const,
+    severity: 'warning' as const,
+    line: lineNumbers[i] ?? null,
+    message: `列数が ${row.length} 列です（他の行は ${expected} 列）。列がずれていないか確認してください。`,
+    skipped: false,
+  }]);
+};
+
+/**
+ * 同じ値を持つ生徒が複数いる場合に、2人目以降について問題を作成します。
+ */
+const findDuplicates = (
+  entries: { value: string; line: number | null }[],
+  build: (value: string, firstLine: number | null, line: number | null) => ImportIssue,
+): ImportIssue[] => {
+  const firstLineByValue = new Map<string, number | null>();
+  const issues: ImportIssue[] = [];
+  entries.forEach(({ value, line }) => {
+    if (firstLineByValue.has(value)) {
+      issues.push(build(value, firstLineByValue.get(value) ?? null, line));
+    } else {
+      firstLineByValue.set(value, line);
+    }
+  });
+  return issues;
+};
+
+/**
+ * 列の割り当てに従って、表データを Student の配列に変換します。
+ * 生徒IDは identityFields の値から決定的に作成するため、同じ名簿を読み込み直しても同じIDになります。
+ * 属性の列は schema の定義に従って値を変換します（「新しい属性として追加」の列は resolveImportAttributes で解決してから渡します）。
+ * 読み飛ばした行や重複などの問題は、生徒と一緒に issues として返します。
+ */
+export const tableToStudents = (
+  table: SourceTable,
+  mapping: ColumnMapping,
+  identityFields: StudentIdentityField[] = DEFAULT_IDENTITY_FIELDS,
+  schema: StudentAttributeSchema = [],
+): StudentImportResult => {
+  const startIndex = mapping.hasHeader ? 1 : 0;
+  const dataRows = table.rows.slice(startIndex);
+  const dataLines = table.lineNumbers.slice(startIndex);
+  const issues: ImportIssue[] = [...table.issues, ...findColumnCountIssues(dataRows, dataLines)];
+
+  // 属性の列は、取り込んだ全生徒に値（空欄を含む）を持たせる。名簿の差分で「取り込んだ属性」を判別するため
+  const attributeColumns = mapping.columns.flatMap((target, colIndex) => {
+    const attributeId = getTargetAttributeId(target);
+    const definition = attributeId ? schema.find(def => def.id === attributeId) : undefined;
+    return definition ? [{ colIndex, definition }] : [];
+  });
+
+  const readField = (row: string[], field: StudentImportField): string => {
+    const colIndex = mapping.columns.indexOf(field);
+    return colIndex >= 0 ? String(row[colIndex] ?? '').trim() : '';
+  };
+
+  const imported: { student: Student; line: number | null }[] = [];
+  dataRows.forEach((row: string[], index: number) => {
+    const line = dataLines[index] ?? null;
+    const number = readField(row, 'number');
+    const name = readField(row, 'name');
+
+    if (!number) {
+      issues.push({ kind: 'missingNumber', severity: 'error', line, message: `出席番号が空のため読み込みません。${name ? `（${name}）` : ''}`, skipped: true });
+      return;
+    }
+    if (!name) {
+      issues.push({ kind: 'missingName', severity: 'error', line, message: `氏名が空のため読み込みません。（出席番号 ${number}）`, skipped: true });
+      return;
+    }
+
+    const kana = readField(row, 'kana');
+    if (kana && !KANA_PATTERN.test(kana)) {
+      issues.push({ kind: 'suspiciousKana', severity: 'warning', line, message: `ふりがな「${kana}」にかな以外の文字が含まれています。`, skipped: false });
+    }
+
+    const attributes: Record<string, string> = {};
+    attributeColumns.forEach(({ colIndex, definition }) => {
+      const raw = String(row[colIndex] ?? '').trim();
+      const { value, valid } = normalizeAttributeValue(definition, raw);
+      if (valid) {
+        attributes[definition.id] = value;
+      } else {
+        attributes[definition.id] = '';
+        issues.push({ kind: 'invalidAttributeValue', severity: 'warning', line, message: `「${raw}」は${definition.name}（${ATTRIBUTE_TYPE_LABELS[definition.type]}）の値として使えないため、空欄として読み込みます。`, skipped: false });
       }
+    });
 
-      return {
-        id: `student-${Date.now()}-${index}`,
+    imported.push({
+      line,
+      student: {
+        id: '',
         number,
         name,
         kana,
-        info1,
-        info2,
-        info3,
+        attributes,
+        isExcluded: false,
         isAssigned: false,
         assignedSeatId: null,
-      } as Student;
-    })
-    .filter((student: Student | null): student is Student => student !== null);
+      },
+    });
+  });
+
+  issues.push(
+    ...findDuplicates(
+      imported.map(({ student, line }) => ({ value: student.number, line })),
+      (value, firstLine, line) => ({
+        kind: 'duplicateNumber', severity: 'error', line, skipped: false,
+        message: `出席番号 ${value} が重複しています${firstLine !== null ? `（${firstLine}行目と同じ）` : ''}。`,
+      }),
+    ),
+    ...findDuplicates(
+      imported.map(({ student, line }) => ({ value: student.name, line })),
+      (value, firstLine, line) => ({
+        kind: 'duplicateName', severity: 'warning', line, skipped: false,
+        message: `氏名「${value}」が重複しています${firstLine !== null ? `（${firstLine}行目と同じ）` : ''}。同姓同名でなければ確認してください。`,
+      }),
+    ),
+  );
+
+  issues.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+  return { students: assignStableStudentIds(imported.map(({ student }) => student), identityFields), issues };
+};
 
-  return students;
-};
\ No newline at end of file
+/**
+ * テキストを解析して生徒の取り込み結果を返します。
+ * mapping を省略した場合は、見出し行の有無と列の割り当てを自動で推測します。
+ * 新しい属性として読み込んだ列は結果の schema に追加されます。
+ */
+export const parseStudentData = (
+  text: string,
+  delimitersToGuess: string[] = CSV_DELIMITERS,
+  mapping?: ColumnMapping,
+  identityFields: StudentIdentityField[] = DEFAULT_IDENTITY_FIELDS,
+  schema: StudentAttributeSchema = [],
+): StudentImportResult & { schema: StudentAttributeSchema } => {
+  const table = parseCsvRows(text, delimitersToGuess);
+  const resolved = resolveImportAttributes(mapping ?? guessColumnMapping(table.rows, detectHeaderRow(table.rows, schema), schema), schema);
+  return { ...tableToStudents(table, resolved.mapping, identityFields, resolved.schema), schema: resolved.schema };
+};
@@ -0,0 +1,71 @@
+// src/utils/editHistory.ts
+
+import { EDIT_HISTORY_LIMIT } from '../constants';
+
+/**
+ * 元に戻す・やり直すための編集の履歴です。
+ * past は古い順、future は次にやり直す編集が先頭に来る順に並べます。
+ */
+export interface EditHistoryStacks<T> {
+  past: T[];
+  future: T[];
+}
+
+/**
+ * 空の履歴を作成します。
+ */
+export const createEditHistory = <T>(): EditHistoryStacks<T> => ({ past: [], future: [] });
+
+/**
+ * 編集する前の状態を履歴に積みます。新しく編集したため、やり直せる編集は捨てます。
+ * 履歴が上限を超えた場合は、古い状態から捨てます。
+ */
+export const pushEditHistory = <T>(
+  history: EditHistoryStacks<T>,
+  snapshot: T,
+  limit: number = EDIT_HISTORY_LIMIT,
+): EditHistoryStacks<T> => ({
+  past: [...history.past, snapshot].slice(-limit),
+  future: [],
+});
+
+/**
+ * 1つ前の状態に戻します。戻す状態がない場合は null を返します。
+ * current は元に戻す直前の状態で、やり直すために履歴に残します。
+ */
+export const undoEditHistory = <T>(
+  history: EditHistoryStacks<T>,
+  current: T,
+): { history: EditHistoryStacks<T>; snapshot: T } | null => {
+  if (history.past.length === 0) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [current, ...history.future] },
+    snapshot: history.past[history.past.length - 1],
+  };
+};
+
+/**
+ * 元に戻した編集をやり直します。やり直す状態がない場合は null を返します。
+ */
+export const redoEditHistory = <T>(
+  history: EditHistoryStacks<T>,
+  current: T,
+): { history: EditHistoryStacks<T>; snapshot: T } | null => {
+  if (history.future.length === 0) return null;
+  return {
+    history: { past: [...history.past, current], future: history.future.slice(1) },
+    snapshot: history.future[0],
+  };
+};
+
+/**
+ * 履歴に積む状態が変わったかどうかを調べます。
+ * 状態をまとめたオブジェクトは描画のたびに作り直されるため、中の値（座席マップなど）が同じものかどうかで比べます。
+ */
+export const isSameEditSnapshot = <T>(a: T, b: T): boolean => {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  const keysA = Object.keys(a) as (keyof T)[];
+  const keysB = Object.keys(b) as (keyof T)[];
+  return keysA.length === keysB.length && keysA.every(key => Object.is(a[key], b[key]));
+};
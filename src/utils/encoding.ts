@@ -0,0 +1,116 @@
+// src/utils/encoding.ts
+
+import type { TextEncodingName } from '../types/Import';
+
+/**
+ * 文字コード判別の結果です。
+ */
+export interface EncodingDetectionResult {
+  /** 判別した文字コード */
+  encoding: TextEncodingName;
+  /** 判別の根拠（画面表示用） */
+  reason: string;
+}
+
+const hasPrefix = (bytes: Uint8Array, prefix: number[]): boolean =>
+  bytes.length >= prefix.length && prefix.every((b, i) => bytes[i] === b);
+
+/**
+ * バイト列が UTF-8 として正しく解釈できるかどうかを判定します。
+ */
+const isValidUtf8 = (bytes: Uint8Array): boolean => {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Shift_JIS として解釈したときに不正となるバイトの数を数えます。
+ */
+const countShiftJisErrors = (bytes: Uint8Array): number => {
+  let errors = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    const b = bytes[i];
+    if (b <= 0x7f || (b >= 0xa1 && b <= 0xdf)) continue; // ASCII・半角カナ
+    if ((b >= 0x81 && b <= 0x9f) || (b >= 0xe0 && b <= 0xfc)) {
+      const trail = bytes[i + 1];
+      if (trail !== undefined && trail >= 0x40 && trail <= 0xfc && trail !== 0x7f) {
+        i++;
+        continue;
+      }
+    }
+    errors++;
+  }
+  return errors;
+};
+
+/**
+ * EUC-JP として解釈したときに不正となるバイトの数を数えます。
+ */
+const countEucJpErrors = (bytes: Uint8Array): number => {
+  const isEucByte = (b: number | undefined) => b !== undefined && b >= 0xa1 && b <= 0xfe;
+  let errors = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    const b = bytes[i];
+    if (b <= 0x7f) continue;
+    if (b === 0x8e && bytes[i + 1] !== undefined && bytes[i + 1] >= 0xa1 && bytes[i + 1] <= 0xdf) { // 半角カナ
+      i++;
+      continue;
+    }
+    if (b === 0x8f && isEucByte(bytes[i + 1]) && isEucByte(bytes[i + 2])) { // 補助漢字
+      i += 2;
+      continue;
+    }
+    if (isEucByte(b) && isEucByte(bytes[i + 1])) {
+      i++;
+      continue;
+    }
+    errors++;
+  }
+  return errors;
+};
+
+/**
+ * バイト列の文字コードを推測します。
+ * BOM → UTF-8 としての妥当性 → Shift_JIS / EUC-JP としての妥当性 の順に判定します。
+ * Shift_JIS と EUC-JP のどちらとしても解釈できる場合は、Excel の既定である Shift_JIS を優先します。
+ */
+export const detectEncoding = (bytes: Uint8Array): EncodingDetectionResult => {
+  if (hasPrefix(bytes, [0xef, 0xbb, 0xbf])) return { encoding: 'utf-8', reason: 'BOM' };
+  if (hasPrefix(bytes, [0xff, 0xfe])) return { encoding: 'utf-16le', reason: 'BOM' };
+  if (hasPrefix(bytes, [0xfe, 0xff])) return { encoding: 'utf-16be', reason: 'BOM' };
+
+  if (isValidUtf8(bytes)) return { encoding: 'utf-8', reason: 'UTF-8として解釈可能' };
+
+  const sjisErrors = countShiftJisErrors(bytes);
+  const eucErrors = countEucJpErrors(bytes);
+  if (eucErrors < sjisErrors) return { encoding: 'euc-jp', reason: 'EUC-JPの文字パターン' };
+  return { encoding: 'shift_jis', reason: 'Shift_JISの文字パターン' };
+};
+
+/**
+ * 指定した文字コードでバイト列を文字列に変換します。BOM は取り除かれます。
+ * @throws ブラウザがその文字コードに対応していない場合
+ */
+export const decodeBytes = (bytes: Uint8Array, encoding: TextEncodingName): string => {
+  try {
+    return new TextDecoder(encoding).decode(bytes);
+  } catch (error) {
+    throw new Error(`文字コード ${encoding} での変換に失敗しました: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+/**
+ * 変換後の文字列に含まれる置換文字（U+FFFD）の数を数えます。
+ * 文字化けの可能性を利用者に知らせるために使います。
+ */
+export const countReplacementChars = (text: string): number => {
+  let count = 0;
+  for (const ch of text) {
+    if (ch === '\uFFFD') count++;
+  }
+  return count;
+};
@@ -0,0 +1,192 @@
+// src/utils/layoutPresets.ts
+
+import type { SeatGroup, SeatMap } from '../types/Seat';
+import type { LayoutPreset, LayoutPresetSeat } from '../types/LayoutPreset';
+import type { RoomFeature, RoomFeatureType } from '../types/RoomFeature';
+import { MAX_SEATS, ROOM_FEATURE_TYPES, SEAT_GROUP_COLORS } from '../constants';
+import { getGridPosition } from './seatLayout';
+
+// 書き出したファイルを他のJSONと見分けるための識別子とバージョン
+const PRESET_FILE_FORMAT = 'seating-layout-presets';
+const PRESET_FILE_VERSION = 1;
+
+/**
+ * 既存のプリセットと重複しないプリセットIDを作成します（"preset-1", "preset-2" ...）。
+ */
+export const createLayoutPresetId = (presets: LayoutPreset[]): string => {
+  const usedIds = new Set(presets.map(preset => preset.id));
+  let index = presets.length + 1;
+  while (usedIds.has(`preset-${index}`)) index++;
+  return `preset-${index}`;
+};
+
+/**
+ * 座席マップの形状（位置・向き・座席名・使用可否・班・タグ）から、プリセットに保存する座席を作成します。
+ */
+export const toPresetSeats = (seatMap: SeatMap): LayoutPresetSeat[] =>
+  seatMap.map(seat => ({
+    seatId: seat.seatId,
+    label: seat.label,
+    row: seat.row,
+    col: seat.col,
+    isUsable: seat.isUsable,
+    x: seat.x,
+    y: seat.y,
+    rotation: seat.rotation,
+    groupId: seat.groupId,
+    tags: [...seat.tags],
+  }));
+
+/**
+ * 現在の座席マップ・班・教室の設備を名前付きのプリセットとして作成します。
+ */
+export const createLayoutPreset = (
+  presets: LayoutPreset[],
+  name: string,
+  seatMap: SeatMap,
+  groups: SeatGroup[],
+  roomFeatures: RoomFeature[],
+): LayoutPreset => ({
+  id: createLayoutPresetId(presets),
+  name,
+  seats: toPresetSeats(seatMap),
+  groups,
+  roomFeatures,
+  updatedAt: new Date().toISOString(),
+});
+
+/**
+ * プリセットから、生徒が割り当てられていない座席マップを作成します。
+ */
+export const createSeatMapFromPreset = (preset: LayoutPreset): SeatMap =>
+  preset.seats.map(seat => ({ ...seat, assignedStudentId: null }));
+
+/**
+ * プリセットをファイルに書き出すためのJSON文字列にします。
+ */
+export const serializeLayoutPresets = (presets: LayoutPreset[]): string =>
+  JSON.stringify({ format: PRESET_FILE_FORMAT, version: PRESET_FILE_VERSION, presets }, null, 2);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parsePresetGroup = (value: unknown): SeatGroup | null => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.name !== 'string') return null;
+  return {
+    id: value.id,
+    name: value.name,
+    color: typeof value.color === 'string' && /^#[0-9a-f]{6}$/i.test(value.color) ? value.color : SEAT_GROUP_COLORS[0],
+  };
+};
+
+// 読み込んだ設備の値を検証する。種類が分からない設備や位置のない設備は読み込まない
+const parsePresetRoomFeature = (value: unknown): RoomFeature | null => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.type !== 'string') return null;
+  if (!(value.type in ROOM_FEATURE_TYPES)) return null;
+  if (typeof value.x !== 'number' || typeof value.y !== 'number' || !isFinite(value.x) || !isFinite(value.y)) return null;
+  const type = value.type as RoomFeatureType;
+  const isSize = (size: unknown): size is number => typeof size === 'number' && isFinite(size) && size > 0;
+  return {
+    id: value.id,
+    type,
+    label: typeof value.label === 'string' ? value.label.trim() : '',
+    x: value.x,
+    y: value.y,
+    width: isSize(value.width) ? value.width : ROOM_FEATURE_TYPES[type].width,
+    height: isSize(value.height) ? value.height : ROOM_FEATURE_TYPES[type].height,
+    rotation: typeof value.rotation === 'number' && isFinite(value.rotation) ? value.rotation : 0,
+  };
+};
+
+// 読み込んだ1席分の値を検証し、足りない項目は初期値で補う
+const parsePresetSeat = (value: unknown, index: number, groupIds: Set<string>): LayoutPresetSeat | null => {
+  if (!isRecord(value) || typeof value.seatId !== 'string' || !value.seatId) return null;
+  if (typeof value.x !== 'number' || typeof value.y !== 'number' || !isFinite(value.x) || !isFinite(value.y)) return null;
+  const x = Math.max(0, value.x);
+  const y = Math.max(0, value.y);
+  const position = getGridPosition(x, y);
+  return {
+    seatId: value.seatId,
+    label: typeof value.label === 'string' && value.label.trim() ? value.label.trim() : `${index + 1}`,
+    row: typeof value.row === 'number' ? value.row : position.row,
+    col: typeof value.col === 'number' ? value.col : position.col,
+    isUsable: typeof value.isUsable === 'boolean' ? value.isUsable : true,
+    x,
+    y,
+    rotation: typeof value.rotation === 'number' && isFinite(value.rotation) ? value.rotation : 0,
+    groupId: typeof value.groupId === 'string' && groupIds.has(value.groupId) ? value.groupId : null,
+    tags: Array.isArray(value.tags)
+      ? [...new Set(value.tags.filter((tag): tag is string => typeof tag === 'string' && tag.trim() !== ''))]
+      : [],
+  };
+};
+
+const parsePreset = (value: unknown): LayoutPreset => {
+  if (!isRecord(value) || typeof value.name !== 'string' || !Array.isArray(value.seats)) {
+    throw new Error('プリセットの形式が正しくありません。');
+  }
+  const name = value.name.trim() || '名前のないレイアウト';
+  // 班のないプリセット（以前に書き出したもの）も読み込めるようにする
+  const groups = (Array.isArray(value.groups) ? value.groups : [])
+    .map(parsePresetGroup)
+    .filter((group): group is SeatGroup => group !== null);
+  const groupIds = new Set(groups.map(group => group.id));
+  // 設備のないプリセット（以前に書き出したもの）も読み込めるようにする
+  const roomFeatures = (Array.isArray(value.roomFeatures) ? value.roomFeatures : [])
+    .map(parsePresetRoomFeature)
+    .filter((feature): feature is RoomFeature => feature !== null);
+  const parsedSeats = value.seats.map((seat, index) => parsePresetSeat(seat, index, groupIds));
+  const seats = parsedSeats.filter((seat): seat is LayoutPresetSeat => seat !== null);
+  if (seats.length === 0 || seats.length !== parsedSeats.length) {
+    throw new Error(`プリセット「${name}」の座席の形式が正しくありません。`);
+  }
+  if (seats.length > MAX_SEATS) {
+    throw new Error(`プリセット「${name}」の座席数が${MAX_SEATS}を超えています。`);
+  }
+  if (new Set(seats.map(seat => seat.seatId)).size !== seats.length) {
+    throw new Error(`プリセット「${name}」に同じIDの座席があります。`);
+  }
+  return {
+    id: typeof value.id === 'string' ? value.id : '',
+    name,
+    seats,
+    groups,
+    roomFeatures,
+    updatedAt: typeof value.updatedAt === 'string' ? value.updatedAt : new Date().toISOString(),
+  };
+};
+
+/**
+ * 書き出したJSON文字列からプリセットを読み込みます。
+ * 1つのプリセットだけのJSONや、プリセットの配列も受け付けます。
+ * @throws 形式が正しくない場合は、理由を表すメッセージの Error を投げます
+ */
+export const parseLayoutPresets = (text: string): LayoutPreset[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('JSONファイルとして読み込めませんでした。');
+  }
+  if (isRecord(data) && data.format === PRESET_FILE_FORMAT) {
+    if (typeof data.version === 'number' && data.version > PRESET_FILE_VERSION) {
+      throw new Error('新しいバージョンのアプリで書き出されたファイルのため、読み込めません。');
+    }
+    data = data.presets;
+  }
+  const values = Array.isArray(data) ? data : [data];
+  if (values.length === 0) throw new Error('ファイルにプリセットがありません。');
+  return values.map(parsePreset);
+};
+
+/**
+ * 読み込んだプリセットを既存のプリセットに追加します。
+ * IDは振り直し、名前が重複する場合は「（2）」のように番号を付けます。
+ */
+export const appendLayoutPresets = (presets: LayoutPreset[], imported: LayoutPreset[]): LayoutPreset[] =>
+  imported.reduce<LayoutPreset[]>((result, preset) => {
+    const usedNames = new Set(result.map(p => p.name));
+    let name = preset.name;
+    for (let index = 2; usedNames.has(name); index++) name = `${preset.name}（${index}）`;
+    return [...result, { ...preset, id: createLayoutPresetId(result), name }];
+  }, presets);
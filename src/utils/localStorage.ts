@@ -2,12 +2,47 @@
 
 import type { AppPhase } from '../contexts/AppStateContext'; // AppPhase をインポート
 import type { Student } from '../types/Student';
-import type { SeatMap } from '../types/Seat'; // SeatMap は SeatMapData[] なので問題なし
+import type { SeatGroup, SeatMap } from '../types/Seat'; // SeatMap は SeatMapData[] なので問題なし
 import type { RouletteState } from '../types/Roulette';
-import type { FixedSeatAssignment } from '../types/Seat';
+import type { FixedSeatAssignment, SeatZoneAssignment } from '../types/Seat';
+import type { ColumnMapping, ColumnTarget, StudentIdentityField } from '../types/Import';
+import type { StudentAttributeSchema } from '../types/Attribute';
+import type { StudentPhotoDisplay } from '../types/Photo';
+import type { LayoutPreset } from '../types/LayoutPreset';
+import type { RoomFeature } from '../types/RoomFeature';
+import type { ChartOrientation } from '../types/ChartOrientation';
+import type { AttributeRule, SeatingConstraint } from '../types/Constraint';
+import { DEFAULT_CHART_ORIENTATION, DEFAULT_IDENTITY_FIELDS, DEFAULT_PHOTO_DISPLAY, STUDENT_CORE_FIELDS } from '../constants';
+import { migrateLegacyStudents } from './studentAttributes';
+import { migrateSeatLabels, migrateSeatPositions } from './seatLayout';
+import { migrateSeatGroups } from './seatGroups';
+import { migrateSeatTags } from './seatTags';
+import { assignStableStudentIds } from './studentId';
 
 // LocalStorageに保存するデータのキー
 const STORAGE_KEY = 'seatingArrangementAppData';
+// 前回の取り込みで使った列の割り当てを保存するキー（クラスのデータとは別に保持する）
+const COLUMN_MAPPING_KEY = 'seatingArrangementColumnMapping';
+// 生徒IDの作成に使う項目を保存するキー
+const IDENTITY_FIELDS_KEY = 'seatingArrangementIdentityFields';
+// 座席レイアウトのプリセットを保存するキー（クラスのデータを削除しても残す）
+const LAYOUT_PRESETS_KEY = 'seatingArrangementLayoutPresets';
+
+/**
+ * 保存データの形式のバージョンです。形式を変更したら値を上げ、migrateAppData に変換処理を追加します。
+ * - 1（未設定）: 生徒の追加情報は info1〜info3 の固定項目
+ * - 2: 生徒の追加情報はクラスごとの属性（attributeSchema / Student.attributes）
+ * - 3: 生徒に席替えからの除外（Student.isExcluded）を追加
+ * - 4: 座席にレイアウト上の位置と回転（SeatMapData.x / y / rotation）を追加
+ * - 5: 座席IDと表示用の座席名（SeatMapData.label）を分離
+ * - 6: 班（seatGroups / SeatMapData.groupId）を追加
+ * - 7: 座席のタグ（SeatMapData.tags）を追加
+ * - 8: 教室の設備（roomFeatures）を追加
+ * - 9: 席替えの条件（seatingConstraints）を追加
+ * - 10: 座席の範囲の割り当て（seatZoneAssignments）を追加
+ * - 11: 属性の並べ方（attributeRules）を追加
+ */
+export const CURRENT_SCHEMA_VERSION = 11;
 
 /**
  * アプリケーション全体のデータを保存するための型定義
@@ -16,19 +51,169 @@ const STORAGE_KEY = 'seatingArrangementAppData';
 export interface AppPersistedState {
   students: Student[];
   seatMap: SeatMap; // SeatMapData[]
+  seatGroups: SeatGroup[]; // 班の定義（どの座席がどの班かは SeatMapData.groupId で表す）
+  roomFeatures: RoomFeature[]; // 教室の設備（黒板・教卓・出入口など）
   appPhase: AppPhase;
   rouletteState: RouletteState;
   fixedSeatAssignments: FixedSeatAssignment[]; // 新しい固定座席割り当ての状態
+  seatZoneAssignments: SeatZoneAssignment[]; // 座席の範囲の割り当て（範囲の中のどこかに座らせる生徒）
+  seatingConstraints: SeatingConstraint[]; // 席替えの条件（近くに座らせない生徒など）
+  attributeRules: AttributeRule[]; // 生徒の属性を使った座席の並べ方（男女交互など）
+  attributeSchema: StudentAttributeSchema; // クラスごとの生徒の属性の定義
+  photoDisplay: StudentPhotoDisplay; // 写真の表示設定（写真そのものは IndexedDB に保存し、ここには含めない）
+  chartOrientation: ChartOrientation; // 座席表をどの位置から見た向きで表示するか
+  schemaVersion?: number; // 保存データの形式のバージョン（CURRENT_SCHEMA_VERSION）
   // 将来的に保存したい他の状態があればここに追加
 }
 
+// 取り込みのたびに変わる旧形式の生徒ID（"student-" + Date.now() + "-" + 行番号）
+const LEGACY_STUDENT_ID_PATTERN = /^student-\d{13}-\d+$/;
+
+/**
+ * 旧形式の生徒IDを含むデータの生徒に、識別項目から作る決定的なIDを振り直します。
+ * 名簿を読み込み直したときに同じ生徒として対応付けられるよう、座席・固定座席・座席の範囲・条件・割り当て履歴の生徒IDも合わせて書き換えます。
+ */
+const migrateLegacyStudentIds = (data: AppPersistedState): AppPersistedState => {
+  const students = data.students ?? [];
+  if (!students.some(s => LEGACY_STUDENT_ID_PATTERN.test(s.id))) return data;
+
+  const rekeyed = assignStableStudentIds(students, loadIdentityFields() ?? DEFAULT_IDENTITY_FIELDS);
+  const newIdByOldId = new Map(students.map((s, i) => [s.id, rekeyed[i].id]));
+  const toNewId = (id: string): string => newIdByOldId.get(id) ?? id;
+  const current = data.rouletteState?.currentAssigningStudent;
+  return {
+    ...data,
+    students: rekeyed,
+    seatMap: (data.seatMap ?? []).map(seat =>
+      seat.assignedStudentId ? { ...seat, assignedStudentId: toNewId(seat.assignedStudentId) } : seat
+    ),
+    fixedSeatAssignments: (data.fixedSeatAssignments ?? []).map(fsa => ({ ...fsa, studentId: toNewId(fsa.studentId) })),
+    seatZoneAssignments: (data.seatZoneAssignments ?? []).map(assignment => ({ ...assignment, studentId: toNewId(assignment.studentId) })),
+    seatingConstraints: (data.seatingConstraints ?? []).map(constraint => ({ ...constraint, studentIds: constraint.studentIds.map(toNewId) })),
+    rouletteState: {
+      ...data.rouletteState,
+      currentAssigningStudent: current ? rekeyed.find(s => s.id === toNewId(current.id)) ?? null : null,
+      winningHistory: (data.rouletteState?.winningHistory ?? []).map(h => ({ ...h, studentId: toNewId(h.studentId) })),
+    },
+  };
+};
+
+/**
+ * 以前の形式で保存された取り込みの設定（生徒IDの作成に使う項目・列の割り当て）の情報1〜3 を、変換後の属性に置き換えます。
+ * 取り込みの設定はクラスのデータとは別のキーに保存しているため、クラスのデータを変換するときに合わせて書き換えます。
+ * 識別に使っていた「組」などの値が引き続き使われるため、名簿を読み込み直しても生徒IDは変わりません。
+ */
+const migrateLegacyImportSettings = (attributeIdByField: Map<string, string>): void => {
+  if (attributeIdByField.size === 0) return;
+  const toAttributeTarget = (field: string): string => {
+    const attributeId = attributeIdByField.get(field);
+    return attributeId ? `attribute:${attributeId}` : field;
+  };
+  try {
+    const identityFields = localStorage.getItem(IDENTITY_FIELDS_KEY);
+    if (identityFields !== null) {
+      const fields: unknown = JSON.parse(identityFields);
+      if (Array.isArray(fields)) localStorage.setItem(IDENTITY_FIELDS_KEY, JSON.stringify(fields.map(toAttributeTarget)));
+    }
+    const mapping = loadColumnMapping();
+    if (mapping) {
+      saveColumnMapping({ ...mapping, columns: mapping.columns.map(target => toAttributeTarget(target) as ColumnTarget) });
+    }
+  } catch (error) {
+    console.error('取り込みの設定の変換中にエラーが発生しました:', error);
+  }
+};
+
+/**
+ * 古い形式で保存されたデータを現在の形式に変換します。
+ * 情報1〜3 を属性に変換するときは、取り込みの設定（別のキーに保存）も合わせて変換します。
+ */
+export const migrateAppData = (data: AppPersistedState): AppPersistedState => {
+  let migrated: AppPersistedState = {
+    ...data,
+    attributeSchema: data.attributeSchema ?? [],
+    photoDisplay: data.photoDisplay ?? DEFAULT_PHOTO_DISPLAY,
+    chartOrientation: data.chartOrientation ?? DEFAULT_CHART_ORIENTATION,
+  };
+
+  if ((data.schemaVersion ?? 1) < 2) {
+    // 情報1〜3 の固定項目を属性に変換する
+    const { students, schema, attributeIdByField } = migrateLegacyStudents(migrated.students ?? [], migrated.attributeSchema);
+    migrateLegacyImportSettings(attributeIdByField);
+    const current = migrated.rouletteState?.currentAssigningStudent;
+    migrated = {
+      ...migrated,
+      students,
+      attributeSchema: schema,
+      rouletteState: {
+        ...migrated.rouletteState,
+        currentAssigningStudent: current ? students.find(s => s.id === current.id) ?? null : null,
+      },
+    };
+  }
+
+  if ((data.schemaVersion ?? 1) < 3) {
+    // 除外の設定がない生徒は、今回の席替えの対象とする
+    migrated = {
+      ...migrated,
+      students: (migrated.students ?? []).map(s => ({ ...s, isExcluded: s.isExcluded ?? false })),
+    };
+  }
+
+  if ((data.schemaVersion ?? 1) < 4) {
+    // 格子状に並んでいた座席に、行番号・列番号から位置を設定する
+    migrated = { ...migrated, seatMap: migrateSeatPositions(migrated.seatMap ?? []) };
+  }
+
+  if ((data.schemaVersion ?? 1) < 5) {
+    // "R1C1" 形式の座席IDはそのまま残し、行番号・列番号から座席名を付ける
+    migrated = { ...migrated, seatMap: migrateSeatLabels(migrated.seatMap ?? []) };
+  }
+
+  if ((data.schemaVersion ?? 1) < 6) {
+    // 班のない座席は、どの班にも属さないものとする
+    migrated = { ...migrated, seatMap: migrateSeatGroups(migrated.seatMap ?? []), seatGroups: migrated.seatGroups ?? [] };
+  }
+
+  if ((data.schemaVersion ?? 1) < 7) {
+    // タグのない座席は、タグが1つも付いていないものとする
+    migrated = { ...migrated, seatMap: migrateSeatTags(migrated.seatMap ?? []) };
+  }
+
+  if ((data.schemaVersion ?? 1) < 8) {
+    // 設備のないレイアウトは、設備が1つも置かれていないものとする
+    migrated = { ...migrated, roomFeatures: migrated.roomFeatures ?? [] };
+  }
+
+  if ((data.schemaVersion ?? 1) < 9) {
+    // 条件のないクラスは、条件を1つも設定していないものとする
+    migrated = { ...migrated, seatingConstraints: migrated.seatingConstraints ?? [] };
+  }
+
+  if ((data.schemaVersion ?? 1) < 10) {
+    // 座席の範囲のないクラスは、範囲を1つも設定していないものとする
+    migrated = { ...migrated, seatZoneAssignments: migrated.seatZoneAssignments ?? [] };
+  }
+
+  if ((data.schemaVersion ?? 1) < 11) {
+    // 並べ方のないクラスは、並べ方を1つも設定していないものとする
+    migrated = { ...migrated, attributeRules: migrated.attributeRules ?? [] };
+  }
+
+  // 旧形式の生徒IDのままでは、名簿を読み込み直すと固定座席・割り当て履歴が別の生徒のものになるため、バージョンに関係なく振り直す
+  migrated = migrateLegacyStudentIds(migrated);
+
+  return { ...migrated, schemaVersion: CURRENT_SCHEMA_VERSION };
+};
+
 /**
  * アプリケーションの状態をLocalStorageに保存します。
+ * 生徒の写真は容量が大きいため含めず、photoStore で IndexedDB に別途保存します。
  * @param data 保存するアプリケーションの状態オブジェクト
  */
 export const saveAppData = (data: AppPersistedState): void => {
   try {
-    const serializedData = JSON.stringify(data);
+    const serializedData = JSON.stringify({ ...data, schemaVersion: CURRENT_SCHEMA_VERSION });
     localStorage.setItem(STORAGE_KEY, serializedData);
     console.log('アプリケーションデータが保存されました。');
   } catch (error) {
@@ -48,7 +233,7 @@ export const loadAppData = (): AppPersistedState | null => {
       console.log('保存されたアプリケーションデータがありません。');
       return null;
     }
-    const data: AppPersistedState = JSON.parse(serializedData);
+    const data: AppPersistedState = migrateAppData(JSON.parse(serializedData));
     console.log('アプリケーションデータが読み込まれました。');
     return data;
   } catch (error) {
@@ -69,4 +254,105 @@ export const clearAppData = (): void => {
     console.error('データの削除中にエラーが発生しました:', error);
     throw new Error('データの削除に失敗しました。');
   }
-};
\ No newline at end of file
+};
+
+/**
+ * 取り込み時の列の割り当てをLocalStorageに保存します。
+ * 保存に失敗しても取り込み自体は続行できるため、例外は投げません。
+ * @param mapping 保存する列の割り当て
+ */
+export const saveColumnMapping = (mapping: ColumnMapping): void => {
+  try {
+    localStorage.setItem(COLUMN_MAPPING_KEY, JSON.stringify(mapping));
+  } catch (error) {
+    console.error('列の割り当ての保存中にエラーが発生しました:', error);
+  }
+};
+
+/**
+ * 前回保存した列の割り当てをLocalStorageから読み込みます。
+ * @returns 保存された列の割り当て、またはnull（データがない場合やパースエラーの場合）
+ */
+export const loadColumnMapping = (): ColumnMapping | null => {
+  try {
+    const serializedData = localStorage.getItem(COLUMN_MAPPING_KEY);
+    if (serializedData === null) return null;
+    const data = JSON.parse(serializedData) as ColumnMapping;
+    if (!Array.isArray(data.columns)) return null;
+    return data;
+  } catch (error) {
+    console.error('列の割り当ての読み込み中にエラーが発生しました:', error);
+    return null;
+  }
+};
+
+/**
+ * 生徒IDの作成に使う項目をLocalStorageに保存します。
+ * @param fields 生徒IDの作成に使う項目
+ */
+export const saveIdentityFields = (fields: StudentIdentityField[]): void => {
+  try {
+    localStorage.setItem(IDENTITY_FIELDS_KEY, JSON.stringify(fields));
+  } catch (error) {
+    console.error('識別項目の保存中にエラーが発生しました:', error);
+  }
+};
+
+/**
+ * 保存された生徒IDの作成に使う項目をLocalStorageから読み込みます。
+ * @returns 保存された項目、またはnull（データがない場合やパースエラーの場合）
+ */
+export const loadIdentityFields = (): StudentIdentityField[] | null => {
+  try {
+    const serializedData = localStorage.getItem(IDENTITY_FIELDS_KEY);
+    if (serializedData === null) return null;
+    const data = JSON.parse(serializedData);
+    if (!Array.isArray(data)) return null;
+    // 基本項目と属性だけを使う。以前の形式の情報1〜3 は、クラスのデータを読み込んだときに属性へ変換される（migrateLegacyImportSettings）
+    const fields = data.filter((field): field is StudentIdentityField =>
+      typeof field === 'string' && ((STUDENT_CORE_FIELDS as string[]).includes(field) || field.startsWith('attribute:'))
+    );
+    return fields.length > 0 ? fields : null;
+  } catch (error) {
+    console.error('識別項目の読み込み中にエラーが発生しました:', error);
+    return null;
+  }
+};
+
+/**
+ * 座席レイアウトのプリセットをLocalStorageに保存します。
+ * クラスのデータとは別のキーに保存するため、clearAppData では削除されません。
+ * @param presets 保存するプリセットの一覧
+ * @throws 保存中にエラーが発生した場合
+ */
+export const saveLayoutPresets = (presets: LayoutPreset[]): void => {
+  try {
+    localStorage.setItem(LAYOUT_PRESETS_KEY, JSON.stringify(presets));
+  } catch (error) {
+    console.error('レイアウトのプリセットの保存中にエラーが発生しました:', error);
+    throw new Error('レイアウトのプリセットの保存に失敗しました。');
+  }
+};
+
+/**
+ * 保存された座席レイアウトのプリセットをLocalStorageから読み込みます。
+ * @returns 保存されたプリセットの一覧（データがない場合やパースエラーの場合は空の配列）
+ */
+export const loadLayoutPresets = (): LayoutPreset[] => {
+  try {
+    const serializedData = localStorage.getItem(LAYOUT_PRESETS_KEY);
+    if (serializedData === null) return [];
+    const data = JSON.parse(serializedData);
+    if (!Array.isArray(data)) return [];
+    // 班・タグを追加する前に保存したプリセットは、班・タグのないレイアウトとして読み込む
+    return (data as LayoutPreset[]).map(preset => ({
+      ...preset,
+      seats: preset.seats.map(seat => ({ ...seat, groupId: seat.groupId ?? null, tags: seat.tags ?? [] })),
+      groups: preset.groups ?? [],
+      roomFeatures: preset.roomFeatures ?? [],
+    }));
+  } catch (error) {
+    console.error('レイアウトのプリセットの読み込み中にエラーが発生しました:', error);
+    return [];
+  }
+};
@@ -0,0 +1,146 @@
+// src/utils/photoStore.ts
+
+import type { PhotoFileMatch } from '../types/Photo';
+import { STUDENT_PHOTO_MAX_SIZE } from '../constants';
+
+// 生徒の写真は localStorage の容量（数MB）に収まらないため、IndexedDB に生徒IDをキーとして保存する
+const PHOTO_DB_NAME = 'seatingArrangementPhotos';
+const PHOTO_DB_VERSION = 1;
+const PHOTO_STORE_NAME = 'photos';
+
+const openPhotoDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(PHOTO_DB_NAME, PHOTO_DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(PHOTO_STORE_NAME)) {
+        request.result.createObjectStore(PHOTO_STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * 写真のストアに対して1つのトランザクションを実行し、完了を待ちます。
+ */
+const runPhotoTransaction = async (
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => void,
+): Promise<void> => {
+  const db = await openPhotoDb();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(PHOTO_STORE_NAME, mode);
+      run(transaction.objectStore(PHOTO_STORE_NAME));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * 保存されているすべての生徒の写真を読み込みます。
+ * @returns 生徒IDをキーとした写真の画像データ
+ */
+export const loadStudentPhotos = async (): Promise<Record<string, Blob>> => {
+  const photos: Record<string, Blob> = {};
+  await runPhotoTransaction('readonly', store => {
+    const request = store.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      photos[String(cursor.key)] = cursor.value as Blob;
+      cursor.continue();
+    };
+  });
+  return photos;
+};
+
+/**
+ * 生徒の写真を保存します。同じ生徒の写真が既にある場合は置き換えます。
+ * @param photos 生徒IDをキーとした写真の画像データ
+ */
+export const saveStudentPhotos = async (photos: Record<string, Blob>): Promise<void> => {
+  await runPhotoTransaction('readwrite', store => {
+    Object.entries(photos).forEach(([studentId, blob]) => store.put(blob, studentId));
+  });
+};
+
+/**
+ * 指定した生徒の写真を削除します。
+ * @param studentIds 写真を削除する生徒のID
+ */
+export const deleteStudentPhotos = async (studentIds: string[]): Promise<void> => {
+  if (studentIds.length === 0) return;
+  await runPhotoTransaction('readwrite', store => {
+    studentIds.forEach(studentId => store.delete(studentId));
+  });
+};
+
+/**
+ * 保存されているすべての生徒の写真を削除します。
+ */
+export const clearStudentPhotos = async (): Promise<void> => {
+  await runPhotoTransaction('readwrite', store => {
+    store.clear();
+  });
+};
+
+/**
+ * 写真を長辺が maxSize ピクセル以下になるよう縮小し、JPEG に変換します。
+ * 元の画像が十分に小さい場合も、向き（EXIF）を反映させるために変換し直します。
+ */
+export const resizePhoto = async (file: Blob, maxSize: number = STUDENT_PHOTO_MAX_SIZE): Promise<Blob> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('画像の変換に失敗しました。'))), 'image/jpeg', 0.85);
+    });
+  } finally {
+    bitmap.close();
+  }
+};
+
+// 全角数字や先頭の0の違いを無視して出席番号を比較できるようにする（例: "０５" → "5"）
+const normalizeNumberKey = (value: string): string => {
+  const normalized = value.normalize('NFKC').trim();
+  return /^\d+$/.test(normalized) ? String(Number(normalized)) : normalized;
+};
+
+/**
+ * 写真のファイル名（拡張子を除く）の先頭の出席番号で、ファイルを生徒に対応付けます。
+ * "05.jpg" や "5_山田太郎.png" のように、ファイル名が出席番号で始まっていれば対応付けられます。
+ * 画像でないファイルと、出席番号が一致しないファイルは unmatchedFiles に入ります。
+ */
+export const matchPhotoFilesByNumber = <T>(
+  files: File[],
+  targets: T[],
+  getNumber: (target: T) => string,
+): PhotoFileMatch<T> => {
+  const targetByNumber = new Map<string, T>();
+  targets.forEach(target => {
+    const number = normalizeNumberKey(getNumber(target));
+    if (number && !targetByNumber.has(number)) targetByNumber.set(number, target);
+  });
+
+  const result: PhotoFileMatch<T> = { matches: [], unmatchedFiles: [] };
+  files.forEach(file => {
+    const stem = file.name.normalize('NFKC').replace(/\.[^.]+$/, '');
+    const number = normalizeNumberKey(stem.match(/^\d+/)?.[0] ?? stem);
+    const target = file.type.startsWith('image/') ? targetByNumber.get(number) : undefined;
+    if (target) {
+      result.matches.push({ target, file });
+    } else {
+      result.unmatchedFiles.push(file);
+    }
+  });
+  return result;
+};
@@ -0,0 +1,64 @@
+// src/utils/roomFeatures.ts
+
+import type { SeatMap } from '../types/Seat';
+import type { RoomFeature, RoomFeatureType } from '../types/RoomFeature';
+import { ROOM_FEATURE_TYPES, SEAT_LAYOUT_GAP } from '../constants';
+import { getSeatMapBounds, snapToGrid } from './seatLayout';
+
+/**
+ * 既存の設備と重複しない設備IDを作成します（"feature-1", "feature-2" ...）。
+ */
+export const createRoomFeatureId = (roomFeatures: RoomFeature[]): string => {
+  const usedIds = new Set(roomFeatures.map(feature => feature.id));
+  let index = roomFeatures.length + 1;
+  while (usedIds.has(`feature-${index}`)) index++;
+  return `feature-${index}`;
+};
+
+/**
+ * 新しい設備を作成します。黒板と教卓は座席の前の中央に、それ以外は座席の右側に並べて置きます。
+ */
+export const createRoomFeature = (
+  roomFeatures: RoomFeature[],
+  type: RoomFeatureType,
+  seatMap: SeatMap,
+): RoomFeature => {
+  const { width, height } = ROOM_FEATURE_TYPES[type];
+  const seatBounds = getSeatMapBounds(seatMap);
+  const deskHeight = ROOM_FEATURE_TYPES['teacher-desk'].height;
+  let x: number;
+  let y: number;
+  if (type === 'blackboard' || type === 'teacher-desk') {
+    x = (seatBounds.width - width) / 2;
+    // 黒板は教卓のさらに前に置く
+    y = type === 'blackboard'
+      ? -(height + deskHeight + SEAT_LAYOUT_GAP * 4)
+      : -(height + SEAT_LAYOUT_GAP * 2);
+  } else {
+    const sideCount = roomFeatures.filter(feature => feature.x >= seatBounds.width).length;
+    x = seatBounds.width + SEAT_LAYOUT_GAP * 3;
+    y = sideCount * SEAT_LAYOUT_GAP * 2;
+  }
+  return {
+    id: createRoomFeatureId(roomFeatures),
+    type,
+    label: '',
+    x: snapToGrid(x),
+    y: snapToGrid(y),
+    width,
+    height,
+    rotation: 0,
+  };
+};
+
+/**
+ * 設備の表示名を求めます。表示名が空の場合は種類の名前を返します。
+ */
+export const getRoomFeatureLabel = (feature: RoomFeature): string =>
+  feature.label.trim() || ROOM_FEATURE_TYPES[feature.type].label;
+
+/**
+ * 設備を縦書きで表示するかどうかを判定します（出入口や窓のような、縦に細長い設備）。
+ */
+export const isVerticalRoomFeature = (feature: RoomFeature): boolean =>
+  feature.height > feature.width && feature.width < 60;
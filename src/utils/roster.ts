@@ -0,0 +1,212 @@
+// src/utils/roster.ts
+
+import type { Student } from '../types/Student';
+import type { SeatMapData, FixedSeatAssignment, SeatZoneAssignment } from '../types/Seat';
+import type { SeatingConstraint } from '../types/Constraint';
+import type { StudentImportField } from '../types/Import';
+import { STUDENT_CORE_FIELDS } from '../constants';
+
+/**
+ * 名簿の変更に合わせて更新が必要な状態をまとめた型です。
+ */
+export interface RosterState {
+  students: Student[];
+  seatMap: SeatMapData[];
+  fixedSeatAssignments: FixedSeatAssignment[];
+}
+
+/**
+ * 名簿を置き換えたときに、座席・固定座席との関連を整合させます。
+ * 生徒IDは名簿の内容から決定的に作られるため、同じIDの生徒は現在の座席と固定座席をそのまま引き継ぎます。
+ * 新しい名簿にいない生徒の座席は空席に戻し、固定座席の設定も取り除きます。
+ * 席替えから除外された生徒の座席も空席に戻します（固定座席の設定は除外を解除したときのために残します）。
+ * 座席マップにない座席（レイアウトの編集で削除した座席）の固定座席も取り除きます。
+ */
+export const reconcileRoster = (
+  students: Student[],
+  seatMap: SeatMapData[],
+  fixedSeatAssignments: FixedSeatAssignment[],
+): RosterState => {
+  const studentIds = new Set(students.map(s => s.id));
+  const seatableIds = new Set(students.filter(s => !s.isExcluded).map(s => s.id));
+  const seatIds = new Set(seatMap.map(seat => seat.seatId));
+
+  const reconciledSeatMap = seatMap.map(seat =>
+    seat.assignedStudentId && !seatableIds.has(seat.assignedStudentId)
+      ? { ...seat, assignedStudentId: null }
+      : seat
+  );
+
+  const seatIdByStudentId = new Map<string, string>();
+  reconciledSeatMap.forEach(seat => {
+    if (seat.assignedStudentId) seatIdByStudentId.set(seat.assignedStudentId, seat.seatId);
+  });
+
+  const reconciledStudents = students.map(student => {
+    const assignedSeatId = seatIdByStudentId.get(student.id) ?? null;
+    return { ...student, isAssigned: assignedSeatId !== null, assignedSeatId };
+  });
+
+  return {
+    students: reconciledStudents,
+    seatMap: reconciledSeatMap,
+    fixedSeatAssignments: fixedSeatAssignments.filter(a => studentIds.has(a.studentId) && seatIds.has(a.seatId)),
+  };
+};
+
+/**
+ * 名簿から削除された生徒を、座席の範囲の割り当てと席替えの条件から取り除きます。
+ * 生徒が2人未満になった条件は削除します。席替えから除外された生徒は名簿に残るため、除外を解除したときのために残します。
+ */
+export const pruneRemovedStudents = (
+  students: Student[],
+  seatZoneAssignments: SeatZoneAssignment[],
+  seatingConstraints: SeatingConstraint[],
+): { seatZoneAssignments: SeatZoneAssignment[]; seatingConstraints: SeatingConstraint[] } => {
+  const studentIds = new Set(students.map(s => s.id));
+  return {
+    seatZoneAssignments: seatZoneAssignments.filter(assignment => studentIds.has(assignment.studentId)),
+    seatingConstraints: seatingConstraints
+      .map(constraint => ({ ...constraint, studentIds: constraint.studentIds.filter(id => studentIds.has(id)) }))
+      .filter(constraint => constraint.studentIds.length >= 2),
+  };
+};
+
+/**
+ * 今回の席替えで座席を割り当てる対象の生徒だけを取り出します（除外された生徒を除きます）。
+ */
+export const getSeatingTargets = (students: Student[]): Student[] =>
+  students.filter(s => !s.isExcluded);
+
+/**
+ * 生徒IDから生徒を引く索引を作成します。座席ごとに名簿を先頭から探さずに済むよう、名簿が変わったときだけ作り直して使います。
+ */
+export const indexStudentsById = (students: Student[]): Map<string, Student> =>
+  new Map(students.map(student => [student.id, student]));
+
+/**
+ * 1項目分の変更内容です。
+ */
+export interface RosterFieldChange {
+  /** 変更された基本項目。属性の値が変わった場合は 'attributes' */
+  field: StudentImportField | 'attributes';
+  /** field が 'attributes' の場合の属性ID */
+  attributeId?: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * 既存の生徒と取り込んだ生徒の対応です。
+ */
+export interface RosterMatch {
+  /** 現在の名簿の生徒 */
+  current: Student;
+  /** 取り込んだ名簿の生徒 */
+  incoming: Student;
+  /** 変更された項目 */
+  changes: RosterFieldChange[];
+}
+
+/**
+ * 現在の名簿と取り込んだ名簿の差分です。
+ */
+export interface RosterDiff {
+  /** 取り込んだ名簿にだけいる生徒 */
+  added: Student[];
+  /** 現在の名簿にだけいる生徒 */
+  removed: Student[];
+  /** 出席番号で対応付けた、氏名が変わった生徒 */
+  renamed: RosterMatch[];
+  /** 氏名以外の項目（ふりがな・属性）が変わった生徒 */
+  changed: RosterMatch[];
+  /** 変更のない生徒 */
+  unchanged: Student[];
+}
+
+/**
+ * 2人の生徒の違いを項目ごとに列挙します。
+ * 属性は取り込んだ側の生徒が持っている属性だけを比較します（取り込み元にない属性は変更とみなしません）。
+ */
+const getFieldChanges = (current: Student, incoming: Student): RosterFieldChange[] => {
+  const changes: RosterFieldChange[] = STUDENT_CORE_FIELDS
+    .filter(field => current[field] !== incoming[field])
+    .map(field => ({ field, before: current[field], after: incoming[field] }));
+  Object.entries(incoming.attributes ?? {}).forEach(([attributeId, after]) => {
+    const before = current.attributes?.[attributeId] ?? '';
+    if (before !== after) changes.push({ field: 'attributes', attributeId, before, after });
+  });
+  return changes;
+};
+
+/**
+ * 現在の名簿と取り込んだ名簿を比較します。
+ * 生徒IDが一致する生徒を同一人物とみなし、残りは出席番号で対応付けます（氏名の訂正などでIDが変わった場合）。
+ */
+export const diffRoster = (current: Student[], incoming: Student[]): RosterDiff => {
+  const diff: RosterDiff = { added: [], removed: [], renamed: [], changed: [], unchanged: [] };
+  const currentById = new Map(current.map(s => [s.id, s]));
+  const matchedCurrentIds = new Set<string>();
+  const unmatchedIncoming: Student[] = [];
+
+  const classify = (currentStudent: Student, incomingStudent: Student) => {
+    matchedCurrentIds.add(currentStudent.id);
+    const changes = getFieldChanges(currentStudent, incomingStudent);
+    if (changes.length === 0) {
+      diff.unchanged.push(currentStudent);
+    } else if (changes.some(c => c.field === 'name')) {
+      diff.renamed.push({ current: currentStudent, incoming: incomingStudent, changes });
+    } else {
+      diff.changed.push({ current: currentStudent, incoming: incomingStudent, changes });
+    }
+  };
+
+  incoming.forEach(incomingStudent => {
+    const currentStudent = currentById.get(incomingStudent.id);
+    if (currentStudent) {
+      classify(currentStudent, incomingStudent);
+    } else {
+      unmatchedIncoming.push(incomingStudent);
+    }
+  });
+
+  unmatchedIncoming.forEach(incomingStudent => {
+    const currentStudent = current.find(s => !matchedCurrentIds.has(s.id) && s.number === incomingStudent.number);
+    if (currentStudent) {
+      classify(currentStudent, incomingStudent);
+    } else {
+      diff.added.push(incomingStudent);
+    }
+  });
+
+  diff.removed = current.filter(s => !matchedCurrentIds.has(s.id));
+  return diff;
+};
+
+/**
+ * 名簿の差分を現在の状態に適用します。
+ * 対応付けられた生徒は既存の生徒IDを保ったまま項目だけを更新するため、座席と固定座席はそのまま残ります。
+ * 追加された生徒は未割り当てで加わり、削除された生徒の座席と固定座席は解除されます。
+ */
+export const applyRosterDiff = (diff: RosterDiff, state: RosterState): RosterState => {
+  const updatedById = new Map<string, Student>();
+  [...diff.renamed, ...diff.changed].forEach(({ current, incoming }) => {
+    updatedById.set(current.id, {
+      ...current,
+      number: incoming.number,
+      name: incoming.name,
+      kana: incoming.kana,
+      attributes: { ...current.attributes, ...incoming.attributes },
+    });
+  });
+  const removedIds = new Set(diff.removed.map(s => s.id));
+
+  const students = [
+    ...state.students
+      .filter(s => !removedIds.has(s.id))
+      .map(s => updatedById.get(s.id) ?? s),
+    ...diff.added.map(s => ({ ...s, isAssigned: false, assignedSeatId: null })),
+  ];
+
+  return reconcileRoster(students, state.seatMap, state.fixedSeatAssignments);
+};
@@ -0,0 +1,136 @@
+// src/utils/seatGroups.ts
+
+import type { SeatGroup, SeatMap, SeatMapData } from '../types/Seat';
+import type { Student } from '../types/Student';
+import { SEAT_GROUP_COLORS } from '../constants';
+
+/**
+ * 班ごとの座席と、その座席に座っている生徒です。
+ */
+export interface SeatGroupMembers {
+  group: SeatGroup;
+  /** 班の座席（前から順、同じ行では左から） */
+  seats: SeatMapData[];
+  /** 班の座席に座っている生徒（座席の順） */
+  students: Student[];
+}
+
+/**
+ * 既存の班と重複しない班IDを作成します（"group-1", "group-2" ...）。
+ */
+export const createSeatGroupId = (groups: SeatGroup[]): string => {
+  const usedIds = new Set(groups.map(group => group.id));
+  let index = groups.length + 1;
+  while (usedIds.has(`group-${index}`)) index++;
+  return `group-${index}`;
+};
+
+/**
+ * 新しい班を作成します。名前は「{番号}班」、色は候補の中から順番に選びます。
+ */
+export const createSeatGroup = (groups: SeatGroup[]): SeatGroup => {
+  const usedNames = new Set(groups.map(group => group.name));
+  let index = groups.length + 1;
+  while (usedNames.has(`${index}班`)) index++;
+  return {
+    id: createSeatGroupId(groups),
+    name: `${index}班`,
+    color: SEAT_GROUP_COLORS[groups.length % SEAT_GROUP_COLORS.length],
+  };
+};
+
+/**
+ * 指定した座席を班に入れます。groupId に null を渡すと、どの班にも属さない状態に戻します。
+ */
+export const assignSeatsToGroup = (seatMap: SeatMap, seatIds: string[], groupId: string | null): SeatMap => {
+  const targetIds = new Set(seatIds);
+  return seatMap.map(seat => targetIds.has(seat.seatId) ? { ...seat, groupId } : seat);
+};
+
+/**
+ * 座席が1つもない班と、存在しない班を指している座席の班の設定を取り除きます。
+ */
+export const pruneSeatGroups = (seatMap: SeatMap, groups: SeatGroup[]): { seatMap: SeatMap; groups: SeatGroup[] } => {
+  const groupIds = new Set(groups.map(group => group.id));
+  const prunedSeatMap = seatMap.map(seat =>
+    seat.groupId && !groupIds.has(seat.groupId) ? { ...seat, groupId: null } : seat
+  );
+  const usedGroupIds = new Set(prunedSeatMap.map(seat => seat.groupId));
+  return { seatMap: prunedSeatMap, groups: groups.filter(group => usedGroupIds.has(group.id)) };
+};
+
+const compareSeatOrder = (a: SeatMapData, b: SeatMapData) => a.row - b.row || a.col - b.col || a.x - b.x;
+
+/**
+ * 使用できる座席を、行数 × 列数のブロックごとに班にまとめます。既存の班の設定は置き換えます。
+ * 班は前のブロックから順に、同じ段では左から「1班」「2班」…と名前を付けます。
+ */
+export const generateBlockGroups = (
+  seatMap: SeatMap,
+  blockRows: number,
+  blockCols: number,
+): { seatMap: SeatMap; groups: SeatGroup[] } => {
+  const blockKey = (seat: SeatMapData) => [Math.floor((seat.row - 1) / blockRows), Math.floor((seat.col - 1) / blockCols)];
+  const blocks = new Map<string, SeatMapData[]>();
+  seatMap
+    .filter(seat => seat.isUsable)
+    .sort((a, b) => {
+      const [aRow, aCol] = blockKey(a);
+      const [bRow, bCol] = blockKey(b);
+      return aRow - bRow || aCol - bCol || compareSeatOrder(a, b);
+    })
+    .forEach(seat => {
+      const key = blockKey(seat).join('-');
+      blocks.set(key, [...(blocks.get(key) ?? []), seat]);
+    });
+
+  const groups: SeatGroup[] = [];
+  const groupIdBySeatId = new Map<string, string>();
+  blocks.forEach(seats => {
+    const group = createSeatGroup(groups);
+    groups.push(group);
+    seats.forEach(seat => groupIdBySeatId.set(seat.seatId, group.id));
+  });
+
+  return {
+    seatMap: seatMap.map(seat => ({ ...seat, groupId: groupIdBySeatId.get(seat.seatId) ?? null })),
+    groups,
+  };
+};
+
+/**
+ * 班ごとに、座席とそこに座っている生徒をまとめます（座席が1つもない班は含めません）。
+ */
+export const getSeatGroupMembers = (seatMap: SeatMap, groups: SeatGroup[], students: Student[]): SeatGroupMembers[] => {
+  const studentById = new Map(students.map(student => [student.id, student]));
+  return groups
+    .map(group => {
+      const seats = seatMap.filter(seat => seat.groupId === group.id).sort(compareSeatOrder);
+      const members = seats
+        .map(seat => (seat.isUsable && seat.assignedStudentId ? studentById.get(seat.assignedStudentId) : undefined))
+        .filter((student): student is Student => student !== undefined);
+      return { group, seats, students: members };
+    })
+    .filter(entry => entry.seats.length > 0);
+};
+
+/**
+ * 班ごとに、表示する見出しの位置となる座席（いちばん前の、いちばん左の座席）を求めます。
+ */
+export const getGroupLabelSeatIds = (seatMap: SeatMap): Map<string, string> => {
+  const labelSeats = new Map<string, SeatMapData>();
+  seatMap.forEach(seat => {
+    if (!seat.groupId) return;
+    const current = labelSeats.get(seat.groupId);
+    if (!current || seat.y < current.y || (seat.y === current.y && seat.x < current.x)) {
+      labelSeats.set(seat.groupId, seat);
+    }
+  });
+  return new Map([...labelSeats].map(([groupId, seat]) => [groupId, seat.seatId]));
+};
+
+/**
+ * 班のない旧形式の座席に、班に属さない設定（groupId: null）を補います。
+ */
+export const migrateSeatGroups = (seatMap: SeatMap): SeatMap =>
+  seatMap.map(seat => ({ ...seat, groupId: seat.groupId ?? null }));
@@ -0,0 +1,311 @@
+// src/utils/seatLayout.ts
+
+import type { SeatMap, SeatMapData, SeatUsablePattern } from '../types/Seat';
+import type { RoomFeature } from '../types/RoomFeature';
+import {
+  SEAT_LAYOUT_GAP,
+  SEAT_LAYOUT_HEIGHT,
+  SEAT_LAYOUT_SNAP_SIZE,
+  SEAT_LAYOUT_WIDTH,
+} from '../constants';
+
+// 格子状に並べたときの、隣の座席までの距離
+const SEAT_PITCH_X = SEAT_LAYOUT_WIDTH + SEAT_LAYOUT_GAP;
+const SEAT_PITCH_Y = SEAT_LAYOUT_HEIGHT + SEAT_LAYOUT_GAP;
+
+/**
+ * 値を格子の間隔に揃えます。
+ */
+export const snapToGrid = (value: number, gridSize: number = SEAT_LAYOUT_SNAP_SIZE): number =>
+  Math.round(value / gridSize) * gridSize;
+
+/**
+ * レイアウト上の位置から、表形式の出力で使う行番号・列番号を求めます（1 始まり）。
+ */
+export const getGridPosition = (x: number, y: number): { row: number; col: number } => ({
+  row: Math.max(1, Math.round(y / SEAT_PITCH_Y) + 1),
+  col: Math.max(1, Math.round(x / SEAT_PITCH_X) + 1),
+});
+
+/**
+ * 行番号・列番号から、格子状に並べたときのレイアウト上の位置を求めます。
+ */
+export const getTemplatePosition = (row: number, col: number): { x: number; y: number } => ({
+  x: (col - 1) * SEAT_PITCH_X,
+  y: (row - 1) * SEAT_PITCH_Y,
+});
+
+/**
+ * 座席の位置を変更し、行番号・列番号も新しい位置に合わせます。
+ * 位置は原点より左・上にはみ出さないようにします。
+ */
+export const moveSeat = (seat: SeatMapData, x: number, y: number): SeatMapData => {
+  const clampedX = Math.max(0, x);
+  const clampedY = Math.max(0, y);
+  return { ...seat, x: clampedX, y: clampedY, ...getGridPosition(clampedX, clampedY) };
+};
+
+/**
+ * 既存の座席と重複しない座席IDを作成します（"seat-1", "seat-2" ...）。
+ * 座席IDは座席を識別するためだけのもので、位置や表示名を表しません。
+ */
+export const createSeatId = (seatMap: SeatMap): string => {
+  const usedIds = new Set(seatMap.map(seat => seat.seatId));
+  let index = seatMap.length + 1;
+  while (usedIds.has(`seat-${index}`)) index++;
+  return `seat-${index}`;
+};
+
+/**
+ * 行番号・列番号から、既存の座席と重複しない初期の座席名を作成します（"1-1", "1-2" ...）。
+ * 同じ名前の座席がある場合は "1-1 (2)" のように番号を付けます。
+ */
+export const createSeatLabel = (seatMap: SeatMap, row: number, col: number): string => {
+  const usedLabels = new Set(seatMap.map(seat => seat.label));
+  const base = `${row}-${col}`;
+  if (!usedLabels.has(base)) return base;
+  let index = 2;
+  while (usedLabels.has(`${base} (${index})`)) index++;
+  return `${base} (${index})`;
+};
+
+/**
+ * 座席IDから、画面や出力に表示する座席名を求めます。座席が見つからない場合は座席IDをそのまま返します。
+ */
+export const getSeatLabel = (seatMap: SeatMap, seatId: string): string =>
+  seatMap.find(seat => seat.seatId === seatId)?.label || seatId;
+
+/**
+ * 対象の座席の使用可否を、並べ方（一席おき・市松模様）に合わせて設定します。
+ * 空ける座席は使用不可に、それ以外の座席は使用可能にするため、並べ方を変えて何度でも適用し直せます。
+ * 対象の座席のうち最も前の行・最も左の列の座席は使用可能のまま残します。
+ */
+export const applySeatUsablePattern = (
+  seatMap: SeatMap,
+  targetSeatIds: Set<string>,
+  pattern: SeatUsablePattern,
+): SeatMap => {
+  const targets = seatMap.filter(seat => targetSeatIds.has(seat.seatId));
+  if (targets.length === 0) return seatMap;
+  const firstRow = Math.min(...targets.map(seat => seat.row));
+  const firstCol = Math.min(...targets.map(seat => seat.col));
+  return seatMap.map(seat => {
+    if (!targetSeatIds.has(seat.seatId)) return seat;
+    const colOffset = seat.col - firstCol;
+    const rowOffset = seat.row - firstRow;
+    const isUsable = pattern === 'checkerboard' ? (rowOffset + colOffset) % 2 === 0 : colOffset % 2 === 0;
+    return seat.isUsable === isUsable ? seat : { ...seat, isUsable };
+  });
+};
+
+/**
+ * 対象の座席のうち、指定した列番号の座席を通路として使用不可にします。ほかの座席の使用可否は変えません。
+ */
+export const setAisleColumn = (seatMap: SeatMap, targetSeatIds: Set<string>, col: number): SeatMap =>
+  seatMap.map(seat =>
+    targetSeatIds.has(seat.seatId) && seat.col === col && seat.isUsable ? { ...seat, isUsable: false } : seat
+  );
+
+// 2つの座席が、レイアウト上の位置で前後・左右に何席分離れているか（格子状に並べたときの間隔を1席とし、近い方の整数に丸める）
+const getSeatOffset = (a: SeatMapData, b: SeatMapData) => ({
+  rows: Math.round(Math.abs(a.y - b.y) / SEAT_PITCH_Y),
+  cols: Math.round(Math.abs(a.x - b.x) / SEAT_PITCH_X),
+});
+
+/**
+ * 2つの座席の距離を、レイアウト上の位置から数えた席数で求めます。斜めの隣も1席と数えるため、前後左右・斜めの隣の席は 1 になります。
+ * 行番号・列番号ではなく位置の差から数えるため、自由に配置した座席でも実際の離れ具合で判定できます（格子状の配置では行番号・列番号の差と同じです）。
+ */
+export const getSeatDistance = (a: SeatMapData, b: SeatMapData): number => {
+  const { rows, cols } = getSeatOffset(a, b);
+  return Math.max(rows, cols);
+};
+
+/**
+ * 2つの座席が、レイアウト上の位置で前後左右の隣どうしかを判定します。斜めの隣は含めません。
+ */
+export const isSeatAdjacent = (a: SeatMapData, b: SeatMapData): boolean => {
+  const { rows, cols } = getSeatOffset(a, b);
+  return rows + cols === 1;
+};
+
+/**
+ * 2つの座席が、レイアウト上の位置で左右の隣どうしかを判定します。前後の隣と斜めの隣は含めません。
+ */
+export const isSeatSideBySide = (a: SeatMapData, b: SeatMapData): boolean => {
+  const { rows, cols } = getSeatOffset(a, b);
+  return rows === 0 && cols === 1;
+};
+
+/**
+ * 座席IDから座席を引く索引を作成します。描画のたびに座席マップを先頭から探さずに済むよう、座席マップが変わったときだけ作り直して使います。
+ */
+export const indexSeatsById = (seatMap: SeatMap): Map<string, SeatMapData> =>
+  new Map(seatMap.map(seat => [seat.seatId, seat]));
+
+/**
+ * 座席レイアウト上の長方形の範囲（px）です。
+ */
+export interface LayoutRect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/**
+ * 範囲に一部でも重なる座席だけを取り出します。回転した座席は、中心を軸に回転させたときに外接する正方形で考えます。
+ */
+export const getSeatsInRect = (seatMap: SeatMap, rect: LayoutRect): SeatMap => {
+  const diagonal = Math.hypot(SEAT_LAYOUT_WIDTH, SEAT_LAYOUT_HEIGHT);
+  return seatMap.filter(seat => {
+    const marginX = seat.rotation % 180 === 0 ? 0 : (diagonal - SEAT_LAYOUT_WIDTH) / 2;
+    const marginY = seat.rotation % 180 === 0 ? 0 : (diagonal - SEAT_LAYOUT_HEIGHT) / 2;
+    return seat.x - marginX < rect.right
+      && seat.x + SEAT_LAYOUT_WIDTH + marginX > rect.left
+      && seat.y - marginY < rect.bottom
+      && seat.y + SEAT_LAYOUT_HEIGHT + marginY > rect.top;
+  });
+};
+
+/**
+ * 行数 × 列数の格子状の座席マップ（テンプレート）を作成します。
+ * 同じ行番号・列番号の座席が既存のマップにあれば、座席ID・座席名・割り当て状況・使用可否・班・タグを引き継ぎます。
+ */
+export const createGridSeatMap = (rows: number, cols: number, existingSeatMap: SeatMap = []): SeatMap => {
+  const existingByPosition = new Map<string, SeatMapData>();
+  existingSeatMap.forEach(seat => {
+    const key = `${seat.row}-${seat.col}`;
+    if (!existingByPosition.has(key)) existingByPosition.set(key, seat);
+  });
+  const seats: SeatMapData[] = [];
+  for (let r = 1; r <= rows; r++) {
+    for (let c = 1; c <= cols; c++) {
+      const existingSeat = existingByPosition.get(`${r}-${c}`);
+      seats.push({
+        seatId: existingSeat ? existingSeat.seatId : createSeatId([...existingSeatMap, ...seats]),
+        label: existingSeat ? existingSeat.label : createSeatLabel(seats, r, c),
+        row: r,
+        col: c,
+        assignedStudentId: existingSeat ? existingSeat.assignedStudentId : null,
+        isUsable: existingSeat ? existingSeat.isUsable : true,
+        ...getTemplatePosition(r, c),
+        rotation: 0,
+        groupId: existingSeat ? existingSeat.groupId : null,
+        tags: existingSeat ? existingSeat.tags : [],
+      });
+    }
+  }
+  return seats;
+};
+
+/**
+ * 指定した位置に新しい空席を作成します。座席名は位置の行番号・列番号から付けます。
+ */
+export const createSeat = (seatMap: SeatMap, x: number, y: number): SeatMapData => {
+  const seat = moveSeat({
+    seatId: createSeatId(seatMap),
+    label: '',
+    row: 1,
+    col: 1,
+    assignedStudentId: null,
+    isUsable: true,
+    x: 0,
+    y: 0,
+    rotation: 0,
+    groupId: null,
+    tags: [],
+  }, x, y);
+  return { ...seat, label: createSeatLabel(seatMap, seat.row, seat.col) };
+};
+
+/**
+ * 座席を複製します。複製した座席は右隣に置き、使用可否・向き・班・タグを引き継ぎます（生徒の割り当ては引き継ぎません）。
+ */
+export const duplicateSeat = (seatMap: SeatMap, seat: SeatMapData): SeatMapData => ({
+  ...createSeat(seatMap, seat.x + SEAT_PITCH_X, seat.y),
+  isUsable: seat.isUsable,
+  rotation: seat.rotation,
+  groupId: seat.groupId,
+  tags: [...seat.tags],
+});
+
+/**
+ * 新しい座席を置く位置として、既存の座席と重ならない最初の位置を探します。
+ * 最後列の右隣から探し始め、見つからなければ新しい行の左端に置きます。
+ */
+export const findFreeSeatPosition = (seatMap: SeatMap): { x: number; y: number } => {
+  if (seatMap.length === 0) return { x: 0, y: 0 };
+  const overlaps = (x: number, y: number) => seatMap.some(seat =>
+    Math.abs(seat.x - x) < SEAT_LAYOUT_WIDTH && Math.abs(seat.y - y) < SEAT_LAYOUT_HEIGHT
+  );
+  const lastY = Math.max(...seatMap.map(seat => seat.y));
+  const rightmostX = Math.max(...seatMap.filter(seat => seat.y === lastY).map(seat => seat.x));
+  const candidate = { x: rightmostX + SEAT_PITCH_X, y: lastY };
+  if (!overlaps(candidate.x, candidate.y)) return candidate;
+  return { x: 0, y: lastY + SEAT_PITCH_Y };
+};
+
+/**
+ * 座席マップ全体を囲む大きさ（px）を求めます。原点は常に含めます。
+ * 回転した座席がはみ出さないよう、座席の対角線の長さ分の余白を見込みます。
+ */
+export const getSeatMapBounds = (seatMap: SeatMap): { width: number; height: number } => {
+  if (seatMap.length === 0) return { width: SEAT_LAYOUT_WIDTH, height: SEAT_LAYOUT_HEIGHT };
+  const diagonal = Math.hypot(SEAT_LAYOUT_WIDTH, SEAT_LAYOUT_HEIGHT);
+  const extent = (seat: SeatMapData, size: number) =>
+    seat.rotation % 180 === 0 ? size : size + (diagonal - size) / 2;
+  return {
+    width: Math.max(...seatMap.map(seat => seat.x + extent(seat, SEAT_LAYOUT_WIDTH))),
+    height: Math.max(...seatMap.map(seat => seat.y + extent(seat, SEAT_LAYOUT_HEIGHT))),
+  };
+};
+
+/**
+ * 座席と教室の設備をすべて囲む範囲（px）を求めます。座席の原点（0, 0）は常に含めます。
+ * 設備は座席より前や左に置けるため、left / top は負の値になることがあります。
+ */
+export const getLayoutBounds = (
+  seatMap: SeatMap,
+  roomFeatures: RoomFeature[] = [],
+): { left: number; top: number; width: number; height: number } => {
+  const seatBounds = getSeatMapBounds(seatMap);
+  let left = 0;
+  let top = 0;
+  let right = seatBounds.width;
+  let bottom = seatBounds.height;
+  roomFeatures.forEach(feature => {
+    // 回転した設備は、中心を軸に回転させたときに外接する長方形で考える
+    const radians = (feature.rotation * Math.PI) / 180;
+    const halfWidth = (Math.abs(feature.width * Math.cos(radians)) + Math.abs(feature.height * Math.sin(radians))) / 2;
+    const halfHeight = (Math.abs(feature.width * Math.sin(radians)) + Math.abs(feature.height * Math.cos(radians))) / 2;
+    const centerX = feature.x + feature.width / 2;
+    const centerY = feature.y + feature.height / 2;
+    left = Math.min(left, centerX - halfWidth);
+    top = Math.min(top, centerY - halfHeight);
+    right = Math.max(right, centerX + halfWidth);
+    bottom = Math.max(bottom, centerY + halfHeight);
+  });
+  return { left, top, width: right - left, height: bottom - top };
+};
+
+/**
+ * 位置を持たない旧形式の座席に、行番号・列番号から格子状の位置を設定します。
+ */
+export const migrateSeatPositions = (seatMap: SeatMap): SeatMap =>
+  seatMap.map(seat => {
+    if (typeof seat.x === 'number' && typeof seat.y === 'number') {
+      return { ...seat, rotation: seat.rotation ?? 0 };
+    }
+    return { ...seat, ...getTemplatePosition(seat.row, seat.col), rotation: 0 };
+  });
+
+/**
+ * 座席名を持たない旧形式の座席に、行番号・列番号から座席名を設定します。
+ * 座席IDは固定座席やルーレットの履歴から参照されているため、そのまま引き継ぎます。
+ */
+export const migrateSeatLabels = (seatMap: SeatMap): SeatMap =>
+  seatMap.reduce<SeatMap>((migrated, seat) => [
+    ...migrated,
+    seat.label ? seat : { ...seat, label: createSeatLabel([...migrated, ...seatMap], seat.row, seat.col) },
+  ], []);
@@ -0,0 +1,77 @@
+// src/utils/seatTags.ts
+
+import type { BuiltInSeatTagId, SeatMap, SeatMapData } from '../types/Seat';
+import { BUILT_IN_SEAT_TAGS, SEAT_TAG_FRONT_ROW_COUNT } from '../constants';
+
+const BUILT_IN_SEAT_TAG_IDS = Object.keys(BUILT_IN_SEAT_TAGS) as BuiltInSeatTagId[];
+
+/**
+ * タグが組み込みのタグかどうかを判定します。
+ */
+export const isBuiltInSeatTag = (tag: string): tag is BuiltInSeatTagId =>
+  (BUILT_IN_SEAT_TAG_IDS as string[]).includes(tag);
+
+/**
+ * タグの表示名を求めます。組み込みのタグは表示名を、先生が作ったタグは名前をそのまま返します。
+ */
+export const getSeatTagLabel = (tag: string): string =>
+  isBuiltInSeatTag(tag) ? BUILT_IN_SEAT_TAGS[tag].label : tag;
+
+/**
+ * 入力されたタグ名を、保存するタグに変換します。
+ * 組み込みのタグの表示名（例: "窓側"）が入力された場合は、組み込みのタグのIDにします。空の場合は null を返します。
+ */
+export const normalizeSeatTagName = (name: string): string | null => {
+  const trimmed = name.trim();
+  if (!trimmed) return null;
+  return BUILT_IN_SEAT_TAG_IDS.find(id => id === trimmed || BUILT_IN_SEAT_TAGS[id].label === trimmed) ?? trimmed;
+};
+
+/**
+ * 座席のタグをすべて求めます。位置から自動で付くタグ（前列）と、座席に保存したタグを合わせ、
+ * 組み込みのタグを先に、先生が作ったタグを後に並べます。
+ */
+export const getSeatTags = (seat: SeatMapData): string[] => {
+  const tags = new Set(seat.tags);
+  if (seat.row <= SEAT_TAG_FRONT_ROW_COUNT) tags.add('front');
+  return [
+    ...BUILT_IN_SEAT_TAG_IDS.filter(id => tags.has(id)),
+    ...[...tags].filter(tag => !isBuiltInSeatTag(tag)),
+  ];
+};
+
+/**
+ * 座席にタグが付いているかどうかを判定します（位置から自動で付くタグを含む）。
+ */
+export const seatHasTag = (seat: SeatMapData, tag: string): boolean =>
+  getSeatTags(seat).includes(tag);
+
+/**
+ * タグが付いている座席を求めます（位置から自動で付くタグを含む）。固定座席の設定や座席の条件で使います。
+ */
+export const getSeatsWithTag = (seatMap: SeatMap, tag: string): SeatMapData[] =>
+  seatMap.filter(seat => seatHasTag(seat, tag));
+
+/**
+ * 座席マップで使えるタグの一覧を求めます。組み込みのタグすべてと、いずれかの座席に付いている先生が作ったタグです。
+ */
+export const getAvailableSeatTags = (seatMap: SeatMap): string[] => {
+  const customTags = new Set(seatMap.flatMap(seat => seat.tags).filter(tag => !isBuiltInSeatTag(tag)));
+  return [...BUILT_IN_SEAT_TAG_IDS, ...[...customTags].sort((a, b) => a.localeCompare(b, 'ja'))];
+};
+
+/**
+ * 座席にタグを付ける、または外します。位置から自動で付くタグ（前列）は変更できません。
+ */
+export const setSeatTag = (seat: SeatMapData, tag: string, enabled: boolean): SeatMapData => {
+  if (isBuiltInSeatTag(tag) && BUILT_IN_SEAT_TAGS[tag].isDerived) return seat;
+  const hasTag = seat.tags.includes(tag);
+  if (enabled === hasTag) return seat;
+  return { ...seat, tags: enabled ? [...seat.tags, tag] : seat.tags.filter(t => t !== tag) };
+};
+
+/**
+ * タグのない旧形式の座席に、空のタグを補います。
+ */
+export const migrateSeatTags = (seatMap: SeatMap): SeatMap =>
+  seatMap.map(seat => ({ ...seat, tags: Array.isArray(seat.tags) ? seat.tags : [] }));
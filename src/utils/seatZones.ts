@@ -0,0 +1,80 @@
+// src/utils/seatZones.ts
+
+import type { FixedSeatAssignment, SeatMap, SeatMapData, SeatZone, SeatZoneAssignment } from '../types/Seat';
+import type { Student } from '../types/Student';
+import { getSeatingTargets } from './roster';
+import { getSeatLabel } from './seatLayout';
+import { getSeatTagLabel, seatHasTag } from './seatTags';
+
+/**
+ * 座席の範囲に含まれる、使用可能な座席を求めます。
+ */
+export const getSeatZoneSeats = (seatMap: SeatMap, zone: SeatZone): SeatMapData[] => {
+  const isInZone = (seat: SeatMapData): boolean => {
+    switch (zone.kind) {
+      case 'seats': return zone.seatIds.includes(seat.seatId);
+      case 'rows': return zone.rows.includes(seat.row);
+      case 'columns': return zone.columns.includes(seat.col);
+      case 'tag': return seatHasTag(seat, zone.tag);
+    }
+  };
+  return seatMap.filter(seat => seat.isUsable && isInZone(seat));
+};
+
+/**
+ * 座席の範囲を画面に表示する文に変換します（例: "前から1・2行目", "タグ: 窓側"）。
+ */
+export const describeSeatZone = (zone: SeatZone, seatMap: SeatMap): string => {
+  switch (zone.kind) {
+    case 'seats': return zone.seatIds.map(seatId => getSeatLabel(seatMap, seatId)).join(', ');
+    case 'rows': return `前から${[...zone.rows].sort((a, b) => a - b).join('・')}行目`;
+    case 'columns': return `${[...zone.columns].sort((a, b) => a - b).join('・')}列目`;
+    case 'tag': return `タグ: ${getSeatTagLabel(zone.tag)}`;
+  }
+};
+
+/**
+ * 座席の範囲を、範囲の中の座席の数で確かめます。
+ * 固定座席に使う座席を除いて、範囲に座れる座席がない生徒と、範囲の中に座らせる生徒が範囲の座席より多い範囲を見つけ、説明を返します。
+ * 席替えから除外された生徒は数えません。
+ */
+export const findSeatZoneCapacityIssues = (
+  students: Student[],
+  seatMap: SeatMap,
+  fixedSeatAssignments: FixedSeatAssignment[],
+  seatZoneAssignments: SeatZoneAssignment[],
+): string[] => {
+  const targets = getSeatingTargets(students);
+  const targetIds = new Set(targets.map(student => student.id));
+  const studentById = new Map(targets.map(student => [student.id, student]));
+  const fixedSeatIds = new Set(
+    fixedSeatAssignments.filter(fsa => targetIds.has(fsa.studentId)).map(fsa => fsa.seatId)
+  );
+  const zones = seatZoneAssignments
+    .filter(assignment => targetIds.has(assignment.studentId))
+    .map(assignment => ({
+      assignment,
+      seatIds: new Set(
+        getSeatZoneSeats(seatMap, assignment.zone).map(seat => seat.seatId).filter(seatId => !fixedSeatIds.has(seatId))
+      ),
+    }));
+
+  const messages: string[] = [];
+  const checkedZones = new Set<string>();
+  zones.forEach(({ assignment, seatIds }) => {
+    const zoneLabel = describeSeatZone(assignment.zone, seatMap);
+    if (seatIds.size === 0) {
+      messages.push(`生徒 ${studentById.get(assignment.studentId)?.name} の座席の範囲（${zoneLabel}）に座れる座席がありません。`);
+      return;
+    }
+    const zoneKey = [...seatIds].sort().join(',');
+    if (checkedZones.has(zoneKey)) return;
+    checkedZones.add(zoneKey);
+    // この範囲の中にしか座れない生徒（範囲がこの範囲に含まれる生徒）が、範囲の座席より多ければ全員は座れない
+    const insideCount = zones.filter(other => other.seatIds.size > 0 && [...other.seatIds].every(seatId => seatIds.has(seatId))).length;
+    if (insideCount > seatIds.size) {
+      messages.push(`座席の範囲（${zoneLabel}）に座らせる生徒 (${insideCount}人) が、範囲の座席 (${seatIds.size}席) より多くなっています。`);
+    }
+  });
+  return messages;
+};
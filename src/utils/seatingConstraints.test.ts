@@ -0,0 +1,42 @@
+// src/utils/seatingConstraints.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { createGridSeatMap, getSeatDistance, moveSeat } from './seatLayout';
+import { createKeepApartConstraint, createKeepTogetherConstraint, isSeatPairAllowed } from './seatingConstraints';
+
+const notAdjacent = createKeepApartConstraint([], ['a', 'b'], 'notAdjacent', 2);
+const adjacent = createKeepTogetherConstraint([], ['a', 'b'], 'adjacent');
+
+describe('isSeatPairAllowed', () => {
+  it('格子状の配置では、行番号・列番号の差で数えた席数と同じ距離になる', () => {
+    const seatMap = createGridSeatMap(3, 4);
+    seatMap.forEach(a => {
+      seatMap.forEach(b => {
+        expect(getSeatDistance(a, b)).toBe(Math.max(Math.abs(a.row - b.row), Math.abs(a.col - b.col)));
+      });
+    });
+  });
+
+  it('自由に配置した座席は、位置から求めた行番号・列番号ではなく実際の位置で隣を判定する', () => {
+    const [template] = createGridSeatMap(1, 1);
+    // 横に少し間を空けて並べた2席。位置から求めた列番号は 1 と 3 になるが、実際には隣どうし
+    const a = moveSeat(template, 55, 0);
+    const b = moveSeat({ ...template, seatId: 'seat-2' }, 185, 0);
+    expect(b.col - a.col).toBe(2);
+
+    expect(getSeatDistance(a, b)).toBe(1);
+    expect(isSeatPairAllowed(notAdjacent, a, b)).toBe(false);
+    expect(isSeatPairAllowed(adjacent, a, b)).toBe(true);
+  });
+
+  it('自由に配置した座席の席数は、前後・左右に離れている大きい方で数える', () => {
+    const [template] = createGridSeatMap(1, 1);
+    const a = moveSeat(template, 0, 0);
+    const b = moveSeat({ ...template, seatId: 'seat-2' }, 250, 100);
+
+    expect(getSeatDistance(a, b)).toBe(2);
+    expect(isSeatPairAllowed(notAdjacent, a, b)).toBe(true);
+    expect(isSeatPairAllowed(createKeepApartConstraint([], ['a', 'b'], 'minDistance', 3), a, b)).toBe(false);
+    expect(isSeatPairAllowed(adjacent, a, b)).toBe(false);
+  });
+});
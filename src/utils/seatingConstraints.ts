@@ -0,0 +1,146 @@
+// src/utils/seatingConstraints.ts
+
+import type { KeepApartRule, KeepTogetherRule, SeatingConstraint } from '../types/Constraint';
+import type { SeatMap, SeatMapData } from '../types/Seat';
+import type { Student } from '../types/Student';
+import { KEEP_APART_RULES, KEEP_TOGETHER_RULES } from '../constants';
+import { getSeatingTargets } from './roster';
+import { getSeatDistance, isSeatAdjacent } from './seatLayout';
+
+/**
+ * 条件を満たしていない2人の生徒です。
+ */
+export interface SeatingConstraintViolation {
+  constraint: SeatingConstraint;
+  studentIds: [string, string];
+}
+
+/**
+ * 既存の条件と重複しない条件IDを作成します（"constraint-1", "constraint-2" ...）。
+ */
+export const createSeatingConstraintId = (constraints: SeatingConstraint[]): string => {
+  const usedIds = new Set(constraints.map(constraint => constraint.id));
+  let index = constraints.length + 1;
+  while (usedIds.has(`constraint-${index}`)) index++;
+  return `constraint-${index}`;
+};
+
+/**
+ * 近くに座らせない生徒の組を作成します。
+ */
+export const createKeepApartConstraint = (
+  constraints: SeatingConstraint[],
+  studentIds: string[],
+  rule: KeepApartRule,
+  distance: number,
+): SeatingConstraint => ({
+  id: createSeatingConstraintId(constraints),
+  kind: 'keepApart',
+  studentIds,
+  rule,
+  distance,
+});
+
+/**
+ * 近くに座らせる生徒の組を作成します。
+ */
+export const createKeepTogetherConstraint = (
+  constraints: SeatingConstraint[],
+  studentIds: string[],
+  rule: KeepTogetherRule,
+): SeatingConstraint => ({
+  id: createSeatingConstraintId(constraints),
+  kind: 'keepTogether',
+  studentIds,
+  rule,
+});
+
+/**
+ * 条件の2人の生徒を、それぞれの座席に座らせてよいかを判定します。
+ * 離す条件は距離（隣にしない場合は 2）以上、隣の席にする条件は前後左右の隣、同じ班にする条件は同じ班の座席であることを確かめます。
+ * 距離と隣は、自由に配置した座席でも実際の位置で判定します（getSeatDistance / isSeatAdjacent）。
+ */
+export const isSeatPairAllowed = (constraint: SeatingConstraint, a: SeatMapData, b: SeatMapData): boolean => {
+  if (constraint.kind === 'keepApart') {
+    return getSeatDistance(a, b) >= (constraint.rule === 'notAdjacent' ? 2 : constraint.distance);
+  }
+  if (constraint.rule === 'adjacent') {
+    return isSeatAdjacent(a, b);
+  }
+  return a.groupId !== null && a.groupId === b.groupId;
+};
+
+/**
+ * 条件を画面に表示する文に変換します（例: "山田・佐藤を隣にしない"）。
+ */
+export const describeSeatingConstraint = (constraint: SeatingConstraint, studentById: Map<string, Student>): string => {
+  const names = constraint.studentIds.map(id => studentById.get(id)?.name ?? '（名簿にいない生徒）').join('・');
+  if (constraint.kind === 'keepTogether') return `${names}を${KEEP_TOGETHER_RULES[constraint.rule].label}`;
+  return constraint.rule === 'notAdjacent'
+    ? `${names}を${KEEP_APART_RULES.notAdjacent.label}`
+    : `${names}を${constraint.distance}席以上離す`;
+};
+
+/**
+ * 条件の説明文（離し方・座らせ方の説明）を返します。
+ */
+export const getSeatingConstraintRuleDescription = (constraint: SeatingConstraint): string =>
+  constraint.kind === 'keepTogether'
+    ? KEEP_TOGETHER_RULES[constraint.rule].description
+    : KEEP_APART_RULES[constraint.rule].description;
+
+/**
+ * 近くに座らせる条件でつながった生徒のまとまりを、生徒IDごとに返します（AとB、BとCが組なら A・B・C が1つのまとまり）。
+ * ルーレットでは、まとまりの生徒をまとめて座席に着かせて発表します。どのまとまりにも入らない生徒は含めません。
+ */
+export const getKeepTogetherClusters = (constraints: SeatingConstraint[]): Map<string, string[]> => {
+  const clusterById = new Map<string, string[]>();
+  constraints.forEach(constraint => {
+    if (constraint.kind !== 'keepTogether') return;
+    const merged = new Set<string>();
+    constraint.studentIds.forEach(id => (clusterById.get(id) ?? [id]).forEach(member => merged.add(member)));
+    const cluster = Array.from(merged);
+    cluster.forEach(id => clusterById.set(id, cluster));
+  });
+  return clusterById;
+};
+
+/**
+ * 今回の席替えに関係する条件だけを取り出します。
+ * 名簿にいない生徒・席替えから除外された生徒は条件から外し、2人以上残った条件だけを返します。
+ */
+export const getActiveSeatingConstraints = (constraints: SeatingConstraint[], students: Student[]): SeatingConstraint[] => {
+  const targetIds = new Set(getSeatingTargets(students).map(student => student.id));
+  return constraints
+    .map(constraint => ({ ...constraint, studentIds: constraint.studentIds.filter(id => targetIds.has(id)) }))
+    .filter(constraint => constraint.studentIds.length >= 2);
+};
+
+/**
+ * 現在の座席で条件を満たしていない生徒の組を探します（座席表で手動で入れ替えた場合など）。
+ * まだ座席が決まっていない生徒は判定しません。
+ */
+export const findSeatingConstraintViolations = (
+  constraints: SeatingConstraint[],
+  students: Student[],
+  seatMap: SeatMap,
+): SeatingConstraintViolation[] => {
+  const seatByStudentId = new Map<string, SeatMapData>();
+  seatMap.forEach(seat => {
+    if (seat.isUsable && seat.assignedStudentId) seatByStudentId.set(seat.assignedStudentId, seat);
+  });
+
+  const violations: SeatingConstraintViolation[] = [];
+  getActiveSeatingConstraints(constraints, students).forEach(constraint => {
+    constraint.studentIds.forEach((a, i) => {
+      constraint.studentIds.slice(i + 1).forEach(b => {
+        const seatA = seatByStudentId.get(a);
+        const seatB = seatByStudentId.get(b);
+        if (seatA && seatB && !isSeatPairAllowed(constraint, seatA, seatB)) {
+          violations.push({ constraint, studentIds: [a, b] });
+        }
+      });
+    });
+  });
+  return violations;
+};
@@ -0,0 +1,155 @@
+// src/utils/studentAttributes.ts
+
+import type { Student } from '../types/Student';
+import type { StudentAttributeDefinition, StudentAttributeSchema } from '../types/Attribute';
+import type { StudentOutputColumn, StudentOutputFields } from '../types/Output';
+import { BOOLEAN_FALSE_VALUES, BOOLEAN_TRUE_VALUES } from '../constants';
+
+/**
+ * 既存の属性と重複しない属性IDを作成します（"attr-1", "attr-2" ...）。
+ */
+export const createAttributeId = (schema: StudentAttributeSchema): string => {
+  const usedIds = new Set(schema.map(def => def.id));
+  let index = schema.length + 1;
+  while (usedIds.has(`attr-${index}`)) index++;
+  return `attr-${index}`;
+};
+
+/**
+ * 初期値を設定した属性の定義を作成します。
+ */
+export const createAttributeDefinition = (
+  schema: StudentAttributeSchema,
+  name: string,
+): StudentAttributeDefinition => ({
+  id: createAttributeId(schema),
+  name,
+  type: 'text',
+  options: [],
+  showOnProjector: false,
+  showOnPrint: false,
+});
+
+/**
+ * 取り込んだ値や入力された値を、属性の種類に合わせた保存形式に変換します。
+ * 種類に合わない値（数値でない、選択肢にないなど）の場合は valid が false になり、value には入力値をそのまま返します。
+ */
+export const normalizeAttributeValue = (
+  def: StudentAttributeDefinition,
+  raw: string,
+): { value: string; valid: boolean } => {
+  const value = raw.trim();
+  if (value === '') return { value: '', valid: true };
+
+  switch (def.type) {
+    case 'number': {
+      const normalized = value.normalize('NFKC').replace(/,/g, '');
+      const parsed = Number(normalized);
+      return Number.isFinite(parsed) ? { value: String(parsed), valid: true } : { value, valid: false };
+    }
+    case 'boolean': {
+      const normalized = value.normalize('NFKC').toLowerCase();
+      if (BOOLEAN_TRUE_VALUES.includes(normalized)) return { value: 'true', valid: true };
+      if (BOOLEAN_FALSE_VALUES.includes(normalized)) return { value: 'false', valid: true };
+      return { value, valid: false };
+    }
+    case 'enum':
+      return { value, valid: def.options.includes(value) };
+    default:
+      return { value, valid: true };
+  }
+};
+
+/**
+ * 属性の値を一覧表・クリップボード用の文字列に変換します。
+ */
+export const formatAttributeValue = (def: StudentAttributeDefinition, value: string | undefined): string => {
+  if (!value) return '';
+  if (def.type === 'boolean') {
+    if (value === 'true') return 'はい';
+    if (value === 'false') return 'いいえ';
+  }
+  return value;
+};
+
+/**
+ * 座席の中に表示する短い文字列に変換します。
+ * はい/いいえの属性は「はい」のときだけ属性名を表示し、それ以外は値をそのまま表示します。
+ */
+export const formatAttributeBadge = (def: StudentAttributeDefinition, value: string | undefined): string => {
+  if (!value) return '';
+  if (def.type === 'boolean') return value === 'true' ? def.name : '';
+  return value;
+};
+
+/**
+ * 出力する項目の一覧を作成します。基本項目は selectedFields で、属性は showOnPrint で選択されたものを含めます。
+ */
+export const getOutputColumns = (
+  selectedFields: StudentOutputFields,
+  schema: StudentAttributeSchema,
+): StudentOutputColumn[] => {
+  const columns: StudentOutputColumn[] = [];
+  if (selectedFields.id) columns.push({ key: 'id', label: '生徒ID', getValue: s => s.id });
+  if (selectedFields.number) columns.push({ key: 'number', label: '出席番号', getValue: s => s.number });
+  if (selectedFields.name) columns.push({ key: 'name', label: '名前', getValue: s => s.name });
+  if (selectedFields.kana) columns.push({ key: 'kana', label: 'フリガナ', getValue: s => s.kana });
+  schema
+    .filter(def => def.showOnPrint)
+    .forEach(def => columns.push({ key: def.id, label: def.name, getValue: s => formatAttributeValue(def, s.attributes?.[def.id]) }));
+  return columns;
+};
+
+/**
+ * 属性の定義の変更に合わせて、生徒の属性値を整えます。
+ * 削除された属性の値を取り除き、種類が変わった属性の値を新しい種類の形式に変換します（変換できない値は空にします）。
+ */
+export const applySchemaToStudents = (students: Student[], schema: StudentAttributeSchema): Student[] =>
+  students.map(student => {
+    const attributes: Record<string, string> = {};
+    schema.forEach(def => {
+      const raw = student.attributes?.[def.id];
+      if (raw === undefined || raw === '') return;
+      const { value, valid } = normalizeAttributeValue(def, raw);
+      // 選択肢にない値は選択肢を編集し直せば戻せるよう残し、数値・はい/いいえに変換できない値は空にする
+      if (valid || def.type === 'enum') attributes[def.id] = value;
+    });
+    return { ...student, attributes };
+  });
+
+/**
+ * 旧形式（情報1〜3 の固定項目）の生徒データを属性形式に変換します。
+ * 値が入っている項目だけを「情報1」〜「情報3」というテキスト属性として作成します。
+ * 既に属性形式のデータはそのまま返します。
+ * attributeIdByField には、項目（"info1" など）ごとに作成した属性のIDを返します（取り込みの設定の変換に使います）。
+ */
+export const migrateLegacyStudents = (
+  students: Student[],
+  schema: StudentAttributeSchema = [],
+): { students: Student[]; schema: StudentAttributeSchema; attributeIdByField: Map<string, string> } => {
+  type LegacyStudent = Student & { info1?: string; info2?: string; info3?: string };
+  const legacyStudents = students as LegacyStudent[];
+  const legacyFields = (['info1', 'info2', 'info3'] as const)
+    .filter(field => legacyStudents.some(s => (s[field] ?? '').trim() !== ''));
+  if (students.every(s => s.attributes) && legacyFields.length === 0) return { students, schema, attributeIdByField: new Map() };
+
+  const migratedSchema = [...schema];
+  const idByField = new Map<string, string>();
+  legacyFields.forEach(field => {
+    const def = createAttributeDefinition(migratedSchema, `情報${field.slice(-1)}`);
+    migratedSchema.push(def);
+    idByField.set(field, def.id);
+  });
+
+  const migratedStudents = legacyStudents.map(({ info1, info2, info3, ...student }) => {
+    const legacyValues = { info1, info2, info3 };
+    const attributes = { ...(student.attributes ?? {}) };
+    idByField.forEach((id, field) => {
+      const value = (legacyValues[field as keyof typeof legacyValues] ?? '').trim();
+      if (value) attributes[id] = value;
+    });
+    return { ...student, attributes };
+  });
+
+  return { students: migratedStudents, schema: migratedSchema, attributeIdByField: idByField };
+};
@@ -0,0 +1,103 @@
+// src/utils/studentId.ts
+
+import type { Student } from '../types/Student';
+import type { StudentIdentityField, StudentImportField } from '../types/Import';
+import { STUDENT_CORE_FIELDS } from '../constants';
+
+// 識別キーの作成に使う生徒の項目
+type IdentitySource = Pick<Student, 'number' | 'name' | 'kana' | 'attributes'>;
+
+/**
+ * 文字列から 32bit の FNV-1a ハッシュ値を計算します。
+ * seed を変えることで、独立した別のハッシュ値として使えます。
+ */
+const fnv1a = (text: string, seed: number): number => {
+  let hash = seed >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash >>> 0;
+};
+
+/**
+ * 識別に使う値を正規化します。全角英数字・前後の空白・連続する空白の違いで別人扱いにならないようにします。
+ */
+const normalizeIdentityValue = (value: string): string =>
+  value
+    .normalize('NFKC')
+    .trim()
+    .replace(/\s+/g, ' ')
+    .replace(/^0+(?=\d)/, '');
+
+/**
+ * 識別に使う項目を、IDの作成に使う順序に並べます（基本項目、属性の順。属性は属性IDの番号順）。
+ * 選んだ順序や属性の表示順を変えても、同じ生徒には同じIDが作られるようにします。
+ */
+export const sortIdentityFields = (fields: StudentIdentityField[]): StudentIdentityField[] => [
+  ...STUDENT_CORE_FIELDS.filter(field => fields.includes(field)),
+  ...fields
+    .filter(field => field.startsWith('attribute:'))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true })),
+];
+
+// 識別に使う項目の値を読み出す。属性の値がない生徒は空文字として扱う
+const readIdentityValue = (student: IdentitySource, field: StudentIdentityField): string =>
+  field.startsWith('attribute:')
+    ? student.attributes?.[field.slice('attribute:'.length)] ?? ''
+    : student[field as StudentImportField] ?? '';
+
+/**
+ * 生徒の識別キー（識別に使う項目の値を連結した文字列）を作成します。
+ */
+export const getStudentIdentityKey = (
+  student: IdentitySource,
+  identityFields: StudentIdentityField[],
+): string =>
+  sortIdentityFields(identityFields).map(field => normalizeIdentityValue(readIdentityValue(student, field))).join('\u001f');
+
+/**
+ * 識別キーから決定的な生徒IDを作成します。同じ値の生徒からは常に同じIDが作られます。
+ */
+export const createStudentId = (
+  student: IdentitySource,
+  identityFields: StudentIdentityField[],
+): string => {
+  const key = getStudentIdentityKey(student, identityFields);
+  const high = fnv1a(key, 0x811c9dc5).toString(16).padStart(8, '0');
+  const low = fnv1a(key, 0x01234567).toString(16).padStart(8, '0');
+  return `student-${high}${low}`;
+};
+
+/**
+ * 生徒の一覧に決定的なIDを振り直します。
+ * 識別キーが重複する生徒には、出現順に "-2", "-3" ... の接尾辞を付けて一意にします。
+ */
+export const assignStableStudentIds = <T extends IdentitySource & Pick<Student, 'id'>>(
+  students: T[],
+  identityFields: StudentIdentityField[],
+): T[] => {
+  const seen = new Map<string, number>();
+  return students.map(student => {
+    const baseId = createStudentId(student, identityFields);
+    const count = (seen.get(baseId) ?? 0) + 1;
+    seen.set(baseId, count);
+    return { ...student, id: count === 1 ? baseId : `${baseId}-${count}` };
+  });
+};
+
+/**
+ * 既存の生徒IDと重複しない決定的なIDを作成します。名簿の編集画面で生徒を追加するときに使います。
+ * 識別キーが既存の生徒と重複する場合は assignStableStudentIds と同じく "-2", "-3" ... の接尾辞を付けます。
+ */
+export const createUniqueStudentId = (
+  student: IdentitySource,
+  identityFields: StudentIdentityField[],
+  existingIds: Set<string>,
+): string => {
+  const baseId = createStudentId(student, identityFields);
+  if (!existingIds.has(baseId)) return baseId;
+  let count = 2;
+  while (existingIds.has(`${baseId}-${count}`)) count++;
+  return `${baseId}-${count}`;
+};
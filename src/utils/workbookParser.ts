@@ -0,0 +1,80 @@
+// src/utils/workbookParser.ts
+
+import * as XLSX from 'xlsx';
+import type { WorkBook } from 'xlsx';
+import { WORKBOOK_FILE_EXTENSIONS } from '../constants';
+import type { SourceTable } from '../types/Import';
+
+/**
+ * ファイル名の拡張子から、ワークブック（Excel / OpenDocument）形式かどうかを判定します。
+ */
+export const isWorkbookFileName = (fileName: string): boolean => {
+  const lower = fileName.toLowerCase();
+  return WORKBOOK_FILE_EXTENSIONS.some(ext => lower.endsWith(ext));
+};
+
+/**
+ * ワークブックのバイト列を読み込みます。処理はすべてブラウザ内で完結し、ファイルは送信されません。
+ * @throws ワークブックとして解釈できない場合
+ */
+export const readWorkbook = (data: ArrayBuffer): WorkBook => {
+  try {
+    return XLSX.read(data, { type: 'array' });
+  } catch (error) {
+    throw new Error(`ワークブックの読み込みに失敗しました: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+/**
+ * シートのデータが入っているセル範囲（例: "A1:F41"）を返します。空のシートの場合は空文字列を返します。
+ */
+export const getSheetRange = (workbook: WorkBook, sheetName: string): string => {
+  return workbook.Sheets[sheetName]?.['!ref'] ?? '';
+};
+
+/**
+ * セル範囲の指定（例: "A2:F41"）が正しい形式かどうかを判定します。
+ */
+export const isValidCellRange = (range: string): boolean => {
+  return /^[A-Z]+[1-9]\d*(:[A-Z]+[1-9]\d*)?$/i.test(range.trim());
+};
+
+/**
+ * シートの指定範囲を、CSV の解析結果と同じ表データ（SourceTable）に変換します。
+ * セルの値は表示形式を適用した文字列として取り出し、空行は読み飛ばします。
+ * 行番号はシート上の行番号になります。
+ * @param range 読み込むセル範囲。省略した場合はシート全体を読み込みます。
+ * @throws シートが存在しない場合、またはセル範囲の指定が正しくない場合
+ */
+export const sheetToRows = (workbook: WorkBook, sheetName: string, range?: string): SourceTable => {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet) {
+    throw new Error(`シート「${sheetName}」が見つかりません。`);
+  }
+  if (range && !isValidCellRange(range)) {
+    throw new Error(`セル範囲「${range}」の指定が正しくありません。例: A1:F41`);
+  }
+
+  const normalizedRange = range ? range.trim().toUpperCase() : sheet['!ref'];
+  if (!normalizedRange) return { rows: [], lineNumbers: [], issues: [] };
+  const firstRowNumber = XLSX.utils.decode_range(normalizedRange).s.r + 1;
+
+  const sheetRows = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    raw: false,
+    defval: '',
+    blankrows: true,
+    range: normalizedRange,
+  });
+
+  const rows: string[][] = [];
+  const lineNumbers: number[] = [];
+  sheetRows.forEach((row, index) => {
+    const cells = row.map(cell => String(cell ?? '').trim());
+    if (cells.every(cell => cell === '')) return;
+    rows.push(cells);
+    lineNumbers.push(firstRowNumber + index);
+  });
+
+  return { rows, lineNumbers, issues: [] };
+};